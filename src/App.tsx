@@ -15,6 +15,7 @@ import AdminProductPage from './pages/admin/AdminProductPage';
 import AdminCreateProductPage from './pages/admin/AdminCreateProductPage';
 import AdminSalesPage from './pages/admin/AdminSalesPage';
 import AdminReservationsPage from './pages/admin/AdminReservationsPage';
+import AdminNoShowPage from './pages/admin/AdminNoShowPage';
 import AdminEditProductPage from './pages/admin/AdminEditProductPage';
 import AdminBulkSellDatePage from './pages/admin/AdminBulkSellDatePage';
 import AdminProductOrderPage from './pages/admin/AdminProductOrderPage';
@@ -27,8 +28,20 @@ import RequireAdmin from './routes/RequireAdmin';
 import { AdminSessionProvider } from './contexts/AdminSessionContext';
 import { AdminDeliveryAlertProvider } from './contexts/AdminDeliveryAlertContext';
 import AdminDeliveriesPage from './pages/admin/AdminDeliveriesPage';
+import { AdminCourierOrderAlertProvider } from './contexts/AdminCourierOrderAlertContext';
+import AdminCourierProductPage from './pages/admin/courier/AdminCourierProductPage';
+import AdminCourierProductFormPage from './pages/admin/courier/AdminCourierProductFormPage';
+import AdminCourierOrdersPage from './pages/admin/courier/AdminCourierOrdersPage';
+import AdminCourierWaybillPage from './pages/admin/courier/AdminCourierWaybillPage';
 import MainPage from './pages/MainPage';
-import CourierShopPlaceholder from './pages/shop/CourierShopPlaceholder';
+import CourierProductsPage from './pages/shop/CourierProductsPage';
+import CourierProductDetailPage from './pages/shop/CourierProductDetailPage';
+import CourierCartPage from './pages/shop/CourierCartPage';
+import CourierCheckoutPage from './pages/shop/CourierCheckoutPage';
+import CourierOrdersPage from './pages/shop/CourierOrdersPage';
+import CourierPaymentApprovePage from './pages/shop/CourierPaymentApprovePage';
+import CourierPaymentCancelPage from './pages/shop/CourierPaymentCancelPage';
+import CourierPaymentFailPage from './pages/shop/CourierPaymentFailPage';
 
 /** query params를 보존하면서 redirect (OAuth callback용) */
 function RedirectWithSearch({ to }: { to: string }) {
@@ -70,6 +83,7 @@ export default function App() {
         <Route path="/admin/shop/products/order" element={<AdminProductOrderPage />} />
         <Route path="/admin/shop/sales" element={<AdminSalesPage />} />
         <Route path="/admin/shop/reservations" element={<AdminReservationsPage />} />
+        <Route path="/admin/shop/reservations/no-show" element={<AdminNoShowPage />} />
         <Route path="/admin/shop/deliveries" element={<AdminDeliveriesPage />} />
         <Route path="/admin/shop/customers" element={<AdminCustomerPage />} />
         <Route path="/admin/shop/keywords" element={<AdminCategoryPage />} />
@@ -77,6 +91,25 @@ export default function App() {
         <Route path="/admin/shop/products/:id/edit" element={<AdminEditProductPage />} />
       </Route>
 
+      {/* ===== /admin/courier — 택배 쇼핑몰 관리자 ===== */}
+      <Route path="/admin/courier" element={<Navigate to="/admin/courier/login" replace />} />
+      <Route path="/admin/courier/login" element={<AdminLoginPage />} />
+      <Route path="/admin/courier/register" element={<AdminRegisterPage />} />
+      <Route element={
+        <AdminSessionProvider>
+          <AdminCourierOrderAlertProvider>
+            <RequireAdmin />
+          </AdminCourierOrderAlertProvider>
+        </AdminSessionProvider>
+      }>
+        <Route path="/admin/courier/products" element={<AdminCourierProductPage />} />
+        <Route path="/admin/courier/products/new" element={<AdminCourierProductFormPage />} />
+        <Route path="/admin/courier/products/:id/edit" element={<AdminCourierProductFormPage />} />
+        <Route path="/admin/courier/orders" element={<AdminCourierOrdersPage />} />
+        <Route path="/admin/courier/orders/waybill" element={<AdminCourierWaybillPage />} />
+      </Route>
+      <Route path="/admin/courier/*" element={<Navigate to="/admin/courier/login" replace />} />
+
       {/* 하위호환 redirects (기존 URL → /store/*) */}
       <Route path="/login" element={<RedirectWithSearch to="/" />} />
       <Route path="/products" element={<Navigate to="/store/products" replace />} />
@@ -90,9 +123,16 @@ export default function App() {
       <Route path="/refund" element={<Navigate to="/store/refund" replace />} />
       <Route path="/admin/*" element={<Navigate to="/admin/shop/login" replace />} />
 
-      {/* ===== /shop — 택배 쇼핑몰 (신규, placeholder) ===== */}
-      <Route path="/shop" element={<CourierShopPlaceholder />} />
-      <Route path="/shop/*" element={<CourierShopPlaceholder />} />
+      {/* ===== /shop — 택배 쇼핑몰 ===== */}
+      <Route path="/shop" element={<CourierProductsPage />} />
+      <Route path="/shop/products/:id" element={<CourierProductDetailPage />} />
+      <Route path="/shop/cart" element={<CourierCartPage />} />
+      <Route path="/shop/checkout" element={<CourierCheckoutPage />} />
+      <Route path="/shop/me/orders" element={<CourierOrdersPage />} />
+      <Route path="/shop/orders/approve" element={<CourierPaymentApprovePage />} />
+      <Route path="/shop/orders/cancel" element={<CourierPaymentCancelPage />} />
+      <Route path="/shop/orders/fail" element={<CourierPaymentFailPage />} />
+      <Route path="/shop/*" element={<Navigate to="/shop" replace />} />
 
       {/* Error pages */}
       <Route path="/401" element={<Error401Page />} />
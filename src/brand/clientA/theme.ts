@@ -22,6 +22,10 @@ export interface BrandTheme {
         redirectUri: string;
         gaKey: string;
         imgUrl: string;
+        noShowReview?: {
+            graceMinutes?: number; // 수령 마감 후 노쇼 검토 시작까지(분)
+            nextDayAt?: string; // 지정 시 다음 날 해당 시각(HH:mm)부터 검토
+        };
     };
     colors: {
         primary: {
@@ -72,6 +76,7 @@ export const theme: BrandTheme = {
         redirectUri: process.env.REACT_APP_REDIRECT_URI || '',
         gaKey: process.env.REACT_APP_GA_KEY || '',
         imgUrl: process.env.REACT_APP_IMG_URL || 'https://freshmarket.example.com',
+        noShowReview: { nextDayAt: '09:00' }, // 다음 날 오전 9시부터 노쇼 검토
     },
     colors: {
         primary: {
@@ -30,6 +30,10 @@ export interface BrandTheme {
         pickupDeadline: string;
         deliveryStart?: string;
         deliveryEnd?: string;
+        noShowReview?: {
+            graceMinutes?: number; // 수령 마감 후 노쇼 검토 시작까지(분)
+            nextDayAt?: string; // 지정 시 다음 날 해당 시각(HH:mm)부터 검토
+        };
     };
     colors: {
         primary: {
@@ -88,6 +92,7 @@ export const theme: BrandTheme = {
         pickupDeadline: '20:00',
         deliveryStart: '12:00',
         deliveryEnd: '19:30',
+        noShowReview: { graceMinutes: 30 }, // 수령 마감 30분 후부터 노쇼 검토
     },
     colors: {
         primary: {
@@ -0,0 +1,80 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+
+// 택배 관리자(/admin/courier) 전용 메뉴 (AdminHeader와 동일한 드롭다운 방식)
+export default function AdminCourierHeader() {
+  const navigate = useNavigate();
+  const location = window.location.pathname;
+
+  const go = (path: string) => {
+    if (location !== path) {
+      navigate(path);
+    }
+  };
+
+  const openAdminMenu = (event: React.MouseEvent<HTMLButtonElement>) => {
+    // 기존 메뉴가 있으면 제거하고 함수 종료 (토글 기능)
+    const existingMenu = document.querySelector('.admin-header-menu');
+    if (existingMenu) {
+      existingMenu.remove();
+      return;
+    }
+
+    const button = event.currentTarget as HTMLElement;
+    const rect = button.getBoundingClientRect();
+
+    const menu = document.createElement('div');
+    menu.className = 'fixed w-48 rounded-lg border bg-white shadow-lg overflow-hidden z-50';
+    menu.style.left = `${rect.right - 192}px`; // 192px = w-48 (48 * 4)
+    menu.style.top = `${rect.bottom + 8}px`;
+
+    const items: { label: string; path: string }[] = [
+      { label: '📦 택배 상품 관리', path: '/admin/courier/products' },
+      { label: '➕ 택배 상품 등록', path: '/admin/courier/products/new' },
+      { label: '🧾 택배 주문 관리', path: '/admin/courier/orders' },
+      { label: '🏷️ 송장번호 입력', path: '/admin/courier/orders/waybill' },
+    ];
+
+    items.forEach(item => {
+      const btn = document.createElement('button');
+      btn.className = 'w-full text-left px-3 py-2 hover:bg-gray-50 flex items-center gap-2';
+      btn.innerHTML = item.label;
+      btn.onclick = () => {
+        go(item.path);
+        menu.remove();
+      };
+      menu.appendChild(btn);
+    });
+
+    menu.classList.add('admin-header-menu');
+    document.body.appendChild(menu);
+
+    // 메뉴 외부 클릭시 닫기
+    const closeMenu = () => {
+      menu.remove();
+      document.removeEventListener('click', closeMenu);
+    };
+    setTimeout(() => document.addEventListener('click', closeMenu), 100);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-3">
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-sm font-semibold text-gray-800">택배 메뉴</span>
+        {/* 햄버거 버튼 */}
+        <button
+          type="button"
+          className="inline-flex items-center justify-center h-9 w-9 rounded-lg bg-gray-50 border border-gray-200 shadow-sm hover:bg-gray-100 hover:shadow-md active:scale-[0.98] transition-all duration-200"
+          aria-haspopup="menu"
+          aria-expanded={false}
+          aria-label="택배 관리 메뉴"
+          onClick={openAdminMenu}
+        >
+          <svg className="w-5 h-5 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M4 6h16M4 12h16M4 18h16" />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+}
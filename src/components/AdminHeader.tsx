@@ -20,6 +20,11 @@ export default function AdminHeader() {
       navigate('/admin/shop/reservations');
     }
   };
+  const goNoShow = () => {
+    if (location !== '/admin/shop/reservations/no-show') {
+      navigate('/admin/shop/reservations/no-show');
+    }
+  };
   const goDeliveries = () => {
     if (location !== '/admin/shop/deliveries') {
       navigate('/admin/shop/deliveries');
@@ -107,6 +112,15 @@ export default function AdminHeader() {
       menu.remove();
     };
 
+    // 노쇼 검토 버튼
+    const noShowBtn = document.createElement('button');
+    noShowBtn.className = 'w-full text-left px-3 py-2 hover:bg-gray-50 flex items-center gap-2';
+    noShowBtn.innerHTML = '🚫 노쇼 검토';
+    noShowBtn.onclick = () => {
+      goNoShow();
+      menu.remove();
+    };
+
     // 배달 관리 버튼
     const deliveriesBtn = document.createElement('button');
     deliveriesBtn.className = 'w-full text-left px-3 py-2 hover:bg-gray-50 flex items-center gap-2';
@@ -149,6 +163,7 @@ export default function AdminHeader() {
     menu.appendChild(bulkSellDateBtn);
     menu.appendChild(productOrderBtn);
     menu.appendChild(reservationsBtn);
+    menu.appendChild(noShowBtn);
     menu.appendChild(deliveriesBtn);
     menu.appendChild(salesBtn);
     menu.appendChild(customersBtn);
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import {
+  arrivalTimeMs,
+  completedStepCount,
+  formatKstTime,
+  formatRemaining,
+  trackingSteps,
+  type TrackedDelivery,
+} from '../utils/deliveryTracking';
+
+interface Props {
+  delivery: TrackedDelivery;
+  date: string;               // 배달일 YYYY-MM-DD (예약배달 도착 시각 계산용)
+  serverTimeOffsetMs: number; // getServerTime 기준 보정값
+  live?: boolean;             // 실시간 연결 여부
+}
+
+// 배달 진행 타임라인 + 도착까지 남은 시간
+export default function DeliveryTrackingTimeline({ delivery, date, serverTimeOffsetMs, live }: Props) {
+  const status = String(delivery.status ?? '').toUpperCase();
+  const completed = completedStepCount(delivery);
+  const arrival = arrivalTimeMs(delivery, date);
+  const counting = arrival !== null && (status === 'PAID' || status === 'OUT_FOR_DELIVERY');
+  const [nowMs, setNowMs] = useState(() => Date.now() + serverTimeOffsetMs);
+
+  // 남은 시간은 카운트다운 중에만 1초마다 갱신
+  useEffect(() => {
+    setNowMs(Date.now() + serverTimeOffsetMs);
+    if (!counting) return;
+    const timer = window.setInterval(() => setNowMs(Date.now() + serverTimeOffsetMs), 1000);
+    return () => clearInterval(timer);
+  }, [counting, serverTimeOffsetMs]);
+
+  if (status === 'CANCELED' || status === 'FAILED') {
+    return (
+      <div className="rounded-lg border border-gray-200 bg-gray-50 p-3 text-sm text-gray-600">
+        {status === 'CANCELED' ? '배달이 취소되었습니다.' : '결제가 완료되지 않은 주문입니다.'}
+      </div>
+    );
+  }
+
+  const remaining = counting && arrival !== null ? arrival - nowMs : null;
+
+  return (
+    <div className="rounded-lg border border-indigo-100 bg-indigo-50/40 p-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold text-indigo-800">배달 현황</span>
+        {live && (
+          <span className="inline-flex items-center gap-1 text-[11px] text-emerald-700">
+            <span className="h-1.5 w-1.5 rounded-full bg-emerald-500 animate-pulse" />
+            실시간
+          </span>
+        )}
+      </div>
+      {remaining !== null && arrival !== null && (
+        <div className="mt-2 rounded bg-white px-3 py-2 text-center">
+          {remaining > 0 ? (
+            <>
+              <div className="text-xs text-gray-500">도착까지</div>
+              <div className="text-2xl font-bold tabular-nums text-indigo-700">{formatRemaining(remaining)}</div>
+            </>
+          ) : (
+            <div className="text-sm font-semibold text-indigo-700">곧 도착합니다</div>
+          )}
+          <div className="text-[11px] text-gray-500">{formatKstTime(arrival)} 도착 예정</div>
+        </div>
+      )}
+      {status === 'PAID' && !delivery.acceptedAt && delivery.scheduledDeliveryHour == null && (
+        <div className="mt-2 text-xs text-gray-500">매장에서 주문을 확인하면 도착 예정 시간을 알려드립니다.</div>
+      )}
+      <ol className="mt-3 space-y-2">
+        {trackingSteps(delivery).map((step, i) => {
+          const done = i < completed;
+          const current = i === completed - 1 && status !== 'DELIVERED';
+          return (
+            <li key={step.key} className="flex items-center gap-2 text-sm">
+              <span
+                className={`h-5 w-5 flex-shrink-0 rounded-full border-2 text-[10px] font-bold grid place-items-center ${
+                  done ? 'border-indigo-600 bg-indigo-600 text-white' : 'border-gray-300 bg-white text-gray-400'
+                } ${current ? 'ring-2 ring-indigo-200' : ''}`}
+              >
+                {done ? '✓' : i + 1}
+              </span>
+              <span className={done ? 'font-medium text-gray-900' : 'text-gray-400'}>{step.label}</span>
+              {step.key === 'accepted' && done && delivery.estimatedMinutes ? (
+                <span className="text-xs text-gray-500">약 {delivery.estimatedMinutes}분 소요</span>
+              ) : null}
+              <span className="ml-auto text-xs text-gray-500">{done && step.at !== null ? formatKstTime(step.at) : ''}</span>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import React, { useMemo } from 'react';
+import { encodeQr } from '../utils/qrcode';
+
+interface Props {
+  value: string;
+  size?: number; // 표시 크기(px)
+  className?: string;
+}
+
+// QR 코드 (SVG, 가장자리 4모듈 여백 포함)
+export default function QrCode({ value, size = 220, className = '' }: Props) {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQr(value);
+    const quiet = 4;
+    let d = '';
+    modules.forEach((row, y) => row.forEach((dark, x) => {
+      if (dark) d += `M${x + quiet},${y + quiet}h1v1h-1z`;
+    }));
+    return { path: d, dimension: modules.length + quiet * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR 코드"
+      className={className}
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+}
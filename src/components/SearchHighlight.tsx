@@ -0,0 +1,23 @@
+import React from 'react';
+import { matchSearch } from '../utils/koreanSearch';
+
+interface Props {
+  text: string;
+  query: string;
+}
+
+// 검색어 일치 부분 하이라이트 (초성/오타 허용 일치 포함)
+export default function SearchHighlight({ text, query }: Props) {
+  const match = matchSearch(text, query);
+  if (!match) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  match.ranges.forEach(([start, end]) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={start} className="bg-yellow-200 px-1 rounded">{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+}
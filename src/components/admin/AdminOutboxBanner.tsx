@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { OUTBOX_STATE_LABEL, type OutboxEntry } from '../../utils/adminOutbox';
+
+interface Props {
+  entries: OutboxEntry[];
+  onRetry: () => Promise<number>;
+  onRetryEntry: (id: number) => Promise<number>; // 전송 실패 항목 다시 전송
+  onDismiss: (id: number) => Promise<void>;
+  className?: string; // 배치(여백/폭)는 화면별로 지정
+}
+
+// 오프라인 대기열 요약: 전송 대기 건수 + 충돌/실패 항목(실패는 다시 전송, 확인 후 삭제)
+export default function AdminOutboxBanner({ entries, onRetry, onRetryEntry, onDismiss, className = 'max-w-4xl mx-auto mb-4' }: Props) {
+  const [retrying, setRetrying] = useState(false);
+  if (entries.length === 0) return null;
+
+  const pendingCount = entries.filter(entry => entry.state === 'pending').length;
+  const problems = entries.filter(entry => entry.state !== 'pending');
+
+  const handleRetry = async (run: () => Promise<number>) => {
+    setRetrying(true);
+    try {
+      await run();
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  return (
+    <div className={`${className} rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm`}>
+      {pendingCount > 0 && (
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-amber-800">
+            ⏳ 오프라인 변경 <span className="font-semibold">{pendingCount}</span>건이 전송을 기다리고 있습니다.
+          </span>
+          <button
+            type="button"
+            onClick={() => handleRetry(onRetry)}
+            disabled={retrying}
+            className="h-8 px-3 rounded bg-amber-500 text-white text-xs hover:bg-amber-600 disabled:bg-gray-400"
+          >
+            {retrying ? '전송 중...' : '지금 전송'}
+          </button>
+        </div>
+      )}
+      {problems.length > 0 && (
+        <ul className={`${pendingCount > 0 ? 'mt-2 border-t border-amber-200 pt-2' : ''} space-y-1`}>
+          {problems.map(entry => (
+            <li key={entry.id} className="flex items-center justify-between gap-2">
+              <span className="min-w-0 text-gray-700">
+                <span className={`mr-1 inline-flex px-2 py-0.5 rounded-full text-[11px] ${entry.state === 'conflict' ? 'bg-purple-100 text-purple-700' : 'bg-red-100 text-red-700'}`}>
+                  {OUTBOX_STATE_LABEL[entry.state]}
+                </span>
+                <span className="break-words">{entry.label}</span>
+                {entry.message && <span className="ml-1 text-xs text-gray-500">({entry.message})</span>}
+              </span>
+              <span className="flex flex-shrink-0 gap-1">
+                {entry.state === 'failed' && (
+                  <button
+                    type="button"
+                    onClick={() => handleRetry(() => onRetryEntry(entry.id))}
+                    disabled={retrying}
+                    className="h-7 px-2 rounded bg-amber-500 text-xs text-white hover:bg-amber-600 disabled:bg-gray-400"
+                  >
+                    다시 전송
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onDismiss(entry.id)}
+                  className="h-7 px-2 rounded border border-gray-300 bg-white text-xs text-gray-600 hover:bg-gray-50"
+                >
+                  확인
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
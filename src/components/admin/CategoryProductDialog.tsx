@@ -1,7 +1,6 @@
 import React, { useEffect, useState, useCallback } from 'react';
-import { getAdminProducts, updateCategoryProducts } from '../../utils/api';
+import { getAdminProductsMapped, updateCategoryProducts, type AdminProductListItem } from '../../utils/api';
 import { useSnackbar } from '../snackbar';
-import { theme } from '../../brand';
 
 interface Props {
     categoryId: number;
@@ -11,29 +10,18 @@ interface Props {
     onSuccess: () => void;
 }
 
-interface ProductInfo {
-    id: number;
-    name: string;
-    price: number;
-    productUrl?: string;
-}
-
 export default function CategoryProductDialog({ categoryId, categoryName, initialProductIds, onClose, onSuccess }: Props) {
     const { show } = useSnackbar();
     const [loading, setLoading] = useState(true);
     const [saving, setSaving] = useState(false);
-    const [allProducts, setAllProducts] = useState<ProductInfo[]>([]);
+    const [allProducts, setAllProducts] = useState<AdminProductListItem[]>([]);
     const [selectedIds, setSelectedIds] = useState<number[]>(initialProductIds);
     const [searchTerm, setSearchTerm] = useState('');
 
     const loadProducts = useCallback(async () => {
         setLoading(true);
         try {
-            const res = await getAdminProducts();
-            const data = await res.json();
-            // AdminProductListItems 형식 대응
-            const list = Array.isArray(data) ? data : Array.isArray(data.response) ? data.response : [];
-            setAllProducts(list);
+            setAllProducts(await getAdminProductsMapped());
         } catch (e: any) {
             show(e.message || '상품 목록을 불러오지 못했습니다.', { variant: 'error' });
         } finally {
@@ -141,9 +129,9 @@ export default function CategoryProductDialog({ categoryId, categoryName, initia
                                                 </svg>
                                             )}
                                         </div>
-                                        {p.productUrl && (
+                                        {p.imageUrl && (
                                             <img
-                                                src={`${theme.config.imgUrl}/${p.productUrl}`}
+                                                src={p.imageUrl}
                                                 className="w-10 h-10 rounded object-cover border bg-gray-100"
                                                 alt=""
                                             />
@@ -0,0 +1,298 @@
+import React, { useMemo, useState } from 'react';
+import type { DeliveryZone } from '../../utils/api';
+import { computeDeliveryFee, type DeliveryFeeRules, type FeeConfig } from '../../utils/deliveryFee';
+
+interface Props {
+  rules: DeliveryFeeRules;
+  onChange: (rules: DeliveryFeeRules) => void;
+  base: Omit<FeeConfig, 'feeRules'>; // 저장 전 기본 배달비 입력값
+  zones: DeliveryZone[];
+  disabled?: boolean;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const kstToday = () => new Date().toLocaleDateString('sv-SE', { timeZone: 'Asia/Seoul' });
+// 빈 칸 = 사용 안 함
+const toOptionalNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+const inputClass = 'mt-1 h-9 w-full border rounded px-2 text-sm text-gray-900';
+
+// 배달비 규칙 편집 + 입력값 기준 배달비 미리보기
+export default function DeliveryFeeRulesEditor({ rules, onChange, base, zones, disabled }: Props) {
+  const [preview, setPreview] = useState({
+    distanceKm: '1.5',
+    amount: '20000',
+    date: kstToday(),
+    time: '14:00',
+    scheduled: false,
+    zoneId: '',
+  });
+
+  const update = (patch: Partial<DeliveryFeeRules>) => onChange({ ...rules, ...patch });
+
+  const breakdown = useMemo(() => {
+    const [hour, minute] = preview.time.split(':').map(Number);
+    const zone = zones.find(z => String(z.id) === preview.zoneId) ?? null;
+    return computeDeliveryFee({ ...base, feeRules: rules }, {
+      distanceKm: Number(preview.distanceKm) || 0,
+      amount: Number(preview.amount) || 0,
+      zone: zone ? { name: zone.name, fee: zone.fee } : null,
+      date: preview.date,
+      hour: hour || 0,
+      minute: minute || 0,
+      scheduled: preview.scheduled,
+    });
+  }, [base, rules, zones, preview]);
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-4">
+      <div className="text-sm font-semibold text-gray-700">💸 배달비 규칙</div>
+      <div className="text-xs text-gray-500 mt-0.5 mb-3">
+        구역 안 주소는 구역 배달비, 그 외는 거리 구간(없으면 기준 거리 + 100m당 요금)으로 계산한 뒤 할증/할인을 적용합니다.
+      </div>
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+        <div className="space-y-4">
+          <div>
+            <div className="flex items-center justify-between">
+              <div className="text-xs font-semibold text-gray-600">거리 구간</div>
+              <button
+                type="button"
+                onClick={() => update({ distanceTiers: [...rules.distanceTiers, { upToKm: 0, fee: base.feeNear }] })}
+                disabled={disabled}
+                className="h-7 px-2 rounded border bg-white text-xs disabled:opacity-50"
+              >
+                + 구간 추가
+              </button>
+            </div>
+            {rules.distanceTiers.length === 0 && (
+              <div className="mt-1 text-xs text-gray-400">구간이 없으면 기본 배달비 설정으로 계산합니다.</div>
+            )}
+            {rules.distanceTiers.map((tier, i) => (
+              <div key={i} className="mt-2 grid grid-cols-[1fr_1fr_auto] items-end gap-2">
+                <label className="text-xs text-gray-500">
+                  거리(km) 이하
+                  <input
+                    type="number"
+                    value={tier.upToKm}
+                    onChange={e => update({ distanceTiers: rules.distanceTiers.map((t, j) => (j === i ? { ...t, upToKm: Number(e.target.value) } : t)) })}
+                    className={inputClass}
+                    min={0}
+                    step="0.1"
+                    disabled={disabled}
+                  />
+                </label>
+                <label className="text-xs text-gray-500">
+                  배달비(원)
+                  <input
+                    type="number"
+                    value={tier.fee}
+                    onChange={e => update({ distanceTiers: rules.distanceTiers.map((t, j) => (j === i ? { ...t, fee: Number(e.target.value) } : t)) })}
+                    className={inputClass}
+                    min={0}
+                    disabled={disabled}
+                  />
+                </label>
+                <button
+                  type="button"
+                  onClick={() => update({ distanceTiers: rules.distanceTiers.filter((_, j) => j !== i) })}
+                  disabled={disabled}
+                  className="h-9 px-2 rounded border bg-white text-xs text-rose-600 disabled:opacity-50"
+                >
+                  삭제
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-500">
+              무료배달 기준 금액(원)
+              <input
+                type="number"
+                value={rules.freeOverAmount ?? ''}
+                onChange={e => update({ freeOverAmount: toOptionalNumber(e.target.value) })}
+                className={inputClass}
+                min={0}
+                placeholder="사용 안 함"
+                disabled={disabled}
+              />
+            </label>
+            <label className="text-xs text-gray-500">
+              예약배달 할증(원)
+              <input
+                type="number"
+                value={rules.scheduledSurcharge}
+                onChange={e => update({ scheduledSurcharge: Number(e.target.value) })}
+                className={inputClass}
+                min={0}
+                disabled={disabled}
+              />
+            </label>
+            <label className="text-xs text-gray-500">
+              심야 할증 시작
+              <input
+                type="time"
+                value={rules.lateNightStartHour === null ? '' : `${pad(rules.lateNightStartHour)}:${pad(rules.lateNightStartMinute)}`}
+                onChange={e => {
+                  const [hour, minute] = e.target.value.split(':').map(Number);
+                  update(e.target.value
+                    ? { lateNightStartHour: hour || 0, lateNightStartMinute: minute || 0 }
+                    : { lateNightStartHour: null, lateNightStartMinute: 0 });
+                }}
+                className={inputClass}
+                disabled={disabled}
+              />
+            </label>
+            <label className="text-xs text-gray-500">
+              심야 할증(원)
+              <input
+                type="number"
+                value={rules.lateNightSurcharge}
+                onChange={e => update({ lateNightSurcharge: Number(e.target.value) })}
+                className={inputClass}
+                min={0}
+                disabled={disabled}
+              />
+            </label>
+          </div>
+          <div>
+            <div className="flex items-center justify-between">
+              <div className="text-xs font-semibold text-gray-600">날짜별 할인</div>
+              <button
+                type="button"
+                onClick={() => update({ promotions: [...rules.promotions, { date: kstToday(), discount: 1000, label: '배달비 할인' }] })}
+                disabled={disabled}
+                className="h-7 px-2 rounded border bg-white text-xs disabled:opacity-50"
+              >
+                + 할인 추가
+              </button>
+            </div>
+            {rules.promotions.map((promo, i) => (
+              <div key={i} className="mt-2 grid grid-cols-[1fr_1fr_1fr_auto] items-end gap-2">
+                <label className="text-xs text-gray-500">
+                  배달일
+                  <input
+                    type="date"
+                    value={promo.date}
+                    onChange={e => update({ promotions: rules.promotions.map((p, j) => (j === i ? { ...p, date: e.target.value } : p)) })}
+                    className={inputClass}
+                    disabled={disabled}
+                  />
+                </label>
+                <label className="text-xs text-gray-500">
+                  안내 문구
+                  <input
+                    type="text"
+                    value={promo.label}
+                    onChange={e => update({ promotions: rules.promotions.map((p, j) => (j === i ? { ...p, label: e.target.value } : p)) })}
+                    className={inputClass}
+                    disabled={disabled}
+                  />
+                </label>
+                <label className="text-xs text-gray-500">
+                  할인(원)
+                  <input
+                    type="number"
+                    value={promo.discount}
+                    onChange={e => update({ promotions: rules.promotions.map((p, j) => (j === i ? { ...p, discount: Number(e.target.value) } : p)) })}
+                    className={inputClass}
+                    min={0}
+                    disabled={disabled}
+                  />
+                </label>
+                <button
+                  type="button"
+                  onClick={() => update({ promotions: rules.promotions.filter((_, j) => j !== i) })}
+                  disabled={disabled}
+                  className="h-9 px-2 rounded border bg-white text-xs text-rose-600 disabled:opacity-50"
+                >
+                  삭제
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="rounded border border-gray-200 bg-gray-50 p-3">
+          <div className="text-xs font-semibold text-gray-600">🧮 배달비 미리보기 (저장 전 입력값 기준)</div>
+          <div className="mt-2 grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-500">
+              배달 구역
+              <select
+                value={preview.zoneId}
+                onChange={e => setPreview(prev => ({ ...prev, zoneId: e.target.value }))}
+                className={`${inputClass} bg-white`}
+              >
+                <option value="">구역 밖 (거리 기준)</option>
+                {zones.map(zone => (
+                  <option key={zone.id} value={String(zone.id)}>{zone.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-500">
+              거리(km)
+              <input
+                type="number"
+                value={preview.distanceKm}
+                onChange={e => setPreview(prev => ({ ...prev, distanceKm: e.target.value }))}
+                className={inputClass}
+                min={0}
+                step="0.1"
+                disabled={preview.zoneId !== ''}
+              />
+            </label>
+            <label className="text-xs text-gray-500">
+              주문 금액(원)
+              <input
+                type="number"
+                value={preview.amount}
+                onChange={e => setPreview(prev => ({ ...prev, amount: e.target.value }))}
+                className={inputClass}
+                min={0}
+              />
+            </label>
+            <label className="text-xs text-gray-500">
+              배달일
+              <input
+                type="date"
+                value={preview.date}
+                onChange={e => setPreview(prev => ({ ...prev, date: e.target.value }))}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-gray-500">
+              배달 시각
+              <input
+                type="time"
+                value={preview.time}
+                onChange={e => setPreview(prev => ({ ...prev, time: e.target.value }))}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex items-end gap-2 pb-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={preview.scheduled}
+                onChange={e => setPreview(prev => ({ ...prev, scheduled: e.target.checked }))}
+              />
+              예약배달
+            </label>
+          </div>
+          <div className="mt-3 space-y-1 text-sm">
+            {breakdown.lines.map((line, i) => (
+              <div key={i} className="flex items-center justify-between">
+                <span className="text-gray-600">{line.label}</span>
+                <span className={line.amount < 0 ? 'text-rose-600' : 'text-gray-800'}>
+                  {line.amount < 0 ? '-' : ''}{Math.abs(line.amount).toLocaleString()}원
+                </span>
+              </div>
+            ))}
+            <div className="flex items-center justify-between border-t pt-1 font-semibold text-gray-900">
+              <span>배달비</span>
+              <span>{breakdown.total.toLocaleString()}원</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { DeliveryZone } from '../../utils/api';
+import { ensureKakaoMaps } from '../../utils/kakao';
+import { safeErrorLog } from '../../utils/environment';
+import { isValidPolygon, polygonCenter, type LatLng } from '../../utils/deliveryZones';
+
+type ZoneRules = Pick<DeliveryZone, 'fee' | 'minAmount' | 'startHour' | 'startMinute' | 'endHour' | 'endMinute'>;
+
+interface Props {
+  zones: DeliveryZone[];
+  onChange: (zones: DeliveryZone[]) => void;
+  center: LatLng | null; // 매장 위치 (지도 초기 중심)
+  defaults: ZoneRules;   // 새 구역 기본값 (기본 배달 설정)
+  disabled?: boolean;
+}
+
+const ZONE_COLORS = ['#10b981', '#3b82f6', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toTime = (hour: number, minute: number) => `${pad(hour)}:${pad(minute)}`;
+const fromTime = (value: string) => {
+  const [hour, minute] = value.split(':').map(Number);
+  return { hour: hour || 0, minute: minute || 0 };
+};
+
+// 배달 구역 편집: 구역 선택 후 지도를 눌러 꼭짓점 추가, 구역별 배달비/최소 주문 금액/배달 시간
+export default function DeliveryZoneEditor({ zones, onChange, center, defaults, disabled }: Props) {
+  const mapElRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<any>(null);
+  const overlaysRef = useRef<any[]>([]);
+  const tempIdRef = useRef(-1); // 저장 전 새 구역 임시 id (저장 시 서버에서 발급)
+  const [mapReady, setMapReady] = useState(false);
+  const [mapError, setMapError] = useState(false);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const addVertexAt = (latLng: any) => {
+    if (disabled || selectedId === null) return;
+    const point = { lat: latLng.getLat(), lng: latLng.getLng() };
+    onChange(zones.map(z => (z.id === selectedId ? { ...z, polygon: [...z.polygon, point] } : z)));
+  };
+  // 지도 클릭 핸들러는 한 번만 등록하므로 최신 상태의 함수를 ref로 참조
+  const addVertexRef = useRef(addVertexAt);
+  addVertexRef.current = addVertexAt;
+
+  useEffect(() => {
+    if (!center || mapRef.current) return;
+    let alive = true;
+    ensureKakaoMaps()
+      .then(() => {
+        if (!alive || !mapElRef.current) return;
+        const kakao = (window as any).kakao;
+        const position = new kakao.maps.LatLng(center.lat, center.lng);
+        const map = new kakao.maps.Map(mapElRef.current, { center: position, level: 6 });
+        new kakao.maps.Marker({ map, position, title: '매장' });
+        kakao.maps.event.addListener(map, 'click', (e: any) => addVertexRef.current(e.latLng));
+        mapRef.current = map;
+        setMapReady(true);
+      })
+      .catch(e => {
+        safeErrorLog(e, 'DeliveryZoneEditor - ensureKakaoMaps');
+        if (alive) setMapError(true);
+      });
+    return () => { alive = false; };
+  }, [center]);
+
+  // 구역 다시 그리기 (선택된 구역은 진하게 + 꼭짓점 표시)
+  useEffect(() => {
+    const kakao = (window as any).kakao;
+    const map = mapRef.current;
+    if (!mapReady || !map) return;
+    overlaysRef.current.forEach(overlay => overlay.setMap(null));
+    overlaysRef.current = zones.flatMap((zone, i) => {
+      const color = ZONE_COLORS[i % ZONE_COLORS.length];
+      const selected = zone.id === selectedId;
+      const path = zone.polygon.map(p => new kakao.maps.LatLng(p.lat, p.lng));
+      const shape = isValidPolygon(zone.polygon)
+        ? new kakao.maps.Polygon({
+          map,
+          path,
+          strokeWeight: selected ? 3 : 2,
+          strokeColor: color,
+          strokeOpacity: 0.9,
+          fillColor: color,
+          fillOpacity: selected ? 0.35 : 0.15,
+        })
+        : new kakao.maps.Polyline({ map, path, strokeWeight: 3, strokeColor: color, strokeOpacity: 0.9 });
+      // 구역 위를 눌러도 꼭짓점 추가
+      kakao.maps.event.addListener(shape, 'click', (e: any) => addVertexRef.current(e.latLng));
+      const vertices = selected
+        ? path.map((position: any) => new kakao.maps.Circle({
+          map,
+          center: position,
+          radius: 20,
+          strokeWeight: 2,
+          strokeColor: color,
+          fillColor: '#ffffff',
+          fillOpacity: 1,
+        }))
+        : [];
+      return [shape, ...vertices];
+    });
+  }, [mapReady, zones, selectedId]);
+
+  const selectZone = (zone: DeliveryZone) => {
+    const next = selectedId === zone.id ? null : zone.id;
+    setSelectedId(next);
+    const target = next !== null ? polygonCenter(zone.polygon) : null;
+    const kakao = (window as any).kakao;
+    if (target && mapRef.current && kakao?.maps) {
+      mapRef.current.panTo(new kakao.maps.LatLng(target.lat, target.lng));
+    }
+  };
+
+  const updateZone = (id: number, patch: Partial<DeliveryZone>) => {
+    onChange(zones.map(z => (z.id === id ? { ...z, ...patch } : z)));
+  };
+
+  const addZone = () => {
+    const id = tempIdRef.current--;
+    onChange([...zones, { id, name: `구역 ${zones.length + 1}`, polygon: [], ...defaults }]);
+    setSelectedId(id);
+  };
+
+  const removeZone = (zone: DeliveryZone) => {
+    if (!window.confirm(`'${zone.name}' 구역을 삭제하시겠습니까?`)) return;
+    onChange(zones.filter(z => z.id !== zone.id));
+    if (selectedId === zone.id) setSelectedId(null);
+  };
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-4">
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <div>
+          <div className="text-sm font-semibold text-gray-700">🗺️ 배달 구역</div>
+          <div className="text-xs text-gray-500 mt-0.5">
+            구역을 선택한 뒤 지도를 눌러 꼭짓점을 찍어주세요. 구역이 없으면 최대 배달 거리로 판정하고, 겹치는 곳은 위쪽 구역이 우선합니다.
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={addZone}
+          disabled={disabled}
+          className="h-9 px-3 rounded border bg-white text-sm hover:bg-gray-50 whitespace-nowrap disabled:opacity-50"
+        >
+          + 구역 추가
+        </button>
+      </div>
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+        <div className="relative">
+          <div ref={mapElRef} className="h-80 w-full rounded border border-gray-200 bg-gray-100" />
+          {!mapReady && (
+            <div className="absolute inset-0 grid place-items-center text-xs text-gray-500 px-4 text-center">
+              {mapError ? '지도를 불러오지 못했습니다. 구역 모양은 지도가 열릴 때 수정할 수 있습니다.' : '지도를 불러오는 중...'}
+            </div>
+          )}
+          {mapReady && selectedId !== null && (
+            <div className="absolute left-2 top-2 z-10 rounded bg-white/90 px-2 py-1 text-xs text-gray-700 shadow">
+              지도를 눌러 꼭짓점 추가
+            </div>
+          )}
+        </div>
+        <div className="space-y-2">
+          {zones.length === 0 && (
+            <div className="rounded border border-dashed border-gray-300 p-4 text-center text-xs text-gray-500">
+              등록된 배달 구역이 없습니다.
+            </div>
+          )}
+          {zones.map((zone, i) => {
+            const selected = zone.id === selectedId;
+            const color = ZONE_COLORS[i % ZONE_COLORS.length];
+            return (
+              <div
+                key={zone.id}
+                className={`rounded border p-3 ${selected ? 'border-emerald-500 bg-emerald-50/40' : 'border-gray-200'}`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="h-3 w-3 flex-shrink-0 rounded-full" style={{ backgroundColor: color }} />
+                  <input
+                    type="text"
+                    value={zone.name}
+                    onChange={e => updateZone(zone.id, { name: e.target.value })}
+                    className="h-9 min-w-0 flex-1 border rounded px-2 text-sm"
+                    placeholder="구역 이름"
+                    disabled={disabled}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => selectZone(zone)}
+                    className={`h-9 px-3 rounded text-xs font-semibold whitespace-nowrap ${selected ? 'bg-emerald-600 text-white' : 'border bg-white text-gray-700'}`}
+                  >
+                    {selected ? '편집 중' : '지도 편집'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => removeZone(zone)}
+                    disabled={disabled}
+                    className="h-9 px-2 rounded border bg-white text-xs text-rose-600 disabled:opacity-50"
+                  >
+                    삭제
+                  </button>
+                </div>
+                <div className="mt-2 grid grid-cols-2 gap-2">
+                  <label className="text-xs text-gray-500">
+                    배달비(원)
+                    <input
+                      type="number"
+                      value={zone.fee}
+                      onChange={e => updateZone(zone.id, { fee: Number(e.target.value) })}
+                      className="mt-1 h-9 w-full border rounded px-2 text-sm text-gray-900"
+                      min={0}
+                      disabled={disabled}
+                    />
+                  </label>
+                  <label className="text-xs text-gray-500">
+                    최소 주문 금액(원)
+                    <input
+                      type="number"
+                      value={zone.minAmount}
+                      onChange={e => updateZone(zone.id, { minAmount: Number(e.target.value) })}
+                      className="mt-1 h-9 w-full border rounded px-2 text-sm text-gray-900"
+                      min={0}
+                      disabled={disabled}
+                    />
+                  </label>
+                  <label className="text-xs text-gray-500">
+                    배달 시작
+                    <input
+                      type="time"
+                      value={toTime(zone.startHour, zone.startMinute)}
+                      onChange={e => {
+                        const { hour, minute } = fromTime(e.target.value);
+                        updateZone(zone.id, { startHour: hour, startMinute: minute });
+                      }}
+                      className="mt-1 h-9 w-full border rounded px-2 text-sm text-gray-900"
+                      disabled={disabled}
+                    />
+                  </label>
+                  <label className="text-xs text-gray-500">
+                    배달 종료
+                    <input
+                      type="time"
+                      value={toTime(zone.endHour, zone.endMinute)}
+                      onChange={e => {
+                        const { hour, minute } = fromTime(e.target.value);
+                        updateZone(zone.id, { endHour: hour, endMinute: minute });
+                      }}
+                      className="mt-1 h-9 w-full border rounded px-2 text-sm text-gray-900"
+                      disabled={disabled}
+                    />
+                  </label>
+                </div>
+                <div className="mt-2 flex items-center justify-between text-xs">
+                  <span className={isValidPolygon(zone.polygon) ? 'text-gray-500' : 'text-rose-600'}>
+                    꼭짓점 {zone.polygon.length}개{isValidPolygon(zone.polygon) ? '' : ' (3개 이상 필요)'}
+                  </span>
+                  {selected && (
+                    <span className="flex gap-1">
+                      <button
+                        type="button"
+                        onClick={() => updateZone(zone.id, { polygon: zone.polygon.slice(0, -1) })}
+                        disabled={disabled || zone.polygon.length === 0}
+                        className="h-7 px-2 rounded border bg-white disabled:opacity-50"
+                      >
+                        마지막 점 취소
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => updateZone(zone.id, { polygon: [] })}
+                        disabled={disabled || zone.polygon.length === 0}
+                        className="h-7 px-2 rounded border bg-white disabled:opacity-50"
+                      >
+                        다시 그리기
+                      </button>
+                    </span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { parsePickupPayload } from '../../utils/pickupQr';
+import { safeErrorLog } from '../../utils/environment';
+
+// BarcodeDetector (Chrome/Android 등) - TS 기본 lib에 없어 필요한 부분만 선언
+type DetectedBarcode = { rawValue: string };
+type BarcodeDetectorLike = { detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]> };
+
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options: { formats: string[] }) => BarcodeDetectorLike;
+  }
+}
+
+const createBarcodeDetector = (): BarcodeDetectorLike | null => {
+  const Detector = window.BarcodeDetector;
+  if (!Detector) return null;
+  try {
+    return new Detector({ formats: ['qr_code'] });
+  } catch {
+    return null;
+  }
+};
+
+const SCAN_INTERVAL_MS = 250;
+const SAME_CODE_COOLDOWN_MS = 3000; // 같은 QR이 계속 비치는 동안 재인식 방지
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  onScan: (displayCodes: string[]) => void;
+  paused: boolean; // 결과 확인 중에는 인식 중지
+  children?: React.ReactNode; // 인식 결과 영역
+}
+
+// 고객 수령 QR 스캐너 (카메라 미지원/거부 시 코드 직접 입력)
+export default function PickupScannerDialog({ isOpen, onClose, onScan, paused, children }: Props) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const pausedRef = useRef(paused);
+  const onScanRef = useRef(onScan);
+  const lastSeenRef = useRef<{ raw: string; at: number }>({ raw: '', at: 0 });
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [manualCode, setManualCode] = useState('');
+
+  pausedRef.current = paused;
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const detector = createBarcodeDetector();
+    if (!detector || !navigator.mediaDevices?.getUserMedia) {
+      setCameraError('이 브라우저는 QR 인식을 지원하지 않습니다. (Chrome/Android 권장) 코드를 직접 입력해 주세요.');
+      return;
+    }
+
+    let alive = true;
+    let stream: MediaStream | null = null;
+    let detecting = false;
+    let timer: ReturnType<typeof setInterval> | undefined;
+
+    (async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+        if (!alive) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = stream;
+        await video.play();
+        setCameraError(null);
+
+        timer = setInterval(async () => {
+          if (detecting || pausedRef.current || video.readyState < 2) return;
+          detecting = true;
+          try {
+            const found = await detector.detect(video);
+            const raw = found[0]?.rawValue;
+            if (!raw || !alive) return;
+            const now = Date.now();
+            const last = lastSeenRef.current;
+            lastSeenRef.current = { raw, at: now };
+            if (raw === last.raw && now - last.at < SAME_CODE_COOLDOWN_MS) return;
+            const codes = parsePickupPayload(raw);
+            if (codes.length > 0) onScanRef.current(codes);
+          } catch (e) {
+            safeErrorLog(e, 'PickupScannerDialog - detect');
+          } finally {
+            detecting = false;
+          }
+        }, SCAN_INTERVAL_MS);
+      } catch (e) {
+        safeErrorLog(e, 'PickupScannerDialog - getUserMedia');
+        if (alive) setCameraError('카메라를 사용할 수 없습니다. 권한을 확인하거나 코드를 직접 입력해 주세요.');
+      }
+    })();
+
+    return () => {
+      alive = false;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const submitManual = () => {
+    const codes = parsePickupPayload(manualCode);
+    if (codes.length === 0) return;
+    onScan(codes);
+    setManualCode('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" role="dialog" aria-modal="true">
+      <div className="w-full max-w-md rounded-lg bg-white shadow-xl">
+        <div className="flex items-center justify-between border-b p-4">
+          <h2 className="text-lg font-semibold text-gray-800">📷 QR 수령 처리</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="h-8 w-8 rounded-full border border-gray-200 bg-white hover:bg-gray-50 flex items-center justify-center"
+            aria-label="닫기"
+          >
+            ✕
+          </button>
+        </div>
+        <div className="p-4">
+          {cameraError ? (
+            <div className="rounded border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">{cameraError}</div>
+          ) : (
+            <div className="relative overflow-hidden rounded-lg bg-black">
+              <video ref={videoRef} className="aspect-square w-full object-cover" muted playsInline />
+              {paused && <div className="absolute inset-0 flex items-center justify-center bg-black/50 text-sm text-white">인식 결과를 확인해 주세요</div>}
+            </div>
+          )}
+
+          <div className="mt-3 flex gap-2">
+            <input
+              value={manualCode}
+              onChange={e => setManualCode(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') submitManual(); }}
+              placeholder="예약 코드 직접 입력 (예: R-VWQPA)"
+              className="h-10 flex-1 rounded border px-3 text-sm"
+            />
+            <button
+              type="button"
+              onClick={submitManual}
+              disabled={paused}
+              className="h-10 rounded bg-gray-700 px-3 text-sm text-white hover:bg-gray-800 disabled:bg-gray-400"
+            >
+              조회
+            </button>
+          </div>
+
+          {children}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import React from 'react';
+import { formatSlotRange, isSameSlot, type SlotCapacityConfig, type SlotTime } from '../../utils/deliverySlots';
+
+interface Props {
+  config: SlotCapacityConfig;
+  onChange: (config: SlotCapacityConfig) => void;
+  slots: SlotTime[]; // 저장 전 배달 시간/구역 입력값 기준 예약배달 시간대 (buildDeliverySlots)
+  disabled?: boolean;
+}
+
+const inputClass = 'mt-1 h-9 w-full border rounded px-2 text-sm text-gray-900';
+
+// 예약배달 시간대별 정원: 기본 정원 + 시간대별 지정 (빈 칸 = 기본 정원, 0 = 제한 없음)
+export default function ScheduledSlotCapacityEditor({ config, onChange, slots, disabled }: Props) {
+  const overrideOf = (slot: SlotTime) => config.scheduledSlotCapacities.find(c => isSameSlot(c, slot));
+
+  const setOverride = (slot: SlotTime, value: string) => {
+    const rest = config.scheduledSlotCapacities.filter(c => !isSameSlot(c, slot));
+    onChange({
+      ...config,
+      scheduledSlotCapacities: value.trim() === ''
+        ? rest
+        : [...rest, { hour: slot.hour, minute: slot.minute, capacity: Number(value) }],
+    });
+  };
+
+  // 배달 시간을 바꿔 목록에서 빠진 시간대 지정값 (저장 시 함께 정리)
+  const orphanCount = config.scheduledSlotCapacities.filter(c => !slots.some(slot => isSameSlot(slot, c))).length;
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-4">
+      <div className="text-sm font-semibold text-gray-700">⏰ 예약배달 시간대 정원</div>
+      <div className="text-xs text-gray-500 mt-0.5 mb-3">
+        시간대마다 받을 수 있는 예약배달 건수입니다. 결제 준비 시 자리를 확보하며, 정원이 차면 고객 화면에 마감으로 표시됩니다. 0은 제한 없음입니다.
+      </div>
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        <label className="text-xs text-gray-500">
+          기본 정원(건)
+          <input
+            type="number"
+            value={config.scheduledSlotCapacity}
+            onChange={e => onChange({ ...config, scheduledSlotCapacity: Number(e.target.value) })}
+            className={inputClass}
+            min={0}
+            disabled={disabled}
+          />
+        </label>
+      </div>
+      {slots.length === 0 ? (
+        <div className="mt-2 text-xs text-gray-400">배달 시간(구역이 있으면 구역별 배달 시간)이 1시간보다 짧아 예약배달 시간대가 없습니다.</div>
+      ) : (
+        <div className="mt-3 grid grid-cols-2 gap-2 sm:grid-cols-4">
+          {slots.map(slot => {
+            const override = overrideOf(slot);
+            return (
+              <label key={`${slot.hour}:${slot.minute}`} className="text-xs text-gray-500">
+                {formatSlotRange(slot)}
+                <input
+                  type="number"
+                  value={override ? override.capacity : ''}
+                  onChange={e => setOverride(slot, e.target.value)}
+                  className={`${inputClass} ${override ? 'border-emerald-400' : ''}`}
+                  min={0}
+                  placeholder={`기본 (${config.scheduledSlotCapacity > 0 ? `${config.scheduledSlotCapacity}건` : '제한 없음'})`}
+                  disabled={disabled}
+                />
+              </label>
+            );
+          })}
+        </div>
+      )}
+      {orphanCount > 0 && (
+        <div className="mt-2 text-xs text-amber-600">
+          배달 시간 밖의 시간대 지정값 {orphanCount}개는 저장 시 삭제됩니다.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { logoText, theme } from '../../brand';
+import { useCart } from '../../hooks/useCart';
+
+type Props = {
+  title?: string;
+  /** 뒤로가기 버튼 노출 여부 (목록 화면에서는 로고만 노출) */
+  showBack?: boolean;
+  /** 장바구니 아이콘 숨김 (장바구니/결제 화면) */
+  hideCart?: boolean;
+};
+
+export default function CourierHeader({ title, showBack = false, hideCart = false }: Props) {
+  const nav = useNavigate();
+  const { totalQuantity: cartCount } = useCart();
+
+  return (
+    <header className="fixed top-0 left-0 right-0 z-40 bg-white border-b border-gray-200">
+      <div className="mx-auto w-full max-w-md h-14 flex items-center px-4">
+        <div className="flex-1 flex justify-start">
+          {showBack ? (
+            <button onClick={() => nav(-1)} className="text-sm text-gray-600 hover:text-gray-800">← 뒤로</button>
+          ) : (
+            <button onClick={() => nav('/')} className="text-sm text-gray-600 hover:text-gray-800">홈</button>
+          )}
+        </div>
+
+        <div className="flex-1 flex justify-center">
+          {title ? (
+            <div className="font-bold text-gray-800 whitespace-nowrap">{title}</div>
+          ) : (
+            <button type="button" onClick={() => nav('/shop')} className="hover:opacity-80" aria-label="택배 쇼핑몰 메인">
+              <img src={logoText} alt={theme.displayName} className="h-8 object-contain" />
+            </button>
+          )}
+        </div>
+
+        <div className="flex-1 flex justify-end items-center gap-3">
+          <button
+            type="button"
+            onClick={() => nav('/shop/me/orders')}
+            className="text-xs text-gray-600 hover:text-gray-800"
+          >
+            주문내역
+          </button>
+          {!hideCart && (
+            <button
+              type="button"
+              onClick={() => nav('/shop/cart')}
+              className="relative h-10 w-10 grid place-items-center rounded-md hover:bg-gray-50"
+              aria-label={`장바구니 ${cartCount}개`}
+            >
+              <svg width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <circle cx="9" cy="21" r="1" />
+                <circle cx="20" cy="21" r="1" />
+                <path strokeLinecap="round" strokeLinejoin="round" d="M1 1h4l2.68 13.39a2 2 0 0 0 2 1.61h9.72a2 2 0 0 0 2-1.61L23 6H6" />
+              </svg>
+              {cartCount > 0 && (
+                <span
+                  className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full text-[10px] font-bold text-white grid place-items-center"
+                  style={{ backgroundColor: 'var(--color-primary-500)' }}
+                >
+                  {cartCount > 99 ? '99+' : cartCount}
+                </span>
+              )}
+            </button>
+          )}
+        </div>
+      </div>
+    </header>
+  );
+}
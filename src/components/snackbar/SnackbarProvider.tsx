@@ -1,4 +1,5 @@
 import React, { createContext, useCallback, useContext, useMemo, useRef, useState } from 'react';
+import { apiErrorBus } from '../../utils/apiError';
 
 type Variant = 'success' | 'error' | 'info';
 type SnackbarItem = { id: number; message: string; variant: Variant; duration: number };
@@ -113,20 +114,10 @@ export const SnackbarProvider: React.FC<{
   );
 };
 
-// api.ts에서 dispatch하는 'api-error' 이벤트를 수신해 스낵바로 노출
+// api.ts에서 발행하는 ApiError(notify)를 구독해 스낵바로 노출 (401/403은 AuthRedirectListener 담당)
 const ErrorEventListener: React.FC<{ onShow: (message: string, opts?: { variant?: Variant; duration?: number }) => void }>= ({ onShow }) => {
-  React.useEffect(() => {
-    const handler = () => {
-      const msg = localStorage.getItem('api-error-message');
-      const type = (localStorage.getItem('api-error-type') as Variant) || 'error';
-      if (msg) {
-        onShow(msg, { variant: type });
-        localStorage.removeItem('api-error-message');
-        localStorage.removeItem('api-error-type');
-      }
-    };
-    window.addEventListener('api-error', handler as EventListener);
-    return () => window.removeEventListener('api-error', handler as EventListener);
-  }, [onShow]);
+  React.useEffect(() => apiErrorBus.subscribe(event => {
+    if (event.kind === 'notify') onShow(event.error.message, { variant: 'error' });
+  }), [onShow]);
   return null;
 };
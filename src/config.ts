@@ -1 +1,3 @@
-export const USE_MOCKS = (process.env.REACT_APP_USE_MOCKS ?? 'false') === 'true';
\ No newline at end of file
+export const USE_MOCKS = (process.env.REACT_APP_USE_MOCKS ?? 'false') === 'true';
+// 브라우저 내 모의 서버 (src/mocks/server): 실제 api.ts 호출을 fetch 단계에서 가로챔
+export const USE_MOCK_SERVER = (process.env.REACT_APP_MOCK_SERVER ?? 'false') === 'true';
@@ -0,0 +1,154 @@
+import React, { createContext, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { safeErrorLog } from '../utils/environment';
+import { USE_MOCKS } from '../config';
+import { getAdminCourierOrders, type AdminCourierOrder } from '../utils/api';
+
+const POLL_INTERVAL_MS = 30000;
+
+const AdminCourierOrderAlertContext = createContext({});
+
+// 택배 신규 결제 주문 알림 (배달 알림과 달리 SSE 없이 폴링만 사용)
+export const AdminCourierOrderAlertProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [alerts, setAlerts] = useState<AdminCourierOrder[]>([]);
+  const navigate = useNavigate();
+  const notifiedRef = useRef<Set<string>>(new Set());
+  const alertAudioRef = useRef<HTMLAudioElement | null>(null);
+
+  const playAlertSound = () => {
+    try {
+      if (!alertAudioRef.current) {
+        alertAudioRef.current = new Audio('/sounds/discord-call-sound_tvxg95l.mp3');
+      }
+      const vol = parseFloat(localStorage.getItem('delivery-alert-volume') ?? '1.0');
+      alertAudioRef.current.volume = Math.max(0, Math.min(1, vol));
+      alertAudioRef.current.currentTime = 0;
+      alertAudioRef.current.play().catch(() => {
+        // autoplay restrictions
+      });
+    } catch (e) {
+      safeErrorLog(e, 'AdminCourierOrderAlertProvider - playAlertSound');
+    }
+  };
+
+  useEffect(() => {
+    if (USE_MOCKS) return;
+
+    let disposed = false;
+    let checking = false;
+
+    const checkOrders = async () => {
+      if (checking || document.visibilityState !== 'visible') return;
+      checking = true;
+      try {
+        const paid = await getAdminCourierOrders('paid');
+        if (disposed) return;
+        const fresh = paid.filter(o => !notifiedRef.current.has(o.orderCode));
+        if (fresh.length === 0) return;
+        fresh.forEach(o => notifiedRef.current.add(o.orderCode));
+        setAlerts(prev => [...prev, ...fresh]);
+        playAlertSound();
+      } catch (e) {
+        safeErrorLog(e, 'AdminCourierOrderAlertProvider - checkOrders');
+      } finally {
+        checking = false;
+      }
+    };
+
+    checkOrders();
+    const timer = window.setInterval(checkOrders, POLL_INTERVAL_MS);
+    document.addEventListener('visibilitychange', checkOrders);
+
+    return () => {
+      disposed = true;
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', checkOrders);
+      alertAudioRef.current?.pause();
+    };
+  }, []);
+
+  const KRW = (price: number) =>
+    price.toLocaleString('ko-KR', { style: 'currency', currency: 'KRW' });
+
+  const modal = useMemo(() => {
+    if (alerts.length === 0) return null;
+
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+        <div className="bg-white w-full max-w-md rounded-lg shadow-lg p-5 relative">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-lg font-semibold text-gray-800">
+              택배 주문 알림 ({alerts.length}건)
+            </h2>
+            <button
+              type="button"
+              className="w-8 h-8 flex items-center justify-center rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100"
+              onClick={() => setAlerts([])}
+              aria-label="알림 모두 닫기"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <div className="max-h-[60vh] overflow-y-auto space-y-3">
+            {alerts.map(a => (
+              <div key={a.orderCode} className="border border-gray-200 rounded-lg p-4 bg-gray-50">
+                <div className="text-sm font-semibold text-green-700 mb-2">결제 완료</div>
+                <div className="text-sm text-gray-800 space-y-1">
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">주문번호</span>
+                    <span className="font-medium">{a.orderCode}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">받는 분</span>
+                    <span className="font-medium">{a.receiverName}</span>
+                  </div>
+                </div>
+                {a.items.length > 0 && (
+                  <div className="mt-2 bg-white rounded border border-gray-100 p-2 text-sm text-gray-700">
+                    {a.items.map(item => (
+                      <div key={item.courierProductId} className="flex justify-between py-0.5">
+                        <span>{item.name}</span>
+                        <span className="text-gray-500">{item.quantity}개</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="mt-2 text-sm text-gray-700">
+                  총 <span className="font-semibold">{KRW(a.totalAmount)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="mt-4 flex gap-2">
+            <button
+              type="button"
+              className="flex-1 h-9 rounded bg-gray-100 text-gray-700 text-sm font-medium hover:bg-gray-200"
+              onClick={() => setAlerts([])}
+            >
+              닫기
+            </button>
+            <button
+              type="button"
+              className="flex-1 h-9 rounded bg-green-600 text-white text-sm font-medium hover:bg-green-700"
+              onClick={() => {
+                setAlerts([]);
+                navigate('/admin/courier/orders');
+              }}
+            >
+              주문 확인
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }, [alerts, navigate]);
+
+  return (
+    <AdminCourierOrderAlertContext.Provider value={{}}>
+      {children}
+      {modal}
+    </AdminCourierOrderAlertContext.Provider>
+  );
+};
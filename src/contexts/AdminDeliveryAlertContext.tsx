@@ -3,30 +3,20 @@ import { useLocation, useNavigate } from 'react-router-dom';
 import { useSnackbar } from '../components/snackbar';
 import { safeErrorLog } from '../utils/environment';
 import { USE_MOCKS } from '../config';
-import { acceptAdminDelivery, getAdminDeliveries, getServerTime, updateAdminDeliveryStatus } from '../utils/api';
+import {
+  acceptAdminDelivery,
+  getAdminDeliveries,
+  getServerTime,
+  parseAdminDeliveryEvent,
+  updateAdminDeliveryStatus,
+  type AdminDelivery,
+} from '../utils/api';
+import { ApiError } from '../utils/apiError';
 import { printReceipt, PrintReceiptData } from '../utils/printBridge';
 
-type DeliveryAlertPayload = {
+type DeliveryAlertPayload = AdminDelivery & {
   orderId: number;
-  displayCode: string;
-  reservationIds: number[];
-  reservationCount: number;
-  buyerName: string;
-  productSummary: string;
-  deliveryDate: string;
-  deliveryHour: number;
-  deliveryMinute: number;
   type: 'paid' | 'upcoming';
-  paidAt: string; // 영수증 출력용 결제 시각
-  reservationItems: { id: number; productName: string; quantity: number; amount: number }[];
-  totalAmount: number;
-  phone: string;
-  address1: string;
-  address2: string;
-  distanceKm: number;
-  deliveryFee: number;
-  scheduledDeliveryHour: number | null;
-  scheduledDeliveryMinute: number | null;
 };
 
 const AdminDeliveryAlertContext = createContext({});
@@ -59,35 +49,8 @@ export const AdminDeliveryAlertProvider: React.FC<{ children: React.ReactNode }>
     return parts.length === 3 ? `${parts[0]}-${parts[2]}` : code;
   };
 
-  const parseAlertPayload = (data: any, type: 'paid' | 'upcoming'): DeliveryAlertPayload => ({
-    orderId: Number(data.order_id ?? data.id ?? 0),
-    displayCode: shortCode(String(data.display_code ?? data.displayCode ?? data.order_id ?? data.id ?? '')),
-    reservationIds: Array.isArray(data.reservation_ids) ? data.reservation_ids.map((id: any) => Number(id)) : [],
-    reservationCount: Number(data.reservation_count || 0),
-    buyerName: String(data.buyer_name || ''),
-    productSummary: String(data.product_summary || ''),
-    deliveryDate: String(data.delivery_date || ''),
-    deliveryHour: Number(data.delivery_hour || 0),
-    deliveryMinute: Number(data.delivery_minute ?? data.deliveryMinute ?? 0),
-    type,
-    paidAt: String(data.paid_at ?? data.paidAt ?? ''),
-    reservationItems: Array.isArray(data.reservation_items)
-      ? data.reservation_items.map((item: any) => ({
-          id: Number(item.id ?? 0),
-          productName: String(item.product_name ?? item.productName ?? ''),
-          quantity: Number(item.quantity ?? 0),
-          amount: Number(item.amount ?? 0),
-        }))
-      : [],
-    totalAmount: Number(data.total_amount ?? data.totalAmount ?? 0),
-    phone: String(data.phone || ''),
-    address1: String(data.address1 || ''),
-    address2: String(data.address2 || ''),
-    distanceKm: Number(data.distance_km ?? data.distanceKm ?? 0),
-    deliveryFee: Number(data.delivery_fee ?? data.deliveryFee ?? 0),
-    scheduledDeliveryHour: data.scheduled_delivery_hour ?? data.scheduledDeliveryHour ?? null,
-    scheduledDeliveryMinute: data.scheduled_delivery_minute ?? data.scheduledDeliveryMinute ?? null,
-  });
+  const toAlertPayload = (delivery: AdminDelivery, type: 'paid' | 'upcoming'): DeliveryAlertPayload =>
+    ({ ...delivery, orderId: delivery.id, displayCode: shortCode(delivery.displayCode), type });
 
   // DeliveryAlertPayload → PrintReceiptData 변환 헬퍼
   // SSE 이벤트 데이터를 프린터 브릿지가 요구하는 형식으로 변환
@@ -212,20 +175,13 @@ export const AdminDeliveryAlertProvider: React.FC<{ children: React.ReactNode }>
       try {
         const serverMs = await getServerTime();
         const today = formatKstDate(serverMs);
-        const res = await getAdminDeliveries(today);
-        if (!res.ok) return;
-        const data = await res.json();
-        const list = Array.isArray(data?.response) ? data.response : [];
+        // 계약이 어긋난 주문은 getAdminDeliveries에서 1건씩 로그를 남기고 건너뜀
+        const list = await getAdminDeliveries(today);
 
         // paid 보완 폴링 (SSE 누락 대비)
-        const paidCandidates = list.filter((r: any) => {
-          if (String(r.status || '') !== 'PAID') return false;
-          const acceptedAt = r.accepted_at ?? r.acceptedAt ?? null;
-          return acceptedAt === null;
-        });
-        paidCandidates.forEach((r: any) => {
-          pushAlert(parseAlertPayload(r, 'paid'));
-        });
+        list
+          .filter(d => d.status === 'PAID' && d.acceptedAt === null)
+          .forEach(d => pushAlert(toAlertPayload(d, 'paid')));
 
         // 예약배달 upcoming 체크
         const scheduledAlertOn = localStorage.getItem('scheduled-delivery-alert') !== 'false';
@@ -235,20 +191,18 @@ export const AdminDeliveryAlertProvider: React.FC<{ children: React.ReactNode }>
         const dismissed: number[] = JSON.parse(localStorage.getItem(dismissedKey) || '[]');
 
         const nowMs = serverMs;
-        const upcomingTargets = list.filter((r: any) => {
-          const status = String(r.status || '');
-          if (status !== 'PAID' && status !== 'OUT_FOR_DELIVERY') return false;
-          const scheduledHour = r.scheduled_delivery_hour ?? r.scheduledDeliveryHour ?? null;
+        const upcomingTargets = list.filter(d => {
+          if (d.status !== 'PAID' && d.status !== 'OUT_FOR_DELIVERY') return false;
+          const scheduledHour = d.scheduledDeliveryHour;
           if (scheduledHour === null) return false;
-          const scheduledMin = Number(r.scheduled_delivery_minute ?? r.scheduledDeliveryMinute ?? 0);
+          const scheduledMin = d.scheduledDeliveryMinute ?? 0;
           const targetMs = new Date(`${today}T${String(scheduledHour).padStart(2, '0')}:${String(scheduledMin).padStart(2, '0')}:00+09:00`).getTime();
           const diff = targetMs - nowMs;
           return diff <= 60 * 60 * 1000 && diff > 0;
         });
-        upcomingTargets.forEach((r: any) => {
-          const orderId = Number(r.id ?? 0);
-          if (dismissed.includes(orderId)) return;
-          pushAlert(parseAlertPayload(r, 'upcoming'));
+        upcomingTargets.forEach(d => {
+          if (dismissed.includes(d.id)) return;
+          pushAlert(toAlertPayload(d, 'upcoming'));
         });
       } catch (err) {
         safeErrorLog(err, 'AdminDeliveryAlertProvider - checkDeliveries');
@@ -296,8 +250,7 @@ export const AdminDeliveryAlertProvider: React.FC<{ children: React.ReactNode }>
 
       source.addEventListener('delivery_paid', event => {
         try {
-          const data = JSON.parse((event as MessageEvent).data);
-          const payload = parseAlertPayload(data, 'paid');
+          const payload = toAlertPayload(parseAdminDeliveryEvent(JSON.parse((event as MessageEvent).data)), 'paid');
           pushAlert(payload);
           printReceipt(buildPrintData(payload)).then(ok => {
             if (!ok) {
@@ -386,16 +339,12 @@ export const AdminDeliveryAlertProvider: React.FC<{ children: React.ReactNode }>
 
   const handleReject = async (orderId: number) => {
     try {
-      const res = await updateAdminDeliveryStatus(orderId, 'canceled');
-      if (res.ok) {
-        const alertItem = alerts.find(a => a.orderId === orderId);
-        snackbar.show(`주문 ${alertItem?.displayCode || '#' + orderId} 거부되었습니다.`, { variant: 'info' });
-      } else {
-        snackbar.show('주문 거부에 실패했습니다.', { variant: 'error' });
-      }
+      await updateAdminDeliveryStatus(orderId, 'canceled');
+      const alertItem = alerts.find(a => a.orderId === orderId);
+      snackbar.show(`주문 ${alertItem?.displayCode || '#' + orderId} 거부되었습니다.`, { variant: 'info' });
     } catch (e) {
       safeErrorLog(e, 'AdminDeliveryAlertProvider - reject');
-      snackbar.show('주문 거부 중 오류가 발생했습니다.', { variant: 'error' });
+      snackbar.show(e instanceof ApiError ? '주문 거부에 실패했습니다.' : '주문 거부 중 오류가 발생했습니다.', { variant: 'error' });
     }
     removeAlert(orderId);
   };
@@ -409,22 +358,18 @@ export const AdminDeliveryAlertProvider: React.FC<{ children: React.ReactNode }>
       const alert = alerts.find(a => a.orderId === orderId);
       const isScheduled = alert?.scheduledDeliveryHour !== null && alert?.scheduledDeliveryHour !== undefined;
       const minutes = isScheduled ? 10 : getEstimated(orderId);
-      const res = await acceptAdminDelivery(orderId, minutes);
-      if (res.ok) {
-        const code = alert?.displayCode || '#' + orderId;
-        if (isScheduled) {
-          const h = alert!.scheduledDeliveryHour;
-          const m = String(alert!.scheduledDeliveryMinute ?? 0).padStart(2, '0');
-          snackbar.show(`주문 ${code} 접수 완료 (${h}:${m} 도착예정)`, { variant: 'success' });
-        } else {
-          snackbar.show(`주문 ${code} 접수 완료 (${getEstimated(orderId)}분)`, { variant: 'success' });
-        }
+      await acceptAdminDelivery(orderId, minutes);
+      const code = alert?.displayCode || '#' + orderId;
+      if (isScheduled) {
+        const h = alert!.scheduledDeliveryHour;
+        const m = String(alert!.scheduledDeliveryMinute ?? 0).padStart(2, '0');
+        snackbar.show(`주문 ${code} 접수 완료 (${h}:${m} 도착예정)`, { variant: 'success' });
       } else {
-        snackbar.show('주문 접수에 실패했습니다.', { variant: 'error' });
+        snackbar.show(`주문 ${code} 접수 완료 (${getEstimated(orderId)}분)`, { variant: 'success' });
       }
     } catch (e) {
       safeErrorLog(e, 'AdminDeliveryAlertProvider - accept');
-      snackbar.show('주문 접수 중 오류가 발생했습니다.', { variant: 'error' });
+      snackbar.show(e instanceof ApiError ? '주문 접수에 실패했습니다.' : '주문 접수 중 오류가 발생했습니다.', { variant: 'error' });
     }
     removeAlert(orderId);
   };
@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useEffect, useState, useRef } from 'react';
-import { useLocation } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { validateAdminSession } from '../utils/api';
 import { safeErrorLog } from '../utils/environment';
 import { USE_MOCKS } from '../config';
@@ -22,6 +22,7 @@ const getAdminLoginUrl = (pathname: string): string => {
 export const AdminSessionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [isSessionValid, setIsSessionValid] = useState(true);
   const location = useLocation();
+  const navigate = useNavigate();
   const isAdminPage = location.pathname.startsWith('/admin/shop') || location.pathname.startsWith('/admin/courier');
   const adminAuthPages = ['/admin/shop/login', '/admin/shop/register', '/admin/courier/login', '/admin/courier/register'];
   const isAdminAuthPage = adminAuthPages.includes(location.pathname);
@@ -44,7 +45,7 @@ export const AdminSessionProvider: React.FC<{ children: React.ReactNode }> = ({
         // 세션 만료 시 로그인 페이지로 리다이렉트
         safeErrorLog(e, 'AdminSessionContext - validateAdminSession');
         setIsSessionValid(false);
-        window.location.href = getAdminLoginUrl(location.pathname);
+        navigate(getAdminLoginUrl(location.pathname), { replace: true });
       }
     };
 
@@ -60,7 +61,7 @@ export const AdminSessionProvider: React.FC<{ children: React.ReactNode }> = ({
         intervalRef.current = null;
       }
     };
-  }, [isAdminPage, isAdminAuthPage]);
+  }, [isAdminPage, isAdminAuthPage, navigate]);
 
   return (
     <AdminSessionContext.Provider value={{ isSessionValid }}>
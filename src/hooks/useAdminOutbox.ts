@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { listOutbox, removeOutboxEntry, replayOutbox, retryOutboxEntry, startOutboxSync, subscribeOutbox, type OutboxEntry } from '../utils/adminOutbox';
+import { safeErrorLog } from '../utils/environment';
+
+/**
+ * 관리자 오프라인 대기열 구독 훅
+ * - entries: 저장 순서대로의 대기/충돌/실패 항목
+ * - syncVersion: 대기 항목이 전송·정리될 때마다 증가 → 목록 조회 effect deps에 넣어 서버 상태로 갱신
+ */
+export function useAdminOutbox() {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [syncVersion, setSyncVersion] = useState(0);
+  const pendingCountRef = useRef(0);
+
+  useEffect(() => {
+    let alive = true;
+    const reload = async () => {
+      try {
+        const list = await listOutbox();
+        if (!alive) return;
+        const pendingCount = list.filter(entry => entry.state === 'pending').length;
+        if (pendingCount < pendingCountRef.current) setSyncVersion(v => v + 1);
+        pendingCountRef.current = pendingCount;
+        setEntries(list);
+      } catch (e) {
+        safeErrorLog(e, 'useAdminOutbox - load');
+      }
+    };
+
+    startOutboxSync();
+    const unsubscribe = subscribeOutbox(() => { reload(); });
+    reload();
+    // 화면 진입 시 남아 있던 대기 항목 전송
+    if (navigator.onLine) replayOutbox().catch(e => safeErrorLog(e, 'useAdminOutbox - replay'));
+
+    return () => {
+      alive = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const retry = useCallback(() => replayOutbox(), []);
+  const retryEntry = useCallback((id: number) => retryOutboxEntry(id), []);
+  const dismiss = useCallback((id: number) => removeOutboxEntry(id), []);
+
+  return { entries, syncVersion, retry, retryEntry, dismiss };
+}
@@ -0,0 +1,10 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { getCartSnapshot, subscribeCart, type CartItem } from '../utils/courierCart';
+
+// 택배 장바구니 구독 훅: 같은 탭/다른 탭에서 장바구니가 바뀌면 다시 렌더링
+export function useCart(): { items: CartItem[]; totalQuantity: number; totalPrice: number } {
+  const items = useSyncExternalStore(subscribeCart, getCartSnapshot);
+  const totalQuantity = useMemo(() => items.reduce((sum, item) => sum + item.quantity, 0), [items]);
+  const totalPrice = useMemo(() => items.reduce((sum, item) => sum + item.price * item.quantity, 0), [items]);
+  return { items, totalQuantity, totalPrice };
+}
@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState } from 'react';
+import { openDeliveryTrackingStream, parseDeliveryTrackingEvent, type DeliveryTrackingEvent } from '../utils/api';
+import { safeErrorLog } from '../utils/environment';
+import { ApiError } from '../utils/apiError';
+
+const FALLBACK_POLL_MS = 30000;
+
+/**
+ * 고객 배달 추적 스트림 구독 훅 (진행 중인 배달이 있을 때만 enabled)
+ * - onEvent: delivery_status 이벤트마다 호출 (최신 콜백을 ref로 참조)
+ * - resyncVersion: 끊겼다 다시 연결되거나, 끊긴 동안 30초마다 증가 → 목록 조회 effect deps에 넣어 놓친 변경 반영
+ * - 재연결마다 새 스트림 티켓을 발급 (만료된 access token은 발급 요청에서 refresh, refresh도 실패하면 재연결 중단)
+ */
+export function useDeliveryTracking(enabled: boolean, onEvent: (event: DeliveryTrackingEvent) => void) {
+  const [connected, setConnected] = useState(false);
+  const [resyncVersion, setResyncVersion] = useState(0);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let disposed = false;
+    let source: EventSource | null = null;
+    let reconnectTimer: number | null = null;
+    let pollTimer: number | null = null;
+    let attempt = 0;
+    let dropped = false;
+
+    const startPolling = () => {
+      if (pollTimer) return;
+      pollTimer = window.setInterval(() => setResyncVersion(v => v + 1), FALLBACK_POLL_MS);
+    };
+
+    const stopPolling = () => {
+      if (!pollTimer) return;
+      clearInterval(pollTimer);
+      pollTimer = null;
+    };
+
+    const scheduleReconnect = () => {
+      // 정리된 뒤 끝난 티켓 요청이 polling을 다시 시작하지 않도록
+      if (disposed) return;
+      dropped = true;
+      setConnected(false);
+      startPolling();
+      if (reconnectTimer) return;
+      const delay = Math.min(30000, 1000 * Math.pow(2, attempt));
+      attempt += 1;
+      reconnectTimer = window.setTimeout(() => {
+        reconnectTimer = null;
+        connect();
+      }, delay);
+    };
+
+    const connect = async () => {
+      if (disposed) return;
+      source?.close();
+      source = null;
+      let next: EventSource;
+      try {
+        next = await openDeliveryTrackingStream();
+      } catch (e) {
+        safeErrorLog(e, 'useDeliveryTracking - open stream');
+        // 로그인 만료 (userFetch가 로그인 화면으로 이동) → 재시도하지 않음
+        if (e instanceof ApiError && (e.status === 401 || e.status === 403)) {
+          setConnected(false);
+          return;
+        }
+        scheduleReconnect();
+        return;
+      }
+      if (disposed) {
+        next.close();
+        return;
+      }
+      source = next;
+
+      next.onopen = () => {
+        attempt = 0;
+        setConnected(true);
+        stopPolling();
+        // 끊긴 사이의 상태 변경은 이벤트로 오지 않으므로 목록 다시 조회
+        if (dropped) setResyncVersion(v => v + 1);
+        dropped = false;
+      };
+
+      next.addEventListener('delivery_status', event => {
+        try {
+          onEventRef.current(parseDeliveryTrackingEvent(JSON.parse((event as MessageEvent).data)));
+        } catch (e) {
+          safeErrorLog(e, 'useDeliveryTracking - parse event');
+        }
+      });
+
+      next.onerror = e => {
+        safeErrorLog(e, 'useDeliveryTracking - SSE error');
+        next.close();
+        if (source === next) source = null;
+        scheduleReconnect();
+      };
+    };
+    connect();
+
+    return () => {
+      disposed = true;
+      source?.close();
+      source = null;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      stopPolling();
+      setConnected(false);
+    };
+  }, [enabled]);
+
+  return { connected, resyncVersion };
+}
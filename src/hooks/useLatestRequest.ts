@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * 마지막 요청만 유효하게 유지하는 훅
+ * - begin()을 호출할 때마다 이전 요청을 abort하고 새 AbortSignal 반환
+ * - 언마운트 시 진행 중인 요청 abort
+ * 사용처: 날짜/탭 전환처럼 이전 응답이 늦게 도착해 새 선택을 덮어쓰면 안 되는 조회
+ *   const signal = beginRequest();
+ *   const rows = await getSalesDetails(date, signal);
+ *   if (signal.aborted) return;
+ */
+export function useLatestRequest(): () => AbortSignal {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  return useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  }, []);
+}
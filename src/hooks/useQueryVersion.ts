@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { subscribeQueries } from '../utils/queryCache';
+
+// 조회 캐시 구독 훅: prefix에 해당하는 캐시가 재검증/무효화되면 버전 증가 → 조회 effect의 deps에 넣어 다시 불러오기
+export function useQueryVersion(prefix: string): number {
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => subscribeQueries(key => {
+    if (key.startsWith(prefix)) setVersion(v => v + 1);
+  }), [prefix]);
+
+  return version;
+}
@@ -6,18 +6,34 @@ import { BrowserRouter } from 'react-router-dom';
 import { SnackbarProvider } from './components/snackbar';
 import App from './App';
 import GATracker from './GATracker'; // 만약 쓰는 중이라면
+import AuthRedirectListener from './routes/AuthRedirectListener';
 import { injectBrandStyles, injectBrandMetadata } from './brand';
+import { USE_MOCK_SERVER } from './config';
+import { safeErrorLog } from './utils/environment';
 
 // Inject brand CSS variables and metadata before React renders
 injectBrandStyles();
 injectBrandMetadata();
 
-ReactDOM.createRoot(document.getElementById('root') as HTMLElement).render(
-  <BrowserRouter>
-    <SnackbarProvider topOffset={56}>
-      {/* useLocation 쓰는 모든 컴포넌트는 Router 안쪽에 */}
-      <GATracker />
-      <App />
-    </SnackbarProvider>
-  </BrowserRouter>
-);
\ No newline at end of file
+const render = () => {
+  ReactDOM.createRoot(document.getElementById('root') as HTMLElement).render(
+    <BrowserRouter>
+      <SnackbarProvider topOffset={56}>
+        {/* useLocation 쓰는 모든 컴포넌트는 Router 안쪽에 */}
+        <GATracker />
+        <AuthRedirectListener />
+        <App />
+      </SnackbarProvider>
+    </BrowserRouter>
+  );
+};
+
+// 모의 서버는 첫 API 호출 전에 설치 (동적 import → 플래그가 꺼진 빌드에는 모의 서버 코드가 포함되지 않음)
+if (USE_MOCK_SERVER) {
+  import('./mocks/server')
+    .then(m => m.installMockServer())
+    .catch(e => safeErrorLog(e, 'index - installMockServer'))
+    .finally(render);
+} else {
+  render();
+}
\ No newline at end of file
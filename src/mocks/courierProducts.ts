@@ -0,0 +1,51 @@
+// src/mocks/courierProducts.ts
+// 택배 쇼핑몰 상품 Mock 데이터 (USE_MOCKS 전용)
+
+import type { CourierProductDetail } from '../utils/api';
+
+const seedCourierProducts: CourierProductDetail[] = [
+  {
+    id: 101,
+    name: '성주 참외 선물세트 3kg',
+    price: 32000,
+    stock: 20,
+    imageUrl: '/images/image1.png',
+    weight: '3kg (10~12과)',
+    orderIndex: 1,
+    soldOut: false,
+    description: '당도 선별한 성주 참외를 <b>선물용 박스</b>에 담아 보내드립니다.',
+    detailImages: ['/images/image1.png'],
+  },
+  {
+    id: 102,
+    name: '제주 한라봉 5kg',
+    price: 45000,
+    stock: 8,
+    imageUrl: '/images/image2.png',
+    weight: '5kg (16~20과)',
+    orderIndex: 2,
+    soldOut: false,
+    description: '제주 농가 직송 한라봉입니다.\n수령 후 냉장 보관해주세요.',
+    detailImages: ['/images/image2.png'],
+  },
+  {
+    id: 103,
+    name: '청송 사과 가정용 5kg',
+    price: 29000,
+    stock: 0,
+    imageUrl: '/images/image3.png',
+    weight: '5kg (18~22과)',
+    orderIndex: 3,
+    soldOut: true,
+    description: '모양은 조금 달라도 맛은 그대로인 가정용 사과.',
+    detailImages: [],
+  },
+];
+
+export function listCourierProducts(): CourierProductDetail[] {
+  return seedCourierProducts.map(p => ({ ...p }));
+}
+
+export function getCourierProductById(id: number): CourierProductDetail | null {
+  return listCourierProducts().find(p => p.id === id) || null;
+}
@@ -24,7 +24,10 @@ export type OrderRow = {
     deliveryMinute?: number;
     deliveryFee?: number;
     estimatedMinutes?: number;
+    paidAt?: string;
     acceptedAt?: string;
+    outForDeliveryAt?: string;
+    deliveredAt?: string;
     scheduledDeliveryHour?: number | null;
     scheduledDeliveryMinute?: number | null;
   };
@@ -0,0 +1,402 @@
+// src/mocks/server/db.ts
+// 모의 서버 상태 (서버 응답과 같은 snake_case 레코드, localStorage에 저장)
+
+export type ServerProduct = {
+  id: number;
+  name: string;
+  price: number;
+  stock: number;
+  image_url: string;
+  sell_date: string;
+  sell_time: string | null;
+  description: string;
+  detail_urls: string[];
+  total_sold: number;
+  order_index: number;
+  visible: boolean;
+  delivery_available: boolean;
+};
+
+export type ServerCategory = {
+  id: number;
+  name: string;
+  image_url: string;
+  order_index: number;
+  product_ids: number[];
+};
+
+export type ServerReservationStatus = 'PENDING' | 'PICKED' | 'CANCELED' | 'NO_SHOW' | 'SELF_PICK';
+
+export type ServerReservation = {
+  id: number;
+  display_code: string;
+  user_id: string;
+  product_id: number;
+  product_name: string;
+  product_image: string;
+  price: number;
+  quantity: number;
+  amount: number;
+  order_date: string; // 수령일
+  status: ServerReservationStatus;
+  created_at: string;
+  delivery_id: number | null;
+};
+
+export type ServerDeliveryStatus = 'PENDING_PAYMENT' | 'PAID' | 'OUT_FOR_DELIVERY' | 'DELIVERED' | 'CANCELED' | 'FAILED';
+
+export type ServerDelivery = {
+  id: number;
+  display_code: string;
+  user_id: string;
+  reservation_ids: number[];
+  status: ServerDeliveryStatus;
+  idempotency_key: string;
+  phone: string;
+  postal_code: string;
+  address1: string;
+  address2: string;
+  latitude: number | null;
+  longitude: number | null;
+  distance_km: number;
+  delivery_fee: number;
+  delivery_date: string;
+  delivery_hour: number;
+  delivery_minute: number;
+  scheduled_delivery_hour: number | null;
+  scheduled_delivery_minute: number | null;
+  estimated_minutes: number | null;
+  created_at: string; // 결제 준비 시각 (결제 대기 건의 시간대 자리 확보 만료 기준)
+  paid_at: string | null;
+  accepted_at: string | null;
+  out_for_delivery_at: string | null;
+  delivered_at: string | null;
+};
+
+export type ServerWarn = { reason: 'NO_SHOW' | 'ADMIN'; warn_at: string };
+
+export type ServerCustomer = {
+  uid: string;
+  name: string;
+  first_time_buyer: boolean;
+  restricted_until: string | null;
+  warns: ServerWarn[];
+};
+
+export type ServerWaitlistEntry = { product_id: number; user_id: string; created_at: string };
+
+/** 관심상품: 상품명(반복 판매 상품) 또는 카테고리 단위 */
+export type ServerFavorite = { user_id: string; product_name: string | null; category_id: number | null; created_at: string };
+
+export type ServerDeliveryInfo = {
+  phone: string;
+  postal_code: string;
+  address1: string;
+  address2: string;
+  latitude: number | null;
+  longitude: number | null;
+};
+
+export type ServerDeliveryAddress = {
+  id: number;
+  user_id: string;
+  label: string;
+  is_default: boolean;
+  postal_code: string;
+  address1: string;
+  address2: string;
+  latitude: number | null;
+  longitude: number | null;
+  distance_km: number | null; // 마지막으로 계산한 거리/배달비
+  delivery_fee: number | null;
+  created_at: string;
+};
+
+export type ServerDeliveryZone = {
+  id: number;
+  name: string;
+  polygon: { lat: number; lng: number }[];
+  fee: number;
+  min_amount: number;
+  start_hour: number;
+  start_minute: number;
+  end_hour: number;
+  end_minute: number;
+};
+
+export type ServerDeliveryFeeRules = {
+  distance_tiers: { up_to_km: number; fee: number }[];
+  free_over_amount: number | null;
+  late_night_start_hour: number | null;
+  late_night_start_minute: number;
+  late_night_surcharge: number;
+  scheduled_surcharge: number;
+  promotions: { date: string; discount: number; label: string }[];
+};
+
+export type ServerDeliveryConfig = {
+  enabled: boolean;
+  store_lat: number;
+  store_lng: number;
+  max_distance_km: number;
+  fee_distance_km: number;
+  min_amount: number;
+  fee_near: number;
+  fee_per100m: number;
+  start_hour: number;
+  start_minute: number;
+  end_hour: number;
+  end_minute: number;
+  zones: ServerDeliveryZone[];
+  fee_rules: ServerDeliveryFeeRules;
+  scheduled_slot_capacity: number; // 예약배달 시간대 기본 정원 (0 = 제한 없음)
+  scheduled_slot_capacities: { hour: number; minute: number; capacity: number }[];
+};
+
+export type MockDb = {
+  products: ServerProduct[];
+  categories: ServerCategory[];
+  reservations: ServerReservation[];
+  deliveries: ServerDelivery[];
+  customers: ServerCustomer[];
+  waitlist: ServerWaitlistEntry[];
+  favorites: ServerFavorite[];
+  deliveryInfo: Record<string, ServerDeliveryInfo>;
+  deliveryAddresses: ServerDeliveryAddress[];
+  deliveryConfig: ServerDeliveryConfig;
+  messages: { id: number; user_id: string; title: string; body: string; read: boolean }[];
+  adminSession: boolean;
+  seq: number;
+};
+
+/** 로그인한 고객 (모의 서버는 단일 사용자) */
+export const CURRENT_USER_ID = 'mock-user-1';
+
+const STORAGE_KEY = 'mock_server_v1';
+
+// === 날짜 유틸 (KST) ===
+export const kstDate = (offsetDays = 0): string => {
+  const d = new Date(Date.now() + offsetDays * 24 * 60 * 60 * 1000);
+  return d.toLocaleDateString('sv-SE', { timeZone: 'Asia/Seoul' });
+};
+
+/** 서버 LocalDateTime 형식 (KST, 타임존 없음) */
+export const kstDateTime = (ms = Date.now()): string =>
+  new Date(ms).toLocaleString('sv-SE', { timeZone: 'Asia/Seoul' }).replace(' ', 'T');
+
+// === 시드 데이터 ===
+const PRODUCT_NAMES: [string, number][] = [
+  ['신선한 토마토 1kg', 3000],
+  ['유기농 감자 2kg', 4500],
+  ['제주 감귤 3kg', 12900],
+  ['국산 양파 1.5kg', 3900],
+  ['친환경 방울토마토 500g', 5900],
+  ['햇고구마 2kg', 8900],
+  ['무항생제 계란 30구', 9800],
+  ['국산 대파 1단', 2500],
+  ['애호박 2개', 3300],
+  ['샤인머스캣 1송이', 15900],
+  ['수제 두부 2모', 4200],
+  ['한우 불고기 300g', 18900],
+];
+
+const CUSTOMER_NAMES = ['김철수', '이영희', '박민수', '최지영', '정수진', '강호동', '신동엽', '유재석', '송지효', '김종국', '지석진', '전소민'];
+
+const seed = (): MockDb => {
+  const dayOffsets = [-2, -1, 0, 0, 0, 1, 1, 2, 3, 0, 1, -1];
+  const products: ServerProduct[] = PRODUCT_NAMES.map(([name, price], i) => ({
+    id: i + 1,
+    name,
+    price,
+    stock: i % 5 === 1 ? 0 : 10 + i * 3,
+    image_url: `images/image${(i % 2) + 1}.png`,
+    sell_date: kstDate(dayOffsets[i]),
+    sell_time: i === 5 ? '14:00' : null,
+    description: `<b>${name}</b><br>오늘 들어온 신선한 상품입니다.`,
+    detail_urls: [`images/image${(i % 2) + 1}.png`],
+    total_sold: (i * 7) % 30,
+    order_index: i + 1,
+    visible: i !== 11,
+    delivery_available: i % 3 !== 2,
+  }));
+
+  const categories: ServerCategory[] = [
+    { id: 1, name: '채소', image_url: 'images/image1.png', order_index: 1, product_ids: [1, 2, 4, 5, 8, 9] },
+    { id: 2, name: '과일', image_url: 'images/image2.png', order_index: 2, product_ids: [3, 10] },
+    { id: 3, name: '신선식품', image_url: 'images/image1.png', order_index: 3, product_ids: [6, 7, 11, 12] },
+  ];
+
+  const customers: ServerCustomer[] = CUSTOMER_NAMES.map((name, i) => ({
+    uid: i === 0 ? CURRENT_USER_ID : `mock-user-${i + 1}`,
+    name,
+    first_time_buyer: i % 4 === 3,
+    restricted_until: i === 5 ? kstDate(3) : null,
+    warns: Array.from({ length: i % 3 }, (_, w) => ({
+      reason: w % 2 === 0 ? 'NO_SHOW' as const : 'ADMIN' as const,
+      warn_at: `${kstDate(-(w + 1) * 5)}T10:00:00`,
+    })),
+  }));
+
+  // 최근 며칠 예약 (매출/수령 화면용)
+  const statuses: ServerReservationStatus[] = ['PICKED', 'PENDING', 'CANCELED', 'PICKED', 'NO_SHOW', 'PENDING'];
+  const reservations: ServerReservation[] = [];
+  let reservationId = 1;
+  [-3, -2, -1, 0, 1].forEach(offset => {
+    const date = kstDate(offset);
+    customers.slice(0, 6).forEach((customer, ci) => {
+      const product = products[(ci + offset + 12) % products.length];
+      const quantity = (ci % 3) + 1;
+      // 지난 날짜는 미수령 없음, 내일 이후는 모두 대기
+      let status: ServerReservationStatus = offset > 0 ? 'PENDING' : statuses[ci];
+      if (offset < 0 && status === 'PENDING') status = 'PICKED';
+      reservations.push({
+        id: reservationId,
+        display_code: `R-${date.replace(/-/g, '').slice(2)}09-MOCK${reservationId}`,
+        user_id: customer.uid,
+        product_id: product.id,
+        product_name: product.name,
+        product_image: product.image_url,
+        price: product.price,
+        quantity,
+        amount: product.price * quantity,
+        order_date: date,
+        status,
+        created_at: `${kstDate(offset - 1)}T${String(9 + ci).padStart(2, '0')}:00:00`,
+        delivery_id: null,
+      });
+      reservationId++;
+    });
+  });
+
+  return {
+    products,
+    categories,
+    reservations,
+    deliveries: [],
+    customers,
+    // 품절 상품(2, 7번) 입고 알림 대기
+    waitlist: customers.slice(1, 5).map((c, i) => ({
+      product_id: i % 2 === 0 ? 2 : 7,
+      user_id: c.uid,
+      created_at: `${kstDate(-1)}T1${i}:00:00`,
+    })),
+    favorites: [
+      { user_id: CURRENT_USER_ID, product_name: '샤인머스캣 1송이', category_id: null, created_at: `${kstDate(-3)}T09:00:00` },
+    ],
+    deliveryInfo: {},
+    deliveryAddresses: [
+      {
+        id: 901,
+        user_id: CURRENT_USER_ID,
+        label: '집',
+        is_default: true,
+        postal_code: '04524',
+        address1: '서울 중구 세종대로 110',
+        address2: '101동 1001호',
+        latitude: 37.5663,
+        longitude: 126.9779,
+        distance_km: 0.02,
+        delivery_fee: 2900,
+        created_at: `${kstDate(-7)}T10:00:00`,
+      },
+      {
+        id: 902,
+        user_id: CURRENT_USER_ID,
+        label: '회사',
+        is_default: false,
+        postal_code: '04539',
+        address1: '서울 중구 을지로 65',
+        address2: '12층',
+        latitude: 37.5662,
+        longitude: 126.9856,
+        distance_km: 0.68,
+        delivery_fee: 2900,
+        created_at: `${kstDate(-3)}T09:00:00`,
+      },
+    ],
+    deliveryConfig: {
+      enabled: true,
+      store_lat: 37.5665,
+      store_lng: 126.978,
+      max_distance_km: 3,
+      fee_distance_km: 1,
+      min_amount: 15000,
+      fee_near: 2900,
+      fee_per100m: 100,
+      start_hour: 11,
+      start_minute: 0,
+      end_hour: 20,
+      end_minute: 0,
+      zones: [],
+      fee_rules: {
+        distance_tiers: [],
+        free_over_amount: 50000,
+        late_night_start_hour: 19,
+        late_night_start_minute: 0,
+        late_night_surcharge: 1000,
+        scheduled_surcharge: 500,
+        promotions: [{ date: kstDate(), discount: 1000, label: '오늘의 배달비 할인' }],
+      },
+      scheduled_slot_capacity: 3,
+      scheduled_slot_capacities: [{ hour: 18, minute: 0, capacity: 2 }],
+    },
+    messages: [{ id: 1, user_id: CURRENT_USER_ID, title: '안내', body: '모의 서버에 오신 것을 환영합니다!', read: false }],
+    adminSession: false,
+    seq: 1000,
+  };
+};
+
+let db: MockDb | null = null;
+
+export const getDb = (): MockDb => {
+  if (!db) {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      // 저장본에 없는 컬렉션/설정 항목(기능 추가 후)은 시드로 채움
+      const fresh = seed();
+      const saved = raw ? (JSON.parse(raw) as Partial<MockDb>) : {};
+      db = { ...fresh, ...saved, deliveryConfig: { ...fresh.deliveryConfig, ...saved.deliveryConfig } };
+    } catch {
+      db = seed();
+    }
+  }
+  return db;
+};
+
+export const saveDb = () => {
+  if (!db) return;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(db));
+  } catch {
+    // 저장 공간 부족 등은 메모리 상태로 계속 진행
+  }
+};
+
+/** 시드 데이터로 초기화 */
+export const resetDb = () => {
+  db = seed();
+  saveDb();
+};
+
+export const nextId = (): number => {
+  const state = getDb();
+  state.seq += 1;
+  return state.seq;
+};
+
+const CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+/** 예약/배달 표시 코드 (예: R-26020216-VWQPA) */
+export const displayCode = (prefix: 'R' | 'D'): string => {
+  const [date, time] = kstDateTime().split('T');
+  const suffix = Array.from({ length: 5 }, () => CODE_CHARS[Math.floor(Math.random() * CODE_CHARS.length)]).join('');
+  return `${prefix}-${date.replace(/-/g, '').slice(2)}${time.slice(0, 2)}-${suffix}`;
+};
+
+export const warnCounts = (customer: ServerCustomer) => {
+  const month = kstDate().slice(0, 7);
+  return {
+    monthly_warn_count: customer.warns.filter(w => w.warn_at.startsWith(month)).length,
+    total_warn_count: customer.warns.length,
+  };
+};
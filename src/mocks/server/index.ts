@@ -0,0 +1,115 @@
+// src/mocks/server/index.ts
+// 브라우저 내 모의 서버: window.fetch / EventSource를 가로채 실제 api.ts 코드 경로로 동작
+import { getDb, resetDb, saveDb } from './db';
+import { DELIVERY_STREAM_PATH, DELIVERY_TRACKING_STREAM_PATH, UPLOAD_PATH_PREFIX, matchRoute, type MockRequest } from './routes';
+import { createEventSourceShim } from './sse';
+
+const API_BASE = process.env.REACT_APP_API_BASE || '';
+const LATENCY_MS = 150;
+
+// 관리자 API는 쿠키 세션, 고객 API는 Bearer 토큰 필요
+const requiresAdminSession = (path: string) => path.startsWith('/api/admin/shop/');
+const requiresUserToken = (path: string) => path.startsWith('/api/store/auth/') || path.startsWith('/api/auth/');
+
+/** 모의 서버가 처리할 경로면 pathname, 아니면 null (외부 URL·정적 파일은 원래 fetch로) */
+const resolvePath = (href: string): string | null => {
+  let url: URL;
+  try {
+    url = new URL(href, window.location.origin);
+  } catch {
+    return null;
+  }
+  const apiOrigin = API_BASE ? new URL(API_BASE, window.location.origin).origin : window.location.origin;
+  if (url.origin !== apiOrigin && url.origin !== window.location.origin) return null;
+  if (url.pathname.startsWith('/api/') || url.pathname.startsWith(UPLOAD_PATH_PREFIX)) return url.pathname;
+  return null;
+};
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+const delay = (ms: number, signal?: AbortSignal | null) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(abortError());
+  }, { once: true });
+});
+
+const readBody = async (request: Request): Promise<any> => {
+  const raw = await request.text();
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+};
+
+const handle = async (request: Request, pathname: string): Promise<Response> => {
+  await delay(LATENCY_MS, request.signal);
+  const method = request.method.toUpperCase();
+
+  // presigned URL 업로드 (파일은 보관하지 않음)
+  if (pathname.startsWith(UPLOAD_PATH_PREFIX)) return new Response(null, { status: 200 });
+
+  if (requiresAdminSession(pathname) && !getDb().adminSession) {
+    return new Response(JSON.stringify({ message: '관리자 로그인이 필요합니다.' }), { status: 401, headers: { 'Content-Type': 'application/json' } });
+  }
+  if (requiresUserToken(pathname) && !/^Bearer\s+\S+/.test(request.headers.get('Authorization') || '')) {
+    return new Response(JSON.stringify({ message: '로그인이 필요합니다.' }), { status: 401, headers: { 'Content-Type': 'application/json' } });
+  }
+
+  const matched = matchRoute(method, pathname);
+  if (!matched) {
+    return new Response(JSON.stringify({ message: `모의 서버에 없는 API입니다: ${method} ${pathname}` }), { status: 404, headers: { 'Content-Type': 'application/json' } });
+  }
+
+  const mockRequest: MockRequest = {
+    method,
+    params: matched.params,
+    query: new URL(request.url, window.location.origin).searchParams,
+    body: await readBody(request),
+    headers: request.headers,
+  };
+  const response = matched.handler(mockRequest);
+  if (method !== 'GET') saveDb();
+  return response;
+};
+
+let installed = false;
+
+/**
+ * 모의 서버 설치 (index.tsx에서 렌더 전에 1회 호출)
+ * - 상태는 localStorage(mock_server_v1)에 저장되어 새로고침 후에도 유지
+ * - 콘솔에서 window.__mockServer.reset()으로 시드 데이터 복구
+ */
+export const installMockServer = () => {
+  if (installed || typeof window === 'undefined') return;
+  installed = true;
+
+  const originalFetch = window.fetch.bind(window);
+  window.fetch = (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init);
+    const pathname = resolvePath(request.url);
+    if (pathname === null) return originalFetch(input, init);
+    return handle(request, pathname);
+  };
+
+  const originalEventSource = typeof window.EventSource !== 'undefined' ? window.EventSource : undefined;
+  window.EventSource = createEventSourceShim(originalEventSource, href => {
+    const pathname = resolvePath(href);
+    return pathname === DELIVERY_STREAM_PATH || pathname === DELIVERY_TRACKING_STREAM_PATH ? pathname : null;
+  });
+
+  (window as any).__mockServer = {
+    db: getDb,
+    reset: () => {
+      resetDb();
+      window.location.reload();
+    },
+  };
+};
@@ -0,0 +1,1230 @@
+// src/mocks/server/routes.ts
+// 모의 서버 라우트: api.ts가 호출하는 /api/store/*, /api/admin/shop/* 및 인증 보조 엔드포인트
+import { publishEvent } from './sse';
+import { computeDeliveryFee, type FeeLine } from '../../utils/deliveryFee';
+import { buildDeliverySlots, isSameSlot, type SlotTime } from '../../utils/deliverySlots';
+import {
+  CURRENT_USER_ID,
+  displayCode,
+  getDb,
+  kstDate,
+  kstDateTime,
+  nextId,
+  warnCounts,
+  type ServerCustomer,
+  type ServerDelivery,
+  type ServerDeliveryAddress,
+  type ServerDeliveryStatus,
+  type ServerDeliveryZone,
+  type ServerProduct,
+  type ServerReservation,
+  type ServerReservationStatus,
+} from './db';
+
+export type MockRequest = {
+  method: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: any;
+  headers: Headers;
+};
+
+type Handler = (req: MockRequest) => Response;
+
+type Route = {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+};
+
+export const DELIVERY_STREAM_PATH = '/api/admin/shop/deliveries/stream';
+export const DELIVERY_TRACKING_STREAM_PATH = '/api/store/auth/deliveries/stream';
+export const UPLOAD_PATH_PREFIX = '/__mock-upload__/';
+
+const routes: Route[] = [];
+
+// ':id' 형태의 경로 파라미터 지원, 먼저 등록한 라우트가 우선
+const route = (method: string, path: string, handler: Handler) => {
+  const keys: string[] = [];
+  const source = path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  routes.push({ method, pattern: new RegExp(`^${source}/?$`), keys, handler });
+};
+
+export const matchRoute = (method: string, pathname: string): { handler: Handler; params: Record<string, string> } | null => {
+  for (const r of routes) {
+    if (r.method !== method) continue;
+    const match = r.pattern.exec(pathname);
+    if (!match) continue;
+    const params: Record<string, string> = {};
+    r.keys.forEach((key, i) => { params[key] = decodeURIComponent(match[i + 1]); });
+    return { handler: r.handler, params };
+  }
+  return null;
+};
+
+// === 응답 헬퍼 ===
+const json = (data: unknown, status = 200) =>
+  new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+const text = (body: string, status = 200) =>
+  new Response(body, { status, headers: { 'Content-Type': 'text/plain;charset=UTF-8' } });
+const noContent = () => new Response(null, { status: 204 });
+const fail = (status: number, message: string) => json({ message }, status);
+
+// === 조회 헬퍼 ===
+const findProduct = (id: unknown) => getDb().products.find(p => p.id === Number(id));
+const findCustomer = (uid: string) => getDb().customers.find(c => c.uid === uid);
+const currentCustomer = () => findCustomer(CURRENT_USER_ID)!;
+
+const isRestricted = (customer: ServerCustomer) =>
+  Boolean(customer.restricted_until && customer.restricted_until >= kstDate());
+
+const totalRevenue = (uid: string) => getDb().reservations
+  .filter(r => r.user_id === uid && r.status === 'PICKED')
+  .reduce((sum, r) => sum + r.amount, 0);
+
+const reservationsOf = (delivery: ServerDelivery) =>
+  getDb().reservations.filter(r => delivery.reservation_ids.includes(r.id));
+
+const deliveryByCode = (code: string | null) => getDb().deliveries.find(d => d.display_code === code);
+
+// 품절 → 재고 생김: 입고 알림 대기자에게 메시지 발송 후 대기 명단에서 제거
+const notifyWaitlist = (product: ServerProduct) => {
+  const db = getDb();
+  const targets = db.waitlist.filter(w => w.product_id === product.id);
+  if (product.stock <= 0 || targets.length === 0) return;
+  targets.forEach(w => {
+    db.messages.push({
+      id: nextId(),
+      user_id: w.user_id,
+      title: '입고 알림',
+      body: `${product.name} 상품이 다시 예약 가능합니다. (${product.sell_date})`,
+      read: false,
+    });
+  });
+  db.waitlist = db.waitlist.filter(w => w.product_id !== product.id);
+};
+
+// 새 판매일이 잡힌 상품: 같은 이름 또는 해당 카테고리를 관심 등록한 고객에게 메시지 발송
+const notifyFavorites = (products: ServerProduct[]) => {
+  const db = getDb();
+  const upcoming = products.filter(p => p.visible && p.sell_date >= kstDate());
+  if (upcoming.length === 0) return;
+  const userIds = Array.from(new Set(db.favorites.map(f => f.user_id)));
+  userIds.forEach(userId => {
+    const mine = db.favorites.filter(f => f.user_id === userId);
+    const matched = upcoming.filter(p => mine.some(f =>
+      f.product_name === p.name
+      || (f.category_id !== null && Boolean(db.categories.find(c => c.id === f.category_id)?.product_ids.includes(p.id)))
+    ));
+    if (matched.length === 0) return;
+    db.messages.push({
+      id: nextId(),
+      user_id: userId,
+      title: '관심상품 판매 예정',
+      body: matched.map(p => `${p.name} (${p.sell_date})`).join('<br>') + '<br>예약이 열리면 놓치지 마세요!',
+      read: false,
+    });
+  });
+};
+
+// 재고 복구 (취소/수량 감소)
+const restock = (reservation: ServerReservation, quantity: number) => {
+  const product = findProduct(reservation.product_id);
+  if (!product) return;
+  const wasSoldOut = product.stock <= 0;
+  product.stock += quantity;
+  product.total_sold = Math.max(0, product.total_sold - quantity);
+  if (wasSoldOut) notifyWaitlist(product);
+};
+
+const imageFields = (body: any) => ({
+  image: body.productUrl ?? body.product_url ?? body.image_url ?? body.imageUrl,
+  details: body.detailUrl ?? body.detail_urls ?? body.detailUrls,
+});
+
+// 하버사인 거리 (km)
+const distanceKm = (lat1: number, lng1: number, lat2: number, lng2: number) => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// 배달 구역 다각형 포함 여부 (ray casting)
+const inZone = (zone: ServerDeliveryZone, lat: number, lng: number) => {
+  const poly = zone.polygon;
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    if ((poly[i].lat > lat) !== (poly[j].lat > lat)
+      && lng < ((poly[j].lng - poly[i].lng) * (lat - poly[i].lat)) / (poly[j].lat - poly[i].lat) + poly[i].lng) {
+      inside = !inside;
+    }
+  }
+  return poly.length >= 3 && inside;
+};
+
+const findZone = (latitude: number, longitude: number) =>
+  getDb().deliveryConfig.zones.find(zone => inZone(zone, latitude, longitude)) ?? null;
+
+// 예약배달 시간대 정원/예약 건수 (취소·실패 건과 만료된 결제 대기 건은 자리 반납)
+const slotCapacity = (slot: SlotTime) => {
+  const config = getDb().deliveryConfig;
+  return config.scheduled_slot_capacities.find(c => isSameSlot(c, slot))?.capacity ?? config.scheduled_slot_capacity;
+};
+
+// 결제 대기 건은 결제 준비 후 15분까지만 자리 확보 → 결제창을 닫고 떠난 주문이 시간대를 계속 막지 않음
+// 실서버도 같은 만료 규칙 필요 (만료된 건의 결제 승인은 정원을 다시 확인)
+const PAYMENT_HOLD_MS = 15 * 60 * 1000;
+
+const holdsSlot = (d: ServerDelivery) => {
+  if (d.status === 'CANCELED' || d.status === 'FAILED') return false;
+  if (d.status !== 'PENDING_PAYMENT') return true;
+  return Date.now() - new Date(`${d.created_at}+09:00`).getTime() < PAYMENT_HOLD_MS;
+};
+
+const slotReserved = (date: string, slot: SlotTime) =>
+  getDb().deliveries.filter(d => d.delivery_date === date
+    && d.scheduled_delivery_hour === slot.hour
+    && d.scheduled_delivery_minute === slot.minute
+    && holdsSlot(d)).length;
+
+const isSlotFull = (date: string, slot: SlotTime) => {
+  const capacity = slotCapacity(slot);
+  return capacity > 0 && slotReserved(date, slot) >= capacity;
+};
+
+type FeeEstimate = { distance_km: number; delivery_fee: number; breakdown: FeeLine[] };
+
+// 배달비 계산은 관리자 미리보기와 같은 규칙 사용 (예약배달은 예약 시각, 아니면 현재 시각 기준 할증)
+const estimateFee = (latitude: number, longitude: number, body: any): FeeEstimate | string => {
+  const config = getDb().deliveryConfig;
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return '주소 좌표가 올바르지 않습니다.';
+  const distance = Math.round(distanceKm(config.store_lat, config.store_lng, latitude, longitude) * 100) / 100;
+  // 구역이 있으면 구역 배달비, 없으면 거리 기준
+  const zone = config.zones.length > 0 ? findZone(latitude, longitude) : null;
+  if (config.zones.length > 0 && !zone) return '배달 가능 구역이 아닙니다.';
+  if (!zone && distance > config.max_distance_km) return `배달 가능 거리(${config.max_distance_km}km)를 벗어났습니다.`;
+
+  const scheduled = typeof body?.scheduled_delivery_hour === 'number';
+  const [hour, minute] = kstDateTime().slice(11, 16).split(':').map(Number);
+  const rules = config.fee_rules;
+  const { total, lines } = computeDeliveryFee({
+    feeNear: config.fee_near,
+    feePer100m: config.fee_per100m,
+    feeDistanceKm: config.fee_distance_km,
+    feeRules: {
+      distanceTiers: rules.distance_tiers.map(t => ({ upToKm: t.up_to_km, fee: t.fee })),
+      freeOverAmount: rules.free_over_amount,
+      lateNightStartHour: rules.late_night_start_hour,
+      lateNightStartMinute: rules.late_night_start_minute,
+      lateNightSurcharge: rules.late_night_surcharge,
+      scheduledSurcharge: rules.scheduled_surcharge,
+      promotions: rules.promotions,
+    },
+  }, {
+    distanceKm: distance,
+    amount: Number(body?.amount ?? 0),
+    zone: zone ? { name: zone.name, fee: zone.fee } : null,
+    date: kstDate(),
+    hour: scheduled ? body.scheduled_delivery_hour : hour,
+    minute: scheduled ? Number(body?.scheduled_delivery_minute ?? 0) : minute,
+    scheduled,
+  });
+  return { distance_km: distance, delivery_fee: total, breakdown: lines };
+};
+
+// === 직렬화 (서버 응답 형식) ===
+const storeProductItem = (p: ServerProduct) => ({
+  id: p.id,
+  name: p.name,
+  price: p.price,
+  stock: p.stock,
+  image_url: p.image_url,
+  sell_date: p.sell_date,
+  sell_time: p.sell_time ?? undefined,
+  total_sold: p.total_sold,
+  order_index: p.order_index,
+  delivery_available: p.delivery_available,
+});
+
+const adminProductItem = (p: ServerProduct) => ({
+  id: p.id,
+  name: p.name,
+  price: p.price,
+  stock: p.stock,
+  product_url: p.image_url,
+  visible: p.visible,
+  sell_date: p.sell_date,
+  sell_time: p.sell_time ?? undefined,
+  order_index: p.order_index,
+  delivery_available: p.delivery_available,
+});
+
+const categoryItem = (categoryId: number) => {
+  const category = getDb().categories.find(c => c.id === categoryId)!;
+  return { id: category.id, name: category.name, image_url: category.image_url, product_ids: category.product_ids };
+};
+
+const sortedCategories = () => [...getDb().categories].sort((a, b) => a.order_index - b.order_index).map(c => categoryItem(c.id));
+
+const deliverySummary = (d: ServerDelivery) => ({
+  status: d.status,
+  display_code: d.display_code,
+  delivery_hour: d.delivery_hour,
+  delivery_minute: d.delivery_minute,
+  delivery_fee: d.delivery_fee,
+  estimated_minutes: d.estimated_minutes,
+  paid_at: d.paid_at,
+  accepted_at: d.accepted_at,
+  out_for_delivery_at: d.out_for_delivery_at ?? null,
+  delivered_at: d.delivered_at ?? null,
+  scheduled_delivery_hour: d.scheduled_delivery_hour,
+  scheduled_delivery_minute: d.scheduled_delivery_minute,
+});
+
+// 고객 배달 추적 스트림 (OrderPage 타임라인)
+const publishDeliveryStatus = (d: ServerDelivery) =>
+  publishEvent(DELIVERY_TRACKING_STREAM_PATH, 'delivery_status', deliverySummary(d));
+
+const adminDeliveryItem = (d: ServerDelivery) => {
+  const items = reservationsOf(d);
+  const customer = findCustomer(d.user_id);
+  return {
+    id: d.id,
+    order_id: d.id,
+    display_code: d.display_code,
+    reservation_ids: d.reservation_ids,
+    reservation_count: items.length,
+    reservation_items: items.map(r => ({ id: r.id, product_name: r.product_name, quantity: r.quantity, amount: r.amount })),
+    product_summary: items.length > 1 ? `${items[0].product_name} 외 ${items.length - 1}건` : (items[0]?.product_name ?? ''),
+    buyer_name: customer?.name ?? '',
+    total_amount: items.reduce((sum, r) => sum + r.amount, 0) + d.delivery_fee,
+    status: d.status,
+    phone: d.phone,
+    postal_code: d.postal_code,
+    address1: d.address1,
+    address2: d.address2,
+    distance_km: d.distance_km,
+    delivery_fee: d.delivery_fee,
+    delivery_date: d.delivery_date,
+    delivery_hour: d.delivery_hour,
+    delivery_minute: d.delivery_minute,
+    scheduled_delivery_hour: d.scheduled_delivery_hour,
+    scheduled_delivery_minute: d.scheduled_delivery_minute,
+    estimated_minutes: d.estimated_minutes,
+    paid_at: d.paid_at,
+    accepted_at: d.accepted_at,
+  };
+};
+
+const customerItem = (c: ServerCustomer) => ({
+  uid: c.uid,
+  name: c.name,
+  total_revenue: totalRevenue(c.uid),
+  ...warnCounts(c),
+  first_time_buyer: c.first_time_buyer,
+  restricted_until: c.restricted_until,
+});
+
+// 결제 전/실패 배달은 주문 내역·관리자 목록에 노출하지 않음
+const isActiveDelivery = (d: ServerDelivery) => d.status !== 'PENDING_PAYMENT' && d.status !== 'FAILED';
+
+// 토큰 형식만 맞춘 가짜 JWT (LoginPage가 payload.exp를 확인)
+const issueAccessToken = () => {
+  const payload = btoa(JSON.stringify({ sub: CURRENT_USER_ID, exp: Math.floor(Date.now() / 1000) + 60 * 60 }));
+  return `mock.${payload}.signature`;
+};
+
+const presigned = (fileName: unknown) => {
+  const key = `mock-uploads/${Date.now()}-${String(fileName || 'image').replace(/[^\w.-]/g, '_')}`;
+  return { url: `${window.location.origin}${UPLOAD_PATH_PREFIX}${key}`, key, method: 'PUT' };
+};
+
+// ==================== 공통/인증 ====================
+route('GET', '/api/time', () => text(JSON.stringify(kstDateTime())));
+route('GET', '/api/health', () => json({ status: 'UP' }));
+route('POST', '/api/refresh', () => text(issueAccessToken()));
+route('POST', '/api/login', () => json({ name: currentCustomer().name, access: issueAccessToken(), exists: true, change_name: true }));
+
+route('GET', '/api/auth/users/me', () => {
+  const me = currentCustomer();
+  return json({ nickname: me.name, restricted: isRestricted(me), restricted_until: me.restricted_until });
+});
+
+route('GET', '/api/auth/message', () => {
+  const message = getDb().messages.find(m => m.user_id === CURRENT_USER_ID && !m.read);
+  return message ? json({ id: message.id, title: message.title, body: message.body }) : noContent();
+});
+
+route('PATCH', '/api/auth/message/:id', ({ params }) => {
+  const message = getDb().messages.find(m => m.id === Number(params.id));
+  if (!message) return fail(404, '메시지를 찾을 수 없습니다.');
+  message.read = true;
+  return noContent();
+});
+
+route('GET', '/api/auth/name/:name', ({ params }) =>
+  json(getDb().customers.some(c => c.name === params.name && c.uid !== CURRENT_USER_ID)));
+
+route('PATCH', '/api/auth/name/:name', ({ params }) => {
+  if (getDb().customers.some(c => c.name === params.name && c.uid !== CURRENT_USER_ID)) return fail(409, '이미 사용 중인 닉네임입니다.');
+  currentCustomer().name = params.name;
+  return text(params.name);
+});
+
+route('POST', '/api/admin/login', () => {
+  getDb().adminSession = true;
+  return json({ message: 'ok' });
+});
+route('POST', '/api/admin/signup', () => json({ message: 'ok' }, 201));
+route('GET', '/api/admin/validate', () => (getDb().adminSession ? json({ valid: true }) : fail(401, '로그인이 필요합니다.')));
+
+// ==================== 고객: 상품/카테고리 ====================
+route('GET', '/api/store/auth/products/categories', () => json({ response: sortedCategories() }));
+
+route('GET', '/api/store/auth/products', ({ query }) => {
+  const from = query.get('from');
+  const to = query.get('to');
+  const categoryId = Number(query.get('categoryId') || 0);
+  const category = categoryId ? getDb().categories.find(c => c.id === categoryId) : null;
+  const list = getDb().products
+    .filter(p => p.visible)
+    .filter(p => !from || !to || (p.sell_date >= from && p.sell_date <= to))
+    .filter(p => !categoryId || Boolean(category?.product_ids.includes(p.id)))
+    .sort((a, b) => a.order_index - b.order_index);
+  return json({ response: list.map(storeProductItem) });
+});
+
+route('GET', '/api/store/auth/products/:id', ({ params }) => {
+  const product = findProduct(params.id);
+  if (!product || !product.visible) return fail(404, '상품을 찾을 수 없습니다.');
+  return json({ ...storeProductItem(product), description: product.description, detail_images: product.detail_urls });
+});
+
+// ==================== 고객: 입고 알림 ====================
+route('GET', '/api/store/auth/waitlist', () => {
+  const list = getDb().waitlist
+    .filter(w => w.user_id === CURRENT_USER_ID)
+    .map(w => ({ product_id: w.product_id, created_at: w.created_at }));
+  return json({ response: list });
+});
+
+route('POST', '/api/store/auth/products/:id/waitlist', ({ params }) => {
+  const db = getDb();
+  const product = findProduct(params.id);
+  if (!product || !product.visible) return fail(404, '상품을 찾을 수 없습니다.');
+  if (product.stock > 0) return fail(400, '재고가 있는 상품은 바로 예약해주세요.');
+  if (!db.waitlist.some(w => w.product_id === product.id && w.user_id === CURRENT_USER_ID)) {
+    db.waitlist.push({ product_id: product.id, user_id: CURRENT_USER_ID, created_at: kstDateTime() });
+  }
+  return noContent();
+});
+
+route('DELETE', '/api/store/auth/products/:id/waitlist', ({ params }) => {
+  const db = getDb();
+  const productId = Number(params.id);
+  db.waitlist = db.waitlist.filter(w => !(w.product_id === productId && w.user_id === CURRENT_USER_ID));
+  return noContent();
+});
+
+// ==================== 고객: 관심상품 ====================
+const favoritesResponse = () => {
+  const db = getDb();
+  const mine = db.favorites.filter(f => f.user_id === CURRENT_USER_ID);
+  const productNames = mine.flatMap(f => (f.product_name !== null ? [f.product_name] : []));
+  const categoryIds = mine.flatMap(f => (f.category_id !== null ? [f.category_id] : []));
+  const categoryProductIds = db.categories.filter(c => categoryIds.includes(c.id)).flatMap(c => c.product_ids);
+  // 현재 판매 목록 중 관심상품에 해당하는 상품 (내 관심상품 필터용)
+  const productIds = db.products
+    .filter(p => p.visible && p.sell_date >= kstDate())
+    .filter(p => productNames.includes(p.name) || categoryProductIds.includes(p.id))
+    .map(p => p.id);
+  return json({ product_names: productNames, category_ids: categoryIds, product_ids: productIds });
+};
+
+route('GET', '/api/store/auth/favorites', favoritesResponse);
+
+route('POST', '/api/store/auth/favorites/products/:id', ({ params }) => {
+  const db = getDb();
+  const product = findProduct(params.id);
+  if (!product || !product.visible) return fail(404, '상품을 찾을 수 없습니다.');
+  if (!db.favorites.some(f => f.user_id === CURRENT_USER_ID && f.product_name === product.name)) {
+    db.favorites.push({ user_id: CURRENT_USER_ID, product_name: product.name, category_id: null, created_at: kstDateTime() });
+  }
+  return favoritesResponse();
+});
+
+route('DELETE', '/api/store/auth/favorites/products/:id', ({ params }) => {
+  const db = getDb();
+  const product = findProduct(params.id);
+  if (!product) return fail(404, '상품을 찾을 수 없습니다.');
+  db.favorites = db.favorites.filter(f => !(f.user_id === CURRENT_USER_ID && f.product_name === product.name));
+  return favoritesResponse();
+});
+
+route('POST', '/api/store/auth/favorites/categories/:id', ({ params }) => {
+  const db = getDb();
+  const categoryId = Number(params.id);
+  if (!db.categories.some(c => c.id === categoryId)) return fail(404, '카테고리를 찾을 수 없습니다.');
+  if (!db.favorites.some(f => f.user_id === CURRENT_USER_ID && f.category_id === categoryId)) {
+    db.favorites.push({ user_id: CURRENT_USER_ID, product_name: null, category_id: categoryId, created_at: kstDateTime() });
+  }
+  return favoritesResponse();
+});
+
+route('DELETE', '/api/store/auth/favorites/categories/:id', ({ params }) => {
+  const db = getDb();
+  const categoryId = Number(params.id);
+  db.favorites = db.favorites.filter(f => !(f.user_id === CURRENT_USER_ID && f.category_id === categoryId));
+  return favoritesResponse();
+});
+
+// ==================== 고객: 예약 ====================
+route('GET', '/api/store/auth/reservations', ({ query }) => {
+  const from = query.get('from');
+  const to = query.get('to');
+  const list = getDb().reservations
+    .filter(r => r.user_id === CURRENT_USER_ID)
+    .filter(r => !from || !to || (r.order_date >= from && r.order_date <= to))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .map(r => {
+      const delivery = r.delivery_id ? getDb().deliveries.find(d => d.id === r.delivery_id) : undefined;
+      return {
+        id: r.id,
+        display_code: r.display_code,
+        order_date: r.order_date,
+        status: r.status,
+        quantity: r.quantity,
+        amount: r.amount,
+        product_id: r.product_id,
+        product_name: r.product_name,
+        product_image: r.product_image,
+        created_at: r.created_at,
+        delivery: delivery && isActiveDelivery(delivery) ? deliverySummary(delivery) : undefined,
+      };
+    });
+  return json({ response: list });
+});
+
+route('POST', '/api/store/auth/reservations', ({ body }) => {
+  const me = currentCustomer();
+  if (isRestricted(me)) return fail(403, `이용이 제한된 계정입니다. (${me.restricted_until}까지)`);
+  const product = findProduct(body?.product_id);
+  const quantity = Number(body?.quantity ?? 0);
+  if (!product || !product.visible) return fail(404, '상품을 찾을 수 없습니다.');
+  if (!Number.isInteger(quantity) || quantity < 1) return fail(400, '수량이 올바르지 않습니다.');
+  if (product.stock < quantity) return fail(400, '재고가 부족합니다.');
+
+  product.stock -= quantity;
+  product.total_sold += quantity;
+  const reservation: ServerReservation = {
+    id: nextId(),
+    display_code: displayCode('R'),
+    user_id: me.uid,
+    product_id: product.id,
+    product_name: product.name,
+    product_image: product.image_url,
+    price: product.price,
+    quantity,
+    amount: product.price * quantity,
+    order_date: String(body?.pickup_date || product.sell_date),
+    status: 'PENDING',
+    created_at: kstDateTime(),
+    delivery_id: null,
+  };
+  getDb().reservations.push(reservation);
+  return text(reservation.display_code);
+});
+
+const findMyReservation = (code: string) =>
+  getDb().reservations.find(r => r.display_code === code && r.user_id === CURRENT_USER_ID);
+
+route('PATCH', '/api/store/auth/reservations/cancel/:code', ({ params }) => {
+  const reservation = findMyReservation(params.code);
+  if (!reservation) return fail(404, '예약을 찾을 수 없습니다.');
+  if (reservation.status !== 'PENDING') return fail(400, '취소할 수 없는 예약입니다.');
+  if (reservation.delivery_id) return fail(400, '배달 주문에 포함된 예약은 취소할 수 없습니다.');
+  reservation.status = 'CANCELED';
+  restock(reservation, reservation.quantity);
+  return text('OK');
+});
+
+route('PATCH', '/api/store/auth/reservations/:code/quantity', ({ params, query }) => {
+  const reservation = findMyReservation(params.code);
+  const minus = Number(query.get('minus') || 0);
+  if (!reservation) return fail(404, '예약을 찾을 수 없습니다.');
+  if (reservation.status !== 'PENDING') return fail(400, '변경할 수 없는 예약입니다.');
+  if (!Number.isInteger(minus) || minus < 1 || minus >= reservation.quantity) return fail(400, '수량이 올바르지 않습니다.');
+  reservation.quantity -= minus;
+  reservation.amount = reservation.price * reservation.quantity;
+  restock(reservation, minus);
+  return text('OK');
+});
+
+// ==================== 고객: 배달 ====================
+route('GET', '/api/store/auth/deliveries/config', () => json(getDb().deliveryConfig));
+
+route('POST', '/api/store/auth/deliveries/fee', ({ body }) => {
+  const estimate = estimateFee(Number(body?.latitude), Number(body?.longitude), body);
+  return typeof estimate === 'string' ? fail(400, estimate) : json(estimate);
+});
+
+route('GET', '/api/store/auth/deliveries/slots', ({ query }) => {
+  const config = getDb().deliveryConfig;
+  const date = query.get('date') || kstDate();
+  const hoursOf = (h: { start_hour: number; start_minute: number; end_hour: number; end_minute: number }) => ({
+    startHour: h.start_hour,
+    startMinute: h.start_minute,
+    endHour: h.end_hour,
+    endMinute: h.end_minute,
+  });
+  const slots = buildDeliverySlots(hoursOf(config), config.zones.map(hoursOf));
+  return json({
+    response: slots.map(slot => {
+      const capacity = slotCapacity(slot);
+      return { ...slot, capacity: capacity > 0 ? capacity : null, reserved: slotReserved(date, slot) };
+    }),
+  });
+});
+
+route('GET', '/api/store/auth/deliveries/info', () => {
+  const info = getDb().deliveryInfo[CURRENT_USER_ID];
+  return info ? json(info) : noContent();
+});
+
+route('PUT', '/api/store/auth/deliveries/info', ({ body }) => {
+  getDb().deliveryInfo[CURRENT_USER_ID] = {
+    phone: String(body?.phone ?? ''),
+    postal_code: String(body?.postal_code ?? ''),
+    address1: String(body?.address1 ?? ''),
+    address2: String(body?.address2 ?? ''),
+    latitude: typeof body?.latitude === 'number' ? body.latitude : null,
+    longitude: typeof body?.longitude === 'number' ? body.longitude : null,
+  };
+  return noContent();
+});
+
+// 주소록: 변경 후 항상 내 주소 전체를 기본 주소 먼저 응답
+const deliveryAddressesResponse = () => json({
+  response: getDb().deliveryAddresses
+    .filter(a => a.user_id === CURRENT_USER_ID)
+    .sort((a, b) => Number(b.is_default) - Number(a.is_default) || a.id - b.id),
+});
+
+const findMyAddress = (id: unknown) =>
+  getDb().deliveryAddresses.find(a => a.id === Number(id) && a.user_id === CURRENT_USER_ID);
+
+// 보낸 항목만 반영 (기본 주소 지정 시 나머지는 해제)
+const applyAddressBody = (address: ServerDeliveryAddress, body: any) => {
+  (['label', 'postal_code', 'address1', 'address2'] as const).forEach(key => {
+    if (typeof body?.[key] === 'string') address[key] = body[key].trim();
+  });
+  (['latitude', 'longitude', 'distance_km', 'delivery_fee'] as const).forEach(key => {
+    if (body?.[key] !== undefined) address[key] = typeof body[key] === 'number' ? body[key] : null;
+  });
+  if (body?.is_default === true) {
+    getDb().deliveryAddresses
+      .filter(a => a.user_id === CURRENT_USER_ID)
+      .forEach(a => { a.is_default = a.id === address.id; });
+  }
+};
+
+// 배달 추적 스트림 1회용 티켓 (실서버는 짧은 만료 + 사용 즉시 폐기, 모의 스트림은 티켓을 검사하지 않음)
+route('POST', '/api/store/auth/deliveries/stream/ticket', () =>
+  json({ ticket: `mock-${nextId()}-${Math.random().toString(36).slice(2)}`, expires_in: 30 }));
+
+route('GET', '/api/store/auth/deliveries/addresses', deliveryAddressesResponse);
+
+route('POST', '/api/store/auth/deliveries/addresses', ({ body }) => {
+  const db = getDb();
+  const mine = db.deliveryAddresses.filter(a => a.user_id === CURRENT_USER_ID);
+  if (!String(body?.address1 ?? '').trim()) return fail(400, '주소를 입력해주세요.');
+  if (mine.length >= 10) return fail(400, '배달 주소는 최대 10개까지 저장할 수 있습니다.');
+  const address: ServerDeliveryAddress = {
+    id: nextId(),
+    user_id: CURRENT_USER_ID,
+    label: '',
+    is_default: false,
+    postal_code: '',
+    address1: '',
+    address2: '',
+    latitude: null,
+    longitude: null,
+    distance_km: null,
+    delivery_fee: null,
+    created_at: kstDateTime(),
+  };
+  db.deliveryAddresses.push(address);
+  // 첫 주소는 자동으로 기본 주소
+  applyAddressBody(address, mine.length === 0 ? { ...body, is_default: true } : body);
+  if (!address.label) address.label = `주소 ${mine.length + 1}`;
+  return deliveryAddressesResponse();
+});
+
+route('PATCH', '/api/store/auth/deliveries/addresses/:id', ({ params, body }) => {
+  const address = findMyAddress(params.id);
+  if (!address) return fail(404, '주소를 찾을 수 없습니다.');
+  if (body?.label !== undefined && !String(body.label).trim()) return fail(400, '주소 이름을 입력해주세요.');
+  applyAddressBody(address, body);
+  return deliveryAddressesResponse();
+});
+
+route('DELETE', '/api/store/auth/deliveries/addresses/:id', ({ params }) => {
+  const db = getDb();
+  const address = findMyAddress(params.id);
+  if (!address) return fail(404, '주소를 찾을 수 없습니다.');
+  db.deliveryAddresses = db.deliveryAddresses.filter(a => a.id !== address.id);
+  // 기본 주소를 지우면 남은 주소 중 가장 먼저 등록한 주소가 기본
+  const next = db.deliveryAddresses.find(a => a.user_id === CURRENT_USER_ID);
+  if (address.is_default && next) next.is_default = true;
+  return deliveryAddressesResponse();
+});
+
+const paymentRedirect = (delivery: ServerDelivery) => {
+  const url = `${window.location.origin}/store/deliveries/approve?order_id=${encodeURIComponent(delivery.display_code)}&pg_token=mock`;
+  return { order_code: delivery.display_code, redirect_url: url, mobile_redirect_url: url };
+};
+
+route('POST', '/api/store/auth/deliveries/ready', ({ body }) => {
+  const db = getDb();
+  const idempotencyKey = String(body?.idempotency_key || '');
+  const existing = idempotencyKey ? db.deliveries.find(d => d.idempotency_key === idempotencyKey) : undefined;
+  if (existing) return json(paymentRedirect(existing));
+
+  const codes: string[] = Array.isArray(body?.reservation_codes) ? body.reservation_codes : [];
+  const reservations = codes.map(findMyReservation);
+  if (reservations.length === 0 || reservations.some(r => !r)) return fail(400, '예약 정보를 찾을 수 없습니다.');
+  const targets = reservations as ServerReservation[];
+  if (targets.some(r => r.status !== 'PENDING' || r.delivery_id)) return fail(400, '이미 처리된 예약이 포함되어 있습니다.');
+  if (targets.some(r => !findProduct(r.product_id)?.delivery_available)) return fail(400, '배달이 불가능한 상품이 포함되어 있습니다.');
+
+  const config = db.deliveryConfig;
+  if (!config.enabled) return fail(400, '현재 배달 주문을 받지 않습니다.');
+  const subtotal = targets.reduce((sum, r) => sum + r.amount, 0);
+  const minAmount = findZone(Number(body?.latitude), Number(body?.longitude))?.min_amount ?? config.min_amount;
+  if (subtotal < minAmount) return fail(400, `배달 최소 주문 금액은 ${minAmount.toLocaleString()}원입니다.`);
+  const estimate = estimateFee(Number(body?.latitude), Number(body?.longitude), { ...body, amount: subtotal });
+  if (typeof estimate === 'string') return fail(400, estimate);
+  // 예약 시간대 정원 확인과 배달 생성을 한 번에 처리 (실서버는 트랜잭션) → 동시에 결제해도 초과 예약 없음
+  if (typeof body?.scheduled_delivery_hour === 'number') {
+    const slot = { hour: body.scheduled_delivery_hour, minute: Number(body?.scheduled_delivery_minute ?? 0) };
+    if (isSlotFull(targets[0].order_date, slot)) {
+      return fail(409, '선택한 예약배달 시간이 마감되었습니다. 다른 시간을 선택해주세요.');
+    }
+  }
+
+  const delivery: ServerDelivery = {
+    id: nextId(),
+    display_code: displayCode('D'),
+    user_id: CURRENT_USER_ID,
+    reservation_ids: targets.map(r => r.id),
+    status: 'PENDING_PAYMENT',
+    idempotency_key: idempotencyKey,
+    phone: String(body?.phone ?? ''),
+    postal_code: String(body?.postal_code ?? ''),
+    address1: String(body?.address1 ?? ''),
+    address2: String(body?.address2 ?? ''),
+    latitude: Number(body?.latitude),
+    longitude: Number(body?.longitude),
+    distance_km: estimate.distance_km,
+    delivery_fee: estimate.delivery_fee,
+    delivery_date: targets[0].order_date,
+    delivery_hour: Number(body?.delivery_hour ?? 0),
+    delivery_minute: Number(body?.delivery_minute ?? 0),
+    scheduled_delivery_hour: body?.scheduled_delivery_hour ?? null,
+    scheduled_delivery_minute: body?.scheduled_delivery_minute ?? null,
+    estimated_minutes: null,
+    created_at: kstDateTime(),
+    paid_at: null,
+    accepted_at: null,
+    out_for_delivery_at: null,
+    delivered_at: null,
+  };
+  db.deliveries.push(delivery);
+  targets.forEach(r => { r.delivery_id = delivery.id; });
+  return json(paymentRedirect(delivery));
+});
+
+route('GET', '/api/store/auth/deliveries/approve', ({ query }) => {
+  const delivery = deliveryByCode(query.get('order_id'));
+  if (!delivery) return fail(404, '배달 주문을 찾을 수 없습니다.');
+  if (delivery.status === 'PENDING_PAYMENT') {
+    // 자리 확보가 만료된 뒤 결제했는데 그 사이 시간대가 마감됐으면 승인하지 않음
+    if (delivery.scheduled_delivery_hour !== null && !holdsSlot(delivery)) {
+      const slot = { hour: delivery.scheduled_delivery_hour, minute: delivery.scheduled_delivery_minute ?? 0 };
+      if (isSlotFull(delivery.delivery_date, slot)) {
+        delivery.status = 'FAILED';
+        reservationsOf(delivery).forEach(r => { r.delivery_id = null; });
+        publishDeliveryStatus(delivery);
+        return fail(409, '결제 대기 시간이 지나 선택한 예약배달 시간이 마감되었습니다.');
+      }
+    }
+    delivery.status = 'PAID';
+    delivery.paid_at = kstDateTime();
+    // 관리자 알림 스트림 (AdminDeliveryAlertContext)
+    publishEvent(DELIVERY_STREAM_PATH, 'delivery_paid', adminDeliveryItem(delivery));
+    publishDeliveryStatus(delivery);
+  }
+  return json({ order_code: delivery.display_code, status: delivery.status });
+});
+
+// 결제 취소/실패: 예약을 다시 픽업 주문으로 되돌림
+const releasePayment = (status: ServerDeliveryStatus): Handler => ({ query }) => {
+  const delivery = deliveryByCode(query.get('order_id'));
+  if (!delivery) return fail(404, '배달 주문을 찾을 수 없습니다.');
+  if (delivery.status === 'PENDING_PAYMENT') {
+    delivery.status = status;
+    reservationsOf(delivery).forEach(r => { r.delivery_id = null; });
+  }
+  return json({ order_code: delivery.display_code, status: delivery.status });
+};
+
+route('GET', '/api/store/auth/deliveries/cancel', releasePayment('CANCELED'));
+route('GET', '/api/store/auth/deliveries/fail', releasePayment('FAILED'));
+
+// ==================== 관리자: 상품 ====================
+route('GET', '/api/admin/shop/products', () =>
+  json({ response: [...getDb().products].sort((a, b) => a.order_index - b.order_index).map(adminProductItem) }));
+
+route('POST', '/api/admin/shop/products', ({ body }) => {
+  const db = getDb();
+  const { image, details } = imageFields(body ?? {});
+  const product: ServerProduct = {
+    id: nextId(),
+    name: String(body?.name ?? ''),
+    price: Number(body?.price ?? 0),
+    stock: Number(body?.stock ?? 0),
+    image_url: String(image ?? ''),
+    sell_date: String(body?.sell_date ?? body?.sellDate ?? kstDate()),
+    sell_time: body?.sell_time ?? body?.sellTime ?? null,
+    description: String(body?.description ?? ''),
+    detail_urls: Array.isArray(details) ? details : [],
+    total_sold: 0,
+    order_index: db.products.reduce((max, p) => Math.max(max, p.order_index), 0) + 1,
+    visible: body?.visible ?? true,
+    delivery_available: body?.delivery_available ?? false,
+  };
+  db.products.push(product);
+  notifyFavorites([product]);
+  return json({ id: product.id }, 201);
+});
+
+route('PATCH', '/api/admin/shop/products/bulk-sell-date', ({ body }) => {
+  const ids: number[] = Array.isArray(body?.product_ids) ? body.product_ids.map(Number) : [];
+  const sellDate = String(body?.sell_date);
+  const changed = getDb().products.filter(p => ids.includes(p.id) && p.sell_date !== sellDate);
+  changed.forEach(p => { p.sell_date = sellDate; });
+  notifyFavorites(changed);
+  return json({ updated: ids.length });
+});
+
+route('GET', '/api/admin/shop/products/bulk-sell-date', ({ query }) => {
+  const ids = query.getAll('ids').map(Number);
+  const list = getDb().products.filter(p => ids.includes(p.id)).map(p => ({ id: p.id, sell_date: p.sell_date }));
+  return json({ response: list });
+});
+
+route('GET', '/api/admin/shop/products/waitlist', () => {
+  const counts = new Map<number, number>();
+  getDb().waitlist.forEach(w => counts.set(w.product_id, (counts.get(w.product_id) ?? 0) + 1));
+  return json({ response: Array.from(counts, ([product_id, count]) => ({ product_id, count })) });
+});
+
+route('PATCH', '/api/admin/shop/products/order', ({ body }) => {
+  const ids: number[] = Array.isArray(body?.product_ids) ? body.product_ids.map(Number) : [];
+  ids.forEach((id, i) => {
+    const product = findProduct(id);
+    if (product) product.order_index = i + 1;
+  });
+  return json({ updated: ids.length });
+});
+
+route('POST', '/api/admin/shop/products/presigned-url', ({ body }) => json(presigned(body?.file_name)));
+
+route('PATCH', '/api/admin/shop/products/:id/presigned-url', ({ params, body }) => {
+  if (!findProduct(params.id)) return fail(404, '상품을 찾을 수 없습니다.');
+  // file_names가 있으면 상세 이미지 일괄 발급
+  if (Array.isArray(body?.file_names)) return json(body.file_names.map(presigned));
+  return json(presigned(body?.file_name));
+});
+
+const toggleProduct = (apply: (product: ServerProduct) => void): Handler => ({ params }) => {
+  const product = findProduct(params.id);
+  if (!product) return fail(404, '상품을 찾을 수 없습니다.');
+  apply(product);
+  return json(adminProductItem(product));
+};
+
+route('PATCH', '/api/admin/shop/products/sold-out/:id', toggleProduct(p => { p.stock = 0; }));
+route('PATCH', '/api/admin/shop/products/visible/:id', toggleProduct(p => { p.visible = !p.visible; }));
+route('PATCH', '/api/admin/shop/products/delivery-available/:id', toggleProduct(p => { p.delivery_available = !p.delivery_available; }));
+
+// ==================== 관리자: 카테고리 ====================
+route('GET', '/api/admin/shop/products/categories', () => json({ response: sortedCategories() }));
+
+route('POST', '/api/admin/shop/products/category', ({ body }) => {
+  const db = getDb();
+  const name = String(body?.name ?? '').trim();
+  if (!name) return fail(400, '카테고리 이름을 입력해주세요.');
+  if (db.categories.some(c => c.name === name)) return fail(409, '이미 존재하는 카테고리입니다.');
+  const id = nextId();
+  db.categories.push({
+    id,
+    name,
+    image_url: String(body?.image_url ?? ''),
+    order_index: db.categories.reduce((max, c) => Math.max(max, c.order_index), 0) + 1,
+    product_ids: [],
+  });
+  return json(categoryItem(id), 201);
+});
+
+route('PATCH', '/api/admin/shop/products/category/:id', ({ params, body }) => {
+  const category = getDb().categories.find(c => c.id === Number(params.id));
+  if (!category) return fail(404, '카테고리를 찾을 수 없습니다.');
+  if (body?.name) category.name = String(body.name);
+  if (body?.image_url !== undefined) category.image_url = String(body.image_url ?? '');
+  return json(categoryItem(category.id));
+});
+
+route('DELETE', '/api/admin/shop/products/category', ({ query }) => {
+  const db = getDb();
+  const keyword = query.get('keyword');
+  if (!db.categories.some(c => c.name === keyword)) return fail(404, '카테고리를 찾을 수 없습니다.');
+  db.categories = db.categories.filter(c => c.name !== keyword);
+  return noContent();
+});
+
+route('PATCH', '/api/admin/shop/products/categories/order', ({ body }) => {
+  const list: any[] = Array.isArray(body?.categories) ? body.categories : [];
+  list.forEach((item, i) => {
+    const category = getDb().categories.find(c => c.id === Number(item?.id));
+    if (category) category.order_index = i + 1;
+  });
+  return json({ response: sortedCategories() });
+});
+
+route('PUT', '/api/admin/shop/products/categories/:categoryId/products', ({ params, body }) => {
+  const category = getDb().categories.find(c => c.id === Number(params.categoryId));
+  if (!category) return fail(404, '카테고리를 찾을 수 없습니다.');
+  const nextIds: number[] = Array.isArray(body?.product_ids) ? body.product_ids.map(Number) : [];
+  const added = nextIds.filter(id => !category.product_ids.includes(id));
+  category.product_ids = nextIds;
+  notifyFavorites(getDb().products.filter(p => added.includes(p.id)));
+  return json(categoryItem(category.id));
+});
+
+const linkCategory = (link: boolean): Handler => ({ params }) => {
+  const category = getDb().categories.find(c => c.id === Number(params.categoryId));
+  const productId = Number(params.productId);
+  const product = findProduct(productId);
+  if (!category || !product) return fail(404, '상품 또는 카테고리를 찾을 수 없습니다.');
+  const wasLinked = category.product_ids.includes(productId);
+  category.product_ids = category.product_ids.filter(id => id !== productId);
+  if (link) category.product_ids.push(productId);
+  if (link && !wasLinked) notifyFavorites([product]);
+  return json(categoryItem(category.id));
+};
+
+route('POST', '/api/admin/shop/products/:productId/categories/:categoryId', linkCategory(true));
+route('DELETE', '/api/admin/shop/products/:productId/categories/:categoryId', linkCategory(false));
+
+route('POST', '/api/admin/shop/keyword/presigned-url', ({ body }) => json(presigned(body?.file_name)));
+
+// 상품 단건 (categories 등 고정 경로보다 뒤에 등록)
+route('GET', '/api/admin/shop/products/:id', ({ params }) => {
+  const product = findProduct(params.id);
+  if (!product) return fail(404, '상품을 찾을 수 없습니다.');
+  return json({ ...adminProductItem(product), description: product.description, detail_urls: product.detail_urls });
+});
+
+route('PATCH', '/api/admin/shop/products/:id', ({ params, body }) => {
+  const product = findProduct(params.id);
+  if (!product) return fail(404, '상품을 찾을 수 없습니다.');
+  const { image, details } = imageFields(body ?? {});
+  const wasSoldOut = product.stock <= 0;
+  if (body?.name != null) product.name = String(body.name);
+  if (body?.price != null) product.price = Number(body.price);
+  if (body?.stock != null) product.stock = Number(body.stock);
+  if (image != null) product.image_url = String(image);
+  if (Array.isArray(details)) product.detail_urls = details;
+  if (body?.description != null) product.description = String(body.description);
+  const sellDate = body?.sell_date ?? body?.sellDate;
+  const sellDateChanged = sellDate != null && String(sellDate) !== product.sell_date;
+  if (sellDate != null) product.sell_date = String(sellDate);
+  const sellTime = body?.sell_time ?? body?.sellTime;
+  if (sellTime !== undefined) product.sell_time = sellTime || null;
+  if (wasSoldOut) notifyWaitlist(product);
+  if (sellDateChanged) notifyFavorites([product]);
+  return json(adminProductItem(product));
+});
+
+route('DELETE', '/api/admin/shop/products/:id', ({ params }) => {
+  const db = getDb();
+  const id = Number(params.id);
+  if (!findProduct(id)) return fail(404, '상품을 찾을 수 없습니다.');
+  db.products = db.products.filter(p => p.id !== id);
+  db.waitlist = db.waitlist.filter(w => w.product_id !== id);
+  db.categories.forEach(c => { c.product_ids = c.product_ids.filter(pid => pid !== id); });
+  return noContent();
+});
+
+// ==================== 관리자: 예약/매출 ====================
+const RESERVATION_STATUSES: ServerReservationStatus[] = ['PENDING', 'PICKED', 'CANCELED', 'NO_SHOW', 'SELF_PICK'];
+
+const adminReservationItem = (r: ServerReservation) => ({
+  id: r.id,
+  display_code: r.display_code,
+  order_date: r.order_date,
+  product_id: r.product_id,
+  product_name: r.product_name,
+  user_name: findCustomer(r.user_id)?.name ?? '',
+  quantity: r.quantity,
+  price: r.price,
+  amount: r.amount,
+  status: r.status,
+  created_at: r.created_at,
+});
+
+// 관리자 상태 변경: 취소로 바뀌면 재고 복구, 취소에서 되돌리면 다시 차감
+const applyReservationStatus = (reservation: ServerReservation, status: ServerReservationStatus) => {
+  if (reservation.status !== 'CANCELED' && status === 'CANCELED') restock(reservation, reservation.quantity);
+  if (reservation.status === 'CANCELED' && status !== 'CANCELED') restock(reservation, -reservation.quantity);
+  reservation.status = status;
+};
+
+// 당월 경고 누적 시 월말까지 이용 제한
+const RESTRICT_WARN_COUNT = 2;
+
+const monthEnd = () => {
+  const [y, m] = kstDate().split('-').map(Number);
+  return new Date(Date.UTC(y, m, 0)).toISOString().slice(0, 10);
+};
+
+const addWarn = (uid: string, reason: 'NO_SHOW' | 'ADMIN') => {
+  const customer = findCustomer(uid);
+  if (!customer) return;
+  customer.warns.push({ reason, warn_at: kstDateTime() });
+  if (warnCounts(customer).monthly_warn_count >= RESTRICT_WARN_COUNT && !isRestricted(customer)) {
+    customer.restricted_until = monthEnd();
+  }
+};
+
+route('GET', '/api/admin/shop/reservations', ({ query }) => {
+  const date = query.get('date') || kstDate();
+  const list = getDb().reservations.filter(r => r.order_date === date).map(adminReservationItem);
+  return json({ response: list });
+});
+
+route('PATCH', '/api/admin/shop/reservations/status', ({ body }) => {
+  const status = String(body?.status ?? '').toUpperCase() as ServerReservationStatus;
+  if (!RESERVATION_STATUSES.includes(status)) return fail(400, '지원하지 않는 상태입니다.');
+  const ids: number[] = Array.isArray(body?.reservation_ids) ? body.reservation_ids.map(Number) : [];
+  const targets = getDb().reservations.filter(r => ids.includes(r.id));
+  if (targets.length !== ids.length) return fail(404, '예약을 찾을 수 없습니다.');
+  targets.forEach(r => applyReservationStatus(r, status));
+  return json({ updated: targets.length });
+});
+
+// 노쇼 검토: 수령일의 미수령 예약을 고객별로 묶어 경고 1회 추가 시 이용 제한 여부 미리보기
+route('GET', '/api/admin/shop/reservations/no-show/preview', ({ query }) => {
+  const date = query.get('date') || kstDate();
+  const byUser = new Map<string, ServerReservation[]>();
+  getDb().reservations
+    .filter(r => r.order_date === date && r.status === 'PENDING')
+    .forEach(r => byUser.set(r.user_id, [...(byUser.get(r.user_id) ?? []), r]));
+  const list = Array.from(byUser.entries()).map(([userId, reservations]) => {
+    const customer = findCustomer(userId);
+    const monthly = customer ? warnCounts(customer).monthly_warn_count : 0;
+    return {
+      user_id: userId,
+      user_name: customer?.name ?? '',
+      monthly_warn_count: monthly,
+      restricted_until: customer?.restricted_until ?? null,
+      will_be_restricted: Boolean(customer && !isRestricted(customer)) && monthly + 1 >= RESTRICT_WARN_COUNT,
+      reservations: reservations.map(r => ({
+        id: r.id,
+        display_code: r.display_code,
+        product_name: r.product_name,
+        quantity: r.quantity,
+        amount: r.amount,
+      })),
+    };
+  });
+  return json({ restrict_warn_count: RESTRICT_WARN_COUNT, response: list });
+});
+
+// 노쇼 일괄 처리: 예약은 모두 NO_SHOW, 경고는 고객별 1회
+route('PATCH', '/api/admin/shop/reservations/no-show', ({ body }) => {
+  const ids: number[] = Array.isArray(body?.reservation_ids) ? body.reservation_ids.map(Number) : [];
+  const targets = getDb().reservations.filter(r => ids.includes(r.id));
+  if (ids.length === 0 || targets.length !== ids.length) return fail(404, '예약을 찾을 수 없습니다.');
+  if (targets.some(r => r.status !== 'PENDING')) return fail(409, '수령 대기 상태가 아닌 예약이 포함되어 있습니다.');
+  targets.forEach(r => applyReservationStatus(r, 'NO_SHOW'));
+  const userIds = Array.from(new Set(targets.map(r => r.user_id)));
+  const restricted = userIds.flatMap(uid => {
+    const customer = findCustomer(uid);
+    if (!customer) return [];
+    const wasRestricted = isRestricted(customer);
+    addWarn(uid, 'NO_SHOW');
+    return !wasRestricted && isRestricted(customer)
+      ? [{ user_id: uid, user_name: customer.name, restricted_until: customer.restricted_until }]
+      : [];
+  });
+  return json({ updated: targets.length, warned_users: userIds.length, restricted });
+});
+
+route('GET', '/api/admin/shop/reservations/sales/today', () => {
+  const byProduct = new Map<number, { product_id: number; product_name: string; quantity: number; amount: number }>();
+  getDb().reservations
+    .filter(r => r.order_date === kstDate() && r.status === 'PICKED')
+    .forEach(r => {
+      const row = byProduct.get(r.product_id) ?? { product_id: r.product_id, product_name: r.product_name, quantity: 0, amount: 0 };
+      row.quantity += r.quantity;
+      row.amount += r.amount;
+      byProduct.set(r.product_id, row);
+    });
+  return json({ response: Array.from(byProduct.values()) });
+});
+
+route('PATCH', '/api/admin/shop/reservations/:id/no-show', ({ params }) => {
+  const reservation = getDb().reservations.find(r => r.id === Number(params.id));
+  if (!reservation) return fail(404, '예약을 찾을 수 없습니다.');
+  applyReservationStatus(reservation, 'NO_SHOW');
+  addWarn(reservation.user_id, 'NO_SHOW');
+  return json(adminReservationItem(reservation));
+});
+
+route('PATCH', '/api/admin/shop/reservations/:id/:status', ({ params }) => {
+  const reservation = getDb().reservations.find(r => r.id === Number(params.id));
+  const status = params.status.toUpperCase() as ServerReservationStatus;
+  if (!reservation) return fail(404, '예약을 찾을 수 없습니다.');
+  if (!RESERVATION_STATUSES.includes(status)) return fail(400, '지원하지 않는 상태입니다.');
+  applyReservationStatus(reservation, status);
+  return json(adminReservationItem(reservation));
+});
+
+route('GET', '/api/admin/shop/agg/summary', ({ query }) => {
+  const from = query.get('from') || '0000-00-00';
+  const to = query.get('to') || '9999-99-99';
+  const byDate = new Map<string, { date: string; quantity: number; revenue: number }>();
+  getDb().reservations
+    .filter(r => r.status === 'PICKED' && r.order_date >= from && r.order_date <= to && r.order_date < kstDate())
+    .forEach(r => {
+      const row = byDate.get(r.order_date) ?? { date: r.order_date, quantity: 0, revenue: 0 };
+      row.quantity += r.quantity;
+      row.revenue += r.amount;
+      byDate.set(r.order_date, row);
+    });
+  return json({ summary: Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date)) });
+});
+
+route('GET', '/api/admin/shop/agg/sales', ({ query }) => {
+  const date = query.get('date');
+  const list = getDb().reservations
+    .filter(r => r.order_date === date && r.status === 'PICKED')
+    .map(r => ({ id: r.id, pickup_date: r.order_date, product_name: r.product_name, quantity: r.quantity, amount: r.amount, price: r.price }));
+  return json({ response: list });
+});
+
+// ==================== 관리자: 배달 ====================
+route('GET', '/api/admin/shop/deliveries/config', () => json(getDb().deliveryConfig));
+
+route('PUT', '/api/admin/shop/deliveries/config', ({ body }) => {
+  const db = getDb();
+  const config = { ...db.deliveryConfig };
+  (Object.keys(config) as (keyof typeof config)[]).forEach(key => {
+    if (body?.[key] === undefined || body[key] === null) return;
+    (config as Record<string, unknown>)[key] = body[key];
+  });
+  config.zones = config.zones.map(zone => ({ ...zone, id: zone.id > 0 ? zone.id : nextId() }));
+  db.deliveryConfig = config;
+  return json(config);
+});
+
+route('GET', '/api/admin/shop/deliveries', ({ query }) => {
+  const date = query.get('date') || kstDate();
+  const list = getDb().deliveries
+    .filter(d => d.delivery_date === date && isActiveDelivery(d))
+    .sort((a, b) => (a.paid_at ?? '').localeCompare(b.paid_at ?? ''))
+    .map(adminDeliveryItem);
+  return json({ response: list });
+});
+
+const findDelivery = (id: string) => getDb().deliveries.find(d => d.id === Number(id));
+
+route('PATCH', '/api/admin/shop/deliveries/:id/accept', ({ params, body }) => {
+  const delivery = findDelivery(params.id);
+  if (!delivery) return fail(404, '배달 주문을 찾을 수 없습니다.');
+  if (delivery.status !== 'PAID') return fail(400, '결제 완료된 주문만 접수할 수 있습니다.');
+  delivery.accepted_at = kstDateTime();
+  delivery.estimated_minutes = Number(body?.estimated_minutes ?? 0) || null;
+  publishDeliveryStatus(delivery);
+  return json(adminDeliveryItem(delivery));
+});
+
+route('PATCH', '/api/admin/shop/deliveries/:id/status/:status', ({ params }) => {
+  const delivery = findDelivery(params.id);
+  const status = params.status.toUpperCase() as ServerDeliveryStatus;
+  if (!delivery) return fail(404, '배달 주문을 찾을 수 없습니다.');
+  if (!['OUT_FOR_DELIVERY', 'DELIVERED', 'CANCELED'].includes(status)) return fail(400, '지원하지 않는 상태입니다.');
+  delivery.status = status;
+  if (status === 'OUT_FOR_DELIVERY') delivery.out_for_delivery_at = kstDateTime();
+  if (status === 'DELIVERED') delivery.delivered_at = kstDateTime();
+  publishDeliveryStatus(delivery);
+  // 배달 완료 → 예약 수령 처리, 배달 취소 → 예약 취소
+  if (status === 'DELIVERED') reservationsOf(delivery).forEach(r => applyReservationStatus(r, 'PICKED'));
+  if (status === 'CANCELED') reservationsOf(delivery).forEach(r => applyReservationStatus(r, 'CANCELED'));
+  return json(adminDeliveryItem(delivery));
+});
+
+// ==================== 관리자: 고객 ====================
+const CUSTOMER_SORTERS: Record<string, (c: ServerCustomer) => number | string> = {
+  TOTAL_REVENUE: c => totalRevenue(c.uid),
+  WARN_COUNT: c => warnCounts(c).monthly_warn_count,
+  TOTAL_WARN_COUNT: c => warnCounts(c).total_warn_count,
+  RESTRICTED_UNTIL: c => c.restricted_until ?? '',
+};
+
+route('GET', '/api/admin/shop/customers', ({ query }) => {
+  const name = (query.get('name') || '').trim();
+  const sorter = CUSTOMER_SORTERS[query.get('sortKey') || 'TOTAL_REVENUE'] ?? CUSTOMER_SORTERS.TOTAL_REVENUE;
+  const direction = query.get('sortOrder') === 'ASC' ? 1 : -1;
+  const offset = Number(query.get('cursor') || 0);
+  const limit = Number(query.get('limit') || 20);
+  const sorted = getDb().customers
+    .filter(c => !name || c.name.includes(name))
+    .sort((a, b) => {
+      const av = sorter(a);
+      const bv = sorter(b);
+      return (av < bv ? -1 : av > bv ? 1 : 0) * direction;
+    });
+  const page = sorted.slice(offset, offset + limit);
+  const nextCursor = offset + limit < sorted.length ? String(offset + limit) : null;
+  return json({ response: page.map(customerItem), pagination: { nextCursor } });
+});
+
+const withCustomer = (apply: (customer: ServerCustomer) => void): Handler => ({ params }) => {
+  const customer = findCustomer(params.userId);
+  if (!customer) return fail(404, '고객을 찾을 수 없습니다.');
+  apply(customer);
+  return json(customerItem(customer));
+};
+
+route('POST', '/api/admin/shop/customer/warn/:userId', withCustomer(c => addWarn(c.uid, 'ADMIN')));
+route('PATCH', '/api/admin/shop/customer/warn/reset/:userId', withCustomer(c => {
+  const month = kstDate().slice(0, 7);
+  c.warns = c.warns.filter(w => !w.warn_at.startsWith(month));
+  c.restricted_until = null;
+}));
+route('PATCH', '/api/admin/shop/users/:userId/lift-restriction', withCustomer(c => { c.restricted_until = null; }));
+
+route('GET', '/api/admin/shop/customers/warn/:userId', ({ params }) => {
+  const customer = findCustomer(params.userId);
+  if (!customer) return fail(404, '고객을 찾을 수 없습니다.');
+  return json({ response: [...customer.warns].sort((a, b) => b.warn_at.localeCompare(a.warn_at)) });
+});
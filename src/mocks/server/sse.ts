@@ -0,0 +1,74 @@
+// src/mocks/server/sse.ts
+// EventSource 대체: 모의 서버 스트림 경로는 메모리에서 이벤트를 전달, 그 외 URL은 원래 EventSource 사용
+
+const sources = new Map<string, Set<MockEventSource>>();
+
+export class MockEventSource extends EventTarget {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 2;
+  readonly CONNECTING = 0;
+  readonly OPEN = 1;
+  readonly CLOSED = 2;
+
+  readonly url: string;
+  readonly withCredentials: boolean;
+  readyState = MockEventSource.CONNECTING;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  private readonly path: string;
+
+  constructor(url: string, path: string, init?: EventSourceInit) {
+    super();
+    this.url = url;
+    this.path = path;
+    this.withCredentials = Boolean(init?.withCredentials);
+    const set = sources.get(path) ?? new Set<MockEventSource>();
+    set.add(this);
+    sources.set(path, set);
+    // 실제 EventSource처럼 비동기로 연결
+    setTimeout(() => {
+      if (this.readyState !== MockEventSource.CONNECTING) return;
+      this.readyState = MockEventSource.OPEN;
+      const event = new Event('open');
+      this.onopen?.(event);
+      this.dispatchEvent(event);
+    }, 0);
+  }
+
+  deliver(type: string, data: string) {
+    if (this.readyState !== MockEventSource.OPEN) return;
+    const event = new MessageEvent(type, { data, origin: window.location.origin });
+    if (type === 'message') this.onmessage?.(event);
+    this.dispatchEvent(event);
+  }
+
+  close() {
+    this.readyState = MockEventSource.CLOSED;
+    sources.get(this.path)?.delete(this);
+  }
+}
+
+/** 스트림 경로를 구독 중인 모든 연결에 이벤트 전송 */
+export const publishEvent = (path: string, type: string, payload: unknown) => {
+  const data = JSON.stringify(payload);
+  sources.get(path)?.forEach(source => source.deliver(type, data));
+};
+
+/** 모의 스트림 경로만 가로채는 EventSource 생성자 */
+export const createEventSourceShim = (
+  original: typeof EventSource | undefined,
+  resolvePath: (url: string) => string | null
+): typeof EventSource => {
+  function EventSourceShim(url: string | URL, init?: EventSourceInit) {
+    const href = String(url);
+    const path = resolvePath(href);
+    if (path === null && original) return new original(href, init);
+    return new MockEventSource(href, path ?? href, init);
+  }
+  EventSourceShim.CONNECTING = 0;
+  EventSourceShim.OPEN = 1;
+  EventSourceShim.CLOSED = 2;
+  return EventSourceShim as unknown as typeof EventSource;
+};
@@ -3,13 +3,9 @@ import { useLocation, useNavigate } from 'react-router-dom';
 import { useSnackbar } from '../components/snackbar';
 import { getCurrentEnvironment, safeErrorLog, getSafeErrorMessage } from '../utils/environment';
 import { logo, theme } from '../brand';
-
-declare global { interface Window { Kakao: any } }
-
-const KAKAO_SDK_SRC =
-  'https://t1.kakaocdn.net/kakao_js_sdk/2.7.6/kakao.min.js';
-const KAKAO_SDK_INTEGRITY =
-  'sha384-WAtVcQYcmTO/N+C1N+1m6Gp8qxh+3NlnP7X1U7qP6P5dQY/MsRBNTh+e1ahJrkEm';
+import { refreshAccessToken } from '../utils/api';
+import { ensureKakaoSDK } from '../utils/kakao';
+import { PRODUCTS_PATH, takePendingProductLink } from '../utils/productLink';
 
 const JS_KAKAO_KEY = process.env.REACT_APP_JS_KAKAO_KEY!;
 const REDIRECT_URI = process.env.REACT_APP_REDIRECT_URI!;
@@ -28,25 +24,6 @@ function genState() {
 
 type LoginSuccess = { name: string; access: string; exists?: boolean; change_name?: boolean };
 
-async function ensureKakaoSDK(jsKey: string) {
-  if (window.Kakao?.isInitialized?.()) return;
-
-  if (!document.querySelector(`script[src="${KAKAO_SDK_SRC}"]`)) {
-    await new Promise<void>((res, rej) => {
-      const s = document.createElement('script');
-      s.src = KAKAO_SDK_SRC;
-      s.integrity = KAKAO_SDK_INTEGRITY;
-      s.crossOrigin = 'anonymous';
-      s.onload = () => res();
-      s.onerror = () => rej(new Error('Kakao SDK load failed'));
-      document.head.appendChild(s);
-    });
-  }
-
-  if (!window.Kakao) throw new Error('Kakao SDK not available');
-  if (!window.Kakao.isInitialized()) window.Kakao.init(jsKey);
-}
-
 type AuthState = 'checking' | 'authenticated' | 'unauthenticated';
 
 export default function MainPage() {
@@ -103,19 +80,8 @@ export default function MainPage() {
     (async () => {
       try {
         setBusy(true);
-        const access = localStorage.getItem('access') || '';
-        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-        if (access) headers.Authorization = `Bearer ${access}`;
-
-        const res = await fetch(`${API_BASE}/api/refresh`, {
-          method: 'POST',
-          headers,
-          credentials: 'include',
-        });
-
-        if (res.ok) {
-          const newAccess = await res.text();
-          localStorage.setItem('access', newAccess);
+        const newAccess = await refreshAccessToken();
+        if (newAccess) {
           setAuthState('authenticated');
           return;
         }
@@ -302,7 +268,7 @@ export default function MainPage() {
           </h1>
           <div className="flex flex-col gap-4">
             <button
-              onClick={() => nav('/store/products', { state: forceNicknameChange ? { forceNicknameChange: true } : {} })}
+              onClick={() => nav(takePendingProductLink() ?? PRODUCTS_PATH, { state: forceNicknameChange ? { forceNicknameChange: true } : {} })}
               className="w-full py-4 rounded-xl text-lg font-semibold text-white shadow-md hover:shadow-lg transition"
               style={{ backgroundColor: 'var(--color-primary-500)' }}
             >
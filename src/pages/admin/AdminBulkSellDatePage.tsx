@@ -6,6 +6,8 @@ import { listProducts } from '../../mocks/products';
 import { safeErrorLog, getSafeErrorMessage } from '../../utils/environment';
 import { getAdminProductsMapped, AdminProductListItem, bulkUpdateSellDate, getBulkSellDates } from '../../utils/api';
 import AdminHeader from '../../components/AdminHeader';
+import SearchHighlight from '../../components/SearchHighlight';
+import { rankBySearch } from '../../utils/koreanSearch';
 
 type Product = AdminProductListItem;
 
@@ -131,8 +133,7 @@ export default function AdminBulkSellDatePage() {
         show(`${selectedProducts.size}개 상품의 판매일이 변경되었습니다.`, { variant: 'success' });
       } else {
         // 실제 API 호출
-        const res = await bulkUpdateSellDate(Array.from(selectedProducts), newSellDate);
-        if (!res.ok) throw new Error('판매일 변경에 실패했습니다.');
+        await bulkUpdateSellDate(Array.from(selectedProducts), newSellDate);
         // 성공 시 로컬 상태도 업데이트
         setProducts(prev => prev.map(p => 
           selectedProducts.has(p.id) ? { ...p, sellDate: newSellDate } : p
@@ -160,19 +161,6 @@ export default function AdminBulkSellDatePage() {
 
   // 검색 관련 함수들
 
-  const highlightSearchTerm = (text: string, searchTerm: string) => {
-    if (!searchTerm.trim()) return text;
-    
-    const regex = new RegExp(`(${searchTerm})`, 'gi');
-    const parts = text.split(regex);
-    
-    return parts.map((part, index) => 
-      regex.test(part) ? (
-        <mark key={index} className="bg-yellow-200 px-1 rounded">{part}</mark>
-      ) : part
-    );
-  };
-
   const openSearchModal = () => {
     setTempSearch(search);
     setSearchModalOpen(true);
@@ -235,13 +223,8 @@ export default function AdminBulkSellDatePage() {
     });
   };
 
-  // 검색 필터링된 상품 목록
-  const getFilteredProducts = (searchQuery: string) => {
-    const query = searchQuery.trim().toLowerCase();
-    if (query === '') return products;
-    
-    return products.filter(p => p.name.toLowerCase().includes(query));
-  };
+  // 검색 필터링된 상품 목록 (초성/오타 허용, 일치도 순)
+  const getFilteredProducts = (searchQuery: string) => rankBySearch(products, searchQuery, p => p.name);
 
   // 날짜별로 상품 그룹화 (검색 필터링 포함, 7일 전 상품은 "7일+", 30일 전 상품은 "30일+" 카테고리로)
   const groupedProducts = React.useMemo(() => {
@@ -424,7 +407,7 @@ export default function AdminBulkSellDatePage() {
                     {/* 상품 정보 */}
                     <div className="flex-1 min-w-0">
                       <h3 className="text-sm font-semibold text-gray-900 truncate mb-1">
-                        {highlightSearchTerm(product.name, search)}
+                        <SearchHighlight text={product.name} query={search} />
                       </h3>
                       
                       <div className="text-xs text-gray-600">
@@ -552,7 +535,7 @@ export default function AdminBulkSellDatePage() {
                         {/* 상품 정보 */}
                         <div className="flex-1 min-w-0">
                           <h3 className="text-sm font-semibold text-gray-900 truncate mb-1">
-                            {highlightSearchTerm(product.name, search)}
+                            <SearchHighlight text={product.name} query={search} />
                           </h3>
                           
                           <div className="text-xs text-gray-600">
@@ -22,19 +22,14 @@ import {
   updateAdminProductCategoryOrder,
   getCategoryPresignedUrl,
   addAdminProductCategory,
-  updateAdminProductCategory
+  updateAdminProductCategory,
+  type ProductCategory,
 } from '../../utils/api';
 import { compressImageSquare } from '../../utils/image-compress';
 import { theme, defaultKeywordImage } from '../../brand';
 import CategoryProductDialog from '../../components/admin/CategoryProductDialog';
 
-// 카테고리 타입 정의
-type CategoryItem = {
-  id: number;
-  name: string;
-  imageUrl?: string;
-  productIds: number[];
-};
+type CategoryItem = ProductCategory;
 
 // 이미지 URL 절대경로 변환 유틸
 const getDisplayUrl = (url?: string) => {
@@ -125,15 +120,7 @@ export default function AdminCategoryPage() {
   const load = useCallback(async () => {
     setLoading(true);
     try {
-      const res = await getAdminProductCategories();
-      const rawList = Array.isArray(res) ? res : Array.isArray(res.response) ? res.response : [];
-      const list = rawList.map((item: any) => ({
-        id: item.id || 0,
-        name: item.name || '',
-        imageUrl: item.image_url || item.imageUrl || undefined,
-        productIds: item.product_ids || item.productIds || []
-      }));
-      setCategories(list);
+      setCategories(await getAdminProductCategories());
     } catch (e: any) {
       show(e.message || '불러오기 실패', { variant: 'error' });
     } finally {
@@ -170,11 +157,9 @@ export default function AdminCategoryPage() {
   };
 
   const uploadImage = async (file: File) => {
-    const presignedRes = await getCategoryPresignedUrl(file.name, file.type);
-    if (!presignedRes.ok) throw new Error('이미지 업로드 URL 발급 실패');
-    const { url, key, method } = await presignedRes.json();
+    const { url, key, method } = await getCategoryPresignedUrl(file.name, file.type);
     const uploadRes = await fetch(url, {
-      method: (method || 'PUT').toUpperCase(),
+      method: method.toUpperCase(),
       body: file,
       mode: 'cors',
     });
@@ -3,7 +3,8 @@ import { useNavigate } from 'react-router-dom';
 import { useSnackbar } from '../../components/snackbar';
 import { USE_MOCKS } from '../../config';
 import { safeErrorLog, getSafeErrorMessage } from '../../utils/environment';
-import { addCategoryToProduct, createAdminProduct, getAdminProductCategories, getUploadUrl } from '../../utils/api';
+import { addCategoryToProduct, createAdminProduct, getAdminProductCategories, getUploadUrl, type ProductCategory } from '../../utils/api';
+import { ApiError } from '../../utils/apiError';
 import { compressImage } from '../../utils/image-compress';
 
 type ProductForm = {
@@ -16,11 +17,7 @@ type ProductForm = {
   delivery_available: boolean;
 };
 const PRICE_MAX = 1_000_000;
-type CategoryItem = {
-  id: number;
-  name: string;
-  imageUrl?: string;
-};
+type CategoryItem = ProductCategory;
 
 // KST 기준 오늘 날짜 반환 함수
 function getKstTodayStr() {
@@ -69,15 +66,8 @@ export default function ProductCreatePage() {
         return;
       }
       try {
-        const data = await getAdminProductCategories();
-        const list = Array.isArray(data?.response) ? data.response : (Array.isArray(data) ? data : []);
-        if (alive) {
-          setCategories(list.map((c: any) => ({
-            id: Number(c.id),
-            name: String(c.name ?? ''),
-            imageUrl: c.imageUrl ?? c.image_url ?? undefined,
-          })));
-        }
+        const list = await getAdminProductCategories();
+        if (alive) setCategories(list);
       } catch (err) {
         safeErrorLog(err, 'ProductCreatePage - loadCategories');
       }
@@ -192,27 +182,12 @@ export default function ProductCreatePage() {
       }
 
       // 2) presigned URL 요청 (압축된 파일의 이름/타입으로 요청)
-      const presignedUrlRes = await getUploadUrl(fileToUpload.name, fileToUpload.type);
-      if (!presignedUrlRes.ok) {
-        if (presignedUrlRes.status === 401 || presignedUrlRes.status === 403) return; // adminFetch에서 처리됨
-        const errorText = await presignedUrlRes.text();
-        throw new Error(`이미지 업로드 URL 발급 실패: ${presignedUrlRes.status} ${presignedUrlRes.statusText} - ${errorText}`);
-      }
-
-      const presignedData: {
-        url: string;
-        key: string;
-        method?: string;
-        contentType?: string;
-        expiresIn?: number;
-      } = await presignedUrlRes.json();
-
-      const { url, key, method } = presignedData;
+      const { url, key, method } = await getUploadUrl(fileToUpload.name, fileToUpload.type);
       if (!url || !key) throw new Error('Presigned 응답에 url 또는 key가 없습니다.');
 
       // 3) S3 업로드 (Content-Type은 URL에 서명으로 포함되어 있으므로 보통 헤더 설정 불필요)
       const uploadResponse = await fetch(url, {
-        method: (method || 'PUT').toUpperCase(),
+        method: method.toUpperCase(),
         body: fileToUpload,
         mode: 'cors',
       });
@@ -221,38 +196,20 @@ export default function ProductCreatePage() {
       }
 
       // 4) 상품 생성 API 호출 (키만 전달)
-      const productPayload = {
+      const createdId = await createAdminProduct({
         name: form.name,
         price: form.price,
         stock: form.stock,
-        image_url: key, // 서버는 S3 key 저장
-        sell_date: form.sell_date,
+        imageKey: key,
+        sellDate: form.sell_date,
         visible: form.visible,
-        delivery_available: form.delivery_available,
-      };
-
-      const res = await createAdminProduct(productPayload);
-      if (!res.ok) {
-        if (res.status === 401 || res.status === 403) return; // adminFetch에서 처리됨
-        throw new Error(`상품 등록 실패: ${res.status} ${res.statusText}`);
-      }
-
-      let createdId: number | null = null;
-      try {
-        const body = await res.json();
-        if (typeof body === 'number') {
-          createdId = body;
-        } else if (body && typeof body === 'object') {
-          createdId = Number(body.id ?? body.product_id ?? body.productId ?? 0) || null;
-        }
-      } catch {
-        createdId = null;
-      }
+        deliveryAvailable: form.delivery_available,
+      });
 
       const realCategoryIds = selectedCategoryIds.filter(id => id > 0);
       if (createdId && realCategoryIds.length > 0) {
         try {
-          await Promise.all(realCategoryIds.map(id => addCategoryToProduct(createdId as number, id)));
+          await Promise.all(realCategoryIds.map(id => addCategoryToProduct(createdId, id)));
         } catch (err) {
           safeErrorLog(err, 'ProductCreatePage - attach categories');
           show('카테고리 연결 중 오류가 발생했습니다.', { variant: 'error' });
@@ -266,6 +223,7 @@ export default function ProductCreatePage() {
       setSelectedCategoryIds([]);
       nav('/admin/shop/products', { replace: true });
     } catch (err: any) {
+      if (err instanceof ApiError && (err.status === 401 || err.status === 403)) return; // adminFetch에서 처리됨
       safeErrorLog(err, 'ProductCreatePage - handleSubmit');
       show(getSafeErrorMessage(err, '상품 등록 중 오류가 발생했습니다.'), { variant: 'error' });
     } finally {
@@ -1,9 +1,18 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import AdminHeader from '../../components/AdminHeader';
-import { getAdminDeliveries, updateAdminDeliveryStatus, getAdminDeliveryConfig, updateAdminDeliveryConfig } from '../../utils/api';
+import { getAdminDeliveries, updateAdminDeliveryStatus, getAdminDeliveryConfig, updateAdminDeliveryConfig, type AdminDelivery, type DeliveryConfig, type DeliveryZone } from '../../utils/api';
 import { safeErrorLog } from '../../utils/environment';
 import { useSnackbar } from '../../components/snackbar';
 import { printReceipt, PrintReceiptData } from '../../utils/printBridge';
+import { enqueueOutbox, isOfflineError, OUTBOX_QUEUED_MESSAGE, OUTBOX_STATE_LABEL } from '../../utils/adminOutbox';
+import { useAdminOutbox } from '../../hooks/useAdminOutbox';
+import AdminOutboxBanner from '../../components/admin/AdminOutboxBanner';
+import DeliveryZoneEditor from '../../components/admin/DeliveryZoneEditor';
+import DeliveryFeeRulesEditor from '../../components/admin/DeliveryFeeRulesEditor';
+import ScheduledSlotCapacityEditor from '../../components/admin/ScheduledSlotCapacityEditor';
+import { isValidPolygon, type LatLng } from '../../utils/deliveryZones';
+import { EMPTY_FEE_RULES, type DeliveryFeeRules } from '../../utils/deliveryFee';
+import { buildDeliverySlots, isSameSlot, type SlotCapacityConfig } from '../../utils/deliverySlots';
 
 // R-26020216-VWQPA → R-VWQPA (중간 날짜 영역 제거)
 const shortCode = (code?: string) => {
@@ -19,25 +28,7 @@ const stripDeliveryPrefix = (code?: string) => {
   return short.startsWith('D-') ? short.slice(2) : short;
 };
 
-interface DeliveryRow {
-  id: number;
-  displayCode: string;
-  reservationItems: { id: number; productName: string; quantity: number; amount: number }[];
-  buyerName: string;
-  totalAmount: number;
-  status: string;
-  phone: string;
-  postalCode: string;
-  address1: string;
-  address2?: string;
-  distanceKm: number;     // 영수증 출력용 배달 거리
-  deliveryFee: number;    // 영수증 출력용 배달비
-  deliveryHour: number;   // 영수증 출력용 배달 시간
-  deliveryMinute: number; // 영수증 출력용 배달 분
-  paidAt: string;         // 영수증 출력용 결제 시각
-  scheduledDeliveryHour: number | null;
-  scheduledDeliveryMinute: number | null;
-}
+type DeliveryRow = AdminDelivery;
 
 interface DeliveryConfigForm {
   enabled: boolean;
@@ -59,6 +50,29 @@ export default function AdminDeliveriesPage() {
   const [scheduledFilter, setScheduledFilter] = useState<'all' | 'normal' | 'scheduled'>('all');
   const [updatingId, setUpdatingId] = useState<number | null>(null);
   const [checklist, setChecklist] = useState<Record<number, { accepted: boolean; prepared: boolean }>>({});
+  const { entries: outboxEntries, syncVersion, retry: retryOutbox, retryEntry: retryOutboxEntry, dismiss: dismissOutbox } = useAdminOutbox();
+
+  // 오프라인 대기열: 배달 상태 항목만, 전송 대기 중인 변경은 목록에 미리 반영
+  const deliveryOutbox = useMemo(
+    () => outboxEntries.filter(entry => entry.kind === 'deliveryStatus'),
+    [outboxEntries]
+  );
+  const pendingStatusById = useMemo(() => {
+    const map = new Map<number, string>();
+    deliveryOutbox.forEach(entry => {
+      if (entry.kind === 'deliveryStatus' && entry.state === 'pending' && entry.date === selectedDate) {
+        map.set(entry.deliveryId, entry.status.toUpperCase());
+      }
+    });
+    return map;
+  }, [deliveryOutbox, selectedDate]);
+  const visibleRows = useMemo(
+    () => rows.map(r => {
+      const pendingStatus = pendingStatusById.get(r.id);
+      return pendingStatus ? { ...r, status: pendingStatus } : r;
+    }),
+    [rows, pendingStatusById]
+  );
 
   // localStorage에서 체크리스트 복원
   useEffect(() => {
@@ -94,6 +108,29 @@ export default function AdminDeliveriesPage() {
     endHour: '',
     endMinute: '',
   });
+  const [zones, setZones] = useState<DeliveryZone[]>([]);
+  const [storeCoords, setStoreCoords] = useState<LatLng | null>(null);
+  const [feeRules, setFeeRules] = useState<DeliveryFeeRules>(EMPTY_FEE_RULES);
+  const [slotCapacity, setSlotCapacity] = useState<SlotCapacityConfig>({ scheduledSlotCapacity: 0, scheduledSlotCapacities: [] });
+  const scheduledSlots = useMemo(() => buildDeliverySlots({
+    startHour: Number(configForm.startHour) || 0,
+    startMinute: Number(configForm.startMinute) || 0,
+    endHour: Number(configForm.endHour) || 0,
+    endMinute: Number(configForm.endMinute) || 0,
+  }, zones), [configForm.startHour, configForm.startMinute, configForm.endHour, configForm.endMinute, zones]);
+  const feeBase = useMemo(() => ({
+    feeNear: Number(configForm.feeNear) || 0,
+    feePer100m: Number(configForm.feePer100m) || 0,
+    feeDistanceKm: Number(configForm.feeDistanceKm) || 0,
+  }), [configForm.feeNear, configForm.feePer100m, configForm.feeDistanceKm]);
+  const zoneDefaults = useMemo(() => ({
+    fee: Number(configForm.feeNear) || 0,
+    minAmount: Number(configForm.minAmount) || 0,
+    startHour: Number(configForm.startHour) || 0,
+    startMinute: Number(configForm.startMinute) || 0,
+    endHour: Number(configForm.endHour) || 0,
+    endMinute: Number(configForm.endMinute) || 0,
+  }), [configForm.feeNear, configForm.minAmount, configForm.startHour, configForm.startMinute, configForm.endHour, configForm.endMinute]);
   const { show } = useSnackbar();
   const [alertVolume, setAlertVolume] = useState<number>(() => {
     const saved = localStorage.getItem('delivery-alert-volume');
@@ -139,7 +176,7 @@ export default function AdminDeliveriesPage() {
     let deliveredAmount = 0;
     let inProgressCount = 0;
     let inProgressAmount = 0;
-    for (const row of rows) {
+    for (const row of visibleRows) {
       if (row.status === 'DELIVERED') {
         deliveredCount++;
         deliveredAmount += row.totalAmount;
@@ -149,9 +186,9 @@ export default function AdminDeliveriesPage() {
       }
     }
     return { deliveredCount, deliveredAmount, inProgressCount, inProgressAmount };
-  }, [rows]);
+  }, [visibleRows]);
 
-  const filteredRows = rows.filter(row => {
+  const filteredRows = visibleRows.filter(row => {
     if (deliveryFilter === 'in_progress') {
       if (['CANCELED', 'DELIVERED', 'FAILED'].includes(row.status)) return false;
     } else if (row.status !== deliveryFilter.toUpperCase()) {
@@ -170,53 +207,14 @@ export default function AdminDeliveriesPage() {
     }
     const load = async () => {
       try {
-        const res = await getAdminDeliveries(selectedDate);
-        if (!res.ok) {
-          const errorData = await res.json().catch(() => ({}));
-          throw new Error(errorData.message || '배달 목록을 불러오지 못했습니다.');
-        }
-        const data = await res.json();
-        const list = Array.isArray(data?.response) ? data.response : [];
-        const mapped = list.map((r: any) => ({
-          id: Number(r.id),
-          displayCode: String(r.display_code ?? r.displayCode ?? r.id),
-          reservationItems: Array.isArray(r.reservation_items)
-            ? r.reservation_items.map((item: any) => ({
-              id: Number(item.id ?? item.reservation_id ?? 0),
-              productName: String(item.product_name ?? item.productName ?? ''),
-              quantity: Number(item.quantity ?? 0),
-              amount: Number(item.amount ?? 0),
-            }))
-            : Array.isArray(r.reservations)
-              ? r.reservations.map((item: any) => ({
-                id: Number(item.id ?? item.reservation_id ?? 0),
-                productName: String(item.product_name ?? item.productName ?? ''),
-                quantity: Number(item.quantity ?? 0),
-                amount: Number(item.amount ?? 0),
-              }))
-              : [],
-          buyerName: String(r.buyer_name || ''),
-          totalAmount: Number(r.total_amount || 0),
-          status: String(r.status || ''),
-          phone: String(r.phone || ''),
-          postalCode: String(r.postal_code || ''),
-          address1: String(r.address1 || ''),
-          address2: String(r.address2 || ''),
-          distanceKm: Number(r.distance_km ?? r.distanceKm ?? 0),
-          deliveryFee: Number(r.delivery_fee ?? r.deliveryFee ?? 0),
-          deliveryHour: Number(r.delivery_hour ?? r.deliveryHour ?? 0),
-          deliveryMinute: Number(r.delivery_minute ?? r.deliveryMinute ?? 0),
-          paidAt: String(r.paid_at ?? r.paidAt ?? ''),
-          scheduledDeliveryHour: r.scheduled_delivery_hour ?? r.scheduledDeliveryHour ?? null,
-          scheduledDeliveryMinute: r.scheduled_delivery_minute ?? r.scheduledDeliveryMinute ?? null,
-        }));
+        const mapped = await getAdminDeliveries(selectedDate);
         const statusPriority: Record<string, number> = {
           PAID: 1,
           OUT_FOR_DELIVERY: 2,
           DELIVERED: 3,
           CANCELED: 4,
         };
-        const sorted = mapped.sort((a: DeliveryRow, b: DeliveryRow) => {
+        const sorted = mapped.sort((a, b) => {
           // 1. 즉시배달 우선 (scheduledDeliveryHour === null)
           const aScheduled = a.scheduledDeliveryHour !== null;
           const bScheduled = b.scheduledDeliveryHour !== null;
@@ -240,32 +238,39 @@ export default function AdminDeliveriesPage() {
       }
     };
     load();
-  }, [selectedDate, show]);
+  }, [selectedDate, show, syncVersion]);
+
+  // 조회/저장 응답으로 설정 폼과 구역·배달비·정원 편집 상태를 함께 갱신
+  const applyConfig = useCallback((config: DeliveryConfig) => {
+    setConfigForm({
+      enabled: config.enabled,
+      minAmount: String(config.minAmount),
+      feeNear: String(config.feeNear),
+      feePer100m: String(config.feePer100m),
+      feeDistanceKm: String(config.feeDistanceKm),
+      maxDistanceKm: String(config.maxDistanceKm),
+      startHour: String(config.startHour),
+      startMinute: String(config.startMinute),
+      endHour: String(config.endHour),
+      endMinute: String(config.endMinute),
+    });
+    setZones(config.zones);
+    setFeeRules(config.feeRules);
+    setSlotCapacity({
+      scheduledSlotCapacity: config.scheduledSlotCapacity,
+      scheduledSlotCapacities: config.scheduledSlotCapacities,
+    });
+    setStoreCoords({ lat: config.storeLat, lng: config.storeLng });
+  }, []);
 
   useEffect(() => {
     let alive = true;
     const loadConfig = async () => {
       try {
         setConfigLoading(true);
-        const res = await getAdminDeliveryConfig();
-        if (!res.ok) {
-          const errorData = await res.json().catch(() => ({}));
-          throw new Error(errorData.message || '배달 설정을 불러오지 못했습니다.');
-        }
-        const data = await res.json();
+        const config = await getAdminDeliveryConfig();
         if (!alive) return;
-        setConfigForm({
-          enabled: data.enabled ?? data.delivery_enabled ?? true,
-          minAmount: String(data.min_amount ?? data.minAmount ?? ''),
-          feeNear: String(data.fee_near ?? data.feeNear ?? ''),
-          feePer100m: String(data.fee_per100m ?? data.feePer100m ?? ''),
-          feeDistanceKm: String(data.fee_distance_km ?? data.feeDistanceKm ?? ''),
-          maxDistanceKm: String(data.max_distance_km ?? data.maxDistanceKm ?? ''),
-          startHour: String(data.start_hour ?? data.startHour ?? ''),
-          startMinute: String(data.start_minute ?? data.startMinute ?? ''),
-          endHour: String(data.end_hour ?? data.endHour ?? ''),
-          endMinute: String(data.end_minute ?? data.endMinute ?? ''),
-        });
+        applyConfig(config);
       } catch (e) {
         safeErrorLog(e, 'AdminDeliveriesPage - loadConfig');
         show('배달 설정을 불러오는 중 오류가 발생했습니다.', { variant: 'error' });
@@ -277,7 +282,7 @@ export default function AdminDeliveriesPage() {
     return () => {
       alive = false;
     };
-  }, [show]);
+  }, [show, applyConfig]);
 
   const handleStatusChange = async (row: DeliveryRow, next: 'out_for_delivery' | 'delivered' | 'canceled') => {
     try {
@@ -290,14 +295,27 @@ export default function AdminDeliveriesPage() {
         return;
       }
       setUpdatingId(row.id);
-      const res = await updateAdminDeliveryStatus(row.id, next);
-      if (!res.ok) {
-        const data = await res.json().catch(() => ({}));
-        throw new Error(data.message || '상태 변경에 실패했습니다.');
-      }
+      await updateAdminDeliveryStatus(row.id, next);
       setRows(prev => prev.map(r => r.id === row.id ? { ...r, status: next.toUpperCase() } : r));
       show('상태가 변경되었습니다.');
     } catch (e) {
+      if (isOfflineError(e)) {
+        try {
+          await enqueueOutbox({
+            kind: 'deliveryStatus',
+            date: selectedDate,
+            deliveryId: row.id,
+            label: `${shortCode(row.displayCode)} ${row.buyerName} → ${getStatusLabel(next.toUpperCase())}`,
+            previousStatus: row.status,
+            status: next,
+          });
+          setRows(prev => prev.map(r => r.id === row.id ? { ...r, status: next.toUpperCase() } : r));
+          show(OUTBOX_QUEUED_MESSAGE, { variant: 'info' });
+          return;
+        } catch (err) {
+          safeErrorLog(err, 'AdminDeliveriesPage - enqueueOutbox');
+        }
+      }
       safeErrorLog(e, 'AdminDeliveriesPage - updateStatus');
       show('상태 변경 중 오류가 발생했습니다.', { variant: 'error' });
     } finally {
@@ -383,8 +401,47 @@ export default function AdminDeliveriesPage() {
         show('배달 기준 거리는 최대 거리보다 클 수 없습니다.', { variant: 'error' });
         return;
       }
+      if (feeRules.distanceTiers.some(t => !(t.upToKm > 0) || !(t.fee >= 0))) {
+        show('거리 구간의 거리는 0보다 크고 배달비는 0 이상이어야 합니다.', { variant: 'error' });
+        return;
+      }
+      if (new Set(feeRules.distanceTiers.map(t => t.upToKm)).size !== feeRules.distanceTiers.length) {
+        show('같은 거리의 구간이 중복되어 있습니다.', { variant: 'error' });
+        return;
+      }
+      if ([feeRules.freeOverAmount ?? 0, feeRules.lateNightSurcharge, feeRules.scheduledSurcharge].some(v => !(v >= 0))) {
+        show('배달비 규칙의 금액은 0 이상이어야 합니다.', { variant: 'error' });
+        return;
+      }
+      if (feeRules.promotions.some(p => !/^\d{4}-\d{2}-\d{2}$/.test(p.date) || !(p.discount > 0))) {
+        show('날짜별 할인의 배달일과 할인 금액을 확인해주세요.', { variant: 'error' });
+        return;
+      }
+      const capacities = [slotCapacity.scheduledSlotCapacity, ...slotCapacity.scheduledSlotCapacities.map(c => c.capacity)];
+      if (capacities.some(v => !Number.isInteger(v) || v < 0)) {
+        show('예약배달 시간대 정원은 0 이상의 정수여야 합니다.', { variant: 'error' });
+        return;
+      }
+      for (const zone of zones) {
+        if (!zone.name.trim()) {
+          show('배달 구역 이름을 입력해주세요.', { variant: 'error' });
+          return;
+        }
+        if (!isValidPolygon(zone.polygon)) {
+          show(`'${zone.name}' 구역은 지도에 꼭짓점을 3개 이상 찍어야 합니다.`, { variant: 'error' });
+          return;
+        }
+        if (!(zone.fee >= 0) || !(zone.minAmount >= 0)) {
+          show(`'${zone.name}' 구역의 배달비/최소 주문 금액을 확인해주세요.`, { variant: 'error' });
+          return;
+        }
+        if (zone.startHour * 60 + zone.startMinute >= zone.endHour * 60 + zone.endMinute) {
+          show(`'${zone.name}' 구역의 배달 시간 범위를 확인해주세요.`, { variant: 'error' });
+          return;
+        }
+      }
 
-      const res = await updateAdminDeliveryConfig({
+      const saved = await updateAdminDeliveryConfig({
         enabled: configForm.enabled,
         minAmount,
         feeNear,
@@ -395,24 +452,19 @@ export default function AdminDeliveriesPage() {
         startMinute,
         endHour,
         endMinute,
+        zones: zones.map(zone => ({ ...zone, name: zone.name.trim() })),
+        feeRules: {
+          ...feeRules,
+          distanceTiers: [...feeRules.distanceTiers].sort((a, b) => a.upToKm - b.upToKm),
+          promotions: feeRules.promotions.map(p => ({ ...p, label: p.label.trim() })),
+        },
+        scheduledSlotCapacity: slotCapacity.scheduledSlotCapacity,
+        // 배달 시간 밖으로 밀려난 시간대 지정값은 버림
+        scheduledSlotCapacities: slotCapacity.scheduledSlotCapacities
+          .filter(c => scheduledSlots.some(slot => isSameSlot(slot, c)))
+          .sort((a, b) => a.hour * 60 + a.minute - (b.hour * 60 + b.minute)),
       });
-      if (!res.ok) {
-        const data = await res.json().catch(() => ({}));
-        throw new Error(data.message || '배달 설정 저장에 실패했습니다.');
-      }
-      const data = await res.json();
-      setConfigForm({
-        enabled: data.enabled ?? data.delivery_enabled ?? true,
-        minAmount: String(data.min_amount ?? data.minAmount ?? minAmount),
-        feeNear: String(data.fee_near ?? data.feeNear ?? feeNear),
-        feePer100m: String(data.fee_per_100m ?? data.feePer100m ?? feePer100m),
-        feeDistanceKm: String(data.fee_distance_km ?? data.feeDistanceKm ?? feeDistanceKm),
-        maxDistanceKm: String(data.max_distance_km ?? data.maxDistanceKm ?? maxDistanceKm),
-        startHour: String(data.start_hour ?? data.startHour ?? startHour),
-        startMinute: String(data.start_minute ?? data.startMinute ?? startMinute),
-        endHour: String(data.end_hour ?? data.endHour ?? endHour),
-        endMinute: String(data.end_minute ?? data.endMinute ?? endMinute),
-      });
+      applyConfig(saved);
       show('배달 설정이 저장되었습니다.');
     } catch (e) {
       safeErrorLog(e, 'AdminDeliveriesPage - saveConfig');
@@ -561,6 +613,26 @@ export default function AdminDeliveriesPage() {
                   />
                 </div>
               </div>
+              <DeliveryZoneEditor
+                zones={zones}
+                onChange={setZones}
+                center={storeCoords}
+                defaults={zoneDefaults}
+                disabled={configLoading || configSaving}
+              />
+              <DeliveryFeeRulesEditor
+                rules={feeRules}
+                onChange={setFeeRules}
+                base={feeBase}
+                zones={zones}
+                disabled={configLoading || configSaving}
+              />
+              <ScheduledSlotCapacityEditor
+                config={slotCapacity}
+                onChange={setSlotCapacity}
+                slots={scheduledSlots}
+                disabled={configLoading || configSaving}
+              />
               <div className="mt-4 flex items-center gap-2 justify-end">
                 <button
                   type="button"
@@ -641,6 +713,7 @@ export default function AdminDeliveriesPage() {
             </>
           )}
         </div>
+        <AdminOutboxBanner entries={deliveryOutbox} onRetry={retryOutbox} onRetryEntry={retryOutboxEntry} onDismiss={dismissOutbox} className="mt-4" />
         <div id="delivery-orders" className="mt-4 bg-white border border-gray-200 rounded-lg shadow-sm p-4">
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-3">
             <div className="flex items-center justify-between sm:justify-start gap-3">
@@ -821,7 +894,12 @@ export default function AdminDeliveriesPage() {
                         </button>
                       </div>
                     </td>
-                    <td className="py-2 pr-3">{getStatusLabel(r.status)}</td>
+                    <td className="py-2 pr-3">
+                      {getStatusLabel(r.status)}
+                      {pendingStatusById.has(r.id) && (
+                        <span className="block text-[11px] text-amber-600">⏳ {OUTBOX_STATE_LABEL.pending}</span>
+                      )}
+                    </td>
                     <td className="py-2 pr-3">
                       <div className="grid grid-cols-2 gap-1 min-w-[120px]">
                         <button
@@ -883,7 +961,10 @@ export default function AdminDeliveriesPage() {
                       <div className="text-xs text-gray-500">{new Date(r.paidAt).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' })} 주문</div>
                     )}
                   </div>
-                  <span className="text-xs text-gray-500">{getStatusLabel(r.status)}</span>
+                  <span className="text-xs text-gray-500">
+                    {getStatusLabel(r.status)}
+                    {pendingStatusById.has(r.id) && <span className="ml-1 text-amber-600">⏳ {OUTBOX_STATE_LABEL.pending}</span>}
+                  </span>
                 </div>
                 <div className="mt-2 space-y-2">
                   {r.reservationItems.length > 0 ? (
@@ -15,7 +15,10 @@ import {
   deleteAdminProduct,
   getAdminProduct,
   getDetailPresignedUrlsBatch,
+  getAdminWaitlistCounts,
+  type AdminProductPatch,
 } from '../../utils/api';
+import { ApiError } from '../../utils/apiError';
 import { compressImage } from '../../utils/image-compress';
 import { safeErrorLog, getSafeErrorMessage } from '../../utils/environment';
 
@@ -102,6 +105,8 @@ export default function AdminEditProductPage() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [descLength, setDescLength] = useState(0);
+  // 입고 알림 대기 인원 (품절 → 재고 추가 시 알림 발송 대상)
+  const [waitlistCount, setWaitlistCount] = useState(0);
 
   // 파일/미리보기 refs
   const fileRef = useRef<HTMLInputElement>(null);
@@ -320,6 +325,16 @@ export default function AdminEditProductPage() {
     });
   };
 
+  /** ===== 입고 알림 대기 인원 ===== */
+  useEffect(() => {
+    if (USE_MOCKS) return;
+    let alive = true;
+    getAdminWaitlistCounts()
+      .then(counts => { if (alive) setWaitlistCount(counts[Number(id)] ?? 0); })
+      .catch(e => safeErrorLog(e, 'AdminEditProductPage - loadWaitlistCount'));
+    return () => { alive = false; };
+  }, [id]);
+
   /** ===== 데이터 로드 ===== */
   useEffect(() => {
     let alive = true;
@@ -339,20 +354,11 @@ export default function AdminEditProductPage() {
           shouldApplyEditorHtmlRef.current = true;
           setDescLength((cloned.description || '').replace(/<[^>]+>/g, '').length);
         } else {
-          const res = await getAdminProduct(Number(id));
-          if (!res.ok) throw new Error('상품 정보를 불러오지 못했습니다.');
-          const raw = await res.json();
-          const detailList: string[] = Array.isArray(raw.detail_urls) ? raw.detail_urls : [];
+          const detail = await getAdminProduct(Number(id));
           const data: ProductEdit = {
-            id: raw.id,
-            name: raw.name,
-            price: Number(raw.price),
-            stock: Number(raw.stock),
-            imageUrl: addPrefix(raw.product_url),
-            images: detailList.map((u: string) => addPrefix(u)),
-            sellDate: raw.sell_date,
-            sellTime: raw.sell_time || undefined,
-            description: raw.description || '',
+            ...detail,
+            images: detail.images ?? [],
+            description: detail.description || '',
           };
           if (!alive) return;
           initialFormRef.current = data;
@@ -499,16 +505,11 @@ export default function AdminEditProductPage() {
     }
     try {
       const compressed = await compressImage(original);
-      const presigned = await getUploadUrl(compressed.name, compressed.type);
-      if (!presigned.ok) throw new Error('업로드 URL을 가져오지 못했습니다.');
-      const data = await presigned.json();
-      const url: string = data.url || data.uploadUrl;
-      const key: string = data.key;
-      const method: string = (data.method || 'PUT').toUpperCase();
+      const { url, key, method } = await getUploadUrl(compressed.name, compressed.type);
       if (!url || !key) throw new Error('Presigned 응답에 url 또는 key가 없습니다.');
 
       const put = await fetch(url, {
-        method,
+        method: method.toUpperCase(),
         headers: { 'Content-Type': compressed.type },
         body: compressed,
         mode: 'cors',
@@ -595,9 +596,9 @@ export default function AdminEditProductPage() {
             throw new Error('상세 이미지 URL 발급 수 불일치');
           }
 
-          presignedList.forEach((item: { url: string; key?: string; method?: string; content_type?: string }, i: number) => {
-            const method = (item.method || 'PUT').toUpperCase();
-            const ct = item.content_type || contentType || undefined;
+          presignedList.forEach((item, i) => {
+            const method = item.method.toUpperCase();
+            const ct = item.contentType || contentType || undefined;
             uploadTasks.push(async () => {
               const init: RequestInit = {
                 method,
@@ -670,25 +671,34 @@ export default function AdminEditProductPage() {
         return;
       }
 
-      const payload: any = {
+      // 바뀐 필드만 값, 나머지는 null (변경 없음)
+      const patch: AdminProductPatch = {
         name: nameChanged ? (form.name || '').trim() : null,
         price: priceChanged ? form.price : null,
         stock: stockChanged ? form.stock : null,
-        product_url: productUrlChanged ? toS3Key(newMainKey ?? form.imageUrl) : null, // key만
-        sell_date: sellDateChanged ? (form.sellDate || '').trim() : null,
-        sell_time: sellTimeChanged ? (form.sellTime || null) : null,
-        update_sell_time: sellTimeChanged,
+        productUrl: productUrlChanged ? toS3Key(newMainKey ?? form.imageUrl) : null, // key만
+        sellDate: sellDateChanged ? (form.sellDate || '').trim() : null,
+        sellTime: sellTimeChanged ? (form.sellTime || null) : null,
+        updateSellTime: sellTimeChanged,
         description: descriptionChanged ? (form.description || '') : null,
-        detail_urls: detailChanged ? currentDetailKeys : null,
+        detailUrls: detailChanged ? currentDetailKeys : null,
       };
 
       if (USE_MOCKS) {
-        mockUpdateProduct({ id: form.id, ...payload });
+        mockUpdateProduct({
+          id: form.id,
+          name: patch.name ?? undefined,
+          price: patch.price ?? undefined,
+          stock: patch.stock ?? undefined,
+          sellDate: patch.sellDate ?? undefined,
+          description: patch.description ?? undefined,
+        });
       } else {
-        const res = await updateAdminProduct(Number(id), payload);
-        if (!res.ok) {
-          if (res.status === 401 || res.status === 403) return; // adminFetch 내부 처리
-          throw new Error('저장에 실패했습니다.');
+        try {
+          await updateAdminProduct(Number(id), patch);
+        } catch (e) {
+          if (e instanceof ApiError && (e.status === 401 || e.status === 403)) return; // adminFetch 내부 처리
+          throw e;
         }
       }
 
@@ -714,15 +724,12 @@ export default function AdminEditProductPage() {
       if (USE_MOCKS) {
         mockDelete(form.id);
       } else {
-        const res = await deleteAdminProduct(form.id);
-        if (!res.ok) {
-          if (res.status === 401 || res.status === 403) return;
-          throw new Error('삭제에 실패했습니다.');
-        }
+        await deleteAdminProduct(form.id);
       }
       show('삭제되었습니다.');
       nav('/admin/shop/products', { replace: true });
     } catch (e: any) {
+      if (e instanceof ApiError && (e.status === 401 || e.status === 403)) return;
       safeErrorLog(e, 'AdminEditProductPage - delete');
       show(getSafeErrorMessage(e, '삭제 중 오류가 발생했습니다.'), { variant: 'error' });
     }
@@ -820,6 +827,11 @@ export default function AdminEditProductPage() {
               />
 
             </div>
+            {waitlistCount > 0 && (
+              <p className="mt-1 text-xs text-orange-600">
+                입고 알림 대기 {waitlistCount.toLocaleString()}명 · 품절 상태에서 재고를 늘리면 알림이 발송됩니다.
+              </p>
+            )}
           </div>
 
           <div>
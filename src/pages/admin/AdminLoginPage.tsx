@@ -1,8 +1,9 @@
 import React, { useState } from 'react';
 import { getCurrentEnvironment } from '../../utils/environment';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useSnackbar } from '../../components/snackbar';
 import { adminLogin } from '../../utils/api';
+import { ApiError } from '../../utils/apiError';
 
 export default function AdminLoginPage() {
   const isDev = getCurrentEnvironment() !== 'production';
@@ -10,7 +11,10 @@ export default function AdminLoginPage() {
   const [password, setPassword] = useState(isDev ? 'pass1234' : '');
   const [error, setError] = useState('');
   const navigate = useNavigate();
+  const location = useLocation();
   const { show } = useSnackbar();
+  // /admin/courier/login 으로 진입하면 택배 관리자 화면으로 이동
+  const isCourier = location.pathname.startsWith('/admin/courier');
   
   // 페이지 로드 시 저장된 에러 메시지가 있으면 표시
   React.useEffect(() => {
@@ -26,16 +30,16 @@ export default function AdminLoginPage() {
     setError('');
 
     try {
-      const res = await adminLogin({ email: id, password });
-      if (res.ok) {
-        show('로그인 성공');
-        localStorage.setItem('admin-auth', 'true');
-        
-        navigate('/admin/shop/products');
-      } else {
+      await adminLogin({ email: id, password });
+      show('로그인 성공');
+      localStorage.setItem('admin-auth', 'true');
+
+      navigate(isCourier ? '/admin/courier/orders' : '/admin/shop/products');
+    } catch (e) {
+      if (e instanceof ApiError && e.code !== 'NETWORK') {
         show('아이디 또는 비밀번호가 잘못되었습니다.', { variant: 'error' });
+        return;
       }
-    } catch {
       setError('로그인에 실패했습니다. ID/PW를 확인해주세요.');
     }
   };
@@ -43,7 +47,7 @@ export default function AdminLoginPage() {
   return (
     <main className="min-h-screen flex items-center justify-center bg-gray-100 px-4">
       <div className="bg-white p-8 rounded shadow-md w-full max-w-sm">
-        <h1 className="text-2xl font-bold text-center text-gray-800 mb-6">관리자 로그인</h1>
+        <h1 className="text-2xl font-bold text-center text-gray-800 mb-6">{isCourier ? '택배 관리자 로그인' : '관리자 로그인'}</h1>
         <form onSubmit={handleLogin} className="space-y-4">
           <div>
             <label className="block text-sm font-medium text-gray-700">ID</label>
@@ -0,0 +1,302 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useSnackbar } from '../../components/snackbar';
+import { USE_MOCKS } from '../../config';
+import { listReservations } from '../../mocks/reservations';
+import { safeErrorLog, getSafeErrorMessage } from '../../utils/environment';
+import { getNoShowPreview, markNoShowBulk, type NoShowCandidate } from '../../utils/api';
+import { isAbortError } from '../../utils/apiError';
+import { useLatestRequest } from '../../hooks/useLatestRequest';
+import { noShowReviewOpensAt } from '../../utils/noShowReview';
+import AdminHeader from '../../components/AdminHeader';
+
+const formatKRW = (n: number) =>
+  n.toLocaleString('ko-KR', { style: 'currency', currency: 'KRW' });
+
+const formatOpensAt = (d: Date) =>
+  d.toLocaleString('ko-KR', { timeZone: 'Asia/Seoul', month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false });
+
+// mock: 수령 대기 건을 구매자별로 묶어 검토 목록 구성
+const toMockCandidates = async (date: string): Promise<NoShowCandidate[]> => {
+  const rows = (await listReservations(date)).filter(r => r.pickupStatus === 'pending');
+  const byBuyer = new Map<string, NoShowCandidate>();
+  rows.forEach(r => {
+    const candidate = byBuyer.get(r.buyerName) ?? {
+      userId: r.buyerName,
+      userName: r.buyerName,
+      monthlyWarnCount: 0,
+      restrictedUntil: null,
+      willBeRestricted: false,
+      reservations: [],
+    };
+    candidate.reservations.push({ id: r.id, displayCode: null, productName: r.productName, quantity: r.quantity, amount: r.amount });
+    byBuyer.set(r.buyerName, candidate);
+  });
+  return Array.from(byBuyer.values());
+};
+
+// 노쇼 검토: 수령 마감 후에도 수령 대기인 예약을 고객별로 확인하고 노쇼 처리 + 경고를 한 번에 진행
+export default function AdminNoShowPage() {
+  const { show } = useSnackbar();
+  const [searchParams] = useSearchParams();
+  const beginPreviewRequest = useLatestRequest();
+
+  // 오늘 날짜 (KST 기준 YYYY-MM-DD)
+  const today = (() => {
+    const now = new Date();
+    const kstNow = new Date(now.getTime() + 9 * 60 * 60 * 1000);
+    return kstNow.toISOString().split('T')[0];
+  })();
+
+  const [selectedDate, setSelectedDate] = useState(searchParams.get('date') || today);
+  const [candidates, setCandidates] = useState<NoShowCandidate[]>([]);
+  const [restrictWarnCount, setRestrictWarnCount] = useState(2);
+  const [loading, setLoading] = useState(false);
+  const [excludedUserIds, setExcludedUserIds] = useState<Set<string>>(new Set()); // 검토 후 제외한 고객
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [reloadVersion, setReloadVersion] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+
+  // 검토 시작 시각이 지나면 자동으로 열리도록 1분마다 갱신
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const opensAt = useMemo(() => noShowReviewOpensAt(selectedDate), [selectedDate]);
+  const reviewOpen = now >= opensAt.getTime();
+
+  useEffect(() => {
+    const signal = beginPreviewRequest();
+    if (!reviewOpen) {
+      setCandidates([]);
+      setLoading(false);
+      return;
+    }
+    const loadPreview = async () => {
+      setLoading(true);
+      try {
+        if (USE_MOCKS) {
+          const list = await toMockCandidates(selectedDate);
+          if (signal.aborted) return;
+          setCandidates(list);
+        } else {
+          const data = await getNoShowPreview(selectedDate, signal);
+          if (signal.aborted) return;
+          setCandidates(data.response);
+          setRestrictWarnCount(data.restrictWarnCount);
+        }
+        setExcludedUserIds(new Set());
+      } catch (e: any) {
+        if (isAbortError(e)) return;
+        safeErrorLog(e, 'AdminNoShowPage - loadPreview');
+        show(getSafeErrorMessage(e, '노쇼 검토 목록을 불러오는 중 오류가 발생했습니다.'), { variant: 'error' });
+      } finally {
+        if (!signal.aborted) setLoading(false);
+      }
+    };
+    loadPreview();
+  }, [selectedDate, reviewOpen, reloadVersion, show, beginPreviewRequest]);
+
+  const selected = useMemo(
+    () => candidates.filter(c => !excludedUserIds.has(c.userId)),
+    [candidates, excludedUserIds]
+  );
+  const selectedReservationIds = useMemo(
+    () => selected.flatMap(c => c.reservations.map(r => r.id)),
+    [selected]
+  );
+  const willBeRestricted = useMemo(() => selected.filter(c => c.willBeRestricted), [selected]);
+  const totalReservations = candidates.reduce((sum, c) => sum + c.reservations.length, 0);
+
+  const toggleCandidate = (userId: string) => {
+    setExcludedUserIds(prev => {
+      const next = new Set(prev);
+      if (next.has(userId)) next.delete(userId);
+      else next.add(userId);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setExcludedUserIds(excludedUserIds.size === 0 ? new Set(candidates.map(c => c.userId)) : new Set());
+  };
+
+  const applyNoShow = async () => {
+    if (selectedReservationIds.length === 0) return;
+    setApplying(true);
+    try {
+      if (USE_MOCKS) {
+        setCandidates(prev => prev.filter(c => excludedUserIds.has(c.userId)));
+        show(`노쇼 ${selectedReservationIds.length}건 처리, 경고 ${selected.length}명 등록 (mock)`);
+      } else {
+        const result = await markNoShowBulk(selectedReservationIds);
+        const restrictedText = result.restricted.length > 0 ? `, 이용 제한 ${result.restricted.length}명` : '';
+        show(`노쇼 ${result.updated}건 처리, 경고 ${result.warnedUsers}명 등록${restrictedText}`);
+        setReloadVersion(v => v + 1);
+      }
+      setConfirmOpen(false);
+    } catch (e: any) {
+      safeErrorLog(e, 'AdminNoShowPage - applyNoShow');
+      show(getSafeErrorMessage(e, '노쇼 처리 중 오류가 발생했습니다.'), { variant: 'error' });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <main className="bg-gray-50 min-h-screen px-4 sm:px-6 lg:px-8 py-6 pb-32">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-gray-800">🚫 노쇼 검토</h1>
+          <div className="flex justify-end">
+            <AdminHeader />
+          </div>
+        </div>
+      </div>
+
+      <section className="max-w-4xl mx-auto">
+        <div className="bg-white rounded-lg shadow border p-4 mb-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="text-sm font-medium text-gray-700">수령일</label>
+            <input
+              type="date"
+              value={selectedDate}
+              max={today}
+              onChange={e => e.target.value && setSelectedDate(e.target.value)}
+              className="h-10 border rounded px-3 text-sm"
+            />
+            <span className="text-xs text-gray-500">검토 가능: {formatOpensAt(opensAt)} 이후</span>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            노쇼 처리 시 고객별로 경고가 1회 등록되며, 이번 달 경고가 {restrictWarnCount}회가 되면 이용이 제한됩니다.
+          </p>
+        </div>
+
+        {!reviewOpen ? (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 p-6 text-center text-sm text-amber-800">
+            아직 수령 시간이 끝나지 않았습니다.<br />
+            <strong>{formatOpensAt(opensAt)}</strong> 이후에 검토할 수 있습니다.
+          </div>
+        ) : loading && candidates.length === 0 ? (
+          <div className="text-center text-gray-500 py-16">불러오는 중...</div>
+        ) : candidates.length === 0 ? (
+          <div className="text-center text-gray-500 py-16">수령 대기 중인 예약이 없습니다. 🎉</div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between mb-3 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={excludedUserIds.size === 0} onChange={toggleAll} />
+                전체 선택
+              </label>
+              <span>
+                미수령 <strong>{totalReservations}</strong>건 · 고객 <strong>{candidates.length}</strong>명
+                {willBeRestricted.length > 0 && (
+                  <> · <span className="font-semibold text-red-600">이용 제한 예정 {willBeRestricted.length}명</span></>
+                )}
+              </span>
+            </div>
+
+            <div className="space-y-3">
+              {candidates.map(candidate => {
+                const checked = !excludedUserIds.has(candidate.userId);
+                return (
+                  <div
+                    key={candidate.userId}
+                    className={`bg-white rounded-lg shadow-md border-l-4 p-4 ${candidate.willBeRestricted ? 'border-red-400' : 'border-orange-200'} ${checked ? '' : 'opacity-50'}`}
+                  >
+                    <label className="flex items-start gap-3 cursor-pointer">
+                      <input type="checkbox" className="mt-1" checked={checked} onChange={() => toggleCandidate(candidate.userId)} />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-semibold text-gray-800">{candidate.userName || '(이름 없음)'}</span>
+                          <span className="text-xs text-gray-500">
+                            이번 달 경고 {candidate.monthlyWarnCount}회 → {candidate.monthlyWarnCount + 1}회
+                          </span>
+                          {candidate.willBeRestricted && (
+                            <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-700 text-xs font-medium">⛔ 이용 제한 예정</span>
+                          )}
+                          {candidate.restrictedUntil && (
+                            <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 text-xs">이미 제한 중 (~{candidate.restrictedUntil})</span>
+                          )}
+                        </div>
+                        <ul className="mt-2 space-y-1 text-sm text-gray-600">
+                          {candidate.reservations.map(r => (
+                            <li key={r.id} className="flex justify-between gap-2">
+                              <span className="truncate">
+                                {r.displayCode && <span className="mr-1 text-xs text-gray-400">{r.displayCode}</span>}
+                                {r.productName} × {r.quantity}
+                              </span>
+                              <span className="shrink-0">{formatKRW(r.amount)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    </label>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </section>
+
+      {reviewOpen && candidates.length > 0 && (
+        <div className="fixed bottom-0 inset-x-0 z-40 border-t bg-white/95 p-3">
+          <div className="max-w-4xl mx-auto flex items-center justify-between gap-3">
+            <span className="text-sm text-gray-700">
+              선택 {selected.length}명 · {selectedReservationIds.length}건
+            </span>
+            <button
+              type="button"
+              onClick={() => setConfirmOpen(true)}
+              disabled={selectedReservationIds.length === 0 || applying}
+              className="h-10 px-4 rounded-lg bg-red-500 hover:bg-red-600 text-white text-sm font-medium disabled:bg-gray-300"
+            >
+              노쇼 처리 + 경고 등록
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* 노쇼 일괄 처리 확인 Dialog */}
+      {confirmOpen && (
+        <div className="fixed inset-0 z-50 grid place-items-center p-4" aria-modal="true" role="dialog">
+          <div className="absolute inset-0 bg-black/40" onClick={() => !applying && setConfirmOpen(false)} />
+          <div className="relative z-10 w-full max-w-md bg-white rounded-xl shadow-xl p-6">
+            <h3 className="text-xl font-bold text-red-700 mb-4">노쇼 일괄 처리</h3>
+            <p className="text-gray-700 mb-4">
+              {selectedDate} 예약 <strong>{selectedReservationIds.length}건</strong>을 노쇼 처리하고,
+              고객 <strong>{selected.length}명</strong>에게 경고를 1회씩 등록합니다.
+            </p>
+            {willBeRestricted.length > 0 ? (
+              <div className="mb-6 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+                <div className="font-semibold mb-1">이용 제한 대상 ({willBeRestricted.length}명)</div>
+                <div>{willBeRestricted.map(c => c.userName).join(', ')}</div>
+              </div>
+            ) : (
+              <p className="mb-6 text-sm text-gray-500">이번 처리로 이용이 제한되는 고객은 없습니다.</p>
+            )}
+            <div className="flex gap-3 justify-end">
+              <button
+                onClick={() => setConfirmOpen(false)}
+                disabled={applying}
+                className="px-6 py-2 rounded-lg border border-gray-300 hover:bg-gray-50 text-gray-700 font-medium"
+              >
+                취소
+              </button>
+              <button
+                onClick={applyNoShow}
+                disabled={applying}
+                className="px-6 py-2 rounded-lg bg-red-500 hover:bg-red-600 text-white font-medium disabled:bg-gray-300"
+              >
+                {applying ? '처리 중...' : '처리'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </main>
+  );
+}
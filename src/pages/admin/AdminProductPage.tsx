@@ -5,9 +5,11 @@ import { useSnackbar } from '../../components/snackbar';
 import { USE_MOCKS } from '../../config';
 import { listProducts } from '../../mocks/products';
 import { safeErrorLog, getSafeErrorMessage } from '../../utils/environment';
-import { toggleVisible as apiToggleVisible, deleteAdminProduct, getAdminProductsMapped, AdminProductListItem, toggleDeliveryAvailable as apiToggleDeliveryAvailable } from '../../utils/api';
+import { toggleVisible as apiToggleVisible, deleteAdminProduct, getAdminProductsMapped, AdminProductListItem, toggleDeliveryAvailable as apiToggleDeliveryAvailable, getAdminWaitlistCounts } from '../../utils/api';
 import { useLocation } from 'react-router-dom';
 import AdminHeader from '../../components/AdminHeader';
+import SearchHighlight from '../../components/SearchHighlight';
+import { matchesSearch, rankBySearch } from '../../utils/koreanSearch';
 
 type Product = AdminProductListItem;
 
@@ -27,6 +29,8 @@ export default function AdminProductPage() {
     return `${period} ${hours12}:${minutes.toString().padStart(2, '0')}`;
   };
   const [products, setProducts] = useState<Product[]>([]);
+  // 상품별 입고 알림 대기 인원 (productId → 인원)
+  const [waitlistCounts, setWaitlistCounts] = useState<Record<number, number>>({});
   const navigate = useNavigate();
 
   // 스크롤 투 탑 관련 상태
@@ -87,13 +91,8 @@ export default function AdminProductPage() {
   const [filteredSellDate, setFilteredSellDate] = useState<string | null>(null);
 
   const visibleProducts = useMemo(() => {
-    let filtered = products;
-
-    // 검색어 필터링
-    const q = search.trim();
-    if (q) {
-      filtered = filtered.filter(p => p.name.toLowerCase().includes(q.toLowerCase()));
-    }
+    // 검색어 필터링 (초성/오타 허용, 일치도 순 - 판매일 그룹 안에서도 유지)
+    let filtered = rankBySearch(products, search, p => p.name);
 
     // 판매일 필터링
     if (filteredSellDate) {
@@ -194,19 +193,6 @@ export default function AdminProductPage() {
   };
 
   // 검색 관련 함수들
-  const highlightSearchTerm = (text: string, searchTerm: string) => {
-    if (!searchTerm.trim()) return text;
-
-    const regex = new RegExp(`(${searchTerm})`, 'gi');
-    const parts = text.split(regex);
-
-    return parts.map((part, index) =>
-      regex.test(part) ? (
-        <mark key={index} className="bg-yellow-200 px-1 rounded">{part}</mark>
-      ) : part
-    );
-  };
-
   const openSearchModal = () => {
     setTempSearch(search);
     setSearchModalOpen(true);
@@ -235,12 +221,8 @@ export default function AdminProductPage() {
   };
 
   // 임시 검색어로 필터링된 상품 목록 (검색 모달용)
-  const getFilteredProductsByTempSearch = (searchQuery: string) => {
-    const query = searchQuery.trim().toLowerCase();
-    if (query === '') return products;
-
-    return products.filter(p => p.name.toLowerCase().includes(query));
-  };
+  const getFilteredProductsByTempSearch = (searchQuery: string) =>
+    products.filter(p => matchesSearch(p.name, searchQuery));
 
   // 날짜별 필터링된 상품 개수 (검색 모달용)
   const getFilteredCountByDate = (sellDate: string, searchQuery: string) => {
@@ -393,8 +375,7 @@ export default function AdminProductPage() {
         setProducts(prev => prev.map(p => (p.id === id ? { ...p, deliveryAvailable: newAllowed } : p)));
         show(`배달이 ${newAllowed ? '가능' : '불가'} 처리되었습니다.`, { variant: 'success' });
       } else {
-        const res = await apiToggleDeliveryAvailable(id);
-        if (!res.ok) throw new Error('배달 가능 여부 변경에 실패했습니다.');
+        await apiToggleDeliveryAvailable(id);
         setProducts(prev => prev.map(p => (p.id === id ? { ...p, deliveryAvailable: newAllowed } : p)));
         show(`배달이 ${newAllowed ? '가능' : '불가'} 처리되었습니다.`, { variant: 'success' });
       }
@@ -410,8 +391,7 @@ export default function AdminProductPage() {
         setProducts(prev => prev.filter(p => p.id !== id));
         show('상품이 삭제되었습니다.', { variant: 'success' });
       } else {
-        const res = await deleteAdminProduct(id);
-        if (!res.ok) throw new Error('상품 삭제에 실패했습니다.');
+        await deleteAdminProduct(id);
         setProducts(prev => prev.filter(p => p.id !== id));
         show('상품이 삭제되었습니다.', { variant: 'success' });
       }
@@ -427,8 +407,7 @@ export default function AdminProductPage() {
         setProducts(prev => prev.map(p => (p.id === id ? { ...p, status: newStatus } : p)));
         show(`상품이 ${newStatus === 'active' ? '노출' : '숨김'} 처리되었습니다.`, { variant: 'success' });
       } else {
-        const res = await apiToggleVisible(id);
-        if (!res.ok) throw new Error('상태 변경에 실패했습니다.');
+        await apiToggleVisible(id);
         setProducts(prev => prev.map(p => (p.id === id ? { ...p, status: newStatus } : p)));
         show(`상품이 ${newStatus === 'active' ? '노출' : '숨김'} 처리되었습니다.`, { variant: 'success' });
       }
@@ -469,6 +448,14 @@ export default function AdminProductPage() {
     loadProducts();
   }, [show, location?.state?.bustTs]);
 
+  // --- 입고 알림 대기 인원 (실패해도 목록은 그대로 표시) ---
+  useEffect(() => {
+    if (USE_MOCKS) return;
+    getAdminWaitlistCounts()
+      .then(setWaitlistCounts)
+      .catch(e => safeErrorLog(e, 'AdminProductPage - loadWaitlistCounts'));
+  }, [location?.state?.bustTs]);
+
 
 
   return (
@@ -543,7 +530,7 @@ export default function AdminProductPage() {
                         <div className="flex-1 flex flex-col justify-between min-h-[5rem]">
                           {/* 상품 정보 */}
                           <div className="space-y-1 flex-1">
-                            <h3 className="text-sm font-semibold break-keep">{highlightSearchTerm(product.name, search)}</h3>
+                            <h3 className="text-sm font-semibold break-keep"><SearchHighlight text={product.name} query={search} /></h3>
                             <p className="text-sm text-gray-500">가격: {product.price.toLocaleString()}원</p>
                             <p className="text-sm text-gray-500">
                               <span className="font-medium">재고: {product.stock.toLocaleString()}개</span>
@@ -568,6 +555,11 @@ export default function AdminProductPage() {
                                 })()}
                               </span>
                             </p>
+                            {(waitlistCounts[product.id] ?? 0) > 0 && (
+                              <p className="text-sm text-gray-500">
+                                입고 알림 대기: <b className="text-orange-600">{waitlistCounts[product.id].toLocaleString()}명</b>
+                              </p>
+                            )}
                             {product.sellTime && (
                               <p className="text-sm text-gray-500">판매 개시: <b>{formatTime12Hour(product.sellTime.substring(0, 5))}</b></p>
                             )}
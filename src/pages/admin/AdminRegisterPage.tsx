@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useSnackbar } from '../../components/snackbar';
 import { adminSignup } from '../../utils/api';
+import { ApiError } from '../../utils/apiError';
 
 export default function AdminRegisterPage() {
   const [name, setName] = useState('');
@@ -10,7 +11,9 @@ export default function AdminRegisterPage() {
   const [confirmPassword, setConfirmPassword] = useState('');
   const [error, setError] = useState('');
   const navigate = useNavigate();
+  const location = useLocation();
   const { show } = useSnackbar();
+  const isCourier = location.pathname.startsWith('/admin/courier');
   
   const handleRegister = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -46,21 +49,21 @@ export default function AdminRegisterPage() {
     }
 
     try {
-      const res = await adminSignup({ name, email, password });
-      if (res.ok) {
-        show('회원가입이 완료되었습니다.');
-        navigate('/admin/shop/login');
-      } else {
+      await adminSignup({ name, email, password });
+      show('회원가입이 완료되었습니다.');
+      navigate(isCourier ? '/admin/courier/login' : '/admin/shop/login');
+    } catch (e) {
+      if (e instanceof ApiError && e.code !== 'NETWORK') {
         show('회원가입에 실패했습니다.', { variant: 'error' });
+        return;
       }
-    } catch {
       setError('회원가입에 실패했습니다. 다시 시도해주세요.');
     }
   };
 
   return (
     <main className="w-full px-4 sm:px-6 lg:px-8 max-w-md mx-auto mt-10 bg-white p-6 rounded shadow space-y-4">
-      <h1 className="text-xl font-bold text-gray-800">👤 관리자 등록</h1>
+      <h1 className="text-xl font-bold text-gray-800">👤 {isCourier ? '택배 관리자 등록' : '관리자 등록'}</h1>
 
       <input
         name="name"
@@ -1,22 +1,21 @@
 // src/pages/admin/AdminReservationsPage.tsx
 import React, { useEffect, useState, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useSnackbar } from '../../components/snackbar';
 import { USE_MOCKS } from '../../config';
 import { listReservations } from '../../mocks/reservations';
 import { safeErrorLog, getSafeErrorMessage } from '../../utils/environment';
-import { updateReservationStatus, getAdminReservations, warnReservation, updateReservationsStatusBulk } from '../../utils/api';
+import { updateReservationStatus, getAdminReservations, warnReservation, updateReservationsStatusBulk, type AdminReservation } from '../../utils/api';
 import AdminHeader from '../../components/AdminHeader';
+import { ApiError, isAbortError } from '../../utils/apiError';
+import { useLatestRequest } from '../../hooks/useLatestRequest';
+import { enqueueOutbox, isOfflineError, OUTBOX_QUEUED_MESSAGE, OUTBOX_STATE_LABEL, type OutboxMutation, type ReservationStatus } from '../../utils/adminOutbox';
+import { useAdminOutbox } from '../../hooks/useAdminOutbox';
+import AdminOutboxBanner from '../../components/admin/AdminOutboxBanner';
+import PickupScannerDialog from '../../components/admin/PickupScannerDialog';
+import { matchesDisplayCode } from '../../utils/pickupQr';
 
-type ReservationRow = {
-  id: number;
-  date: string;        // YYYY-MM-DD
-  productName: string;
-  buyerName: string;
-  quantity: number;
-  amount: number;
-  status: 'pending' | 'picked' | 'canceled' | 'no_show'; // 대기 / 완료 / 취소됨 / 노쇼
-  createdAt: string;   // YYYY-MM-DD HH:MM:SS
- };
+type ReservationRow = AdminReservation;
 
 const formatKRW = (n: number) =>
   n.toLocaleString('ko-KR', { style: 'currency', currency: 'KRW' });
@@ -36,6 +35,9 @@ type SortField = 'date' | 'productName' | 'buyerName' | 'quantity' | 'amount' |
 export default function AdminReservationsPage() {
 
   const { show } = useSnackbar();
+  const navigate = useNavigate();
+  const beginReservationsRequest = useLatestRequest();
+  const { entries: outboxEntries, syncVersion, retry: retryOutbox, retryEntry: retryOutboxEntry, dismiss: dismissOutbox } = useAdminOutbox();
   
   // 오늘 날짜를 기본값으로 설정 (KST 기준 YYYY-MM-DD)
   const today = (() => {
@@ -73,6 +75,11 @@ export default function AdminReservationsPage() {
   // 일괄 변경 다이얼로그 상태
   const [bulkDialogOpen, setBulkDialogOpen] = useState(false);
 
+  // QR 수령 처리 (스캔 결과 확인 후 수령 대기 건만 일괄 수령 완료)
+  const [scannerOpen, setScannerOpen] = useState(false);
+  const [scanResult, setScanResult] = useState<{ matched: ReservationRow[]; missing: string[] } | null>(null);
+  const [scanApplying, setScanApplying] = useState(false);
+
   // 모바일 선택모드 상태
   const [isSelectingMobile, setIsSelectingMobile] = useState(false);
   const [selectedMobileIds, setSelectedMobileIds] = useState<Set<number>>(new Set());
@@ -158,8 +165,9 @@ export default function AdminReservationsPage() {
     setIsSelectingMobile(false);
   };
 
-  // 예약 데이터 로드: 캘린더 값 변경 시 API 호출
+  // 예약 데이터 로드: 캘린더 값 변경 시 API 호출 (이전 날짜 요청은 취소)
   useEffect(() => {
+    const signal = beginReservationsRequest();
     const loadReservations = async () => {
       if (USE_MOCKS) {
         const data = await listReservations(selectedDate);
@@ -176,73 +184,54 @@ export default function AdminReservationsPage() {
         })));
       } else {
         try {
-          const response = await getAdminReservations(selectedDate);
-          if (!response.ok) {
-            // 401, 403 에러는 통합 에러 처리로 위임
-            if (response.status === 401 || response.status === 403) {
-              return; // adminFetch에서 이미 처리됨
-            }
-            
-            const errorData = await response.json();
-            throw new Error(errorData.message || '예약 목록을 불러오지 못했습니다.');
-          }
-          
-          const data = await response.json();
-          
-          // ReservationListResponse 구조에서 response 필드 추출
-          let reservationsArray = data;
-          if (data && typeof data === 'object' && data.response && Array.isArray(data.response)) {
-            reservationsArray = data.response;
-          }
-          
-          if (!Array.isArray(reservationsArray)) {
-            throw new Error('예약 데이터가 배열 형태가 아닙니다.');
-          }
-          
-          // ReservationResponse를 ReservationRow로 변환 (snake_case 응답 대응)
-          const reservationRows = reservationsArray.map((r: any, idx: number) => {
-            const qty = Number(r.quantity ?? 0);
-            const unit = Number(r.price ?? 0);
-            const amt = Number(r.amount ?? (unit * qty));
-            const rawStatus = String(r.status ?? '').toUpperCase();
-            const mapped: 'pending' | 'picked' | 'canceled' | 'no_show' = 
-              rawStatus === 'PICKED' ? 'picked' : 
-              rawStatus === 'CANCELED' ? 'canceled' : 
-              rawStatus === 'SELF_PICK' ? 'pending' : 
-              rawStatus === 'SELF_PICK_READY' ? 'pending' :
-              rawStatus === 'NO_SHOW' ? 'no_show' : 'pending';
-            
-            // createdAt 처리: 서버가 준 문자열을 그대로 사용 (KST 반영 가정)
-            let createdAt = '';
-            if (typeof r.created_at === 'string') {
-              createdAt = r.created_at;
-            } else if (typeof r.createdAt === 'string') {
-              createdAt = r.createdAt;
-            } else {
-              createdAt = new Date().toString().slice(0, 19).replace('T', ' '); // 기본값
-            }
-            
-            return {
-              id: r.id ?? idx,
-              date: r.order_date ?? r.orderDate ?? '',
-              productName: r.product_name ?? r.productName ?? '',
-              buyerName: r.user_name ?? r.userName ?? '',
-              quantity: qty || 0,
-              amount: amt || 0,
-              status: mapped,
-              createdAt: createdAt,
-            } as ReservationRow;
-          });
-          
+          const reservationRows = await getAdminReservations(selectedDate, signal);
+          if (signal.aborted) return;
           setRows(reservationRows);
         } catch (e: any) {
+          if (isAbortError(e)) return;
+          // 401, 403 에러는 adminFetch에서 이미 처리됨
+          if (e instanceof ApiError && (e.status === 401 || e.status === 403)) return;
           safeErrorLog(e, 'AdminReservationsPage - loadReservations');
           show(getSafeErrorMessage(e, '예약 목록을 불러오는 중 오류가 발생했습니다.'), { variant: 'error' });
         }
       }
     };
     loadReservations();
-  }, [selectedDate, show]);
+  }, [selectedDate, show, beginReservationsRequest, syncVersion]);
+
+  // 오프라인 대기열: 이 화면(예약) 항목만, 전송 대기 중인 변경은 목록에 미리 반영
+  const reservationOutbox = useMemo(
+    () => outboxEntries.filter(entry => entry.kind !== 'deliveryStatus'),
+    [outboxEntries]
+  );
+  const pendingStatusById = useMemo(() => {
+    const map = new Map<number, ReservationRow['status']>();
+    reservationOutbox.forEach(entry => {
+      if (entry.state !== 'pending' || entry.date !== selectedDate) return;
+      if (entry.kind === 'reservationStatus') map.set(entry.reservationId, entry.status);
+      if (entry.kind === 'reservationStatusBulk') entry.reservationIds.forEach(id => map.set(id, entry.status));
+    });
+    return map;
+  }, [reservationOutbox, selectedDate]);
+  const visibleRows = useMemo(
+    () => rows.map(r => {
+      const pendingStatus = pendingStatusById.get(r.id);
+      return pendingStatus ? { ...r, status: pendingStatus } : r;
+    }),
+    [rows, pendingStatusById]
+  );
+
+  // 네트워크 오류로 실패한 변경을 대기열에 저장 (저장 실패 시 false → 기존 에러 처리)
+  const queueOfflineChange = async (mutation: OutboxMutation) => {
+    try {
+      await enqueueOutbox(mutation);
+      show(OUTBOX_QUEUED_MESSAGE, { variant: 'info' });
+      return true;
+    } catch (err) {
+      safeErrorLog(err, 'AdminReservationsPage - enqueueOutbox');
+      return false;
+    }
+  };
 
   // 다중 선택 토글
   const toggleSelect = (id: number) => {
@@ -346,7 +335,7 @@ export default function AdminReservationsPage() {
     const v = term.trim();
     const lower = v.toLowerCase();
   
-    const list = rows.filter(row => {
+    const list = visibleRows.filter(row => {
       const dateMatch = selectedDate === 'all' || row.date === selectedDate;
   
       let fieldHit = true;
@@ -408,9 +397,9 @@ export default function AdminReservationsPage() {
       if (sortOrder === 'desc') cmp = -cmp; // 내림차순 시 반전 → 완료가 상단
       return cmp;
     });
-  }, [rows, selectedDate, term, field, pickupFilter, sortField, sortOrder]);
+  }, [visibleRows, selectedDate, term, field, pickupFilter, sortField, sortOrder]);
   const baseCount = useMemo(() => {
-    return rows.filter(row => {
+    return visibleRows.filter(row => {
       const dateMatch = selectedDate === 'all' || row.date === selectedDate;
 
       let pickupHit: boolean;
@@ -424,7 +413,7 @@ export default function AdminReservationsPage() {
 
       return dateMatch && pickupHit;
     }).length;
-  }, [rows, selectedDate, pickupFilter]);
+  }, [visibleRows, selectedDate, pickupFilter]);
   const filteredTotalAmount = useMemo(() => {
     return filtered.reduce((sum, row) => sum + (row.amount || 0), 0);
   }, [filtered]);
@@ -455,16 +444,33 @@ export default function AdminReservationsPage() {
       if (confirmId === -1) {
         // 일괄 변경 모드
         const ids = Array.from(selectedIds);
+        let queued = false;
         try {
           if (!USE_MOCKS) {
             if (confirmNext === 'no_show') {
               show('노쇼 경고로만 노쇼 상태로 변경이 가능합니다.', { variant: 'error' });
               return;
             }
-            await updateReservationsStatusBulk(ids, confirmNext);
+            try {
+              await updateReservationsStatusBulk(ids, confirmNext);
+            } catch (e) {
+              const previousStatuses: Record<number, ReservationStatus> = {};
+              rows.forEach(r => {
+                if (selectedIds.has(r.id)) previousStatuses[r.id] = r.status;
+              });
+              queued = Boolean(isOfflineError(e) && Object.keys(previousStatuses).length === ids.length && await queueOfflineChange({
+                kind: 'reservationStatusBulk',
+                date: selectedDate,
+                reservationIds: ids,
+                label: `${confirmBuyerName} 외 ${ids.length}건 → ${getStatusText(confirmNext)}`,
+                previousStatuses,
+                status: confirmNext,
+              }));
+              if (!queued) throw e;
+            }
           }
           setRows(prev => prev.map(r => selectedIds.has(r.id) ? { ...r, status: confirmNext } : r));
-          show(`${ids.length}건의 상태를 "${getStatusText(confirmNext)}"(으)로 변경했습니다.`, { variant: 'info' });
+          if (!queued) show(`${ids.length}건의 상태를 "${getStatusText(confirmNext)}"(으)로 변경했습니다.`, { variant: 'info' });
           setSelectedIds(new Set());
           setSelectedBulkUser(null);
           setSelectedBulkStatus(null);
@@ -487,6 +493,19 @@ export default function AdminReservationsPage() {
           try {
             await updateReservationStatus(confirmId, confirmNext);
           } catch (e) {
+            const queued = isOfflineError(e) && await queueOfflineChange({
+              kind: 'reservationStatus',
+              date: selectedDate,
+              reservationId: confirmId,
+              label: `${buyerName} · ${productName} → ${getStatusText(confirmNext)}`,
+              previousStatus: currentStatus,
+              status: confirmNext,
+            });
+            if (queued) {
+              updateRowStatus(confirmId, confirmNext);
+              closeConfirm();
+              return;
+            }
             safeErrorLog(e, 'AdminReservationsPage - updateReservationStatus');
             show(getSafeErrorMessage(e, '상태 변경에 실패했습니다.'), { variant: 'error' });
             return;
@@ -509,6 +528,56 @@ export default function AdminReservationsPage() {
     }
   };
 
+  // QR 스캔: 선택한 날짜의 예약에서 표시 코드로 찾기
+  const handlePickupScan = (codes: string[]) => {
+    const matched = visibleRows.filter(r => r.displayCode && codes.some(code => matchesDisplayCode(code, r.displayCode!)));
+    const missing = codes.filter(code => !matched.some(r => matchesDisplayCode(code, r.displayCode!)));
+    setScanResult({ matched, missing });
+  };
+
+  const closeScanner = () => {
+    setScannerOpen(false);
+    setScanResult(null);
+  };
+
+  const applyScanPickup = async () => {
+    if (!scanResult) return;
+    const targets = scanResult.matched.filter(r => r.status === 'pending');
+    if (targets.length === 0) {
+      setScanResult(null);
+      return;
+    }
+    const ids = targets.map(r => r.id);
+    const buyerName = targets[0].buyerName;
+    setScanApplying(true);
+    try {
+      let queued = false;
+      if (!USE_MOCKS) {
+        try {
+          await updateReservationsStatusBulk(ids, 'picked');
+        } catch (e) {
+          queued = isOfflineError(e) && await queueOfflineChange({
+            kind: 'reservationStatusBulk',
+            date: selectedDate,
+            reservationIds: ids,
+            label: `${buyerName} 외 ${ids.length}건 → ${getStatusText('picked')}`,
+            previousStatuses: Object.fromEntries(ids.map(id => [id, 'pending' as const])),
+            status: 'picked',
+          });
+          if (!queued) throw e;
+        }
+      }
+      setRows(prev => prev.map(r => (ids.includes(r.id) ? { ...r, status: 'picked' } : r)));
+      if (!queued) show(`${buyerName}님 ${ids.length}건을 수령 완료로 변경했습니다.`);
+      setScanResult(null);
+    } catch (e) {
+      safeErrorLog(e, 'AdminReservationsPage - applyScanPickup');
+      show(getSafeErrorMessage(e, '수령 처리에 실패했습니다.'), { variant: 'error' });
+    } finally {
+      setScanApplying(false);
+    }
+  };
+
   // 노쇼 경고 다이얼로그 열기
   const openWarningDialog = (id: number) => {
     const target = rows.find(r => r.id === id);
@@ -560,6 +629,9 @@ export default function AdminReservationsPage() {
       </div>
     </div>
 
+      {/* 오프라인 대기열 */}
+      <AdminOutboxBanner entries={reservationOutbox} onRetry={retryOutbox} onRetryEntry={retryOutboxEntry} onDismiss={dismissOutbox} />
+
       {/* 필터 */}
       <div className="max-w-4xl mx-auto bg-white rounded-lg shadow p-4 mb-4">
         <div className="grid grid-cols-1 sm:grid-cols-5 gap-3">
@@ -630,8 +702,22 @@ export default function AdminReservationsPage() {
         
         {/* 선택된 날짜 정보 표시 + 검색 결과 요약 */}
         <div className="mt-3 text-sm text-gray-600 flex justify-between items-center">
-          <span>
+          <span className="flex items-center gap-2">
             📅 {selectedDate}({baseCount}건)
+            <button
+              type="button"
+              onClick={() => setScannerOpen(true)}
+              className="h-8 px-3 rounded bg-gray-800 text-white text-xs hover:bg-gray-900"
+            >
+              📷 QR 수령
+            </button>
+            <button
+              type="button"
+              onClick={() => navigate(`/admin/shop/reservations/no-show?date=${selectedDate}`)}
+              className="h-8 px-3 rounded border border-red-200 bg-white text-red-600 text-xs hover:bg-red-50"
+            >
+              🚫 노쇼 검토
+            </button>
           </span>
           <span className="text-right">
             검색 결과: <span className="font-semibold text-gray-800">{filtered.length}</span>건{' '}
@@ -782,6 +868,9 @@ export default function AdminReservationsPage() {
                     >
                       {r.status === 'picked' ? '수령 완료' : r.status === 'canceled' ? '취소됨' : r.status === 'no_show' ? '노쇼' : '수령 대기'}
                     </button>
+                    {pendingStatusById.has(r.id) && (
+                      <span className="mt-1 block text-[11px] text-amber-600">⏳ {OUTBOX_STATE_LABEL.pending}</span>
+                    )}
 
                     {/* 접근성용 select (시각적으로 숨김) */}
                     <label className="sr-only" htmlFor={`pickup-${r.id}`}>수령 여부<span className="text-red-500">*</span></label>
@@ -935,6 +1024,7 @@ export default function AdminReservationsPage() {
                   }
                 >
                   {r.status === 'picked' ? '수령 완료' : r.status === 'canceled' ? '예약 취소' : r.status === 'no_show' ? '노쇼' : '수령 대기'}
+                  {pendingStatusById.has(r.id) && <span className="ml-1 text-amber-600">⏳</span>}
                 </button>
               </div>
               {/* 생성일시: 제품명 밑 왼쪽에 표시 */}
@@ -1134,6 +1224,60 @@ export default function AdminReservationsPage() {
 
       {/* 일괄 변경 다이얼로그 */}
       {/* bulkDialogOpen 다이얼로그 제거 (confirmId === -1 다이얼로그로 통합) */}
+
+      {/* QR 수령 처리 */}
+      <PickupScannerDialog
+        isOpen={scannerOpen}
+        onClose={closeScanner}
+        onScan={handlePickupScan}
+        paused={scanResult !== null}
+      >
+        {scanResult && (
+          <div className="mt-4 rounded-lg border border-gray-200 p-3">
+            {scanResult.matched.length > 0 ? (
+              <ul className="divide-y text-sm">
+                {scanResult.matched.map(r => (
+                  <li key={r.id} className="flex items-center justify-between py-1.5">
+                    <span className="min-w-0 truncate text-gray-800">
+                      <span className="font-medium">{r.buyerName}</span> · {r.productName} x{r.quantity}
+                    </span>
+                    <span className={`ml-2 flex-shrink-0 px-2 py-0.5 rounded-full text-[11px] ${r.status === 'pending' ? 'bg-orange-100 text-orange-700' : 'bg-gray-100 text-gray-600'}`}>
+                      {getStatusText(r.status)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div className="text-sm text-gray-600">{selectedDate} 예약에서 찾을 수 없는 코드입니다.</div>
+            )}
+            {scanResult.matched.length > 0 && scanResult.missing.length > 0 && (
+              <div className="mt-2 text-xs text-red-600">
+                {selectedDate} 예약에 없는 코드 {scanResult.missing.length}건: {scanResult.missing.join(', ')}
+              </div>
+            )}
+            <div className="mt-3 flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setScanResult(null)}
+                disabled={scanApplying}
+                className="h-10 px-4 rounded bg-gray-200 hover:bg-gray-300 text-gray-700"
+              >
+                다시 스캔
+              </button>
+              {scanResult.matched.some(r => r.status === 'pending') && (
+                <button
+                  type="button"
+                  onClick={applyScanPickup}
+                  disabled={scanApplying}
+                  className={`h-10 px-4 rounded text-white font-medium ${scanApplying ? 'bg-gray-400' : 'bg-orange-500 hover:bg-orange-600'}`}
+                >
+                  {scanApplying ? '처리 중…' : `${scanResult.matched.filter(r => r.status === 'pending').length}건 수령 완료`}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </PickupScannerDialog>
     </main>
   );
 }
@@ -5,6 +5,8 @@ import { USE_MOCKS } from '../../config';
 import { useSnackbar } from '../../components/snackbar';
 import { safeErrorLog, getSafeErrorMessage } from '../../utils/environment';
 import { getSalesSummary, getSalesDetails, getTodaySales } from '../../utils/api';
+import { ApiError, isAbortError } from '../../utils/apiError';
+import { useLatestRequest } from '../../hooks/useLatestRequest';
 import AdminHeader from '../../components/AdminHeader';
 
 const formatKRW = (n: number) => {
@@ -74,6 +76,7 @@ export default function AdminSalesPage() {
   const [summaryByDate, setSummaryByDate] = useState<Record<string, number>>({}); // YYYY-MM-DD -> revenue
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
   const [loadingDetails, setLoadingDetails] = useState(false);
+  const beginDetailsRequest = useLatestRequest();
   const [loadingSummary, setLoadingSummary] = useState(false);
   const [monthTotalQty, setMonthTotalQty] = useState(0);
   const [monthTotalRev, setMonthTotalRev] = useState(0);
@@ -109,27 +112,17 @@ export default function AdminSalesPage() {
       }
   
       // 1. 범위 요약 호출(1일에도 스킵하지 않음)
-      const res1 = await getSalesSummary(fromYmd, toYmd);
-      if (!res1.ok) {
-        if (res1.status === 401 || res1.status === 403) return;
-        const err = await res1.clone().json().catch(() => ({}));
-        throw new Error(err.message || '매출 요약을 불러오지 못했습니다.');
-      }
-      const body1 = await res1.json();
-      const list1 = Array.isArray(body1.summary) ? body1.summary : [];
+      const list1 = await getSalesSummary(fromYmd, toYmd);
   
       const map: Record<string, number> = {};
       let mQty = 0;
       let mRev = 0;
   
       // 이번달 1일~어제 데이터(집계 테이블)
-      list1.forEach((r: any) => {
-        const date = r.date || r.sell_date || r.sellDate || r.pickup_date || r.pickupDate || '';
-        const qty = Number(r.quantity ?? r.sum_quantity ?? 0);
-        const rev = Number(r.revenue ?? r.amount ?? r.sum_amount ?? 0);
-        if (date) map[date] = (map[date] || 0) + rev;
-        mQty += qty;
-        mRev += rev;
+      list1.forEach(r => {
+        if (r.date) map[r.date] = (map[r.date] || 0) + r.revenue;
+        mQty += r.quantity;
+        mRev += r.revenue;
       });
   
       // 🔁 폴백: 2일 이후인데 1일 요약이 비어있다면 상세로 보강
@@ -141,22 +134,13 @@ export default function AdminSalesPage() {
         !map[monthStart]
       ) {
         try {
-          const resD1 = await getSalesDetails(monthStart);
-          if (resD1.ok) {
-            const bodyD1 = await resD1.json();
-            const listD1 = Array.isArray(bodyD1) ? bodyD1 : (bodyD1?.response || []);
-            let qtySum = 0, revSum = 0;
-            listD1.forEach((r: any) => {
-              const qty = Number(r.quantity ?? 0);
-              const rev = Number(r.revenue ?? r.amount ?? 0);
-              qtySum += qty;
-              revSum += rev;
-            });
-            if (revSum > 0) {
-              map[monthStart] = (map[monthStart] || 0) + revSum;
-              mQty += qtySum;
-              mRev += revSum;
-            }
+          const listD1 = await getSalesDetails(monthStart);
+          const qtySum = listD1.reduce((sum, r) => sum + r.quantity, 0);
+          const revSum = listD1.reduce((sum, r) => sum + r.amount, 0);
+          if (revSum > 0) {
+            map[monthStart] = (map[monthStart] || 0) + revSum;
+            mQty += qtySum;
+            mRev += revSum;
           }
         } catch (e) {
           // 폴백 실패는 치명적이지 않음: 로그만
@@ -167,30 +151,20 @@ export default function AdminSalesPage() {
       // 2. 오늘 데이터 (현재 월일 때만 추가)
       if (isCurrentMonthRange) {
         const todayStr = toKstYMD(kstNow);
-        const res2 = await getTodaySales(todayStr);
-        if (!res2.ok) {
-          if (res2.status !== 401 && res2.status !== 403) {
-            const err = await res2.clone().json().catch(() => ({}));
-            throw new Error(err.message || '오늘 매출을 불러오지 못했습니다.');
-          }
-        } else {
-          const body2 = await res2.json();
-          const list2 = Array.isArray(body2) ? body2 : (body2?.response || []);
-          list2.forEach((r: any) => {
-            const date = r.date || r.pickup_date || r.pickupDate || todayStr;
-            const qty = Number(r.quantity ?? 0);
-            const rev = Number(r.revenue ?? r.amount ?? 0);
-            if (date) map[date] = (map[date] || 0) + rev;
-            mQty += qty;
-            mRev += rev;
-          });
-        }
+        const list2 = await getTodaySales(todayStr);
+        list2.forEach(r => {
+          map[todayStr] = (map[todayStr] || 0) + r.amount;
+          mQty += r.quantity;
+          mRev += r.amount;
+        });
       }
   
       setSummaryByDate(map);
       setMonthTotalQty(mQty);
       setMonthTotalRev(mRev);
     } catch (e: any) {
+      // 401, 403 에러는 adminFetch에서 이미 처리됨
+      if (e instanceof ApiError && (e.status === 401 || e.status === 403)) return;
       safeErrorLog(e, 'AdminSalesPage - loadSummary');
       show(getSafeErrorMessage(e, '매출 요약을 불러오는 중 오류가 발생했습니다.'), { variant: 'error' });
     } finally {
@@ -277,6 +251,8 @@ const [sortType, setSortType] = useState<'revenue' | 'quantity'>('revenue');
   }, [startDay, daysInMonth, year, month]);
 
   const loadDetailsForDate = async (dateStr: string) => {
+    // 다른 날짜를 연달아 누르면 이전 요청은 취소 (늦게 온 응답이 선택을 덮어쓰지 않도록)
+    const signal = beginDetailsRequest();
     setSelectedDate(dateStr);
     setLoadingDetails(true);
     try {
@@ -297,58 +273,36 @@ const [sortType, setSortType] = useState<'revenue' | 'quantity'>('revenue');
       const todayStr = toKstYMD(kstNow);
       if (dateStr === todayStr) {
         // 오늘이면 today API 사용
-        const res = await getTodaySales(dateStr);
-        if (!res.ok) {
-          const err = await res.clone().json().catch(() => ({}));
-          throw new Error(err.message || '오늘 상세 데이터를 불러오지 못했습니다.');
-        }
-        const body = await res.json();
-        const list = Array.isArray(body) ? body : (body?.response || []);
-        // today API 응답: product_id, product_name, quantity, amount
-        const mapped: SalesRow[] = list.map((r: any, idx: number) => {
-          const qty = Number(r.quantity ?? 0);
-          const amt = Number(r.amount ?? 0);
+        const list = await getTodaySales(dateStr, signal);
+        if (signal.aborted) return;
+        setRows(list.map(r => ({
+          id: r.productId,
+          date: dateStr,
+          productName: r.productName,
           // 단가 계산: 수량이 0이 아니면 amount/quantity, 아니면 0
-          const unit = qty > 0 ? Math.floor(amt / qty) : 0;
-          return {
-            id: r.product_id ?? idx,
-            date: dateStr,
-            productName: r.product_name ?? '',
-            price: unit,
-            quantity: qty,
-            revenue: amt,
-          };
-        });
-        setRows(mapped);
+          price: r.quantity > 0 ? Math.floor(r.amount / r.quantity) : 0,
+          quantity: r.quantity,
+          revenue: r.amount,
+        })));
         return;
       }
       // 과거는 기존 sales API 사용
-      const res = await getSalesDetails(dateStr)
-      if (!res.ok) {
-        const err = await res.clone().json().catch(() => ({}));
-        throw new Error(err.message || '상세 내역을 불러오지 못했습니다.');
-      }
-      const body = await res.json();
-      const list = Array.isArray(body) ? body : (body?.response || []);
-      const mapped: SalesRow[] = list.map((r: any, idx: number) => {
-        const qty = Number(r.quantity ?? 0);
-        const amt = Number(r.amount ?? 0);
-        const unit = qty > 0 ? Math.floor(amt / qty) : Number(r.price ?? 0);
-        return {
-          id: r.id ?? idx,
-          date: r.pickup_date ?? r.pickupDate ?? dateStr,
-          productName: r.product_name ?? r.productName ?? '',
-          price: unit,
-          quantity: qty,
-          revenue: amt,
-        };
-      });
-      setRows(mapped);
+      const list = await getSalesDetails(dateStr, signal);
+      if (signal.aborted) return;
+      setRows(list.map(r => ({
+        id: r.id,
+        date: r.pickupDate || dateStr,
+        productName: r.productName,
+        price: r.quantity > 0 ? Math.floor(r.amount / r.quantity) : r.price,
+        quantity: r.quantity,
+        revenue: r.amount,
+      })));
     } catch (e: any) {
+      if (isAbortError(e)) return;
       safeErrorLog(e, 'AdminSalesPage - loadDetailsForDate');
       show(getSafeErrorMessage(e, '상세 데이터를 불러오는 중 오류가 발생했습니다.'), { variant: 'error' });
     } finally {
-      setLoadingDetails(false);
+      if (!signal.aborted) setLoadingDetails(false);
     }
   };
 
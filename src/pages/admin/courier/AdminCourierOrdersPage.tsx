@@ -0,0 +1,250 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import AdminCourierHeader from '../../../components/AdminCourierHeader';
+import { useSnackbar } from '../../../components/snackbar';
+import { USE_MOCKS } from '../../../config';
+import { safeErrorLog, getSafeErrorMessage } from '../../../utils/environment';
+import {
+  getAdminCourierOrders,
+  updateAdminCourierOrderStatus,
+  type AdminCourierOrder,
+  type CourierOrderStatus,
+} from '../../../utils/api';
+
+type StatusFilter = 'in_progress' | 'paid' | 'preparing' | 'shipped' | 'delivered' | 'canceled';
+
+const FILTERS: { key: StatusFilter; label: string }[] = [
+  { key: 'in_progress', label: '처리 필요' },
+  { key: 'paid', label: '결제완료' },
+  { key: 'preparing', label: '상품준비중' },
+  { key: 'shipped', label: '배송중' },
+  { key: 'delivered', label: '배송완료' },
+  { key: 'canceled', label: '취소' },
+];
+
+const getStatusLabel = (status: CourierOrderStatus) => {
+  switch (status) {
+    case 'pending_payment':
+      return '결제 대기';
+    case 'paid':
+      return '결제 완료';
+    case 'preparing':
+      return '상품 준비중';
+    case 'shipped':
+      return '배송중';
+    case 'delivered':
+      return '배송 완료';
+    case 'canceled':
+      return '주문 취소';
+    case 'failed':
+      return '결제 실패';
+    default:
+      return status;
+  }
+};
+
+const formatPhone = (raw: string) => {
+  const digits = raw.replace(/\D/g, '');
+  if (digits.length === 11) return `${digits.slice(0, 3)}-${digits.slice(3, 7)}-${digits.slice(7)}`;
+  if (digits.length === 10) return `${digits.slice(0, 3)}-${digits.slice(3, 6)}-${digits.slice(6)}`;
+  return raw;
+};
+
+export default function AdminCourierOrdersPage() {
+  const navigate = useNavigate();
+  const { show } = useSnackbar();
+  const [orders, setOrders] = useState<AdminCourierOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<StatusFilter>('in_progress');
+  const [updatingCode, setUpdatingCode] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      try {
+        setLoading(true);
+        const list = USE_MOCKS ? [] : await getAdminCourierOrders();
+        if (alive) setOrders(list.filter(o => o.status !== 'pending_payment'));
+      } catch (e) {
+        safeErrorLog(e, 'AdminCourierOrdersPage - loadOrders');
+        show(getSafeErrorMessage(e, '택배 주문 목록을 불러오는 중 오류가 발생했습니다.'), { variant: 'error' });
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+    return () => { alive = false; };
+  }, [show, reloadKey]);
+
+  const summary = useMemo(() => {
+    const count = (s: CourierOrderStatus) => orders.filter(o => o.status === s).length;
+    return { paid: count('paid'), preparing: count('preparing'), shipped: count('shipped') };
+  }, [orders]);
+
+  const filteredOrders = useMemo(() => {
+    const list = filter === 'in_progress'
+      ? orders.filter(o => o.status === 'paid' || o.status === 'preparing')
+      : orders.filter(o => o.status === filter || (filter === 'canceled' && o.status === 'failed'));
+    return [...list].sort((a, b) => b.orderedAt.localeCompare(a.orderedAt));
+  }, [orders, filter]);
+
+  const handleStatusChange = async (order: AdminCourierOrder, next: 'preparing' | 'delivered' | 'canceled') => {
+    const confirmMessage = next === 'preparing'
+      ? '상품 준비중으로 변경하시겠습니까?'
+      : next === 'delivered'
+        ? '배송 완료 처리하시겠습니까?'
+        : '주문을 취소하시겠습니까?\n결제 금액은 전액 환불됩니다.';
+    if (!window.confirm(confirmMessage)) return;
+    try {
+      setUpdatingCode(order.orderCode);
+      await updateAdminCourierOrderStatus(order.orderCode, next);
+      setOrders(prev => prev.map(o => o.orderCode === order.orderCode ? { ...o, status: next } : o));
+      show('상태가 변경되었습니다.');
+    } catch (e) {
+      safeErrorLog(e, 'AdminCourierOrdersPage - updateStatus');
+      show(getSafeErrorMessage(e, '상태 변경 중 오류가 발생했습니다.'), { variant: 'error' });
+    } finally {
+      setUpdatingCode(null);
+    }
+  };
+
+  return (
+    <main className="bg-gray-50 min-h-screen px-4 sm:px-6 lg:px-8 py-6 pb-24">
+      <div className="mx-auto max-w-6xl">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-gray-800">🧾 택배 주문 관리</h1>
+          <div className="flex justify-end">
+            <AdminCourierHeader />
+          </div>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-lg shadow-sm p-4">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-3">
+            <div className="flex items-center gap-3">
+              <h2 className="text-xl font-bold text-gray-800 whitespace-nowrap">주문 목록</h2>
+              <div className="text-xs text-gray-600 whitespace-nowrap">
+                <span className="text-blue-700 font-semibold">결제완료 {summary.paid}건</span>
+                <span className="mx-1 text-gray-300">|</span>
+                <span className="text-amber-700 font-semibold">준비중 {summary.preparing}건</span>
+                <span className="mx-1 text-gray-300">|</span>
+                <span className="text-indigo-700 font-semibold">배송중 {summary.shipped}건</span>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setReloadKey(k => k + 1)}
+                className="h-9 px-3 rounded border text-sm hover:bg-gray-50"
+              >
+                새로고침
+              </button>
+              <button
+                type="button"
+                onClick={() => navigate('/admin/courier/orders/waybill')}
+                className="h-9 px-3 rounded bg-indigo-600 text-white text-sm hover:bg-indigo-700"
+              >
+                송장번호 입력
+              </button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-gray-500 font-medium">배송상태</span>
+            {FILTERS.map(f => (
+              <button
+                key={f.key}
+                type="button"
+                onClick={() => setFilter(f.key)}
+                className={`px-3 py-1.5 rounded-full text-xs font-medium transition-colors cursor-pointer ${
+                  filter === f.key ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="mt-4 space-y-3">
+            {loading && <div className="py-6 text-center text-sm text-gray-500">불러오는 중…</div>}
+            {!loading && filteredOrders.length === 0 && (
+              <div className="py-6 text-center text-gray-500">택배 주문이 없습니다.</div>
+            )}
+            {filteredOrders.map(o => (
+              <div key={o.orderCode} className="border rounded-lg p-4">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <div className="font-semibold text-gray-800">{o.orderCode}</div>
+                    <div className="text-xs text-gray-500">
+                      {(o.paidAt || o.orderedAt).replace('T', ' ').slice(0, 16)} 주문
+                    </div>
+                  </div>
+                  <span className="text-xs text-gray-600 whitespace-nowrap">{getStatusLabel(o.status)}</span>
+                </div>
+
+                <div className="mt-2 grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+                  <div className="space-y-1">
+                    {o.items.map(item => (
+                      <div key={`${o.orderCode}-${item.courierProductId}`}>
+                        <span className="font-medium text-gray-900">{item.name}</span>
+                        <span className="ml-1 text-xs text-gray-500">{item.quantity}개</span>
+                      </div>
+                    ))}
+                    <div className="text-gray-700">
+                      총 {o.totalAmount.toLocaleString()}원
+                      <span className="ml-1 text-xs text-gray-500">(배송비 {o.shippingFee.toLocaleString()}원)</span>
+                    </div>
+                  </div>
+                  <div>
+                    <div className="font-semibold text-gray-900">{o.receiverName}</div>
+                    <div className={o.receiverPhone ? 'text-gray-700' : 'text-rose-600'}>
+                      {o.receiverPhone ? formatPhone(o.receiverPhone) : '휴대폰 없음'}
+                    </div>
+                    <div className="text-xs text-gray-500">{o.postalCode}</div>
+                    <div className="text-xs text-gray-600">{o.address1}</div>
+                    {o.address2 && <div className="text-xs text-gray-600">{o.address2}</div>}
+                    {o.shippingMemo && <div className="mt-1 text-xs text-orange-600">메모: {o.shippingMemo}</div>}
+                  </div>
+                  <div>
+                    {o.waybillNumber ? (
+                      <div className="text-xs text-gray-700">
+                        {o.courierCompany ?? ''} <span className="font-semibold">{o.waybillNumber}</span>
+                      </div>
+                    ) : (
+                      <div className="text-xs text-gray-400">송장 미등록</div>
+                    )}
+                    <div className="mt-2 grid grid-cols-3 gap-1">
+                      <button
+                        type="button"
+                        className="h-8 px-1.5 rounded bg-amber-500 text-white text-xs whitespace-nowrap disabled:opacity-50"
+                        onClick={() => handleStatusChange(o, 'preparing')}
+                        disabled={updatingCode === o.orderCode || o.status !== 'paid'}
+                      >
+                        상품준비
+                      </button>
+                      <button
+                        type="button"
+                        className="h-8 px-1.5 rounded bg-green-600 text-white text-xs whitespace-nowrap disabled:opacity-50"
+                        onClick={() => handleStatusChange(o, 'delivered')}
+                        disabled={updatingCode === o.orderCode || o.status !== 'shipped'}
+                      >
+                        배송완료
+                      </button>
+                      <button
+                        type="button"
+                        className="h-8 px-1.5 rounded bg-gray-500 text-white text-xs whitespace-nowrap disabled:opacity-50"
+                        onClick={() => handleStatusChange(o, 'canceled')}
+                        disabled={updatingCode === o.orderCode || (o.status !== 'paid' && o.status !== 'preparing')}
+                      >
+                        취소
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
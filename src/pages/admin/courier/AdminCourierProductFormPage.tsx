@@ -0,0 +1,314 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useSnackbar } from '../../../components/snackbar';
+import AdminCourierHeader from '../../../components/AdminCourierHeader';
+import { USE_MOCKS } from '../../../config';
+import { getCourierProductById } from '../../../mocks/courierProducts';
+import { safeErrorLog, getSafeErrorMessage } from '../../../utils/environment';
+import {
+  createAdminCourierProduct,
+  getAdminCourierProduct,
+  getCourierProductUploadUrl,
+  updateAdminCourierProduct,
+  type AdminCourierProductPayload,
+} from '../../../utils/api';
+import { ApiError } from '../../../utils/apiError';
+import { compressImage } from '../../../utils/image-compress';
+
+type CourierProductForm = {
+  name: string;        // NotBlank, Size max=30
+  price: string;       // Min=100
+  stock: string;       // Min=0
+  weight: string;      // 예: 3kg (10~12과)
+  description: string;
+  visible: boolean;
+};
+
+const PRICE_MAX = 1_000_000;
+
+const EMPTY_FORM: CourierProductForm = {
+  name: '',
+  price: '',
+  stock: '',
+  weight: '',
+  description: '',
+  visible: true,
+};
+
+// 택배 상품 등록/수정 공용 폼 (/admin/courier/products/new, /admin/courier/products/:id/edit)
+export default function AdminCourierProductFormPage() {
+  const { id } = useParams<{ id: string }>();
+  const productId = id ? Number(id) : null;
+  const isEdit = productId !== null;
+  const nav = useNavigate();
+  const { show } = useSnackbar();
+
+  const [form, setForm] = useState<CourierProductForm>(EMPTY_FORM);
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [currentImageUrl, setCurrentImageUrl] = useState('');
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(isEdit);
+  const [saving, setSaving] = useState(false);
+
+  // 미리보기 URL 정리
+  useEffect(() => () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  useEffect(() => {
+    if (!productId) return;
+    let alive = true;
+    (async () => {
+      try {
+        setLoading(true);
+        const data = USE_MOCKS
+          ? (() => {
+            const p = getCourierProductById(productId);
+            return p ? { ...p, visible: true } : null;
+          })()
+          : await getAdminCourierProduct(productId);
+        if (!data) throw new Error('상품 정보를 불러오지 못했습니다.');
+        if (!alive) return;
+        setForm({
+          name: data.name,
+          price: String(data.price),
+          stock: String(data.stock),
+          weight: data.weight ?? '',
+          description: data.description ?? '',
+          visible: data.visible,
+        });
+        setCurrentImageUrl(data.imageUrl);
+      } catch (e) {
+        safeErrorLog(e, 'AdminCourierProductFormPage - loadProduct');
+        show(getSafeErrorMessage(e, '상품 정보를 불러오는 중 오류가 발생했습니다.'), { variant: 'error' });
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+    return () => { alive = false; };
+  }, [productId, show]);
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const ext = file.name.split('.').pop()?.toLowerCase();
+    if (ext !== 'png' && ext !== 'jpg' && ext !== 'jpeg') {
+      show('.PNG/.JPG 파일만 업로드할 수 있습니다.', { variant: 'error' });
+      e.target.value = '';
+      return;
+    }
+    try {
+      const compressed = await compressImage(file);
+      setImageFile(compressed);
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+      setPreviewUrl(URL.createObjectURL(compressed));
+    } catch (err) {
+      safeErrorLog(err, 'AdminCourierProductFormPage - compress');
+      show(getSafeErrorMessage(err, '이미지 처리 중 오류가 발생했습니다.'), { variant: 'error' });
+    } finally {
+      // 파일 입력값 초기화(같은 파일 다시 선택 가능)
+      e.target.value = '';
+    }
+  };
+
+  // presigned URL 발급 → S3 업로드 → key 반환
+  const uploadImage = async (file: File): Promise<string> => {
+    const { url, key, method } = await getCourierProductUploadUrl(file.name, file.type);
+
+    const uploadRes = await fetch(url, {
+      method: method.toUpperCase(),
+      body: file,
+      mode: 'cors',
+    });
+    if (!uploadRes.ok) throw new Error(`S3 업로드 실패: ${uploadRes.status}`);
+    return key;
+  };
+
+  const handleSubmit = async () => {
+    const name = form.name.trim();
+    const price = Number(form.price);
+    const stock = Number(form.stock);
+    if (!name) {
+      show('상품명을 입력해주세요.', { variant: 'error' });
+      return;
+    }
+    if (!Number.isInteger(price) || price < 100 || price > PRICE_MAX) {
+      show('가격은 100원 이상 1,000,000원 이하로 입력해주세요.', { variant: 'error' });
+      return;
+    }
+    if (!Number.isInteger(stock) || stock < 0) {
+      show('재고 수량을 확인해주세요.', { variant: 'error' });
+      return;
+    }
+    if (!isEdit && !imageFile) {
+      show('상품 이미지를 선택해주세요.', { variant: 'error' });
+      return;
+    }
+
+    try {
+      setSaving(true);
+
+      if (USE_MOCKS) {
+        await new Promise(resolve => setTimeout(resolve, 500));
+        show(isEdit ? '상품이 수정되었습니다.' : '상품이 등록되었습니다!', { variant: 'success' });
+        nav('/admin/courier/products', { replace: true });
+        return;
+      }
+
+      const imageKey = imageFile ? await uploadImage(imageFile) : undefined;
+
+      const payload: AdminCourierProductPayload = {
+        name,
+        price,
+        stock,
+        imageKey,
+        weight: form.weight.trim() || undefined,
+        description: form.description,
+        visible: form.visible,
+      };
+      if (isEdit) await updateAdminCourierProduct(productId as number, payload);
+      else await createAdminCourierProduct(payload);
+
+      show(isEdit ? '상품이 수정되었습니다.' : '상품이 등록되었습니다!', { variant: 'success' });
+      nav('/admin/courier/products', { replace: true });
+    } catch (e) {
+      // 401, 403 에러는 adminFetch에서 이미 처리됨
+      if (e instanceof ApiError && (e.status === 401 || e.status === 403)) return;
+      safeErrorLog(e, 'AdminCourierProductFormPage - handleSubmit');
+      show(getSafeErrorMessage(e, isEdit ? '상품 수정 중 오류가 발생했습니다.' : '상품 등록 중 오류가 발생했습니다.'), { variant: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const imageSrc = previewUrl || currentImageUrl;
+
+  return (
+    <main className="min-h-screen bg-gray-50 px-4 py-6 pb-24">
+      <div className="max-w-md mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-gray-800">{isEdit ? '✏️ 택배 상품 수정' : '➕ 택배 상품 등록'}</h1>
+          <div className="flex justify-end">
+            <AdminCourierHeader />
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <section className="max-w-md mx-auto p-6 bg-white rounded shadow text-center text-sm text-gray-500">
+          불러오는 중…
+        </section>
+      ) : (
+        <section className="max-w-md mx-auto p-6 bg-white rounded shadow space-y-4">
+          <div className="space-y-2">
+            <label className="block text-sm font-medium">상품명 <span className="text-red-500">*</span></label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={e => setForm(prev => ({ ...prev, name: e.target.value }))}
+              className="w-full border px-3 py-2 rounded"
+              placeholder="상품명을 입력하세요 (최대 30자)"
+              maxLength={30}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="block text-sm font-medium">가격 <span className="text-red-500">*</span></label>
+              <input
+                type="number"
+                value={form.price}
+                onChange={e => setForm(prev => ({ ...prev, price: e.target.value }))}
+                className="w-full border px-3 py-2 rounded"
+                step={100}
+                min={100}
+                max={PRICE_MAX}
+                placeholder="100"
+              />
+              <p className="text-xs text-gray-500">최대 1,000,000원</p>
+            </div>
+            <div className="space-y-2">
+              <label className="block text-sm font-medium">재고 수량 <span className="text-red-500">*</span></label>
+              <input
+                type="number"
+                value={form.stock}
+                onChange={e => setForm(prev => ({ ...prev, stock: e.target.value }))}
+                className="w-full border px-3 py-2 rounded"
+                step={1}
+                min={0}
+                placeholder="0"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium">중량/구성</label>
+            <input
+              type="text"
+              value={form.weight}
+              onChange={e => setForm(prev => ({ ...prev, weight: e.target.value }))}
+              className="w-full border px-3 py-2 rounded"
+              placeholder="예: 3kg (10~12과)"
+              maxLength={30}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium">상품 설명</label>
+            <textarea
+              value={form.description}
+              onChange={e => setForm(prev => ({ ...prev, description: e.target.value }))}
+              className="w-full border px-3 py-2 rounded min-h-[120px] text-sm"
+              placeholder="상세 설명을 입력하세요 (<b>, <span style> 태그 사용 가능)"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium">상품 노출</label>
+            <button
+              type="button"
+              onClick={() => setForm(prev => ({ ...prev, visible: !prev.visible }))}
+              className={`h-8 w-full rounded font-medium transition text-sm
+                ${form.visible
+                  ? 'bg-green-500 hover:bg-green-600 text-white'
+                  : 'bg-rose-500 hover:bg-rose-600 text-white'}`}
+            >
+              {form.visible ? '노출 O' : '노출 X'}
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium">
+              상품 이미지{!isEdit && <span className="text-red-500">*</span>}
+            </label>
+            {imageSrc && (
+              <img src={imageSrc} alt="상품 이미지 미리보기" className="w-28 h-28 rounded object-cover border" />
+            )}
+            <div className="flex items-center gap-2 flex-wrap">
+              <input
+                id="courier-main-image"
+                type="file"
+                accept="image/png, image/jpeg"
+                onChange={handleImageChange}
+                className="hidden"
+              />
+              <label htmlFor="courier-main-image" className="h-9 px-3 inline-flex items-center rounded border text-sm cursor-pointer hover:bg-gray-50">
+                {isEdit ? '이미지 변경' : '파일 선택'}
+              </label>
+              {imageFile && <span className="text-sm text-gray-700 truncate max-w-full">{imageFile.name}</span>}
+            </div>
+          </div>
+
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={saving}
+            className="w-full bg-orange-500 text-white py-2 rounded hover:bg-orange-600 disabled:bg-gray-300"
+          >
+            {saving ? '저장 중...' : (isEdit ? '상품 수정' : '상품 등록')}
+          </button>
+        </section>
+      )}
+    </main>
+  );
+}
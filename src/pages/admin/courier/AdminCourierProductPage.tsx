@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useSnackbar } from '../../../components/snackbar';
+import AdminCourierHeader from '../../../components/AdminCourierHeader';
+import { USE_MOCKS } from '../../../config';
+import { listCourierProducts } from '../../../mocks/courierProducts';
+import { safeErrorLog, getSafeErrorMessage } from '../../../utils/environment';
+import {
+  deleteAdminCourierProduct,
+  getAdminCourierProducts,
+  toggleAdminCourierProductVisible,
+  type AdminCourierProduct,
+} from '../../../utils/api';
+
+// 재고 상태 기준값 (UI 배지 표시용)
+const LOW_STOCK_THRESHOLD = 10;
+const DANGER_STOCK_THRESHOLD = 5;
+
+export default function AdminCourierProductPage() {
+  const navigate = useNavigate();
+  const { show } = useSnackbar();
+  const [products, setProducts] = useState<AdminCourierProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      try {
+        setLoading(true);
+        const list = USE_MOCKS
+          ? listCourierProducts().map(p => ({ ...p, visible: true }))
+          : await getAdminCourierProducts();
+        if (alive) setProducts(list);
+      } catch (e) {
+        safeErrorLog(e, 'AdminCourierProductPage - loadProducts');
+        show(getSafeErrorMessage(e, '택배 상품 목록을 불러오는 중 오류가 발생했습니다.'), { variant: 'error' });
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+    return () => { alive = false; };
+  }, [show]);
+
+  const visibleProducts = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    const sorted = [...products].sort((a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0));
+    return q ? sorted.filter(p => p.name.toLowerCase().includes(q)) : sorted;
+  }, [products, search]);
+
+  const handleToggleVisible = async (product: AdminCourierProduct) => {
+    const next = !product.visible;
+    if (!window.confirm(`'${product.name}' 상품을 ${next ? '노출' : '숨김'} 처리하시겠습니까?`)) return;
+    try {
+      setUpdatingId(product.id);
+      if (!USE_MOCKS) {
+        await toggleAdminCourierProductVisible(product.id);
+      }
+      setProducts(prev => prev.map(p => p.id === product.id ? { ...p, visible: next } : p));
+      show(next ? '상품이 노출됩니다.' : '상품이 숨김 처리되었습니다.');
+    } catch (e) {
+      safeErrorLog(e, 'AdminCourierProductPage - toggleVisible');
+      show(getSafeErrorMessage(e, '노출 상태 변경 중 오류가 발생했습니다.'), { variant: 'error' });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleDelete = async (product: AdminCourierProduct) => {
+    if (!window.confirm(`'${product.name}' 상품을 삭제하시겠습니까?\n삭제 후에는 복구할 수 없습니다.`)) return;
+    try {
+      setUpdatingId(product.id);
+      if (!USE_MOCKS) {
+        await deleteAdminCourierProduct(product.id);
+      }
+      setProducts(prev => prev.filter(p => p.id !== product.id));
+      show('상품이 삭제되었습니다.');
+    } catch (e) {
+      safeErrorLog(e, 'AdminCourierProductPage - delete');
+      show(getSafeErrorMessage(e, '상품 삭제 중 오류가 발생했습니다.'), { variant: 'error' });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const stockBadge = (stock: number) => {
+    if (stock === 0) return { text: '품절', className: 'bg-sky-100 text-sky-700' };
+    if (stock < DANGER_STOCK_THRESHOLD) return { text: '위험', className: 'bg-red-100 text-red-700' };
+    if (stock < LOW_STOCK_THRESHOLD) return { text: '품절임박', className: 'bg-amber-100 text-amber-700' };
+    return { text: '여유', className: 'bg-green-100 text-green-700' };
+  };
+
+  return (
+    <main className="bg-gray-50 min-h-screen px-4 sm:px-6 lg:px-8 py-6 pb-24">
+      <div className="max-w-3xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-gray-800">📦 택배 상품 관리</h1>
+          <div className="flex justify-end">
+            <AdminCourierHeader />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 mb-4">
+          <input
+            type="text"
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder="상품명 검색"
+            className="flex-1 h-10 border rounded px-3 text-sm bg-white"
+          />
+          <button
+            type="button"
+            onClick={() => navigate('/admin/courier/products/new')}
+            className="h-10 px-4 rounded bg-orange-500 text-white text-sm font-medium hover:bg-orange-600"
+          >
+            상품 등록
+          </button>
+        </div>
+
+        <div className="bg-white rounded-lg shadow">
+          {loading && <div className="p-6 text-center text-sm text-gray-500">불러오는 중…</div>}
+          {!loading && visibleProducts.length === 0 && (
+            <div className="p-6 text-center text-gray-500">
+              {search ? `"${search}"에 대한 검색 결과가 없습니다.` : '등록된 택배 상품이 없습니다.'}
+            </div>
+          )}
+          {visibleProducts.map(product => {
+            const badge = stockBadge(product.stock);
+            return (
+              <div key={product.id} className="p-4 border-b last:border-b-0">
+                <div className="flex flex-row items-stretch gap-4">
+                  <img
+                    src={product.imageUrl}
+                    alt={product.name}
+                    className="w-20 h-20 object-cover rounded border flex-shrink-0"
+                  />
+                  <div className="flex-1 space-y-1">
+                    <h3 className="text-sm font-semibold break-keep">{product.name}</h3>
+                    {product.weight && <p className="text-xs text-gray-500">{product.weight}</p>}
+                    <p className="text-sm text-gray-500">가격: {product.price.toLocaleString()}원</p>
+                    <p className="text-sm text-gray-500">
+                      <span className="font-medium">재고: {product.stock.toLocaleString()}개</span>
+                      <span className={`ml-2 inline-flex items-center rounded px-2 py-0.5 text-xs font-medium ${badge.className}`}>
+                        {badge.text}
+                      </span>
+                    </p>
+                  </div>
+                </div>
+
+                <div className="mt-3 grid grid-cols-3 gap-2">
+                  <button
+                    type="button"
+                    onClick={() => navigate(`/admin/courier/products/${product.id}/edit`)}
+                    className="h-8 w-full rounded border border-gray-300 hover:bg-gray-50 text-sm"
+                  >
+                    정보 수정
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleToggleVisible(product)}
+                    disabled={updatingId === product.id}
+                    className={`h-8 w-full rounded font-medium transition text-sm disabled:opacity-50
+                      ${product.visible
+                        ? 'bg-green-500 hover:bg-green-600 text-white'
+                        : 'bg-rose-500 hover:bg-rose-600 text-white'}`}
+                  >
+                    {product.visible ? '노출 O' : '노출 X'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(product)}
+                    disabled={updatingId === product.id}
+                    className="h-8 w-full rounded bg-gray-700 text-white hover:bg-gray-800 text-sm disabled:opacity-50"
+                  >
+                    상품 삭제
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </main>
+  );
+}
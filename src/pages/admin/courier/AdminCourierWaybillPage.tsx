@@ -0,0 +1,202 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import AdminCourierHeader from '../../../components/AdminCourierHeader';
+import { useSnackbar } from '../../../components/snackbar';
+import { USE_MOCKS } from '../../../config';
+import { safeErrorLog, getSafeErrorMessage } from '../../../utils/environment';
+import {
+  getAdminCourierOrders,
+  registerAdminCourierWaybills,
+  type AdminCourierOrder,
+  type CourierWaybillInput,
+} from '../../../utils/api';
+
+const COURIER_COMPANIES = ['CJ대한통운', '우체국택배', '한진택배', '롯데택배', '로젠택배'];
+const DEFAULT_COMPANY_KEY = 'courier-default-company';
+
+type WaybillDraft = { courierCompany: string; waybillNumber: string };
+
+// 결제완료/상품준비중 주문에 송장번호를 입력해 일괄 발송 처리
+export default function AdminCourierWaybillPage() {
+  const { show } = useSnackbar();
+  const [orders, setOrders] = useState<AdminCourierOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [defaultCompany, setDefaultCompany] = useState<string>(
+    () => localStorage.getItem(DEFAULT_COMPANY_KEY) || COURIER_COMPANIES[0]
+  );
+  const [drafts, setDrafts] = useState<Record<string, WaybillDraft>>({});
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      try {
+        setLoading(true);
+        const list = USE_MOCKS ? [] : await getAdminCourierOrders();
+        if (!alive) return;
+        setOrders(
+          list
+            .filter(o => o.status === 'paid' || o.status === 'preparing')
+            .sort((a, b) => a.orderedAt.localeCompare(b.orderedAt))
+        );
+      } catch (e) {
+        safeErrorLog(e, 'AdminCourierWaybillPage - loadOrders');
+        show(getSafeErrorMessage(e, '택배 주문 목록을 불러오는 중 오류가 발생했습니다.'), { variant: 'error' });
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+    return () => { alive = false; };
+  }, [show]);
+
+  const getDraft = (orderCode: string): WaybillDraft =>
+    drafts[orderCode] ?? { courierCompany: defaultCompany, waybillNumber: '' };
+
+  const updateDraft = (orderCode: string, patch: Partial<WaybillDraft>) => {
+    setDrafts(prev => ({ ...prev, [orderCode]: { ...getDraft(orderCode), ...patch } }));
+  };
+
+  const changeDefaultCompany = (company: string) => {
+    setDefaultCompany(company);
+    localStorage.setItem(DEFAULT_COMPANY_KEY, company);
+  };
+
+  const filledInputs = useMemo<CourierWaybillInput[]>(() => (
+    orders
+      .map(o => {
+        const draft = drafts[o.orderCode];
+        const waybillNumber = (draft?.waybillNumber ?? '').replace(/[^0-9]/g, '');
+        return {
+          orderCode: o.orderCode,
+          courierCompany: draft?.courierCompany ?? defaultCompany,
+          waybillNumber,
+        };
+      })
+      .filter(it => it.waybillNumber.length > 0)
+  ), [orders, drafts, defaultCompany]);
+
+  const invalidCount = filledInputs.filter(it => it.waybillNumber.length < 10 || it.waybillNumber.length > 14).length;
+
+  const handleSave = async () => {
+    if (filledInputs.length === 0) {
+      show('입력된 송장번호가 없습니다.', { variant: 'info' });
+      return;
+    }
+    if (invalidCount > 0) {
+      show('송장번호는 숫자 10~14자리로 입력해주세요.', { variant: 'error' });
+      return;
+    }
+    if (!window.confirm(`${filledInputs.length}건의 송장번호를 등록하고 배송중으로 변경하시겠습니까?`)) return;
+
+    try {
+      setSaving(true);
+      await registerAdminCourierWaybills(filledInputs);
+      const savedCodes = new Set(filledInputs.map(it => it.orderCode));
+      setOrders(prev => prev.filter(o => !savedCodes.has(o.orderCode)));
+      setDrafts(prev => {
+        const next = { ...prev };
+        savedCodes.forEach(code => { delete next[code]; });
+        return next;
+      });
+      show(`${savedCodes.size}건의 송장번호가 등록되었습니다.`);
+    } catch (e) {
+      safeErrorLog(e, 'AdminCourierWaybillPage - save');
+      show(getSafeErrorMessage(e, '송장번호 등록 중 오류가 발생했습니다.'), { variant: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <main className="bg-gray-50 min-h-screen px-4 sm:px-6 lg:px-8 py-6 pb-28">
+      <div className="mx-auto max-w-4xl">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-gray-800">🏷️ 송장번호 입력</h1>
+          <div className="flex justify-end">
+            <AdminCourierHeader />
+          </div>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-lg shadow-sm p-4">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-3">
+            <div className="text-sm text-gray-600">
+              발송 대기 <span className="font-semibold text-gray-900">{orders.length}건</span>
+              <span className="mx-1 text-gray-300">|</span>
+              입력 <span className="font-semibold text-indigo-700">{filledInputs.length}건</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-gray-600">기본 택배사</label>
+              <select
+                value={defaultCompany}
+                onChange={e => changeDefaultCompany(e.target.value)}
+                className="h-9 border rounded px-2 text-sm"
+              >
+                {COURIER_COMPANIES.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+          </div>
+
+          {loading && <div className="py-6 text-center text-sm text-gray-500">불러오는 중…</div>}
+          {!loading && orders.length === 0 && (
+            <div className="py-6 text-center text-gray-500">송장 입력이 필요한 주문이 없습니다.</div>
+          )}
+
+          <div className="divide-y">
+            {orders.map(o => {
+              const draft = getDraft(o.orderCode);
+              const digits = draft.waybillNumber.replace(/[^0-9]/g, '');
+              const invalid = digits.length > 0 && (digits.length < 10 || digits.length > 14);
+              return (
+                <div key={o.orderCode} className="py-3 flex flex-col md:flex-row md:items-center gap-2">
+                  <div className="md:w-1/2 min-w-0">
+                    <div className="text-sm font-semibold text-gray-800">
+                      {o.orderCode}
+                      {o.status === 'preparing' && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-[11px] font-medium bg-amber-100 text-amber-700">준비중</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-600 truncate">
+                      {o.receiverName} · {o.address1}{o.address2 ? ` ${o.address2}` : ''}
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {o.items.map(it => `${it.name} ${it.quantity}개`).join(', ')}
+                    </div>
+                  </div>
+                  <div className="md:w-1/2 flex items-center gap-2">
+                    <select
+                      value={draft.courierCompany}
+                      onChange={e => updateDraft(o.orderCode, { courierCompany: e.target.value })}
+                      className="h-9 border rounded px-2 text-sm"
+                    >
+                      {COURIER_COMPANIES.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={draft.waybillNumber}
+                      onChange={e => updateDraft(o.orderCode, { waybillNumber: e.target.value })}
+                      placeholder="송장번호"
+                      className={`flex-1 h-9 border rounded px-2 text-sm ${invalid ? 'border-rose-400 bg-rose-50' : ''}`}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      <div className="fixed bottom-0 left-0 right-0 z-40 bg-white border-t border-gray-200 shadow-[0_-2px_8px_rgba(0,0,0,0.06)]">
+        <div className="mx-auto max-w-4xl px-4 py-3">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || filledInputs.length === 0}
+            className="w-full h-11 rounded bg-indigo-600 text-white font-semibold hover:bg-indigo-700 disabled:bg-gray-300"
+          >
+            {saving ? '등록 중...' : `송장 등록 및 발송 처리 (${filledInputs.length}건)`}
+          </button>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -29,10 +29,7 @@ export default function DeliveryApprovePage() {
 
     const approve = async () => {
       try {
-        const res = await approveDeliveryPayment(orderCode, pgToken);
-        if (!res.ok) {
-          throw new Error('approve failed');
-        }
+        await approveDeliveryPayment(orderCode, pgToken);
         setStatus('success');
         setTimeout(() => nav('/store/me/orders?tab=delivery', { replace: true }), 1500);
       } catch (e) {
@@ -19,8 +19,7 @@ export default function DeliveryCancelPage() {
 
     const cancel = async () => {
       try {
-        const res = await cancelDeliveryPayment(orderCode);
-        if (!res.ok) throw new Error('cancel failed');
+        await cancelDeliveryPayment(orderCode);
         setStatus('success');
       } catch (e) {
         safeErrorLog(e, 'DeliveryCancelPage - cancel');
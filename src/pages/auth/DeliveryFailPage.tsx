@@ -19,8 +19,7 @@ export default function DeliveryFailPage() {
 
     const fail = async () => {
       try {
-        const res = await failDeliveryPayment(orderCode);
-        if (!res.ok) throw new Error('fail failed');
+        await failDeliveryPayment(orderCode);
         setStatus('success');
       } catch (e) {
         safeErrorLog(e, 'DeliveryFailPage - fail');
@@ -1,10 +1,14 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useSnackbar } from '../../components/snackbar';
-import { USE_MOCKS } from '../../config';
+import { USE_MOCKS, USE_MOCK_SERVER } from '../../config';
 import { safeErrorLog, getSafeErrorMessage } from '../../utils/environment';
 import { theme } from '../../brand';
 import BottomNav from '../../components/BottomNav';
+import { ensureKakaoMaps } from '../../utils/kakao';
+import { findDeliveryZone } from '../../utils/deliveryZones';
+import { describeFeeRules, EMPTY_FEE_RULES } from '../../utils/deliveryFee';
+import { buildScheduledSlots, formatSlotRange, isSameSlot, type SlotTime } from '../../utils/deliverySlots';
 import {
   getReservations,
   getDeliveryInfo,
@@ -13,9 +17,19 @@ import {
   saveDeliveryInfo,
   createDeliveryPaymentReady,
   getServerTime,
+  getScheduledSlotStatus,
+  getDeliveryAddresses,
+  createDeliveryAddress,
+  updateDeliveryAddress,
+  deleteDeliveryAddress,
   type DeliveryInfo,
+  type DeliveryAddress,
   type DeliveryConfig,
+  type DeliveryFeeEstimate,
+  type PaymentReady,
+  type ScheduledSlotStatus,
 } from '../../utils/api';
+import { ApiError } from '../../utils/apiError';
 
 const KRW = (price: number) =>
   price.toLocaleString('ko-KR', { style: 'currency', currency: 'KRW' });
@@ -33,10 +47,16 @@ const DEFAULT_DELIVERY_CONFIG: DeliveryConfig = {
   startMinute: 0,
   endHour: 19,
   endMinute: 30,
+  zones: [],
+  feeRules: EMPTY_FEE_RULES,
+  scheduledSlotCapacity: 0,
+  scheduledSlotCapacities: [],
 };
 
 const PAYMENT_READY = true;
 
+const formatHm = (hour: number, minute: number) => `${hour}:${String(minute).padStart(2, '0')}`;
+
 type DeliveryOrderItem = {
   id: number;
   name: string;
@@ -55,25 +75,22 @@ type DeliveryOrderRow = {
 
 const ITEM_HEIGHT = 50;
 const VISIBLE_ITEMS = 3;
+// 남은 자리가 이 이하면 '마감 임박' 표시
+const NEARLY_FULL_REMAINING = 2;
+
+type SlotState = { remaining: number | null }; // null = 정원 제한 없음
 
 type DrumPickerProps = {
-  slots: { hour: number; minute: number }[];
-  selectedSlot: { hour: number; minute: number } | null;
-  onSelectSlot: (slot: { hour: number; minute: number }) => void;
+  slots: SlotTime[];
+  selectedSlot: SlotTime | null;
+  onSelectSlot: (slot: SlotTime) => void;
+  slotState?: (slot: SlotTime) => SlotState;
 };
 
-function DrumPicker({ slots, selectedSlot, onSelectSlot }: DrumPickerProps) {
+function DrumPicker({ slots, selectedSlot, onSelectSlot, slotState }: DrumPickerProps) {
   const pickerRef = useRef<HTMLDivElement>(null);
   const [selectedIndex, setSelectedIndex] = useState(0);
 
-  const formatRange = (slot: { hour: number; minute: number }) => {
-    const endTotal = slot.hour * 60 + slot.minute;
-    const startTotal = endTotal - 60;
-    const sH = Math.floor(startTotal / 60);
-    const sM = startTotal % 60;
-    return `${sH}:${String(sM).padStart(2, '0')} ~ ${slot.hour}:${String(slot.minute).padStart(2, '0')}`;
-  };
-
   useEffect(() => {
     if (slots.length === 0) return;
     const index = selectedSlot
@@ -154,7 +171,19 @@ function DrumPicker({ slots, selectedSlot, onSelectSlot }: DrumPickerProps) {
               selectedIndex === i ? 'text-green-700 scale-105' : 'text-gray-400'
             }`}
           >
-            {formatRange(slot)}
+            {(() => {
+              const remaining = slotState?.(slot).remaining ?? null;
+              const full = remaining === 0;
+              return (
+                <>
+                  <span className={full ? 'line-through text-gray-300' : ''}>{formatSlotRange(slot)}</span>
+                  {full && <span className="ml-2 text-xs font-semibold text-rose-500">마감</span>}
+                  {remaining !== null && remaining > 0 && remaining <= NEARLY_FULL_REMAINING && (
+                    <span className="ml-2 text-xs font-semibold text-amber-600">{remaining}자리 남음</span>
+                  )}
+                </>
+              );
+            })()}
           </div>
         ))}
 
@@ -187,14 +216,23 @@ export default function DeliveryPage() {
     latitude: undefined,
     longitude: undefined,
   });
+  // 주소록: 선택한 주소 id (null = 새 주소 입력, 주문 시 주소록에 추가)
+  const [addresses, setAddresses] = useState<DeliveryAddress[]>([]);
+  const [selectedAddressId, setSelectedAddressId] = useState<number | null>(null);
+  const [newAddressLabel, setNewAddressLabel] = useState('');
+  const [saveNewAddress, setSaveNewAddress] = useState(true);
   const [deliveryHour, setDeliveryHour] = useState<number>(12);
   const [deliverySubmitting, setDeliverySubmitting] = useState(false);
   const [deliveryType, setDeliveryType] = useState<'normal' | 'scheduled'>('normal');
-  const [scheduledSlot, setScheduledSlot] = useState<{ hour: number; minute: number } | null>(null);
+  const [scheduledSlot, setScheduledSlot] = useState<SlotTime | null>(null);
+  const [slotStatuses, setSlotStatuses] = useState<ScheduledSlotStatus[]>([]);
+  const [slotStatusVersion, setSlotStatusVersion] = useState(0);
   const [isGeocoding, setIsGeocoding] = useState(false);
   const [deliveryDistanceKm, setDeliveryDistanceKm] = useState<number | null>(null);
   const [deliveryDistanceError, setDeliveryDistanceError] = useState<string | null>(null);
   const [deliveryFee, setDeliveryFee] = useState<number | null>(null);
+  const [feeBreakdown, setFeeBreakdown] = useState<DeliveryFeeEstimate['breakdown']>([]);
+  const [feeEstimating, setFeeEstimating] = useState(false);
   const [deliveryCoords, setDeliveryCoords] = useState<{ lat: number; lng: number } | null>(null);
   const [paymentFallbackPcUrl, setPaymentFallbackPcUrl] = useState<string | null>(null);
 
@@ -226,35 +264,45 @@ export default function DeliveryPage() {
     [selectedOrders]
   );
   const config = deliveryConfig || DEFAULT_DELIVERY_CONFIG;
+  // 배달 구역이 있으면 주소가 속한 구역의 최소 주문 금액/배달 시간 적용 (없으면 기본 설정)
+  const zoneMode = config.zones.length > 0;
+  const deliveryZone = useMemo(
+    () => (zoneMode && deliveryCoords ? findDeliveryZone(config.zones, deliveryCoords) : null),
+    [zoneMode, config.zones, deliveryCoords]
+  );
+  const rules = deliveryZone ?? config;
   const deliveryEnabled = config.enabled !== false;
   const appliedFee = deliveryFee;
   const isAfterDeadline = useMemo(() => {
     const now = getKstNow();
     const h = now.getHours();
     const m = now.getMinutes();
-    return h > config.endHour || (h === config.endHour && m > config.endMinute);
-  }, [serverTimeOffsetMs, config.endHour, config.endMinute]);
+    return h > rules.endHour || (h === rules.endHour && m > rules.endMinute);
+  }, [serverTimeOffsetMs, rules.endHour, rules.endMinute]);
   const isBeforeStart = useMemo(() => {
     const now = getKstNow();
     const h = now.getHours();
     const m = now.getMinutes();
-    return h < config.startHour || (h === config.startHour && m < config.startMinute);
-  }, [serverTimeOffsetMs, config.startHour, config.startMinute]);
-  const scheduledCutoffTotal = (config.endHour * 60 + config.endMinute) - 60;
+    return h < rules.startHour || (h === rules.startHour && m < rules.startMinute);
+  }, [serverTimeOffsetMs, rules.startHour, rules.startMinute]);
+  const scheduledCutoffTotal = (rules.endHour * 60 + rules.endMinute) - 60;
   const isAfterScheduledCutoff = useMemo(() => {
     const now = getKstNow();
     return now.getHours() * 60 + now.getMinutes() >= scheduledCutoffTotal;
   }, [serverTimeOffsetMs, scheduledCutoffTotal]);
-  const scheduledSlots = useMemo(() => {
-    const startTotal = config.startHour * 60 + config.startMinute;
-    const endTotal = config.endHour * 60 + config.endMinute;
-    const slots: { hour: number; minute: number }[] = [];
-    for (let t = startTotal + 60; t <= endTotal; t += 60) {
-      slots.push({ hour: Math.floor(t / 60), minute: t % 60 });
-    }
-    return slots;
-  }, [config.startHour, config.startMinute, config.endHour, config.endMinute]);
-  const isSlotAvailable = (slot: { hour: number; minute: number }) => {
+  // 고객 구역의 시간대 (buildDeliverySlots 전체 목록의 부분집합 → 시간대 현황/정원이 항상 존재)
+  const scheduledSlots = useMemo(
+    () => buildScheduledSlots(rules.startHour, rules.startMinute, rules.endHour, rules.endMinute),
+    [rules.startHour, rules.startMinute, rules.endHour, rules.endMinute]
+  );
+  // 시간대 정원: 서버 현황 기준 남은 자리 (현황에 없는 시간대는 제한 없음)
+  const slotState = (slot: SlotTime): SlotState => {
+    const status = slotStatuses.find(st => isSameSlot(st, slot));
+    if (!status || status.capacity === null || status.capacity <= 0) return { remaining: null };
+    return { remaining: Math.max(0, status.capacity - status.reserved) };
+  };
+  const isSelectedSlotFull = scheduledSlot !== null && slotState(scheduledSlot).remaining === 0;
+  const isSlotAvailable = (slot: SlotTime) => {
     const now = getKstNow();
     const currentMinutes = now.getHours() * 60 + now.getMinutes();
     return slot.hour * 60 + slot.minute - currentMinutes >= 60;
@@ -265,14 +313,15 @@ export default function DeliveryPage() {
     && deliveryHour >= 0
     && !deliverySubmitting
     && !isGeocoding
+    && !feeEstimating
     && deliveryDistanceKm !== null
     && deliveryFee !== null
     && deliveryCoords !== null
     && !deliveryDistanceError
-    && selectedAmount >= config.minAmount
+    && selectedAmount >= rules.minAmount
     && !isAfterDeadline
     && !isBeforeStart
-    && (deliveryType === 'normal' || scheduledSlot !== null);
+    && (deliveryType === 'normal' || (scheduledSlot !== null && !isSelectedSlotFull));
   const isDeliveryTimeAvailable = deliveryEnabled && !isBeforeStart && !isAfterDeadline;
   const submitBlockers = useMemo(() => {
     const reasons: string[] = [];
@@ -284,17 +333,19 @@ export default function DeliveryPage() {
     if (!deliveryCoords || deliveryDistanceKm === null || deliveryFee === null) {
       reasons.push('주소 좌표/배달비 계산이 필요합니다.');
     }
-    if (selectedAmount < config.minAmount) {
-      reasons.push(`최소 주문 금액 ${config.minAmount.toLocaleString()}원 이상이어야 합니다.`);
+    if (selectedAmount < rules.minAmount) {
+      reasons.push(`최소 주문 금액 ${rules.minAmount.toLocaleString()}원 이상이어야 합니다.`);
     }
     if (isBeforeStart || isAfterDeadline) {
-      const startLabel = config.startMinute ? `${config.startHour}시 ${config.startMinute}분` : `${config.startHour}시`;
-      const endLabel = config.endMinute ? `${config.endHour}시 ${config.endMinute}분` : `${config.endHour}시`;
+      const startLabel = rules.startMinute ? `${rules.startHour}시 ${rules.startMinute}분` : `${rules.startHour}시`;
+      const endLabel = rules.endMinute ? `${rules.endHour}시 ${rules.endMinute}분` : `${rules.endHour}시`;
       reasons.push(`배달 주문 가능 시간은 ${startLabel} ~ ${endLabel}입니다.`);
     }
     if (isGeocoding) reasons.push('주소 좌표를 확인 중입니다.');
+    if (feeEstimating) reasons.push('배달비를 계산 중입니다.');
     if (deliverySubmitting) reasons.push('결제 준비 중입니다.');
     if (deliveryType === 'scheduled' && scheduledSlot === null) reasons.push('예약배달 시간을 선택해주세요.');
+    if (deliveryType === 'scheduled' && isSelectedSlotFull) reasons.push('선택한 예약배달 시간은 마감되었습니다. 다른 시간을 선택해주세요.');
     return reasons;
   }, [
     deliveryEnabled,
@@ -307,82 +358,41 @@ export default function DeliveryPage() {
     deliveryDistanceKm,
     deliveryFee,
     selectedAmount,
-    config.minAmount,
+    rules.minAmount,
     isBeforeStart,
     isAfterDeadline,
-    config.startHour,
-    config.startMinute,
-    config.endHour,
-    config.endMinute,
+    rules.startHour,
+    rules.startMinute,
+    rules.endHour,
+    rules.endMinute,
     isGeocoding,
+    feeEstimating,
     deliverySubmitting,
+    deliveryType,
+    scheduledSlot,
+    isSelectedSlotFull,
   ]);
 
-  const ensureKakaoMapsLoaded = () =>
-    new Promise<void>((resolve, reject) => {
-      const waitForServices = () => {
-        const start = Date.now();
-        const timer = setInterval(() => {
-          const ready = (window as any)?.kakao?.maps?.services;
-          if (ready) {
-            clearInterval(timer);
-            resolve();
-            return;
-          }
-          if (Date.now() - start > 15000) {
-            clearInterval(timer);
-            reject(new Error('Kakao maps load timeout'));
-          }
-        }, 50);
-      };
-
-      const kakao = (window as any)?.kakao;
-      if (kakao?.maps?.services) {
-        resolve();
-        return;
-      }
-      const appKey = process.env.REACT_APP_JS_KAKAO_KEY;
-      if (!appKey) {
-        reject(new Error('Kakao app key missing'));
-        return;
-      }
-      const existing = document.querySelector('script[data-kakao-maps]');
-      if (existing) {
-        if ((window as any)?.kakao?.maps?.load) {
-          (window as any).kakao.maps.load(() => {
-            waitForServices();
-          });
-        } else {
-          waitForServices();
-        }
-        return;
-      }
-      const script = document.createElement('script');
-      script.src = `https://dapi.kakao.com/v2/maps/sdk.js?appkey=${appKey}&libraries=services&autoload=false`;
-      script.async = true;
-      script.defer = true;
-      script.setAttribute('data-kakao-maps', 'true');
-      script.onload = () => {
-        const loader = (window as any)?.kakao?.maps?.load;
-        if (loader) {
-          loader(() => waitForServices());
-        } else {
-          waitForServices();
-        }
-      };
-      script.onerror = () => reject(new Error('Kakao maps load failed'));
-      document.head.appendChild(script);
-    });
+  // 배달비는 좌표가 정해지면 아래 effect에서 주문 금액/예약 시각과 함께 계산
+  const applyCoords = (lat: number, lng: number) => {
+    setDeliveryCoords({ lat, lng });
+    setDeliveryInfo(prev => ({ ...prev, latitude: lat, longitude: lng }));
+    if (zoneMode && !findDeliveryZone(config.zones, { lat, lng })) {
+      setDeliveryDistanceError('배달 가능 구역이 아닙니다.');
+      show('배달 가능 구역이 아닌 주소입니다.', { variant: 'error' });
+    }
+  };
 
   const estimateDeliveryFee = async (address: string) => {
     if (!address) return;
     setDeliveryDistanceError(null);
     setDeliveryDistanceKm(null);
     setDeliveryFee(null);
+    setFeeBreakdown([]);
     setDeliveryCoords(null);
     try {
       setIsGeocoding(true);
-      await ensureKakaoMapsLoaded();
+      await ensureKakaoMaps();
       const kakao = (window as any)?.kakao;
       if (!kakao?.maps?.services) {
         setDeliveryDistanceError('카카오맵 로드에 실패했습니다. 관리자에게 문의해주세요.');
@@ -391,20 +401,9 @@ export default function DeliveryPage() {
       }
       const geocoder = new kakao.maps.services.Geocoder();
       await new Promise<void>(resolve => {
-        geocoder.addressSearch(address, async (result: any, status: any) => {
+        geocoder.addressSearch(address, (result: any, status: any) => {
           if (status === kakao.maps.services.Status.OK && result?.[0]) {
-            const lat = Number(result[0].y);
-            const lng = Number(result[0].x);
-            setDeliveryCoords({ lat, lng });
-            setDeliveryInfo(prev => ({ ...prev, latitude: lat, longitude: lng }));
-            const estimate = await getDeliveryFeeEstimate(lat, lng);
-            if (!estimate) {
-              setDeliveryDistanceError('배달비 계산에 실패했습니다.');
-              resolve();
-              return;
-            }
-            setDeliveryDistanceKm(estimate.distanceKm);
-            setDeliveryFee(estimate.deliveryFee);
+            applyCoords(Number(result[0].y), Number(result[0].x));
             resolve();
             return;
           }
@@ -422,6 +421,58 @@ export default function DeliveryPage() {
     }
   };
 
+  // 예약배달 시간대 정원 현황 (예약배달 선택 시, 정원 초과로 결제 준비가 거절되면 다시 조회)
+  useEffect(() => {
+    if (deliveryType !== 'scheduled' || !today || USE_MOCKS) return;
+    let alive = true;
+    (async () => {
+      try {
+        const statuses = await getScheduledSlotStatus(today);
+        if (alive) setSlotStatuses(statuses);
+      } catch (e) {
+        safeErrorLog(e, 'DeliveryPage - getScheduledSlotStatus');
+      }
+    })();
+    return () => { alive = false; };
+  }, [deliveryType, today, slotStatusVersion]);
+
+  // 배달비: 주문 금액(무료배달/할인)과 예약배달 시각(할증)에 따라 달라지므로 바뀔 때마다 다시 계산
+  const feeScheduledSlot = deliveryType === 'scheduled' ? scheduledSlot : null;
+  useEffect(() => {
+    if (!deliveryCoords || (zoneMode && !deliveryZone)) return;
+    let alive = true;
+    (async () => {
+      try {
+        setFeeEstimating(true);
+        const estimate = await getDeliveryFeeEstimate(deliveryCoords.lat, deliveryCoords.lng, {
+          amount: selectedAmount,
+          scheduledDeliveryHour: feeScheduledSlot?.hour ?? null,
+          scheduledDeliveryMinute: feeScheduledSlot?.minute ?? null,
+        });
+        if (!alive) return;
+        if (!estimate) {
+          setDeliveryDistanceError('배달비 계산에 실패했습니다.');
+          setDeliveryFee(null);
+          return;
+        }
+        setDeliveryDistanceError(null);
+        setDeliveryDistanceKm(estimate.distanceKm);
+        setDeliveryFee(estimate.deliveryFee);
+        setFeeBreakdown(estimate.breakdown);
+      } catch (e) {
+        if (!alive) return;
+        safeErrorLog(e, 'DeliveryPage - getDeliveryFeeEstimate');
+        setDeliveryDistanceError(getSafeErrorMessage(e, '배달비 계산에 실패했습니다.'));
+        setDeliveryDistanceKm(null);
+        setDeliveryFee(null);
+        setFeeBreakdown([]);
+      } finally {
+        if (alive) setFeeEstimating(false);
+      }
+    })();
+    return () => { alive = false; };
+  }, [deliveryCoords, zoneMode, deliveryZone, selectedAmount, feeScheduledSlot]);
+
   const openPostcode = () => {
     const kakaoPostcode = (window as any)?.kakao?.Postcode;
     if (!kakaoPostcode) {
@@ -433,6 +484,8 @@ export default function DeliveryPage() {
         const roadAddr = data.roadAddress || data.address || '';
         const postalCode = data.zonecode || '';
         const buildingName = data.buildingName || '';
+        // 새로 검색한 주소는 주소록의 새 주소로 취급
+        setSelectedAddressId(null);
         setDeliveryInfo(prev => ({
           ...prev,
           postalCode,
@@ -475,47 +528,31 @@ export default function DeliveryPage() {
           setOrders([]);
           return;
         }
-        const res = await getReservations(today, today);
-        if (!res.ok) {
-          if (res.status === 401 || res.status === 403) return;
-          throw new Error('배달 예약 목록을 불러오지 못했습니다.');
-        }
-        const data = await res.json();
-        const list = data && typeof data === 'object' && Array.isArray(data.response) ? data.response : data;
-        if (!Array.isArray(list)) throw new Error('배달 데이터가 배열 형태가 아닙니다.');
-
-        const eligible = list.filter((r: any) => {
-          const rawStatus = String(r.status ?? '').toUpperCase();
-          const isPending = rawStatus === 'PENDING';
-          const deliveryStatus = String(r.delivery?.status ?? r.delivery_status ?? r.deliveryStatus ?? '').toUpperCase();
+        const reservations = await getReservations(today, today);
+
+        const eligible = reservations.filter(r => {
+          const deliveryStatus = (r.delivery?.status ?? '').toUpperCase();
           const canReorderDelivery = !deliveryStatus || deliveryStatus === 'CANCELED' || deliveryStatus === 'FAILED';
-          return isPending && canReorderDelivery && String(r.order_date || '') === today;
-        }).map((r: any) => {
-          const qty = Math.max(1, Number(r.quantity ?? 1));
-          const amt = Number(r.amount ?? 0);
-          const unit = qty > 0 ? amt / qty : amt;
-          const deliveryAvailable = typeof r.delivery_available === 'boolean'
-            ? Boolean(r.delivery_available)
-            : (typeof r.deliveryAvailable === 'boolean' ? Boolean(r.deliveryAvailable) : true);
-          return {
+          return r.status === 'pending' && canReorderDelivery && r.orderDate === today;
+        }).map(r => ({
+          id: r.id,
+          displayCode: r.displayCode,
+          date: r.orderDate,
+          status: 'pending' as const,
+          items: [{
             id: r.id,
-            displayCode: String(r.display_code ?? r.displayCode ?? r.id),
-            date: r.order_date,
-            status: 'pending' as const,
-            items: [{
-              id: r.id,
-              name: r.product_name,
-              quantity: qty,
-              price: unit,
-            }],
-            deliveryAvailable,
-          };
-        });
+            name: r.productName,
+            quantity: r.quantity,
+            price: r.amount / r.quantity,
+          }],
+          deliveryAvailable: r.deliveryAvailable,
+        }));
 
         if (alive) {
           setOrders(eligible);
         }
       } catch (e: any) {
+        if (e instanceof ApiError && (e.status === 401 || e.status === 403)) return;
         safeErrorLog(e, 'DeliveryPage - loadOrders');
         show(getSafeErrorMessage(e, '배달 예약을 불러오는 중 오류가 발생했습니다.'), { variant: 'error' });
       } finally {
@@ -530,8 +567,23 @@ export default function DeliveryPage() {
     (async () => {
       if (USE_MOCKS) return;
       try {
-        const info = await getDeliveryInfo();
-        if (!alive || !info) return;
+        const [info, book] = await Promise.all([
+          getDeliveryInfo(),
+          getDeliveryAddresses().catch(e => {
+            safeErrorLog(e, 'DeliveryPage - getDeliveryAddresses');
+            return [] as DeliveryAddress[];
+          }),
+        ]);
+        if (!alive) return;
+        setAddresses(book);
+        if (info) setDeliveryInfo(prev => ({ ...prev, phone: info.phone || '' }));
+        const preferred = book.find(address => address.isDefault) ?? book[0];
+        if (preferred) {
+          applyAddress(preferred);
+          return;
+        }
+        // 주소록이 비어 있으면 이전에 저장된 배달 정보 주소를 새 주소로 채움 (주문 시 주소록에 저장)
+        if (!info) return;
         setDeliveryInfo({
           phone: info.phone || '',
           postalCode: info.postalCode || '',
@@ -541,12 +593,7 @@ export default function DeliveryPage() {
           longitude: info.longitude,
         });
         if (info.latitude != null && info.longitude != null) {
-          setDeliveryCoords({ lat: info.latitude, lng: info.longitude });
-          const estimate = await getDeliveryFeeEstimate(info.latitude, info.longitude);
-          if (estimate) {
-            setDeliveryDistanceKm(estimate.distanceKm);
-            setDeliveryFee(estimate.deliveryFee);
-          }
+          applyCoords(info.latitude, info.longitude);
         } else if (info.address1) {
           await estimateDeliveryFee(info.address1);
         }
@@ -572,6 +619,91 @@ export default function DeliveryPage() {
     return () => { alive = false; };
   }, []);
 
+  const selectedAddress = addresses.find(address => address.id === selectedAddressId) ?? null;
+
+  // 저장된 좌표가 있으면 지오코딩 없이 바로 사용 (마지막 배달비를 먼저 보여주고 effect에서 다시 계산)
+  const applyAddress = (address: DeliveryAddress) => {
+    setSelectedAddressId(address.id);
+    setDeliveryInfo(prev => ({
+      ...prev,
+      postalCode: address.postalCode,
+      address1: address.address1,
+      address2: address.address2,
+      latitude: address.latitude ?? undefined,
+      longitude: address.longitude ?? undefined,
+    }));
+    setDeliveryDistanceError(null);
+    setFeeBreakdown([]);
+    if (address.latitude !== null && address.longitude !== null) {
+      setDeliveryDistanceKm(address.distanceKm);
+      setDeliveryFee(address.deliveryFee);
+      applyCoords(address.latitude, address.longitude);
+    } else {
+      estimateDeliveryFee(address.address1);
+    }
+  };
+
+  const startNewAddress = () => {
+    setSelectedAddressId(null);
+    setNewAddressLabel('');
+    setDeliveryInfo(prev => ({ ...prev, postalCode: '', address1: '', address2: '', latitude: undefined, longitude: undefined }));
+    setDeliveryCoords(null);
+    setDeliveryDistanceKm(null);
+    setDeliveryDistanceError(null);
+    setDeliveryFee(null);
+    setFeeBreakdown([]);
+  };
+
+  const handleSetDefaultAddress = async (address: DeliveryAddress) => {
+    try {
+      setAddresses(await updateDeliveryAddress(address.id, { isDefault: true }));
+      show(`'${address.label}'을(를) 기본 주소로 설정했습니다.`);
+    } catch (e) {
+      safeErrorLog(e, 'DeliveryPage - setDefaultAddress');
+      show(getSafeErrorMessage(e, '기본 주소 설정에 실패했습니다.'), { variant: 'error' });
+    }
+  };
+
+  const handleDeleteAddress = async (address: DeliveryAddress) => {
+    if (!window.confirm(`'${address.label}' 주소를 주소록에서 삭제하시겠습니까?`)) return;
+    try {
+      setAddresses(await deleteDeliveryAddress(address.id));
+      // 입력된 주소는 그대로 두고 새 주소로 전환
+      if (selectedAddressId === address.id) setSelectedAddressId(null);
+    } catch (e) {
+      safeErrorLog(e, 'DeliveryPage - deleteAddress');
+      show(getSafeErrorMessage(e, '주소 삭제에 실패했습니다.'), { variant: 'error' });
+    }
+  };
+
+  // 주문한 주소를 주소록에 반영 (선택한 주소는 최신 상세주소/거리/배달비로 갱신, 새 주소는 추가)
+  const syncAddressBook = async (coords: { lat: number; lng: number }) => {
+    const snapshot = {
+      postalCode: deliveryInfo.postalCode,
+      address1: deliveryInfo.address1,
+      address2: deliveryInfo.address2 || '',
+      latitude: coords.lat,
+      longitude: coords.lng,
+      distanceKm: deliveryDistanceKm,
+      deliveryFee,
+    };
+    try {
+      if (selectedAddressId !== null) {
+        setAddresses(await updateDeliveryAddress(selectedAddressId, snapshot));
+        return;
+      }
+      if (!saveNewAddress) return;
+      const book = await createDeliveryAddress({ ...snapshot, label: newAddressLabel.trim(), isDefault: addresses.length === 0 });
+      setAddresses(book);
+      // 결제 준비가 실패해 다시 주문해도 중복 저장되지 않도록 새로 생긴 주소를 선택
+      const created = book.find(address => !addresses.some(prev => prev.id === address.id));
+      if (created) setSelectedAddressId(created.id);
+    } catch (e) {
+      // 주소록 저장 실패는 주문을 막지 않음
+      safeErrorLog(e, 'DeliveryPage - syncAddressBook');
+    }
+  };
+
   const toggleSelection = (order: DeliveryOrderRow) => {
     if (!order.deliveryAvailable) {
       show('배달 불가 상품입니다.', { variant: 'info' });
@@ -592,13 +724,13 @@ export default function DeliveryPage() {
     const now = getKstNow();
     const currentHour = now.getHours();
     const currentMinute = now.getMinutes();
-    const tooEarly = currentHour < config.startHour
-      || (currentHour === config.startHour && currentMinute < config.startMinute);
-    const tooLate = currentHour > config.endHour
-      || (currentHour === config.endHour && currentMinute > config.endMinute);
+    const tooEarly = currentHour < rules.startHour
+      || (currentHour === rules.startHour && currentMinute < rules.startMinute);
+    const tooLate = currentHour > rules.endHour
+      || (currentHour === rules.endHour && currentMinute > rules.endMinute);
     if (tooEarly || tooLate) {
-      const startLabel = config.startMinute ? `${config.startHour}시 ${config.startMinute}분` : `${config.startHour}시`;
-      const endLabel = config.endMinute ? `${config.endHour}시 ${config.endMinute}분` : `${config.endHour}시`;
+      const startLabel = rules.startMinute ? `${rules.startHour}시 ${rules.startMinute}분` : `${rules.startHour}시`;
+      const endLabel = rules.endMinute ? `${rules.endHour}시 ${rules.endMinute}분` : `${rules.endHour}시`;
       show(`배달 주문 가능 시간은 ${startLabel} ~ ${endLabel}입니다.`, { variant: 'error' });
       return;
     }
@@ -614,8 +746,8 @@ export default function DeliveryPage() {
       show('주소 좌표를 확인해주세요.', { variant: 'error' });
       return;
     }
-    if (selectedAmount < config.minAmount) {
-      show(`배달 주문은 ${config.minAmount.toLocaleString()}원 이상부터 가능합니다.`, { variant: 'error' });
+    if (selectedAmount < rules.minAmount) {
+      show(`배달 주문은 ${rules.minAmount.toLocaleString()}원 이상부터 가능합니다.`, { variant: 'error' });
       return;
     }
 
@@ -623,41 +755,49 @@ export default function DeliveryPage() {
     try {
       if (!USE_MOCKS) {
         await saveDeliveryInfo(deliveryInfo);
+        await syncAddressBook(deliveryCoords);
         setDeliveryHour(currentHour);
         const idempotencyKey = idempotencyKeyRef.current ?? buildIdempotencyKey();
         idempotencyKeyRef.current = idempotencyKey;
-        const res = await createDeliveryPaymentReady({
-          reservationCodes: selectedOrders.map(o => o.displayCode),
-          deliveryHour: currentHour,
-          deliveryMinute: currentMinute,
-          phone: deliveryInfo.phone,
-          postalCode: deliveryInfo.postalCode,
-          address1: deliveryInfo.address1,
-          address2: deliveryInfo.address2 || '',
-          latitude: deliveryCoords.lat,
-          longitude: deliveryCoords.lng,
-          scheduledDeliveryHour: deliveryType === 'scheduled' ? scheduledSlot?.hour ?? null : null,
-          scheduledDeliveryMinute: deliveryType === 'scheduled' ? scheduledSlot?.minute ?? null : null,
-          idempotencyKey,
-        });
-        if (!res.ok) {
-          if (res.status === 400) {
-            const data = await res.json().catch(() => ({}));
-            show(data.message || '배달 주문이 불가능합니다.', { variant: 'error' });
+        let data: PaymentReady;
+        try {
+          data = await createDeliveryPaymentReady({
+            reservationCodes: selectedOrders.map(o => o.displayCode),
+            deliveryHour: currentHour,
+            deliveryMinute: currentMinute,
+            phone: deliveryInfo.phone,
+            postalCode: deliveryInfo.postalCode,
+            address1: deliveryInfo.address1,
+            address2: deliveryInfo.address2 || '',
+            latitude: deliveryCoords.lat,
+            longitude: deliveryCoords.lng,
+            scheduledDeliveryHour: deliveryType === 'scheduled' ? scheduledSlot?.hour ?? null : null,
+            scheduledDeliveryMinute: deliveryType === 'scheduled' ? scheduledSlot?.minute ?? null : null,
+            idempotencyKey,
+          });
+        } catch (e) {
+          if (e instanceof ApiError && e.status === 409) {
+            // 결제 준비 중 다른 고객이 마지막 자리를 가져감
+            show(e.serverMessage || '선택한 예약배달 시간이 마감되었습니다. 다른 시간을 선택해주세요.', { variant: 'error' });
+            setSlotStatusVersion(v => v + 1);
             return;
           }
-          throw new Error('배달 결제 준비 실패');
+          if (e instanceof ApiError && e.status === 400) {
+            show(e.serverMessage || '배달 주문이 불가능합니다.', { variant: 'error' });
+            return;
+          }
+          throw e;
         }
-        const data = await res.json();
-        const orderCode = data.orderCode || data.order_code || data.orderId || data.order_id;
-        if (orderCode) localStorage.setItem('pendingDeliveryOrderCode', String(orderCode));
+        if (data.orderCode) localStorage.setItem('pendingDeliveryOrderCode', data.orderCode);
         const isMobile = /Android|iPhone|iPad|iPod/i.test(navigator.userAgent);
-        const mobileUrl = data.mobileRedirectUrl || data.mobile_redirect_url;
-        const pcUrl = data.redirectUrl || data.redirect_url;
+        const mobileUrl = data.mobileRedirectUrl;
+        const pcUrl = data.redirectUrl;
 
         const isAllowedPaymentUrl = (url: string): boolean => {
           try {
-            const { hostname } = new URL(url);
+            const { hostname, origin } = new URL(url);
+            // 모의 서버는 결제창 대신 같은 출처의 승인 페이지로 이동
+            if (USE_MOCK_SERVER && origin === window.location.origin) return true;
             return hostname === 'online-pay.kakao.com' || hostname === 'online-payment.kakaopay.com' || hostname === 'mockup-pg-web.kakao.com';
           } catch {
             return false;
@@ -711,7 +851,7 @@ export default function DeliveryPage() {
           <span>오늘({today || '오늘'}) 수령 상품만 배달 가능합니다.</span>
         </div>
         <div className={`mt-2 text-xs ${isDeliveryTimeAvailable ? 'text-emerald-700' : 'text-red-600'}`}>
-          배달 주문 가능 시간은 {config.startMinute ? `${config.startHour}시 ${config.startMinute}분` : `${config.startHour}시`} ~ {config.endMinute ? `${config.endHour}시 ${config.endMinute}분` : `${config.endHour}시`}입니다.
+          배달 주문 가능 시간은 {rules.startMinute ? `${rules.startHour}시 ${rules.startMinute}분` : `${rules.startHour}시`} ~ {rules.endMinute ? `${rules.endHour}시 ${rules.endMinute}분` : `${rules.endHour}시`}입니다.
         </div>
       </section>
 
@@ -747,6 +887,73 @@ export default function DeliveryPage() {
             />
           </div>
         </div>
+        {!USE_MOCKS && (
+          <div className="mt-3">
+            <label className="text-xs text-gray-500">주소록</label>
+            <div className="mt-1 flex flex-wrap gap-2">
+              {addresses.map(address => (
+                <button
+                  key={address.id}
+                  type="button"
+                  onClick={() => applyAddress(address)}
+                  className={`h-9 px-3 rounded-full border text-sm ${
+                    address.id === selectedAddressId
+                      ? 'border-green-600 bg-green-50 text-green-800 font-semibold'
+                      : 'bg-white text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {address.label}
+                  {address.isDefault && <span className="ml-1 text-[10px] text-green-700">기본</span>}
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={startNewAddress}
+                className={`h-9 px-3 rounded-full border text-sm ${
+                  selectedAddressId === null ? 'border-green-600 bg-green-50 text-green-800 font-semibold' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                + 새 주소
+              </button>
+            </div>
+            {selectedAddress ? (
+              <div className="mt-1 flex items-center justify-between gap-2 text-xs text-gray-500">
+                <span>
+                  {selectedAddress.deliveryFee !== null
+                    ? `지난 배달비 ${selectedAddress.deliveryFee.toLocaleString()}원`
+                    : '배달비 기록 없음'}
+                  {selectedAddress.distanceKm !== null && ` · ${selectedAddress.distanceKm.toFixed(2)}km`}
+                </span>
+                <span className="flex gap-2">
+                  {!selectedAddress.isDefault && (
+                    <button type="button" className="underline" onClick={() => handleSetDefaultAddress(selectedAddress)}>
+                      기본 주소로
+                    </button>
+                  )}
+                  <button type="button" className="underline text-rose-600" onClick={() => handleDeleteAddress(selectedAddress)}>
+                    삭제
+                  </button>
+                </span>
+              </div>
+            ) : (
+              <div className="mt-2 flex items-center gap-2">
+                <input
+                  type="text"
+                  value={newAddressLabel}
+                  onChange={e => setNewAddressLabel(e.target.value)}
+                  className="h-9 flex-1 border rounded px-2 text-sm"
+                  placeholder="주소 이름 (예: 집, 회사)"
+                  maxLength={20}
+                  disabled={!saveNewAddress}
+                />
+                <label className="flex items-center gap-1 text-xs text-gray-600 whitespace-nowrap">
+                  <input type="checkbox" checked={saveNewAddress} onChange={e => setSaveNewAddress(e.target.checked)} />
+                  주문 시 주소록에 저장
+                </label>
+              </div>
+            )}
+          </div>
+        )}
         <div className="mt-3">
           <label className="text-xs text-gray-500">주소</label>
           <div className="mt-1 flex gap-2">
@@ -782,8 +989,22 @@ export default function DeliveryPage() {
         </div>
         <div className="mt-3 text-xs text-gray-500 space-y-1">
           <div>배달비 {appliedFee === null ? '배달 불가' : `${appliedFee.toLocaleString()}원`}</div>
-          <div>요금 기준: {config.feeDistanceKm}km까지 {config.feeNear.toLocaleString()}원 · 이후 100m당 {config.feePer100m.toLocaleString()}원 추가</div>
-          <div>배달 가능 거리: {config.maxDistanceKm}km 이내</div>
+          {zoneMode ? (
+            <>
+              <div>배달 가능 구역: {config.zones.map(zone => zone.name).join(', ')}</div>
+              {deliveryZone && (
+                <div>
+                  배달 구역: {deliveryZone.name} · 배달비 {deliveryZone.fee.toLocaleString()}원 · 최소 주문 {deliveryZone.minAmount.toLocaleString()}원 · {formatHm(deliveryZone.startHour, deliveryZone.startMinute)}~{formatHm(deliveryZone.endHour, deliveryZone.endMinute)}
+                </div>
+              )}
+            </>
+          ) : (
+            <div>배달 가능 거리: {config.maxDistanceKm}km 이내</div>
+          )}
+          {/* 구역 모드에서는 거리 요금 대신 구역 배달비 */}
+          {describeFeeRules(config, today).slice(zoneMode ? 1 : 0).map(text => (
+            <div key={text}>{text}</div>
+          ))}
           {isGeocoding && (
             <div className="text-xs text-blue-600">주소 좌표를 확인 중입니다...</div>
           )}
@@ -816,7 +1037,7 @@ export default function DeliveryPage() {
               setDeliveryType('scheduled');
               const availableSlots = scheduledSlots.filter(isSlotAvailable);
               if (availableSlots.length > 0 && !scheduledSlot) {
-                setScheduledSlot(availableSlots[0]);
+                setScheduledSlot(availableSlots.find(slot => slotState(slot).remaining !== 0) ?? availableSlots[0]);
               }
             }}
             disabled={isAfterScheduledCutoff}
@@ -836,8 +1057,12 @@ export default function DeliveryPage() {
             slots={scheduledSlots.filter(isSlotAvailable)}
             selectedSlot={scheduledSlot}
             onSelectSlot={setScheduledSlot}
+            slotState={slotState}
           />
         )}
+        {deliveryType === 'scheduled' && isSelectedSlotFull && (
+          <div className="text-xs text-red-600 mt-2">선택한 시간은 마감되었습니다. 다른 시간을 선택해주세요.</div>
+        )}
 
         {isAfterScheduledCutoff && (
           <div className="text-xs text-red-600 mt-2">
@@ -898,6 +1123,18 @@ export default function DeliveryPage() {
             <span>배달비</span>
             <span>{appliedFee === null ? '배달 불가' : KRW(appliedFee)}</span>
           </div>
+          {appliedFee !== null && feeBreakdown.length > 0 && (
+            <div className="pl-3 space-y-0.5 text-xs text-gray-500">
+              {feeBreakdown.map((line, i) => (
+                <div key={i} className="flex items-center justify-between">
+                  <span>· {line.label}</span>
+                  <span className={line.amount < 0 ? 'text-rose-600' : ''}>
+                    {line.amount < 0 ? `-${KRW(-line.amount)}` : KRW(line.amount)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
           <div className="flex items-center justify-between font-semibold text-gray-900">
             <span>총 결제 금액</span>
             <span>
@@ -907,12 +1144,14 @@ export default function DeliveryPage() {
               })()}
             </span>
           </div>
-          {selectedAmount < config.minAmount && (
+          {selectedAmount < rules.minAmount && (
             <div className="text-xs text-red-600">
-              최소 주문 금액 {config.minAmount.toLocaleString()}원 이상부터 배달 가능합니다.
+              최소 주문 금액 {rules.minAmount.toLocaleString()}원 이상부터 배달 가능합니다.
             </div>
           )}
-          <div className="text-xs text-red-600">배달 가능 거리({config.maxDistanceKm}km) 내라도, 강이나 행정구역 경계를 넘어가는 경우 배달이 취소될 수 있습니다.</div>
+          {!zoneMode && (
+            <div className="text-xs text-red-600">배달 가능 거리({config.maxDistanceKm}km) 내라도, 강이나 행정구역 경계를 넘어가는 경우 배달이 취소될 수 있습니다.</div>
+          )}
         </div>
         <div className="mt-4">
           <button
@@ -4,8 +4,18 @@ import { useSnackbar } from '../../components/snackbar';
 import { USE_MOCKS } from '../../config';
 import { safeErrorLog, getSafeErrorMessage } from '../../utils/environment';
 import { listOrders, type OrderRow } from '../../mocks/orders';
-import { getReservations, cancelReservation, minusQuantity, getServerTime, getDeliveryConfig } from '../../utils/api';
+import { getReservations, cancelReservation, minusQuantity, getServerTime, getDeliveryConfig, type DeliveryTrackingEvent, type Reservation } from '../../utils/api';
+import { ApiError } from '../../utils/apiError';
 import BottomNav from '../../components/BottomNav';
+import DeliveryTrackingTimeline from '../../components/DeliveryTrackingTimeline';
+import { useDeliveryTracking } from '../../hooks/useDeliveryTracking';
+import QrCode from '../../components/QrCode';
+import SearchHighlight from '../../components/SearchHighlight';
+import { encodePickupPayload } from '../../utils/pickupQr';
+import { matchesSearch, rankBySearch } from '../../utils/koreanSearch';
+import { buildIcs, downloadIcs, type CalendarEvent } from '../../utils/calendarExport';
+import { kstDateTime } from '../../utils/kstDate';
+import { theme } from '../../brand';
 
 const KRW = (price: number) =>
   price.toLocaleString('ko-KR', { style: 'currency', currency: 'KRW' });
@@ -18,6 +28,77 @@ const shortCode = (code?: string) => {
   return code;
 };
 
+// 예약 목록 → 주문 행 (예약 1건 = 상품 1종)
+const toOrderRows = (reservations: Reservation[]): OrderRow[] =>
+  reservations.map(r => ({
+    id: r.id,
+    displayCode: r.displayCode,
+    date: r.orderDate,
+    status: r.status,
+    items: [{
+      id: r.id,
+      name: r.productName,
+      quantity: r.quantity,
+      price: r.amount / r.quantity,
+      imageUrl: r.productImageUrl,
+      productId: r.productId,
+    }],
+    deliveryOrderCode: r.delivery?.displayCode,
+    delivery: r.delivery,
+  }));
+
+// 캘린더 일정: 매장 수령(수령일별 1건, 수령 마감 전 1시간) + 시간 지정 배달
+const toCalendarEvents = (rows: OrderRow[]): CalendarEvent[] => {
+  const deadline: string = theme.config.pickupDeadline;
+  const events: CalendarEvent[] = [];
+
+  const pickupsByDate = new Map<string, OrderRow[]>();
+  rows.filter(o => o.status === 'pending' && !o.deliveryOrderCode).forEach(o => {
+    pickupsByDate.set(o.date, [...(pickupsByDate.get(o.date) ?? []), o]);
+  });
+  pickupsByDate.forEach((list, date) => {
+    const end = kstDateTime(date, deadline);
+    events.push({
+      uid: `pickup-${date}@${theme.name}`,
+      title: `${theme.displayName} 상품 수령 (${deadline}까지)`,
+      start: new Date(end.getTime() - 60 * 60 * 1000),
+      end,
+      description: [
+        ...list.flatMap(o => o.items.map(it => `${it.name} x${it.quantity} (#${shortCode(o.displayCode)})`)),
+        '',
+        `${deadline}까지 미수령 시 노쇼 경고가 등록됩니다.`,
+      ].join('\n'),
+      location: theme.contact.address,
+      alarmMinutesBefore: 60,
+    });
+  });
+
+  const deliveries = new Map<string, OrderRow[]>();
+  rows.filter(o => o.deliveryOrderCode && o.delivery?.scheduledDeliveryHour != null).forEach(o => {
+    const status = String(o.delivery?.status ?? '').toUpperCase();
+    if (status !== 'PAID' && status !== 'OUT_FOR_DELIVERY') return;
+    deliveries.set(o.deliveryOrderCode!, [...(deliveries.get(o.deliveryOrderCode!) ?? []), o]);
+  });
+  deliveries.forEach((list, code) => {
+    const { scheduledDeliveryHour, scheduledDeliveryMinute } = list[0].delivery!;
+    const start = kstDateTime(list[0].date, `${String(scheduledDeliveryHour).padStart(2, '0')}:${String(scheduledDeliveryMinute ?? 0).padStart(2, '0')}`);
+    events.push({
+      uid: `delivery-${code}@${theme.name}`,
+      title: `${theme.displayName} 배달 도착 예정`,
+      start,
+      end: new Date(start.getTime() + 30 * 60 * 1000),
+      description: [
+        ...list.flatMap(o => o.items.map(it => `${it.name} x${it.quantity}`)),
+        '',
+        `배달 주문 #${shortCode(code)}`,
+      ].join('\n'),
+      alarmMinutesBefore: 30,
+    });
+  });
+
+  return events.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
 export default function OrdersPage() {
   const nav = useNavigate();
   const [searchParams] = useSearchParams();
@@ -77,7 +158,11 @@ export default function OrdersPage() {
     groupKey: '',
   });
 
+  // 매장 수령 QR dialog (예약 1건 또는 수령일 전체)
+  const [pickupQr, setPickupQr] = useState<{ isOpen: boolean; orders: OrderRow[] }>({ isOpen: false, orders: [] });
+
   const [serverTimeOffsetMs, setServerTimeOffsetMs] = useState(0);
+  const [exportingCalendar, setExportingCalendar] = useState(false);
   const [deliveryEnabled, setDeliveryEnabled] = useState(true);
 
   useEffect(() => {
@@ -128,100 +213,10 @@ export default function OrdersPage() {
         } else {
           try {
             // 선택된 필터 날짜 범위로 요청
-            const res = await getReservations(from, from);
-            if (!res.ok) {
-              // 401, 403 에러는 통합 에러 처리로 위임
-              if (res.status === 401 || res.status === 403) {
-                return; // userFetch에서 이미 처리됨
-              }
-              throw new Error('주문 목록을 불러오지 못했습니다.');
-            }
-            const data = await res.json();
-
-
-            // ReservationListResponse 구조에서 response 필드 추출
-            let reservationsArray = data;
-            if (data && typeof data === 'object' && data.response && Array.isArray(data.response)) {
-              reservationsArray = data.response;
-            }
-
-            if (!Array.isArray(reservationsArray)) {
-              throw new Error('주문 데이터가 배열 형태가 아닙니다.');
-            }
-
-            // ReservationResponse를 OrderRow status로 변환
-            const orderRows = reservationsArray.map((r: any) => {
-              // ReservationStatus를 OrderRow status로 매핑
-              // NO_SHOW는 CANCELED로 취급
-              let orderStatus: 'pending' | 'picked' | 'canceled' | 'no_show';
-              const rawStatus = String(r.status ?? '').toUpperCase();
-              switch (rawStatus) {
-                case 'PENDING':
-                  orderStatus = 'pending';
-                  break;
-                case 'PICKED':
-                case 'COMPLETED':
-                  orderStatus = 'picked';
-                  break;
-                case 'SELF_PICK':
-                case 'SELF_PICKED':
-                case 'SELF_PICK_READY':
-                  orderStatus = 'pending';
-                  break;
-                case 'NO_SHOW':
-                  orderStatus = 'no_show';
-                  break;
-                case 'CANCELED':
-                case 'CANCELLED':
-                  orderStatus = 'canceled';
-                  break;
-                default:
-                  const lowerStatus = r.status?.toLowerCase();
-                  if (lowerStatus === 'pending') orderStatus = 'pending';
-                  else if (lowerStatus === 'picked' || lowerStatus === 'completed') orderStatus = 'picked';
-                  else if (lowerStatus === 'self_pick' || lowerStatus === 'self_picked' || lowerStatus === 'self_pick_ready') orderStatus = 'pending';
-                  else if (lowerStatus === 'no_show') orderStatus = 'no_show';
-                  else if (lowerStatus === 'canceled' || lowerStatus === 'cancelled') orderStatus = 'canceled';
-                  else orderStatus = 'pending';
-              }
-
-              const qty = Math.max(1, Number(r.quantity ?? 1));
-              const amt = Number(r.amount ?? 0);
-              const unit = qty > 0 ? amt / qty : amt;
-              const delivery = r.delivery
-                ? {
-                  status: r.delivery.status ?? r.delivery_status ?? r.deliveryStatus,
-                  displayCode: String(r.delivery.display_code ?? r.delivery.displayCode ?? ''),
-                  deliveryHour: Number(r.delivery.delivery_hour ?? r.delivery.deliveryHour ?? r.deliveryHour ?? 0),
-                  deliveryMinute: Number(r.delivery.delivery_minute ?? r.delivery.deliveryMinute ?? r.deliveryMinute ?? 0),
-                  deliveryFee: Number(r.delivery.delivery_fee ?? r.delivery.deliveryFee ?? r.deliveryFee ?? 0),
-                  estimatedMinutes: Number(r.delivery.estimated_minutes ?? r.delivery.estimatedMinutes ?? 0) || undefined,
-                  acceptedAt: (r.delivery.accepted_at ?? r.delivery.acceptedAt) as string | undefined,
-                  scheduledDeliveryHour: r.delivery.scheduled_delivery_hour ?? r.delivery.scheduledDeliveryHour ?? null,
-                  scheduledDeliveryMinute: r.delivery.scheduled_delivery_minute ?? r.delivery.scheduledDeliveryMinute ?? null,
-                }
-                : undefined;
-
-              return {
-                id: r.id,
-                displayCode: String(r.display_code ?? r.displayCode ?? r.id),
-                date: r.order_date, // orderDate -> order_date로 수정
-                status: orderStatus,
-                items: [{
-                  id: r.id,
-                  name: r.product_name,
-                  quantity: qty,
-                  price: unit,
-                  imageUrl: r.product_image ? `${process.env.REACT_APP_IMG_URL}/${r.product_image}` : '',
-                  productId: r.product_id,
-                }],
-                deliveryOrderCode: delivery?.displayCode,
-                delivery,
-              };
-            });
-
-            setOrders(orderRows);
+            setOrders(toOrderRows(await getReservations(from, from)));
           } catch (e: any) {
+            // 401, 403 에러는 userFetch에서 이미 처리됨
+            if (e instanceof ApiError && (e.status === 401 || e.status === 403)) return;
             safeErrorLog(e, 'OrderPage - loadOrders');
             show(getSafeErrorMessage(e, '주문 목록을 불러오는 중 오류가 발생했습니다.'), { variant: 'error' });
           }
@@ -257,11 +252,61 @@ export default function OrdersPage() {
     return () => { alive = false; };
   }, [fromTouched]);
 
+  // 배달 추적: 진행 중인 배달이 있을 때만 실시간 스트림 연결
+  const hasActiveDelivery = useMemo(
+    () => orders.some(o => ['PAID', 'OUT_FOR_DELIVERY'].includes(String(o.delivery?.status ?? '').toUpperCase())),
+    [orders]
+  );
+
+  const applyDeliveryEvent = (event: DeliveryTrackingEvent) => {
+    const target = orders.find(o => o.deliveryOrderCode === event.displayCode);
+    if (!target?.delivery) return;
+    const prevStatus = String(target.delivery.status ?? '').toUpperCase();
+    const nextStatus = event.status.toUpperCase();
+    if (prevStatus !== nextStatus) {
+      if (nextStatus === 'OUT_FOR_DELIVERY') show(`#${shortCode(event.displayCode)} 배달이 출발했습니다.`);
+      if (nextStatus === 'DELIVERED') show(`#${shortCode(event.displayCode)} 배달이 완료되었습니다.`);
+      if (nextStatus === 'CANCELED') show(`#${shortCode(event.displayCode)} 배달이 취소되었습니다.`, { variant: 'error' });
+    } else if (!target.delivery.acceptedAt && event.acceptedAt) {
+      show(`#${shortCode(event.displayCode)} 주문이 접수되었습니다.`);
+    }
+    setOrders(prev => prev.map(o => (o.deliveryOrderCode === event.displayCode && o.delivery
+      ? {
+        ...o,
+        delivery: {
+          ...o.delivery,
+          status: event.status,
+          estimatedMinutes: event.estimatedMinutes ?? undefined,
+          paidAt: event.paidAt ?? undefined,
+          acceptedAt: event.acceptedAt ?? undefined,
+          outForDeliveryAt: event.outForDeliveryAt ?? undefined,
+          deliveredAt: event.deliveredAt ?? undefined,
+        },
+      }
+      : o)));
+  };
+
+  const { connected: trackingLive, resyncVersion } = useDeliveryTracking(!USE_MOCKS && hasActiveDelivery, applyDeliveryEvent);
+
+  // 스트림이 끊겼던 동안의 변경 반영 (로딩 표시 없이 조용히 갱신)
+  useEffect(() => {
+    if (resyncVersion === 0 || USE_MOCKS) return;
+    let alive = true;
+    (async () => {
+      try {
+        const reservations = await getReservations(from, from);
+        if (alive) setOrders(toOrderRows(reservations));
+      } catch (e) {
+        safeErrorLog(e, 'OrderPage - resyncDeliveries');
+      }
+    })();
+    return () => { alive = false; };
+  }, [resyncVersion, from]);
+
   const statusPriority: Record<string, number> = { pending: 0, picked: 1, canceled: 2, no_show: 3 };
 
   const filtered = useMemo(() => {
     const f = from ? new Date(from) : null;
-    const searchQuery = search.trim().toLowerCase();
 
     return orders.filter(o => {
       const d = new Date(o.date);
@@ -272,14 +317,72 @@ export default function OrdersPage() {
       ) : true;
       const s = status === 'all' ? true : o.status === status;
 
-      // 제품명 검색 필터링
-      const matchesSearch = searchQuery === '' ||
-        o.items.some(item => item.name.toLowerCase().includes(searchQuery));
+      // 제품명 검색 필터링 (초성/오타 허용)
+      const hit = o.items.some(item => matchesSearch(item.name, search));
 
-      return sameDay && s && matchesSearch;
+      return sameDay && s && hit;
     }).sort((a, b) => (statusPriority[a.status] ?? 9) - (statusPriority[b.status] ?? 9));
   }, [orders, from, status, search]);
 
+  // 검색 모달 미리보기: 제품명 일치도 순
+  const searchPreview = useMemo(
+    () => rankBySearch(orders, tempSearch, o => o.items.map(item => item.name).join(', ')),
+    [orders, tempSearch]
+  );
+
+  // 선택한 수령일의 매장 수령 대기 예약 (배달 주문 제외)
+  const pickupOrders = useMemo(
+    () => orders.filter(o => o.date === from && o.status === 'pending' && !o.deliveryOrderCode),
+    [orders, from]
+  );
+
+  const openPickupQr = (ordersToShow: OrderRow[]) => {
+    if (ordersToShow.length === 0) return;
+    setPickupQr({ isOpen: true, orders: ordersToShow });
+  };
+
+  // 오늘부터 7일간(예약 API 기본 범위)의 수령/배달 일정을 .ics로 저장
+  const handleExportCalendar = async () => {
+    if (exportingCalendar) return;
+    setExportingCalendar(true);
+    try {
+      let rows = orders;
+      if (!USE_MOCKS) {
+        const now = getKstNow();
+        rows = toOrderRows(await getReservations(formatDateKR(now), formatDateKR(new Date(now.getTime() + 6 * 24 * 60 * 60 * 1000))));
+      }
+      const events = toCalendarEvents(rows);
+      if (events.length === 0) {
+        show('캘린더에 추가할 수령/배달 일정이 없습니다.', { variant: 'info' });
+        return;
+      }
+      downloadIcs(`${theme.name}-schedule.ics`, buildIcs(`${theme.displayName} 예약`, events));
+      show(`수령/배달 일정 ${events.length}건을 캘린더 파일로 저장했습니다.`);
+    } catch (e: any) {
+      if (e instanceof ApiError && (e.status === 401 || e.status === 403)) return; // userFetch에서 이미 처리됨
+      safeErrorLog(e, 'OrderPage - handleExportCalendar');
+      show(getSafeErrorMessage(e, '캘린더 파일을 만드는 중 오류가 발생했습니다.'), { variant: 'error' });
+    } finally {
+      setExportingCalendar(false);
+    }
+  };
+
+  const renderPickupQrButton = (order: OrderRow) => {
+    if (order.status !== 'pending' || order.deliveryOrderCode) return null;
+    return (
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          openPickupQr([order]);
+        }}
+        className="ml-2 inline-flex items-center h-6 px-2 rounded border border-gray-300 bg-white text-[11px] font-medium text-gray-700 hover:bg-gray-50"
+      >
+        수령 QR
+      </button>
+    );
+  };
+
   const totalPrice = (o: OrderRow) =>
     o.items.reduce((sum, it) => sum + it.price * it.quantity, 0);
 
@@ -427,13 +530,14 @@ export default function OrdersPage() {
         setStatusDialog({ isOpen: false, orderId: 0, displayCode: '', productName: '', currentStatus: 'pending', newStatus: 'canceled', quantity: 0 });
       } else {
         // 실제 API 호출
-        const res = await minusQuantity(statusDialog.displayCode, decreaseAmount);
-        if (!res.ok) {
-          if (res.status === 400) {
+        try {
+          await minusQuantity(statusDialog.displayCode, decreaseAmount);
+        } catch (e) {
+          if (e instanceof ApiError && e.status === 400) {
             show('수량을 줄일 수 없습니다. 최소 수량은 1개입니다.', { variant: 'error' });
             return;
           }
-          throw new Error('수량 변경에 실패했습니다.');
+          throw e;
         }
 
         // 성공 시 로컬 상태 업데이트
@@ -509,14 +613,15 @@ export default function OrdersPage() {
       } else {
         // 실제 API 호출 (cancelReservation)
         if (targetStatus === 'canceled') {
-          const res = await cancelReservation(statusDialog.displayCode);
-          if (!res.ok) {
-            if (res.status === 400) {
+          try {
+            await cancelReservation(statusDialog.displayCode);
+          } catch (e) {
+            if (e instanceof ApiError && e.status === 400) {
               // 400 에러는 사용자 이슈 - dialog만 닫기
               setStatusDialog({ isOpen: false, orderId: 0, displayCode: '', productName: '', currentStatus: 'pending', newStatus: 'canceled', quantity: 0 });
               return;
             }
-            throw new Error('주문 취소에 실패했습니다.');
+            throw e;
           }
         }
 
@@ -789,6 +894,23 @@ export default function OrdersPage() {
             배달
           </button>
         </div>
+        {viewTab === 'reservation' && pickupOrders.length > 0 && (
+          <button
+            type="button"
+            onClick={() => openPickupQr(pickupOrders)}
+            className="ml-2 h-11 px-3 rounded-lg border border-orange-300 bg-white text-sm font-semibold text-orange-600 shadow-sm hover:bg-orange-50 align-top"
+          >
+            📱 수령 QR {pickupOrders.length > 1 ? `(${pickupOrders.length}건)` : ''}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleExportCalendar}
+          disabled={exportingCalendar}
+          className="ml-2 h-11 px-3 rounded-lg border border-gray-200 bg-white text-sm font-semibold text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-60 align-top"
+        >
+          {exportingCalendar ? '저장 중…' : '📅 캘린더에 추가'}
+        </button>
       </section>
 
       {/* 데스크톱 */}
@@ -812,7 +934,7 @@ export default function OrdersPage() {
                 aria-label={(o.status === 'pending' && !isDeliveryLocked(o)) ? '상태 변경' : undefined}
               >
                 <div className="flex items-center justify-between text-sm font-semibold mb-1" style={{ color: 'var(--color-primary-900)' }}>
-                  <span>#{shortCode(o.displayCode)}</span>
+                  <span className="flex items-center">#{shortCode(o.displayCode)}{renderPickupQrButton(o)}</span>
                   {renderReservationStatusBadge(o)}
                 </div>
                 {getDeliveryProgressLabel(o) && (
@@ -833,7 +955,7 @@ export default function OrdersPage() {
                       )}
                       <div className="flex-1">
                         <div className="flex items-center justify-between">
-                          <span>{it.name}</span>
+                          <span><SearchHighlight text={it.name} query={search} /></span>
                         </div>
                         <div className="mt-1 text-xs text-gray-500">x {it.quantity}</div>
                       </div>
@@ -885,7 +1007,7 @@ export default function OrdersPage() {
                       )}
                       <div className="flex-1">
                         <div className="flex items-center justify-between">
-                          <span className="font-medium">{trimItemName(item.name)}</span>
+                          <span className="font-medium"><SearchHighlight text={trimItemName(item.name)} query={search} /></span>
                           <span className="text-gray-700 font-semibold">{KRW(item.total)}</span>
                         </div>
                         <div className="mt-1 text-sm text-gray-500">x {item.quantity}</div>
@@ -925,7 +1047,7 @@ export default function OrdersPage() {
               aria-label={(o.status === 'pending' && !isDeliveryLocked(o)) ? '상태 변경' : undefined}
             >
               <div className="flex items-center justify-between text-sm font-semibold mb-1" style={{ color: 'var(--color-primary-900)' }}>
-                <span>#{shortCode(o.displayCode)}</span>
+                <span className="flex items-center">#{shortCode(o.displayCode)}{renderPickupQrButton(o)}</span>
                 {renderReservationStatusBadge(o)}
               </div>
               {getDeliveryProgressLabel(o) && (
@@ -946,7 +1068,7 @@ export default function OrdersPage() {
                     )}
                     <div className="flex-1">
                       <div className="flex items-center justify-between">
-                        <span>{it.name}</span>
+                        <span><SearchHighlight text={it.name} query={search} /></span>
                       </div>
                       <div className="mt-1 text-xs text-gray-500">x {it.quantity}</div>
                     </div>
@@ -994,7 +1116,7 @@ export default function OrdersPage() {
                     )}
                     <div className="flex-1">
                       <div className="flex items-center justify-between">
-                        <span className="font-medium">{trimItemName(item.name)}</span>
+                        <span className="font-medium"><SearchHighlight text={trimItemName(item.name)} query={search} /></span>
                         <span className="text-gray-700 font-semibold">{KRW(item.total)}</span>
                       </div>
                       <div className="mt-1 text-sm text-gray-500">x {item.quantity}</div>
@@ -1114,6 +1236,16 @@ export default function OrdersPage() {
             <div className="text-sm font-semibold mb-2" style={{ color: 'var(--color-primary-900)' }}>
               #{shortCode(selectedDeliveryGroup.deliveryOrderCode)}
             </div>
+            {selectedDeliveryGroup.orders[0]?.delivery && (
+              <div className="mb-4">
+                <DeliveryTrackingTimeline
+                  delivery={selectedDeliveryGroup.orders[0].delivery}
+                  date={selectedDeliveryGroup.orders[0].date}
+                  serverTimeOffsetMs={serverTimeOffsetMs}
+                  live={trackingLive}
+                />
+              </div>
+            )}
             <div className="space-y-3">
               {getGroupItemTotals(selectedDeliveryGroup.orders).map(item => (
                 <div key={`${selectedDeliveryGroup.key}-detail-${item.name}`} className="flex items-center gap-3 text-sm">
@@ -1199,16 +1331,12 @@ export default function OrdersPage() {
             {tempSearch && (
               <div className="px-4 pb-4">
                 <div className="space-y-2 max-h-48 overflow-y-auto">
-                  {orders.filter(o =>
-                    o.items.some(item =>
-                      item.name.toLowerCase().includes(tempSearch.trim().toLowerCase())
-                    )
-                  ).map(order => (
+                  {searchPreview.map(order => (
                     <div key={order.id} className="p-3 bg-gray-50 rounded-lg cursor-pointer hover:bg-gray-100 transition-colors"
                       onClick={() => {
-                        // 해당 주문의 첫 번째 제품명으로 검색 적용하고 모든 필터 해제
-                        const firstProductName = order.items[0]?.name || '';
-                        setSearch(firstProductName);
+                        // 해당 주문에서 검색어와 일치하는 제품명으로 검색 적용하고 모든 필터 해제
+                        const matchedName = order.items.find(item => matchesSearch(item.name, tempSearch))?.name ?? order.items[0]?.name ?? '';
+                        setSearch(matchedName);
                         setFrom(localToday);
                         setStatus('all');
                         setSearchModalOpen(false);
@@ -1218,18 +1346,14 @@ export default function OrdersPage() {
                         {order.date}
                       </div>
                       <div className="text-xs text-gray-600">
-                        {order.items.map(item => item.name).join(', ')}
+                        <SearchHighlight text={order.items.map(item => item.name).join(', ')} query={tempSearch} />
                       </div>
                     </div>
                   ))}
                 </div>
 
                 {/* 검색 결과 없음 */}
-                {orders.filter(o =>
-                  o.items.some(item =>
-                    item.name.toLowerCase().includes(tempSearch.trim().toLowerCase())
-                  )
-                ).length === 0 && (
+                {searchPreview.length === 0 && (
                     <div className="text-center text-gray-500 py-6">
                       <div className="text-sm">
                         <span className="font-medium text-orange-600">"{tempSearch}"</span>에 대한 검색 결과가 없습니다.
@@ -1260,6 +1384,45 @@ export default function OrdersPage() {
           </div>
         </div>
       )}
+      {/* 매장 수령 QR Dialog */}
+      {pickupQr.isOpen && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+          onClick={() => setPickupQr({ isOpen: false, orders: [] })}
+        >
+          <div
+            className="bg-white rounded-lg p-6 max-w-sm w-full"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-lg font-semibold text-gray-900">매장 수령 QR</h3>
+              <button
+                type="button"
+                className="h-8 w-8 rounded-full hover:bg-gray-100 flex items-center justify-center"
+                aria-label="닫기"
+                onClick={() => setPickupQr({ isOpen: false, orders: [] })}
+              >
+                ✕
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">
+              {pickupQr.orders[0]?.date} 수령 · 매장 직원에게 보여주시면 {pickupQr.orders.length > 1 ? `${pickupQr.orders.length}건이 한 번에` : '바로'} 수령 처리됩니다.
+            </p>
+            <div className="mt-4 flex justify-center">
+              <QrCode value={encodePickupPayload(pickupQr.orders.map(o => o.displayCode))} size={240} />
+            </div>
+            <ul className="mt-4 max-h-40 overflow-y-auto divide-y text-sm">
+              {pickupQr.orders.map(o => (
+                <li key={o.id} className="flex items-center justify-between py-1.5">
+                  <span className="text-gray-800 truncate">{o.items.map(it => `${it.name} x${it.quantity}`).join(', ')}</span>
+                  <span className="ml-2 flex-shrink-0 text-xs text-gray-500">#{shortCode(o.displayCode)}</span>
+                </li>
+              ))}
+            </ul>
+            <div className="mt-3 text-[11px] text-gray-400">화면 밝기를 높이면 더 잘 인식됩니다.</div>
+          </div>
+        </div>
+      )}
     </main>
   );
 }
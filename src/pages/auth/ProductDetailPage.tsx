@@ -6,18 +6,10 @@ import { useSnackbar } from '../../components/snackbar';
 import { USE_MOCKS } from '../../config';
 import { getProductById } from '../../mocks/products';
 import { safeErrorLog, getSafeErrorMessage } from '../../utils/environment';
-import { getProduct } from '../../utils/api';
-
-type Product = {
-  id: number;
-  name: string;
-  price: number;
-  stock: number;
-  imageUrl: string;
-  sellDate?: string;
-  description?: string;
-  detail_images?: string[];
-};
+import { getProduct, type ProductDetail } from '../../utils/api';
+import { shareProduct } from '../../utils/kakao';
+
+type Product = ProductDetail;
 
 const KRW = (n: number) => n.toLocaleString('ko-KR', { style: 'currency', currency: 'KRW' });
 
@@ -37,14 +29,33 @@ interface ProductDetailPageProps {
   isOpen: boolean;
   onClose: () => void;
   productId: number;
+  // 관심상품 (상품 목록에서 상태 관리, 없으면 버튼 숨김)
+  isFavorite?: boolean;
+  favoritePending?: boolean;
+  onToggleFavorite?: (product: { id: number; name: string }) => void;
 }
 
-export default function ProductDetailPage({ isOpen, onClose, productId }: ProductDetailPageProps) {
+export default function ProductDetailPage({ isOpen, onClose, productId, isFavorite = false, favoritePending = false, onToggleFavorite }: ProductDetailPageProps) {
   const [product, setProduct] = useState<Product | null>(null);
   const [loading, setLoading] = useState(true);
   const [activeImage, setActiveImage] = useState<string>('');
+  const [sharing, setSharing] = useState(false);
   const { show } = useSnackbar();
 
+  const handleShare = async () => {
+    if (!product) return;
+    setSharing(true);
+    try {
+      const result = await shareProduct(product);
+      if (result === 'copied') show('상품 링크가 복사되었습니다.');
+    } catch (e) {
+      safeErrorLog(e, 'ProductDetailPage - share');
+      show(getSafeErrorMessage(e, '상품을 공유하지 못했습니다.'), { variant: 'error' });
+    } finally {
+      setSharing(false);
+    }
+  };
+
   useEffect(() => {
     if (!isOpen || !productId) return;
 
@@ -54,31 +65,15 @@ export default function ProductDetailPage({ isOpen, onClose, productId }: Produc
         setLoading(true);
         if (USE_MOCKS) {
           await new Promise(resolve => setTimeout(resolve, 500));
-          const data = getProductById(productId);
-          if (!data) throw new Error('상품 정보를 불러오지 못했습니다.');
+          const mock = getProductById(productId);
+          if (!mock) throw new Error('상품 정보를 불러오지 못했습니다.');
+          const data: Product = { ...mock, detailImages: mock.images ?? [] };
           if (alive) {
-            setProduct(data as Product);
-            setActiveImage((data as Product).imageUrl);
+            setProduct(data);
+            setActiveImage(data.imageUrl);
           }
         } else {
-          const res = await getProduct(productId);
-          if (!res.ok) throw new Error('상품 정보를 불러오지 못했습니다.');
-          const rawData = await res.json();
-
-          // API 응답 매핑: 메인 이미지 + 상세 이미지(detail_images 우선)
-          const imgBase = process.env.REACT_APP_IMG_URL || '';
-          const toAbs = (u: string) => (u?.startsWith('http') ? u : (imgBase ? `${imgBase}/${u}` : u));
-
-          const detailList: string[] = Array.isArray(rawData.detail_images)
-            ? rawData.detail_images
-            : (Array.isArray(rawData.images) ? rawData.images : []);
-
-          const data: Product = {
-            ...rawData,
-            imageUrl: rawData.image_url ? toAbs(rawData.image_url) : (rawData.imageUrl || ''),
-            detail_images: detailList.map(toAbs),
-          } as Product;
-
+          const data = await getProduct(productId);
           if (alive) {
             setProduct(data);
             setActiveImage(data.imageUrl);
@@ -126,7 +121,30 @@ export default function ProductDetailPage({ isOpen, onClose, productId }: Produc
           ) : product ? (
             <>
               <div>
-                <h1 className="text-xl font-bold">{product.name}</h1>
+                <div className="flex items-start justify-between gap-2">
+                  <h1 className="text-xl font-bold">{product.name}</h1>
+                  <div className="flex flex-shrink-0 gap-1.5">
+                    <button
+                      type="button"
+                      onClick={handleShare}
+                      disabled={sharing}
+                      className="h-8 px-2.5 rounded-full border border-yellow-300 bg-yellow-50 text-xs text-yellow-800 hover:bg-yellow-100 disabled:opacity-60"
+                    >
+                      공유하기
+                    </button>
+                    {onToggleFavorite && (
+                      <button
+                        type="button"
+                        onClick={() => onToggleFavorite({ id: product.id, name: product.name })}
+                        disabled={favoritePending}
+                        aria-pressed={isFavorite}
+                        className={`h-8 px-2.5 rounded-full border text-xs disabled:opacity-60 ${isFavorite ? 'border-rose-300 bg-rose-50 text-rose-600' : 'border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+                      >
+                        {isFavorite ? '♥ 관심상품' : '♡ 관심상품'}
+                      </button>
+                    )}
+                  </div>
+                </div>
                 <div className="mt-1 flex items-center justify-between" />
                 <span className="text-orange-600 font-semibold">{KRW(product.price)}</span>
               </div>
@@ -147,11 +165,11 @@ export default function ProductDetailPage({ isOpen, onClose, productId }: Produc
                 )}
 
                 {/* 추가 이미지 */}
-                {product.detail_images && product.detail_images.length > 0 && (
+                {product.detailImages.length > 0 && (
                   <div className="mt-6">
                     <h3 className="text-base font-semibold text-gray-800 mb-2">상세 이미지</h3>
                     <div className="flex flex-col gap-3">
-                      {product.detail_images.map((src) => (
+                      {product.detailImages.map((src) => (
                         <img key={src} src={src} alt="sub" className="w-full object-cover rounded-lg border" />
                       ))}
                     </div>
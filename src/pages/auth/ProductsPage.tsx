@@ -1,13 +1,21 @@
-import React, { useMemo, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useMemo, useEffect, useRef, useState } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useSnackbar } from '../../components/snackbar';
 import BottomNav from '../../components/BottomNav';
 import { USE_MOCKS } from '../../config';
 import { listProducts } from '../../mocks/products';
 import { safeErrorLog, getSafeErrorMessage } from '../../utils/environment';
-import { getProducts, modifyName, checkNameExists, createReservation, getServerTime, getUserMessage, markMessageAsRead, getProductKeywords, getUserMe, getDeliveryConfig } from '../../utils/api';
+import { getProducts, modifyName, checkNameExists, createReservation, getServerTime, getUserMessage, markMessageAsRead, getProductKeywords, getUserMe, getDeliveryConfig, getMyWaitlist, joinWaitlist, leaveWaitlist, getFavorites, addFavoriteProduct, removeFavoriteProduct, addFavoriteCategory, removeFavoriteCategory, type Favorites } from '../../utils/api';
+import { ApiError, isAbortError } from '../../utils/apiError';
+import { QUERY_KEYS } from '../../utils/queryCache';
+import { useLatestRequest } from '../../hooks/useLatestRequest';
+import { useQueryVersion } from '../../hooks/useQueryVersion';
 import ProductDetailPage from './ProductDetailPage';
 import Footer from '../../components/Footer';
+import SearchHighlight from '../../components/SearchHighlight';
+import { matchesSearch, rankBySearch } from '../../utils/koreanSearch';
+import { shareProduct, type ShareableProduct } from '../../utils/kakao';
+import { buildProductsQuery, parseProductsQuery, rememberProductLink, takePendingProductLink } from '../../utils/productLink';
 import { theme, logoText, defaultKeywordImage } from '../../brand';
 import DOMPurify from 'dompurify';
 
@@ -139,10 +147,20 @@ export default function ReservePage() {
 
   const [products, setProducts] = useState<Product[]>([]);
   const { show } = useSnackbar();
+  const beginProductsRequest = useLatestRequest();
+  // 캐시된 목록을 먼저 보여주고, 백그라운드 재검증/무효화되면 다시 불러옴
+  const productsVersion = useQueryVersion(QUERY_KEYS.products);
+  const categoriesVersion = useQueryVersion(QUERY_KEYS.categories);
   const [drawerOpen, setDrawerOpen] = useState(false);
   const nav = useNavigate();
   const location = useLocation();
 
+  // 진입 URL(?date=&category=&q=&product=)로 화면 상태 복원
+  const [initialView] = useState(() => parseProductsQuery(location.search));
+  const syncedQueryRef = useRef(location.search); // 마지막으로 화면 상태와 맞춘 쿼리
+  const replaceNextRef = useRef(true); // 다음 URL 반영을 기록 교체로 (진입 URL 정규화 포함)
+  const detailPushedRef = useRef(false); // 상세가 새 기록으로 열렸는지 (닫기 = 뒤로 가기)
+
   // ProductDetailPage dialog 상태
   const [detailDialog, setDetailDialog] = useState<{
     isOpen: boolean;
@@ -176,6 +194,15 @@ export default function ReservePage() {
   // 이용제한 상태
   const [restricted, setRestricted] = useState(false);
 
+  // 입고 알림 신청한 상품 ID (품절 상품)
+  const [waitlistIds, setWaitlistIds] = useState<Set<number>>(new Set());
+  const [waitlistPendingId, setWaitlistPendingId] = useState<number | null>(null);
+
+  // 관심상품 (상품명/카테고리) + 내 관심상품 필터
+  const [favorites, setFavorites] = useState<Favorites>({ productNames: [], categoryIds: [], productIds: [] });
+  const [favoritePending, setFavoritePending] = useState(false);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+
   // 상단 안내 접기/펼치기
   const [infoExpanded, setInfoExpanded] = useState(false);
 
@@ -200,11 +227,8 @@ export default function ReservePage() {
   }, [detailDialog.isOpen, nickModalOpen, searchModalOpen, messageDialog.isOpen]);
   // 뒤로가기(popstate) 핸들링
   useEffect(() => {
+    // 상세 dialog는 URL(product 쿼리) 동기화 effect에서 처리
     const onPopState = () => {
-      if (detailDialog.isOpen) {
-        setDetailDialog({ isOpen: false, productId: 0 });
-        return;
-      }
       if (nickModalOpen) {
         setNickModalOpen(false);
         return;
@@ -224,20 +248,22 @@ export default function ReservePage() {
     };
     window.addEventListener('popstate', onPopState);
     return () => window.removeEventListener('popstate', onPopState);
-  }, [detailDialog.isOpen, nickModalOpen, searchModalOpen, messageDialog.isOpen]);
+  }, [nickModalOpen, searchModalOpen, messageDialog.isOpen]);
 
   // 날짜 탭
   const dates = useMemo(() => getNext10Days(), []);
-  const [activeDate, setActiveDate] = useState<string>(dates[0]);
+  const [activeDate, setActiveDate] = useState<string>(() =>
+    initialView.date && dates.includes(initialView.date) ? initialView.date : dates[0]
+  );
 
   // 검색어 (상품명)
-  const [search, setSearch] = useState('');
+  const [search, setSearch] = useState(initialView.q);
 
   // 임시 검색어 (모달에서 입력 중인 검색어)
   const [tempSearch, setTempSearch] = useState('');
 
   // 활성화된 카테고리 ID (null = 전체)
-  const [activeCategoryId, setActiveCategoryId] = useState<number | null>(null);
+  const [activeCategoryId, setActiveCategoryId] = useState<number | null>(initialView.categoryId);
 
   // 활성화된 추천 검색 칩 (화면 표시용)
   const [activeChip, setActiveChip] = useState<string | null>(null);
@@ -245,6 +271,7 @@ export default function ReservePage() {
   // 추천 카테고리 타입
   type CategoryItem = { id: number; keyword: string; keywordUrl?: string };
   const [recommendedKeywords, setRecommendedKeywords] = useState<CategoryItem[]>([]);
+  const activeCategory = recommendedKeywords.find(k => k.id === activeCategoryId) ?? null;
 
   // 선택된 날짜의 상품 목록 표시 상태
   const [selectedDateForProducts, setSelectedDateForProducts] = useState<string | null>(null);
@@ -266,29 +293,18 @@ export default function ReservePage() {
   useEffect(() => {
     const fetchCategories = async () => {
       try {
-        const data = await getProductKeywords();
-        if (data && Array.isArray(data.response)) {
-          // 카테고리 배열 (id, name, imageUrl 또는 이전 형식 모두 지원)
-          const list = data.response.map((item: any) => {
-            if (typeof item === 'string') {
-              return { id: 0, keyword: item, keywordUrl: undefined };
-            }
-            return {
-              id: item.id || 0,
-              keyword: item.name || item.keyword || '',
-              keywordUrl: normalizeCategoryImageUrl(
-                item.image_url || item.imageUrl || item.keywordUrl || item.keyword_url || undefined
-              ),
-            };
-          });
-          setRecommendedKeywords(list);
-        }
+        const categories = await getProductKeywords();
+        setRecommendedKeywords(categories.map(category => ({
+          id: category.id,
+          keyword: category.name,
+          keywordUrl: normalizeCategoryImageUrl(category.imageUrl),
+        })));
       } catch (e) {
         console.error('카테고리 불러오기 실패:', e);
       }
     };
     fetchCategories();
-  }, []);
+  }, [categoriesVersion]);
 
   // 초기화 버튼이 활성화되었을 때 주기적으로 진동 애니메이션 표시
   useEffect(() => {
@@ -325,8 +341,9 @@ export default function ReservePage() {
     return () => clearInterval(interval);
   }, []);
 
-  // Load data from mock or API
+  // Load data from mock or API (카테고리를 연달아 바꾸면 이전 요청은 취소)
   useEffect(() => {
+    const signal = beginProductsRequest();
     const loadProducts = async () => {
       if (USE_MOCKS) {
         const mocked = listProducts();
@@ -355,55 +372,55 @@ export default function ReservePage() {
           toDate.setDate(start.getDate() + MAX_DAYS - 1);
           const toStr = formatKstYmd(toDate);
 
-          const res = await getProducts(fromStr, toStr, activeCategoryId ?? undefined);
-          if (!res.ok) {
-            // 401, 403 에러는 통합 에러 처리로 위임
-            if (res.status === 401 || res.status === 403) {
-              return; // userFetch에서 이미 처리됨
-            }
-            throw new Error('상품 목록을 불러오지 못했습니다.');
-          }
-          const data = await res.json();
-
-          let productsArray = data;
-
-          // ProductListResponse 구조에서 response 필드 추출
-          if (data && typeof data === 'object' && data.response && Array.isArray(data.response)) {
-            productsArray = data.response;
-          }
-
-          // 여전히 배열이 아닌 경우 에러
-          if (!Array.isArray(productsArray)) {
-            throw new Error('상품 데이터가 배열 형태가 아닙니다.');
-          }
+          const list = await getProducts(fromStr, toStr, activeCategoryId ?? undefined, signal);
+          if (signal.aborted) return;
 
-          setProducts(productsArray.map((p: any, i: number) => ({
-            id: p.id,
-            name: p.name,
+          setProducts(list.map((p, i) => ({
+            ...p,
             quantity: p.stock > 0 ? 1 : 0,
-            price: p.price,
-            stock: p.stock,
-            imageUrl: p.image_url ? `${theme.config.imgUrl}/${p.image_url}` : p.imageUrl,
-            // sell_date 필드명으로 매핑
-            sellDate: p.sell_date || p.sellDate || dates[i % dates.length],
-            // 누적 판매량 필드명: total_sold
-            totalSold: p.total_sold ?? 0,
-            orderIndex: p.order_index ?? 0,
-            sellTime: p.sell_time || p.sellTime, // 선택적 시간 필드 매핑
-            deliveryAvailable: typeof p.delivery_available === 'boolean'
-              ? Boolean(p.delivery_available)
-              : (typeof p.deliveryAvailable === 'boolean' ? Boolean(p.deliveryAvailable) : true),
+            sellDate: p.sellDate || dates[i % dates.length],
           })));
         } catch (e: any) {
+          if (isAbortError(e)) return;
+          // 401, 403 에러는 통합 에러 처리로 위임 (userFetch에서 이미 처리됨)
+          if (e instanceof ApiError && (e.status === 401 || e.status === 403)) return;
           safeErrorLog(e, 'ShopPage - loadProducts');
           show(getSafeErrorMessage(e, '상품 목록을 불러오는 중 오류가 발생했습니다.'), { variant: 'error' });
         }
       }
     };
     loadProducts();
-  }, [show, dates, activeCategoryId]);
+  }, [show, dates, activeCategoryId, beginProductsRequest, productsVersion]);
+
+  // 입고 알림 신청 목록 (페이지 진입 시)
+  useEffect(() => {
+    if (USE_MOCKS) return;
+    getMyWaitlist()
+      .then(ids => setWaitlistIds(new Set(ids)))
+      .catch(e => safeErrorLog(e, 'ProductsPage - getMyWaitlist'));
+  }, []);
 
-  // 사용자 메시지 확인 (페이지 진입 시)
+  // 관심상품 목록 (페이지 진입 시 + 상품 목록 갱신 시 새 판매일 상품 반영)
+  useEffect(() => {
+    if (USE_MOCKS) return;
+    getFavorites()
+      .then(setFavorites)
+      .catch(e => safeErrorLog(e, 'ProductsPage - getFavorites'));
+  }, [productsVersion]);
+
+  // 같은 이름의 반복 판매 상품이나 관심 카테고리 상품이면 관심상품
+  const isFavoriteProduct = useCallback(
+    (p: Product) => favorites.productNames.includes(p.name) || favorites.productIds.includes(p.id),
+    [favorites]
+  );
+
+  // 알림 신청한 상품에 재고가 생기면 서버가 메시지를 보내므로 메시지함을 다시 확인
+  const restockedWaitlistKey = useMemo(
+    () => products.filter(p => waitlistIds.has(p.id) && p.stock > 0).map(p => p.id).join(','),
+    [products, waitlistIds]
+  );
+
+  // 사용자 메시지 확인 (페이지 진입 시 + 입고 알림 상품 재입고 시)
   useEffect(() => {
     const checkUserMessage = async () => {
       if (USE_MOCKS) {
@@ -428,7 +445,13 @@ export default function ReservePage() {
     };
 
     checkUserMessage();
-  }, []);
+    // 알림이 발송된 신청은 서버에서 정리되므로 목록도 다시 동기화
+    if (restockedWaitlistKey && !USE_MOCKS) {
+      getMyWaitlist()
+        .then(ids => setWaitlistIds(new Set(ids)))
+        .catch(e => safeErrorLog(e, 'ProductsPage - getMyWaitlist'));
+    }
+  }, [restockedWaitlistKey]);
 
   // 사용자 정보 동기화 (닉네임 + 이용제한)
   useEffect(() => {
@@ -454,12 +477,10 @@ export default function ReservePage() {
 
   const productsOfDay = useMemo(
     () => {
-      const filtered = products.filter(p => p.sellDate === activeDate);
+      const filtered = products.filter(p => p.sellDate === activeDate && (!favoritesOnly || isFavoriteProduct(p)));
 
-      // 검색어 필터링
-      const searchQuery = search.trim().toLowerCase();
-      const searchFiltered = searchQuery === '' ? filtered :
-        filtered.filter(p => p.name.toLowerCase().includes(searchQuery));
+      // 검색어 필터링 (초성/오타 허용)
+      const searchFiltered = filtered.filter(p => matchesSearch(p.name, search));
 
       // 정렬 우선순위: 판매 가능 > 오픈예정(가까운 시간순) > 품절
       return searchFiltered.sort((a, b) => {
@@ -512,17 +533,13 @@ export default function ReservePage() {
         return 0;
       });
     },
-    [products, activeDate, search]
+    [products, activeDate, search, favoritesOnly, isFavoriteProduct]
   );
   const countOf = (date: string) => {
-    const filtered = products.filter(p => p.sellDate === date);
+    const filtered = products.filter(p => p.sellDate === date && (!favoritesOnly || isFavoriteProduct(p)));
 
     // 검색어 필터링
-    const searchQuery = search.trim().toLowerCase();
-    const searchFiltered = searchQuery === '' ? filtered :
-      filtered.filter(p => p.name.toLowerCase().includes(searchQuery));
-
-    return searchFiltered.length;
+    return filtered.filter(p => matchesSearch(p.name, search)).length;
   };
 
   // 검색어 없이 상품이 있는 날짜만 필터링 (칩 표시용)
@@ -534,12 +551,7 @@ export default function ReservePage() {
   }, [dates, products]);
 
   // 임시 검색어로 필터링된 상품 목록 (모달에서 미리보기용)
-  const getFilteredProductsByDate = (searchQuery: string) => {
-    const query = searchQuery.trim().toLowerCase();
-    if (query === '') return products;
-
-    return products.filter(p => p.name.toLowerCase().includes(query));
-  };
+  const getFilteredProductsByDate = (searchQuery: string) => rankBySearch(products, searchQuery, p => p.name);
 
   // 날짜별 필터링된 상품 개수
   const getFilteredCountByDate = (date: string, searchQuery: string) => {
@@ -553,20 +565,6 @@ export default function ReservePage() {
     return filteredProducts.filter(p => p.sellDate === date);
   };
 
-  // 검색어 하이라이트 함수
-  const highlightSearchTerm = (text: string, searchTerm: string) => {
-    if (!searchTerm.trim()) return text;
-
-    const regex = new RegExp(`(${searchTerm})`, 'gi');
-    const parts = text.split(regex);
-
-    return parts.map((part, index) =>
-      regex.test(part) ? (
-        <mark key={index} className="bg-yellow-200 px-1 rounded">{part}</mark>
-      ) : part
-    );
-  };
-
   // 검색 모달 열기/닫기
   const openSearchModal = (keyword?: string) => {
     setTempSearch(keyword || search); // keyword가 있으면 그걸로, 없으면 현재 검색어를 임시 검색어로 설정
@@ -585,10 +583,9 @@ export default function ReservePage() {
 
   // 검색 결과가 있는 가장 가까운 날짜 찾기
   const findClosestDateWithResults = (searchQuery: string) => {
-    const query = searchQuery.trim().toLowerCase();
-    if (query === '') return null;
+    if (searchQuery.trim() === '') return null;
 
-    const filteredProducts = products.filter(p => p.name.toLowerCase().includes(query));
+    const filteredProducts = products.filter(p => matchesSearch(p.name, searchQuery));
     if (filteredProducts.length === 0) return null;
 
     // 검색 결과가 있는 날짜들
@@ -637,12 +634,13 @@ export default function ReservePage() {
   };
 
   // 상품이 있는 날짜만 노출
-  const availableDates = useMemo(() => dates.filter(d => countOf(d) > 0), [dates, products, search]);
+  const availableDates = useMemo(() => dates.filter(d => countOf(d) > 0), [dates, products, search, favoritesOnly, isFavoriteProduct]);
 
   // 활성 날짜가 사라졌다면 첫 유효 날짜로 이동
   useEffect(() => {
     if (availableDates.length === 0) return;
     if (!availableDates.includes(activeDate)) {
+      replaceNextRef.current = true;
       setActiveDate(availableDates[0]);
     }
   }, [availableDates, activeDate]);
@@ -665,6 +663,90 @@ export default function ReservePage() {
     );
   };
 
+  // 품절 상품 입고 알림 신청/취소
+  const handleToggleWaitlist = async (product: Product) => {
+    if (waitlistPendingId !== null) return;
+    const joined = waitlistIds.has(product.id);
+    setWaitlistPendingId(product.id);
+    try {
+      if (!USE_MOCKS) {
+        if (joined) await leaveWaitlist(product.id);
+        else await joinWaitlist(product.id);
+      }
+      setWaitlistIds(prev => {
+        const next = new Set(prev);
+        if (joined) next.delete(product.id);
+        else next.add(product.id);
+        return next;
+      });
+      show(
+        joined ? `${product.name} 입고 알림을 취소했습니다.` : `${product.name} 입고 알림을 신청했습니다. 재입고되면 알려드릴게요.`,
+        { variant: 'info' }
+      );
+    } catch (e) {
+      if (e instanceof ApiError && (e.status === 401 || e.status === 403)) return;
+      safeErrorLog(e, 'ProductsPage - handleToggleWaitlist');
+      show(getSafeErrorMessage(e, '입고 알림 처리 중 오류가 발생했습니다.'), { variant: 'error' });
+    } finally {
+      setWaitlistPendingId(null);
+    }
+  };
+
+  // 관심상품 등록/해제 (같은 이름의 상품이 새 판매일로 올라오면 메시지함으로 알림)
+  const handleToggleFavorite = async (product: Pick<Product, 'id' | 'name'>) => {
+    if (favoritePending) return;
+    const favorite = favorites.productNames.includes(product.name);
+    setFavoritePending(true);
+    try {
+      if (USE_MOCKS) {
+        setFavorites(prev => ({
+          ...prev,
+          productNames: favorite ? prev.productNames.filter(name => name !== product.name) : [...prev.productNames, product.name],
+          productIds: favorite ? prev.productIds.filter(id => id !== product.id) : [...prev.productIds, product.id],
+        }));
+      } else {
+        setFavorites(favorite ? await removeFavoriteProduct(product.id) : await addFavoriteProduct(product.id));
+      }
+      show(
+        favorite ? `${product.name}을(를) 관심상품에서 뺐습니다.` : `${product.name}을(를) 관심상품에 담았습니다. 새 판매일이 잡히면 알려드릴게요.`,
+        { variant: 'info' }
+      );
+    } catch (e) {
+      if (e instanceof ApiError && (e.status === 401 || e.status === 403)) return;
+      safeErrorLog(e, 'ProductsPage - handleToggleFavorite');
+      show(getSafeErrorMessage(e, '관심상품 처리 중 오류가 발생했습니다.'), { variant: 'error' });
+    } finally {
+      setFavoritePending(false);
+    }
+  };
+
+  // 관심 카테고리 등록/해제 (카테고리에 새 판매일 상품이 추가되면 알림)
+  const handleToggleFavoriteCategory = async (category: CategoryItem) => {
+    if (favoritePending || !category.id) return;
+    const favorite = favorites.categoryIds.includes(category.id);
+    setFavoritePending(true);
+    try {
+      if (USE_MOCKS) {
+        setFavorites(prev => ({
+          ...prev,
+          categoryIds: favorite ? prev.categoryIds.filter(id => id !== category.id) : [...prev.categoryIds, category.id],
+        }));
+      } else {
+        setFavorites(favorite ? await removeFavoriteCategory(category.id) : await addFavoriteCategory(category.id));
+      }
+      show(
+        favorite ? `${category.keyword} 카테고리 알림을 해제했습니다.` : `${category.keyword} 카테고리에 새 상품이 올라오면 알려드릴게요.`,
+        { variant: 'info' }
+      );
+    } catch (e) {
+      if (e instanceof ApiError && (e.status === 401 || e.status === 403)) return;
+      safeErrorLog(e, 'ProductsPage - handleToggleFavoriteCategory');
+      show(getSafeErrorMessage(e, '관심 카테고리 처리 중 오류가 발생했습니다.'), { variant: 'error' });
+    } finally {
+      setFavoritePending(false);
+    }
+  };
+
   const handleReserve = async (product: Product) => {
     // 이미 예약 처리 중인 경우 무시
     if (reservingProductId !== null) return;
@@ -697,20 +779,12 @@ export default function ReservePage() {
 
       } else {
         // 실제 예약 API 호출
-        const reservationData = {
-          product_id: product.id,
-          quantity: product.quantity,
-          pickup_date: product.sellDate
-        };
-
-        const res = await createReservation(reservationData);
-        if (!res.ok) {
-          const errorData = await res.json();
-          throw new Error(errorData.message || '예약에 실패했습니다.');
-        }
-
         // BE는 displayCode를 plain text로 반환 (e.g. "R-26020216-VWQPA")
-        const displayCode = await res.text();
+        const displayCode = await createReservation({
+          productId: product.id,
+          quantity: product.quantity,
+          pickupDate: product.sellDate,
+        });
 
         if (!displayCode) {
           show('예약 코드를 찾을 수 없습니다. 관리자에게 문의해주세요.', { variant: 'error' });
@@ -817,13 +891,9 @@ export default function ReservePage() {
       return true;
     } else {
       try {
-        const res = await checkNameExists(value);
-        if (!res.ok) throw new Error('중복 검사 실패');
-
-        const data = await res.json();
         // 백엔드에서 true/false로 중복 여부 반환
         // true: 사용 가능 (중복 아님), false: 중복됨
-        return Boolean(data);
+        return await checkNameExists(value);
       } catch (e: any) {
         safeErrorLog(e, 'ShopPage - checkNicknameUnique');
         show(getSafeErrorMessage(e, '닉네임 중복 확인 중 오류가 발생했습니다.'), { variant: 'error' });
@@ -870,14 +940,7 @@ export default function ReservePage() {
         show('닉네임이 변경되었습니다.');
         setNickModalOpen(false);
       } else {
-        const res = await modifyName(value);
-
-        // 응답 상태 확인
-        if (!res.ok) {
-          const errorText = await res.text();
-          console.error('닉네임 변경 API 응답:', res.status, errorText);
-          throw new Error(`닉네임 저장 실패: ${res.status} ${res.statusText}`);
-        }
+        await modifyName(value);
 
         // 성공 시 처리
         setNickname(value);
@@ -902,10 +965,86 @@ export default function ReservePage() {
     }
   };
 
-  // 상세보기 dialog 열기 (history state 추가)
+  // 상세보기 dialog 열기 (URL에 product 추가 → 뒤로가기로 닫힘)
   const openDetail = (productId: number) => {
     setDetailDialog({ isOpen: true, productId });
-    window.history.pushState({ modal: 'product', productId }, '');
+  };
+
+  // 상세 닫기: 새 기록으로 열었으면 뒤로 가기 (앞으로 가기로 다시 열림), 공유 링크 등으로 열렸으면 현재 기록 교체
+  const closeDetail = () => {
+    if (detailPushedRef.current) {
+      detailPushedRef.current = false;
+      nav(-1);
+      return;
+    }
+    setDetailDialog({ isOpen: false, productId: 0 });
+  };
+
+  // 화면 상태(판매일/카테고리/검색어/상세) ↔ URL 쿼리 동기화
+  // 사용자 조작은 새 기록으로 쌓아 뒤로/앞으로 가기로 복원, 자동 보정은 현재 기록 교체
+  useEffect(() => {
+    const productId = detailDialog.isOpen ? detailDialog.productId : null;
+    const query = buildProductsQuery({ date: activeDate, categoryId: activeCategoryId, q: search, productId });
+    const replace = replaceNextRef.current || (!productId && parseProductsQuery(syncedQueryRef.current).productId !== null);
+    replaceNextRef.current = false;
+    if (query === syncedQueryRef.current) return;
+    syncedQueryRef.current = query;
+    detailPushedRef.current = productId !== null && !replace;
+    nav({ search: query }, { replace, state: location.state });
+  }, [activeDate, activeCategoryId, search, detailDialog.isOpen, detailDialog.productId, location.state, nav]);
+
+  // 뒤로/앞으로 가기, 링크 이동 등 외부에서 URL이 바뀐 경우 화면 상태로 반영
+  useEffect(() => {
+    if (location.search === syncedQueryRef.current) return;
+    const parsed = parseProductsQuery(location.search);
+    const view = { ...parsed, date: parsed.date && dates.includes(parsed.date) ? parsed.date : dates[0] };
+    setActiveDate(view.date);
+    setActiveCategoryId(view.categoryId);
+    if (!view.categoryId) setActiveChip(null);
+    setSearch(view.q);
+    setDetailDialog(view.productId ? { isOpen: true, productId: view.productId } : { isOpen: false, productId: 0 });
+    detailPushedRef.current = false;
+    syncedQueryRef.current = buildProductsQuery(view);
+    if (syncedQueryRef.current !== location.search) {
+      nav({ search: syncedQueryRef.current }, { replace: true, state: location.state });
+    }
+  }, [location.search, location.state, dates, nav]);
+
+  // URL로 복원된 카테고리는 칩도 선택 상태로 표시
+  useEffect(() => {
+    if (activeCategory) setActiveChip(activeCategory.keyword);
+  }, [activeCategory]);
+
+  // 공유 링크 진입: 로그인 전이면 링크를 보관해 두고, 목록이 로드되면 판매일 탭 이동 + 상세 열기
+  const pendingLinkRef = useRef(initialView.date || initialView.productId ? { ...initialView, search: location.search } : null);
+  useEffect(() => {
+    if (pendingLinkRef.current) rememberProductLink(pendingLinkRef.current.search);
+  }, []);
+
+  useEffect(() => {
+    const link = pendingLinkRef.current;
+    if (!link || products.length === 0) return;
+    pendingLinkRef.current = null;
+    takePendingProductLink();
+    const product = link.productId ? products.find(p => p.id === link.productId) : undefined;
+    const date = product?.sellDate ?? link.date;
+    if (date && dates.includes(date)) setActiveDate(date);
+    if (product) {
+      setDetailDialog({ isOpen: true, productId: product.id });
+    } else if (link.productId) {
+      show('공유된 상품의 예약 기간이 지났거나 상품을 찾을 수 없습니다.', { variant: 'info' });
+    }
+  }, [products, dates, show]);
+
+  // 상품 공유 (카카오톡 → 기기 공유 → 링크 복사)
+  const handleShareProduct = async (product: ShareableProduct) => {
+    try {
+      const result = await shareProduct(product);
+      if (result === 'copied') show('상품 링크가 복사되었습니다.');
+    } catch (e) {
+      safeErrorLog(e, 'ProductsPage - handleShareProduct');
+      show(getSafeErrorMessage(e, '상품을 공유하지 못했습니다.'), { variant: 'error' });
+    }
   };
 
   return (
@@ -919,7 +1058,7 @@ export default function ReservePage() {
               type="button"
               onClick={() => {
                 if (detailDialog.isOpen) {
-                  setDetailDialog({ isOpen: false, productId: 0 });
+                  closeDetail();
                 } else if (nickModalOpen) {
                   setNickModalOpen(false);
                 } else {
@@ -1125,7 +1264,7 @@ export default function ReservePage() {
               );
             }) : (
               <div className="text-gray-400 text-xs py-2">
-                {allProductDates.length === 0 ? '판매 예정 상품 준비 중' : '카테고리에 해당하는 상품이 없습니다'}
+                {allProductDates.length === 0 ? '판매 예정 상품 준비 중' : (favoritesOnly ? '판매 예정인 관심상품이 없습니다' : '카테고리에 해당하는 상품이 없습니다')}
               </div>
             )}
           </div>
@@ -1136,9 +1275,38 @@ export default function ReservePage() {
           <div className="flex items-center gap-1 px-3 pt-1.5 pb-0.5 text-xs text-gray-500 border-b border-gray-100">
             <span>🗓</span>
             <span><span className="font-medium text-gray-700">{prettyKdate(activeDate)}</span> 수령 가능 상품</span>
+            {activeCategory && activeCategory.id > 0 && (
+              <button
+                type="button"
+                onClick={() => handleToggleFavoriteCategory(activeCategory)}
+                disabled={favoritePending}
+                aria-pressed={favorites.categoryIds.includes(activeCategory.id)}
+                className={`ml-auto px-2 py-0.5 rounded-full border text-[11px] disabled:opacity-60 ${favorites.categoryIds.includes(activeCategory.id) ? 'border-rose-300 bg-rose-50 text-rose-600' : 'border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+              >
+                {favorites.categoryIds.includes(activeCategory.id) ? `♥ ${activeCategory.keyword} 알림 받는 중` : `♡ ${activeCategory.keyword} 새 상품 알림`}
+              </button>
+            )}
           </div>
           <div className="px-3 py-1 overflow-x-auto">
             <div className="flex gap-3">
+              {/* 내 관심상품 필터 */}
+              <button
+                onClick={(e) => {
+                  e.preventDefault();
+                  setFavoritesOnly(prev => !prev);
+                  setActiveChip(null);
+                  setActiveCategoryId(null);
+                }}
+                aria-pressed={favoritesOnly}
+                className="flex flex-col items-center gap-1 flex-shrink-0"
+              >
+                <div className={`w-12 h-12 rounded-full border-2 flex items-center justify-center text-xl transition-colors ${favoritesOnly ? 'border-orange-500 bg-rose-50 text-rose-500' : 'border-gray-200 text-gray-400'}`}>
+                  {favoritesOnly ? '♥' : '♡'}
+                </div>
+                <span className={`text-xs font-medium whitespace-nowrap ${favoritesOnly ? 'text-orange-500' : 'text-gray-700'}`}>
+                  내 관심상품
+                </span>
+              </button>
               {((recommendedKeywords.length > 0 ? recommendedKeywords : [
                 { id: 0, keyword: '케이크', keywordUrl: undefined },
                 { id: 0, keyword: '할인', keywordUrl: undefined },
@@ -1159,6 +1327,7 @@ export default function ReservePage() {
                         // 칩 선택 → 카테고리 ID로 상품 조회
                         setActiveChip(item.keyword);
                         setActiveCategoryId(item.id || null);
+                        setFavoritesOnly(false);
                       }
                     }}
                     className="flex flex-col items-center gap-1 flex-shrink-0"
@@ -1195,7 +1364,9 @@ export default function ReservePage() {
         {!restricted && allProductDates.length > 0 && availableDates.length === 0 && !search && (
           <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500 mb-40">
             조회된 상품이 없습니다.
-            <div className="text-xs text-gray-400 mt-2">다른 카테고리를 선택해 보세요.</div>
+            <div className="text-xs text-gray-400 mt-2">
+              {favoritesOnly ? '상품의 ♡를 눌러 관심상품으로 담아 두면 판매일이 잡힐 때 알려드려요.' : '다른 카테고리를 선택해 보세요.'}
+            </div>
           </div>
         )}
 
@@ -1262,7 +1433,7 @@ export default function ReservePage() {
                       onClick={() => openDetail(item.id)}
                       role="button"
                     >
-                      <span className="hover:underline">{highlightSearchTerm(item.name, search)}</span>
+                      <span className="hover:underline"><SearchHighlight text={item.name} query={search} /></span>
                     </h2>
                     <div className="flex items-center gap-1.5 mt-0.5">
                       <span
@@ -1272,9 +1443,30 @@ export default function ReservePage() {
                       >
                         상세보기 &gt;
                       </span>
+                      <button
+                        type="button"
+                        onClick={() => handleToggleFavorite(item)}
+                        disabled={favoritePending}
+                        aria-pressed={favorites.productNames.includes(item.name)}
+                        aria-label={favorites.productNames.includes(item.name) ? `${item.name} 관심상품 해제` : `${item.name} 관심상품 등록`}
+                        className={`text-sm leading-none disabled:opacity-60 ${favorites.productNames.includes(item.name) ? 'text-rose-500' : 'text-gray-300 hover:text-rose-400'}`}
+                      >
+                        {favorites.productNames.includes(item.name) ? '♥' : '♡'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleShareProduct(item)}
+                        aria-label={`${item.name} 공유하기`}
+                        className="text-[11px] text-gray-400 hover:text-gray-600"
+                      >
+                        공유
+                      </button>
                       {item.stock > 0 && item.stock <= 20 && (
                         <span className="text-[10px] bg-red-100 text-red-600 border border-red-300 px-1.5 py-0.5 rounded-full font-medium">마감임박</span>
                       )}
+                      {item.stock === 0 && (
+                        <span className="text-[10px] bg-gray-100 text-gray-600 border border-gray-300 px-1.5 py-0.5 rounded-full">품절</span>
+                      )}
                       {item.deliveryAvailable === false && (
                         <span className="text-[10px] bg-rose-100 text-rose-700 border border-rose-300 px-1.5 py-0.5 rounded-full">배달 X</span>
                       )}
@@ -1305,19 +1497,28 @@ export default function ReservePage() {
                           +
                         </button>
                       </div>
-                      <button
-                        onClick={() => handleReserve(item)}
-                        disabled={item.stock === 0 || !isReservationTimeOpen(item, timeOffsetMs) || reservingProductId !== null}
-                        className={`h-7 w-20 rounded text-xs font-medium flex-shrink-0 ${item.stock === 0 || !isReservationTimeOpen(item, timeOffsetMs) || reservingProductId !== null ? 'bg-gray-300 text-gray-600 cursor-not-allowed' : 'bg-orange-500 hover:bg-orange-600 text-white'}`}
-                      >
-                        {item.stock === 0
-                          ? '품절'
-                          : (reservingProductId !== null
+                      {item.stock === 0 ? (
+                        <button
+                          onClick={() => handleToggleWaitlist(item)}
+                          disabled={waitlistPendingId !== null}
+                          aria-pressed={waitlistIds.has(item.id)}
+                          className={`h-7 w-20 rounded text-xs font-medium flex-shrink-0 border disabled:opacity-60 ${waitlistIds.has(item.id) ? 'bg-white text-orange-600 border-orange-400' : 'bg-gray-700 hover:bg-gray-800 text-white border-gray-700'}`}
+                        >
+                          {waitlistIds.has(item.id) ? '🔔 신청됨' : '입고 알림'}
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => handleReserve(item)}
+                          disabled={!isReservationTimeOpen(item, timeOffsetMs) || reservingProductId !== null}
+                          className={`h-7 w-20 rounded text-xs font-medium flex-shrink-0 ${!isReservationTimeOpen(item, timeOffsetMs) || reservingProductId !== null ? 'bg-gray-300 text-gray-600 cursor-not-allowed' : 'bg-orange-500 hover:bg-orange-600 text-white'}`}
+                        >
+                          {reservingProductId !== null
                             ? '예약 중'
                             : (isReservationTimeOpen(item, timeOffsetMs)
                               ? '예약하기'
-                              : `${(item.sellTime || '00:00').slice(0, 5)} 오픈`))}
-                      </button>
+                              : `${(item.sellTime || '00:00').slice(0, 5)} 오픈`)}
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -1357,8 +1558,11 @@ export default function ReservePage() {
       {detailDialog.isOpen && (
         <ProductDetailPage
           isOpen={detailDialog.isOpen}
-          onClose={() => setDetailDialog({ isOpen: false, productId: 0 })}
+          onClose={closeDetail}
           productId={detailDialog.productId}
+          isFavorite={favorites.productNames.includes(products.find(p => p.id === detailDialog.productId)?.name ?? '')}
+          onToggleFavorite={handleToggleFavorite}
+          favoritePending={favoritePending}
         />
       )}
 
@@ -1537,7 +1741,7 @@ export default function ReservePage() {
                       />
                       <div className="flex-1">
                         <div className="text-sm font-medium text-gray-800">
-                          {highlightSearchTerm(product.name, tempSearch)}
+                          <SearchHighlight text={product.name} query={tempSearch} />
                         </div>
                         <div className="text-xs text-gray-500">
                           {product.price.toLocaleString()}원
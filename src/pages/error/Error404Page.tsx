@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useSnackbar } from '../../components/snackbar';
+import type { AuthErrorState } from '../../utils/apiError';
 
 type ErrCtx = {
   message?: string | null;
@@ -10,6 +11,7 @@ type ErrCtx = {
 
 export default function Error404Page() {
   const nav = useNavigate();
+  const location = useLocation();
   const { show } = useSnackbar();
   const [countdown, setCountdown] = useState(2);
   const [ctx, setCtx] = useState<ErrCtx>({
@@ -18,22 +20,17 @@ export default function Error404Page() {
   });
 
   useEffect(() => {
-    // 1) localStorage에서 ‘한 번만’ 읽고
-    const message = localStorage.getItem('error-message');
-    const type = (localStorage.getItem('error-type') === 'admin') ? 'admin' : 'user';
-    const redirectStored = localStorage.getItem('error-redirect');
+    // 1) router state에서 ‘한 번만’ 읽고
+    const state = location.state as AuthErrorState | null;
+    const message = state?.message ?? null;
+    const type = state?.scope === 'admin' ? 'admin' : 'user';
     const fallback = type === 'admin' ? '/admin/shop/login' : '/';
-    const redirectUrl = redirectStored || fallback;
+    const redirectUrl = state?.redirectUrl || fallback;
 
     setCtx({ message, type, redirectUrl });
 
     if (message) show(message, { variant: 'error' });
 
-    // 2) 바로 지워도 OK (이후에는 state만 사용)
-    localStorage.removeItem('error-message');
-    localStorage.removeItem('error-type');
-    localStorage.removeItem('error-redirect');
-
     // 3) 자동 이동
     const t = setTimeout(() => nav(redirectUrl, { replace: true }), 2000);
 
@@ -46,7 +43,7 @@ export default function Error404Page() {
       clearTimeout(t);
       clearInterval(interval);
     };
-  }, [nav, show]);
+  }, [nav, show, location.state]);
 
   const getCountdownText = () => {
     const pageName = ctx.type === 'admin' ? '관리자 로그인' : '로그인';
@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import CourierHeader from '../../components/shop/CourierHeader';
+import { USE_MOCKS } from '../../config';
+import { safeErrorLog } from '../../utils/environment';
+import { getCourierConfig, getCourierProducts, type CourierConfig } from '../../utils/api';
+import {
+  updateQuantity,
+  removeFromCart,
+  clearCart,
+  estimateShippingFee,
+  syncCartWithServer,
+  revalidateCart,
+  hasCartChanges,
+  acknowledgeCartChanges,
+  type CartItem,
+} from '../../utils/courierCart';
+import { useCart } from '../../hooks/useCart';
+
+const KRW = (price: number) =>
+  price.toLocaleString('ko-KR', { style: 'currency', currency: 'KRW' });
+
+const changeMessages = (item: CartItem): string[] => {
+  const messages: string[] = [];
+  if (item.changes?.includes('unavailable')) messages.push('판매가 종료된 상품입니다.');
+  if (item.changes?.includes('sold_out')) messages.push('품절된 상품입니다.');
+  if (item.changes?.includes('price') && item.previousPrice !== undefined) {
+    messages.push(`가격이 ${KRW(item.previousPrice)}에서 ${KRW(item.price)}(으)로 변경되었습니다.`);
+  }
+  if (item.changes?.includes('quantity') && item.previousQuantity !== undefined) {
+    messages.push(`재고 부족으로 수량이 ${item.previousQuantity}개에서 ${item.quantity}개로 조정되었습니다.`);
+  }
+  return messages;
+};
+
+export default function CourierCartPage() {
+  const nav = useNavigate();
+  const { items, totalPrice: productAmount } = useCart();
+  const [config, setConfig] = useState<CourierConfig | null>(null);
+  const [validating, setValidating] = useState(!USE_MOCKS);
+
+  // 서버 장바구니 동기화 후 최신 가격/재고로 재검증
+  useEffect(() => {
+    if (USE_MOCKS) return;
+    let alive = true;
+    (async () => {
+      try {
+        await syncCartWithServer();
+        const products = await getCourierProducts();
+        revalidateCart(products);
+      } catch (e) {
+        safeErrorLog(e, 'CourierCartPage - revalidateCart');
+      } finally {
+        if (alive) setValidating(false);
+      }
+    })();
+    return () => { alive = false; };
+  }, []);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      if (USE_MOCKS) return;
+      try {
+        const cfg = await getCourierConfig();
+        if (alive) setConfig(cfg);
+      } catch (e) {
+        safeErrorLog(e, 'CourierCartPage - getCourierConfig');
+      }
+    })();
+    return () => { alive = false; };
+  }, []);
+
+  const changeQuantity = (item: CartItem, diff: number) => {
+    updateQuantity(item.courierProductId, item.quantity + diff);
+  };
+
+  const remove = (item: CartItem) => {
+    removeFromCart(item.courierProductId);
+  };
+
+  const confirmChanges = () => {
+    acknowledgeCartChanges();
+  };
+
+  const removeAll = () => {
+    if (!window.confirm('장바구니를 비우시겠습니까?')) return;
+    clearCart();
+  };
+
+  const shippingFee = estimateShippingFee(productAmount, config);
+  const changed = hasCartChanges(items);
+  const remainForFree = config && config.freeShippingMinAmount > 0 && shippingFee > 0
+    ? config.freeShippingMinAmount - productAmount
+    : 0;
+
+  return (
+    <main className="bg-[#f6f6f6] min-h-screen flex flex-col items-center px-4 sm:px-6 lg:px-8 pt-16 pb-28">
+      <CourierHeader title="장바구니" showBack hideCart />
+
+      <section className="w-full max-w-md">
+        {items.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">
+            장바구니가 비어 있습니다.
+            <button
+              type="button"
+              onClick={() => nav('/shop')}
+              className="mt-4 block w-full h-10 rounded text-white text-sm font-medium"
+              style={{ backgroundColor: 'var(--color-primary-500)' }}
+            >
+              상품 보러가기
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between mb-2 px-1">
+              <div className="text-sm text-gray-600">총 {items.length}개 상품</div>
+              <button type="button" onClick={removeAll} className="text-xs text-gray-500 hover:text-gray-700">전체 삭제</button>
+            </div>
+            {changed && (
+              <div className="mb-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+                <div className="font-semibold">장바구니 상품 정보가 변경되었습니다.</div>
+                <div className="mt-0.5">변경 내용을 확인해주세요. 품절/판매 종료 상품은 확인 시 장바구니에서 삭제됩니다.</div>
+                <button
+                  type="button"
+                  onClick={confirmChanges}
+                  className="mt-2 h-8 px-3 rounded bg-amber-500 text-white text-xs font-medium hover:bg-amber-600"
+                >
+                  변경 내용 확인
+                </button>
+              </div>
+            )}
+            <div className="space-y-2">
+              {items.map(item => {
+                const messages = changeMessages(item);
+                const unavailable = !!item.changes?.some(c => c === 'sold_out' || c === 'unavailable');
+                return (
+                  <div
+                    key={item.courierProductId}
+                    className={`bg-white rounded-lg shadow p-3 flex gap-3 ${messages.length > 0 ? 'ring-2 ring-amber-300' : ''} ${unavailable ? 'opacity-70' : ''}`}
+                  >
+                    <img
+                      src={item.imageUrl}
+                      alt={item.name}
+                      className="w-20 h-20 object-cover rounded-lg border flex-shrink-0 cursor-pointer"
+                      onClick={() => nav(`/shop/products/${item.courierProductId}`)}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="text-sm font-semibold leading-tight truncate">{item.name}</div>
+                        <button
+                          type="button"
+                          onClick={() => remove(item)}
+                          className="h-6 w-6 grid place-items-center rounded hover:bg-gray-100 text-gray-400 flex-shrink-0"
+                          aria-label={`${item.name} 삭제`}
+                        >
+                          ✕
+                        </button>
+                      </div>
+                      <div className="text-xs text-gray-400 mt-0.5">{KRW(item.price)}</div>
+                      <div className="mt-2 flex items-center justify-between">
+                        <div className="flex items-center border rounded overflow-hidden h-7 bg-white">
+                          <button
+                            onClick={() => changeQuantity(item, -1)}
+                            className="w-8 h-full bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm disabled:opacity-30"
+                            disabled={item.quantity <= 1 || unavailable}
+                            aria-label="수량 감소"
+                          >
+                            -
+                          </button>
+                          <span className="w-8 text-center text-xs">{item.quantity}</span>
+                          <button
+                            onClick={() => changeQuantity(item, 1)}
+                            className="w-8 h-full bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm disabled:opacity-30"
+                            disabled={item.quantity >= item.stock || unavailable}
+                            aria-label="수량 증가"
+                          >
+                            +
+                          </button>
+                        </div>
+                        <div className="text-sm font-semibold text-gray-900">{KRW(item.price * item.quantity)}</div>
+                      </div>
+                      {!unavailable && item.quantity >= item.stock && (
+                        <div className="mt-1 text-[11px] text-red-500">최대 구매 가능 수량입니다.</div>
+                      )}
+                      {messages.map(msg => (
+                        <div key={msg} className="mt-1 text-[11px] text-amber-700">• {msg}</div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="mt-4 bg-white rounded-lg shadow p-4 text-sm text-gray-700 space-y-2">
+              <div className="flex items-center justify-between">
+                <span>상품 금액</span>
+                <span>{KRW(productAmount)}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span>배송비</span>
+                <span>{shippingFee === 0 ? '무료' : KRW(shippingFee)}</span>
+              </div>
+              {remainForFree > 0 && (
+                <div className="text-xs text-orange-600">{remainForFree.toLocaleString()}원 더 담으면 무료배송</div>
+              )}
+              <div className="flex items-center justify-between font-semibold text-gray-900 pt-2 border-t">
+                <span>결제 예정 금액</span>
+                <span>{KRW(productAmount + shippingFee)}</span>
+              </div>
+              <div className="text-xs text-gray-400">도서산간 지역은 추가 배송비가 부과될 수 있습니다.</div>
+            </div>
+          </>
+        )}
+      </section>
+
+      {items.length > 0 && (
+        <div className="fixed bottom-0 left-0 right-0 z-40 bg-white border-t border-gray-200 shadow-[0_-2px_8px_rgba(0,0,0,0.06)]">
+          <div className="mx-auto max-w-md px-4 py-3">
+            <button
+              type="button"
+              onClick={() => nav('/shop/checkout')}
+              disabled={validating || changed}
+              className="w-full h-11 rounded text-white font-semibold disabled:opacity-60"
+              style={{ backgroundColor: 'var(--color-primary-500)' }}
+            >
+              {validating
+                ? '재고 확인 중...'
+                : changed
+                  ? '변경 내용을 확인해주세요'
+                  : `${KRW(productAmount + shippingFee)} 주문하기`}
+            </button>
+          </div>
+        </div>
+      )}
+    </main>
+  );
+}
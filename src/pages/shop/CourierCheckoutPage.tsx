@@ -0,0 +1,434 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Link, Navigate, useNavigate } from 'react-router-dom';
+import { useSnackbar } from '../../components/snackbar';
+import CourierHeader from '../../components/shop/CourierHeader';
+import { USE_MOCKS } from '../../config';
+import { theme } from '../../brand';
+import { safeErrorLog, getSafeErrorMessage } from '../../utils/environment';
+import {
+  getCourierConfig,
+  getCourierProducts,
+  getDeliveryInfo,
+  createCourierPaymentReady,
+  type CourierConfig,
+  type PaymentReady,
+} from '../../utils/api';
+import { ApiError } from '../../utils/apiError';
+import { getCart, clearCart, estimateShippingFee, revalidateCart, hasCartChanges } from '../../utils/courierCart';
+
+const KRW = (price: number) =>
+  price.toLocaleString('ko-KR', { style: 'currency', currency: 'KRW' });
+
+type ReceiverInfo = {
+  name: string;
+  phone: string;
+  postalCode: string;
+  address1: string;
+  address2: string;
+  memo: string;
+};
+
+const MEMO_PRESETS = ['문 앞에 놓아주세요', '경비실에 맡겨주세요', '배송 전 연락 부탁드립니다'];
+
+export default function CourierCheckoutPage() {
+  const nav = useNavigate();
+  const { show } = useSnackbar();
+  const [items, setItems] = useState(() => getCart());
+  const [validating, setValidating] = useState(!USE_MOCKS);
+  const [config, setConfig] = useState<CourierConfig | null>(null);
+  const [receiver, setReceiver] = useState<ReceiverInfo>(() => {
+    const saved = localStorage.getItem('nickname');
+    return {
+      name: saved && saved !== '신규 고객' ? saved : '',
+      phone: '',
+      postalCode: '',
+      address1: '',
+      address2: '',
+      memo: '',
+    };
+  });
+  const [agreed, setAgreed] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [paymentFallbackPcUrl, setPaymentFallbackPcUrl] = useState<string | null>(null);
+  const idempotencyKeyRef = useRef<string | null>(null);
+
+  const buildIdempotencyKey = () => {
+    if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+      return crypto.randomUUID();
+    }
+    return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+  };
+
+  // 결제 전 최신 가격/재고 재검증 (변경 시 장바구니에서 확인 후 다시 주문)
+  const revalidate = async (): Promise<boolean> => {
+    const products = await getCourierProducts();
+    if (!products) throw new Error('택배 상품 목록을 불러오지 못했습니다.');
+    const next = revalidateCart(products);
+    setItems(next);
+    return !hasCartChanges(next);
+  };
+
+  useEffect(() => {
+    if (USE_MOCKS) return;
+    let alive = true;
+    (async () => {
+      try {
+        const ok = await revalidate();
+        if (alive && !ok) show('장바구니 상품의 가격 또는 재고가 변경되었습니다.', { variant: 'info' });
+      } catch (e) {
+        safeErrorLog(e, 'CourierCheckoutPage - revalidate');
+      } finally {
+        if (alive) setValidating(false);
+      }
+    })();
+    return () => { alive = false; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      if (USE_MOCKS) return;
+      try {
+        const cfg = await getCourierConfig();
+        if (alive) setConfig(cfg);
+      } catch (e) {
+        safeErrorLog(e, 'CourierCheckoutPage - getCourierConfig');
+      }
+    })();
+    return () => { alive = false; };
+  }, []);
+
+  // 매장 배달 시 저장한 연락처/주소가 있으면 기본값으로 사용
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      if (USE_MOCKS) return;
+      try {
+        const info = await getDeliveryInfo();
+        if (!alive || !info) return;
+        setReceiver(prev => ({
+          ...prev,
+          phone: prev.phone || info.phone || '',
+          postalCode: prev.postalCode || info.postalCode || '',
+          address1: prev.address1 || info.address1 || '',
+          address2: prev.address2 || info.address2 || '',
+        }));
+      } catch (e) {
+        safeErrorLog(e, 'CourierCheckoutPage - getDeliveryInfo');
+      }
+    })();
+    return () => { alive = false; };
+  }, []);
+
+  const productAmount = useMemo(
+    () => items.reduce((sum, it) => sum + it.price * it.quantity, 0),
+    [items]
+  );
+  const shippingFee = estimateShippingFee(productAmount, config);
+  const enabled = config?.enabled !== false;
+  const cartChanged = hasCartChanges(items);
+
+  const submitBlockers = useMemo(() => {
+    const reasons: string[] = [];
+    if (!enabled) reasons.push('현재 택배 주문이 중단되어 있습니다.');
+    if (validating) reasons.push('상품 재고를 확인하고 있습니다.');
+    if (cartChanged) reasons.push('장바구니 상품 정보가 변경되었습니다. 장바구니에서 확인해주세요.');
+    if (!receiver.name.trim()) reasons.push('받는 분 성함을 입력해주세요.');
+    if (!/^01\d{8,9}$/.test(receiver.phone)) reasons.push('연락처를 정확히 입력해주세요.');
+    if (!receiver.postalCode || !receiver.address1) reasons.push('주소를 입력해주세요.');
+    if (!agreed) reasons.push('주문 내용 확인 및 결제 진행에 동의해주세요.');
+    if (submitting) reasons.push('결제 준비 중입니다.');
+    return reasons;
+  }, [enabled, validating, cartChanged, receiver.name, receiver.phone, receiver.postalCode, receiver.address1, agreed, submitting]);
+  const canSubmit = submitBlockers.length === 0;
+
+  const openPostcode = () => {
+    const kakaoPostcode = (window as any)?.kakao?.Postcode;
+    if (!kakaoPostcode) {
+      show('주소 검색을 불러올 수 없습니다.', { variant: 'error' });
+      return;
+    }
+    new kakaoPostcode({
+      oncomplete: (data: any) => {
+        setReceiver(prev => ({
+          ...prev,
+          postalCode: data.zonecode || '',
+          address1: data.roadAddress || data.address || '',
+          address2: data.buildingName || '',
+        }));
+      },
+    }).open();
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    setSubmitting(true);
+    try {
+      if (USE_MOCKS) {
+        clearCart();
+        show('모의 결제로 처리되었습니다.', { variant: 'info' });
+        nav('/shop/me/orders', { replace: true });
+        return;
+      }
+      const idempotencyKey = idempotencyKeyRef.current ?? buildIdempotencyKey();
+      idempotencyKeyRef.current = idempotencyKey;
+      let data: PaymentReady;
+      try {
+        data = await createCourierPaymentReady({
+          items: items.map(it => ({ courierProductId: it.courierProductId, quantity: it.quantity })),
+          receiverName: receiver.name.trim(),
+          receiverPhone: receiver.phone,
+          postalCode: receiver.postalCode,
+          address1: receiver.address1,
+          address2: receiver.address2,
+          shippingMemo: receiver.memo,
+          idempotencyKey,
+        });
+      } catch (e) {
+        if (e instanceof ApiError && (e.status === 400 || e.status === 409)) {
+          show(e.serverMessage || '주문할 수 없는 상품이 포함되어 있습니다.', { variant: 'error' });
+          await revalidate().catch(err => safeErrorLog(err, 'CourierCheckoutPage - revalidate after reject'));
+          return;
+        }
+        throw e;
+      }
+      if (data.orderCode) localStorage.setItem('pendingCourierOrderCode', data.orderCode);
+      const isMobile = /Android|iPhone|iPad|iPod/i.test(navigator.userAgent);
+      const mobileUrl = data.mobileRedirectUrl;
+      const pcUrl = data.redirectUrl;
+
+      const isAllowedPaymentUrl = (url: string): boolean => {
+        try {
+          const { hostname } = new URL(url);
+          return hostname === 'online-pay.kakao.com' || hostname === 'online-payment.kakaopay.com' || hostname === 'mockup-pg-web.kakao.com';
+        } catch {
+          return false;
+        }
+      };
+
+      if (pcUrl && !isAllowedPaymentUrl(pcUrl)) throw new Error('허용되지 않은 결제 URL입니다.');
+      if (mobileUrl && !isAllowedPaymentUrl(mobileUrl)) throw new Error('허용되지 않은 결제 URL입니다.');
+
+      if (!isMobile) {
+        if (!pcUrl) throw new Error('결제 URL이 없습니다.');
+        window.location.href = pcUrl;
+      } else if (mobileUrl) {
+        setTimeout(() => { setPaymentFallbackPcUrl(pcUrl || null); }, 2000);
+        window.location.href = mobileUrl;
+      } else if (pcUrl) {
+        setPaymentFallbackPcUrl(pcUrl);
+      } else {
+        throw new Error('결제 URL이 없습니다.');
+      }
+    } catch (e) {
+      safeErrorLog(e, 'CourierCheckoutPage - handleSubmit');
+      show(getSafeErrorMessage(e, '택배 결제 준비 중 오류가 발생했습니다.'), { variant: 'error' });
+    } finally {
+      setSubmitting(false);
+      idempotencyKeyRef.current = null;
+    }
+  };
+
+  if (items.length === 0) return <Navigate to="/shop/cart" replace />;
+
+  return (
+    <main className="min-h-screen bg-gray-50 px-4 sm:px-6 lg:px-8 pt-16 pb-24">
+      <CourierHeader title="주문/결제" showBack hideCart />
+
+      <section className="max-w-md mx-auto mt-4 bg-white rounded-lg shadow p-4">
+        <h2 className="text-base font-semibold text-gray-800 mb-3">받는 분</h2>
+        <div className="space-y-3">
+          <div>
+            <label className="text-xs text-gray-500">성함</label>
+            <input
+              type="text"
+              value={receiver.name}
+              onChange={e => setReceiver(prev => ({ ...prev, name: e.target.value }))}
+              className="mt-1 w-full h-10 border rounded px-2"
+              placeholder="받는 분 성함"
+              maxLength={20}
+            />
+          </div>
+          <div>
+            <label className="text-xs text-gray-500">연락처</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              pattern="[0-9]*"
+              value={receiver.phone}
+              onChange={e => setReceiver(prev => ({ ...prev, phone: e.target.value.replace(/\D/g, '') }))}
+              className="mt-1 w-full h-10 border rounded px-2"
+              placeholder="01012345678"
+              maxLength={11}
+            />
+          </div>
+          <div>
+            <label className="text-xs text-gray-500">주소</label>
+            <div className="mt-1 flex gap-2">
+              <input
+                type="text"
+                value={receiver.postalCode}
+                readOnly
+                className="h-10 w-24 border rounded px-2 bg-gray-50"
+                placeholder="우편번호"
+              />
+              <button type="button" className="h-10 px-3 rounded border bg-white hover:bg-gray-50" onClick={openPostcode}>
+                우편번호 검색
+              </button>
+            </div>
+            <input
+              type="text"
+              value={receiver.address1}
+              readOnly
+              className="mt-2 w-full h-10 border rounded px-2 bg-gray-50"
+              placeholder="기본 주소"
+            />
+            <input
+              type="text"
+              value={receiver.address2}
+              onChange={e => setReceiver(prev => ({ ...prev, address2: e.target.value }))}
+              className="mt-2 w-full h-10 border rounded px-2"
+              placeholder="상세 주소"
+            />
+          </div>
+          <div>
+            <label className="text-xs text-gray-500">배송 메모</label>
+            <div className="mt-1 flex flex-wrap gap-1.5">
+              {MEMO_PRESETS.map(preset => (
+                <button
+                  key={preset}
+                  type="button"
+                  onClick={() => setReceiver(prev => ({ ...prev, memo: preset }))}
+                  className={`px-2 py-1 rounded-full border text-xs ${receiver.memo === preset ? 'border-orange-500 text-orange-600 bg-orange-50' : 'border-gray-200 text-gray-600'}`}
+                >
+                  {preset}
+                </button>
+              ))}
+            </div>
+            <input
+              type="text"
+              value={receiver.memo}
+              onChange={e => setReceiver(prev => ({ ...prev, memo: e.target.value }))}
+              className="mt-2 w-full h-10 border rounded px-2"
+              placeholder="직접 입력 (선택)"
+              maxLength={50}
+            />
+          </div>
+        </div>
+      </section>
+
+      <section className="max-w-md mx-auto mt-4 bg-white rounded-lg shadow p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-base font-semibold text-gray-800">주문 상품</h2>
+          {cartChanged && (
+            <button type="button" onClick={() => nav('/shop/cart')} className="text-xs text-amber-700 underline">
+              장바구니에서 확인
+            </button>
+          )}
+        </div>
+        <div className="space-y-2">
+          {items.map(item => (
+            <div key={item.courierProductId} className="flex items-center gap-3">
+              <img src={item.imageUrl} alt={item.name} className="w-12 h-12 rounded object-cover border" />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-gray-800 truncate">{item.name}</div>
+                <div className="text-xs text-gray-500">{KRW(item.price)} × {item.quantity}</div>
+                {(item.changes?.length ?? 0) > 0 && (
+                  <div className="text-[11px] text-amber-700">가격/재고 변경 · 장바구니에서 확인 필요</div>
+                )}
+              </div>
+              <div className="text-sm font-semibold text-gray-900 whitespace-nowrap">{KRW(item.price * item.quantity)}</div>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="max-w-md mx-auto mt-4 bg-white rounded-lg shadow p-4">
+        <h2 className="text-base font-semibold text-gray-800 mb-3">결제 요약</h2>
+        <div className="text-xs text-gray-700 space-y-2">
+          <div className="flex items-center justify-between">
+            <span>상품 금액</span>
+            <span>{KRW(productAmount)}</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span>배송비</span>
+            <span>{shippingFee === 0 ? '무료' : KRW(shippingFee)}</span>
+          </div>
+          <div className="flex items-center justify-between font-semibold text-gray-900">
+            <span>총 결제 금액</span>
+            <span>{KRW(productAmount + shippingFee)}</span>
+          </div>
+          {config && config.islandSurcharge > 0 && (
+            <div className="text-gray-500">도서산간 지역은 {config.islandSurcharge.toLocaleString()}원이 추가되며, 결제 화면에서 최종 금액을 확인할 수 있습니다.</div>
+          )}
+        </div>
+        <label className="mt-4 flex items-start gap-2 text-xs text-gray-700">
+          <input type="checkbox" checked={agreed} onChange={e => setAgreed(e.target.checked)} className="mt-0.5" />
+          <span>주문 내용을 확인했으며 결제 진행에 동의합니다.</span>
+        </label>
+        <div className="mt-4">
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+            className="w-full h-11 rounded text-white font-medium disabled:opacity-60"
+            style={{ backgroundColor: 'var(--color-primary-500)' }}
+          >
+            {KRW(productAmount + shippingFee)} 결제하기
+          </button>
+          {!canSubmit && submitBlockers.length > 0 && (
+            <div className="mt-3 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-700 space-y-1">
+              {submitBlockers.map((reason, idx) => (
+                <div key={`${reason}-${idx}`}>• {reason}</div>
+              ))}
+            </div>
+          )}
+        </div>
+      </section>
+
+      <section className="max-w-md mx-auto mt-4 bg-white rounded-lg shadow p-4 text-xs text-gray-600 space-y-2">
+        <div className="flex flex-wrap gap-3 text-gray-500">
+          <Link to="/store/terms" className="hover:underline">이용약관</Link>
+          <Link to="/store/privacy" className="hover:underline">개인정보처리방침</Link>
+          <Link to="/store/refund" className="hover:underline">교환/환불 정책</Link>
+        </div>
+        <div className="space-y-1">
+          <div className="font-semibold text-gray-800">{theme.companyName}</div>
+          <div>대표자: {theme.contact.representative}</div>
+          <div>사업자등록번호: {theme.contact.businessNumber}</div>
+          {theme.contact.address && <div>사업장 주소: {theme.contact.address}</div>}
+          <div>전화번호: {theme.contact.phone}</div>
+        </div>
+        <div className="text-gray-400">{theme.copyright}</div>
+      </section>
+
+      {paymentFallbackPcUrl && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4">
+          <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-sm text-center">
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">모바일 결제 연결 실패</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              카카오페이 앱 연결에 실패했습니다.<br />
+              QR 코드 결제로 진행해 주세요.
+            </p>
+            <button
+              type="button"
+              className="w-full h-11 rounded-lg text-gray-900 font-semibold"
+              style={{ backgroundColor: '#FEE500' }}
+              onClick={() => { window.location.href = paymentFallbackPcUrl; }}
+            >
+              QR 코드 결제
+            </button>
+            <button
+              type="button"
+              className="mt-2 w-full h-10 rounded-lg bg-gray-100 text-gray-600 text-sm hover:bg-gray-200"
+              onClick={() => setPaymentFallbackPcUrl(null)}
+            >
+              닫기
+            </button>
+          </div>
+        </div>
+      )}
+    </main>
+  );
+}
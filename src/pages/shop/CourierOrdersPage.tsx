@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useSnackbar } from '../../components/snackbar';
+import CourierHeader from '../../components/shop/CourierHeader';
+import { USE_MOCKS } from '../../config';
+import { safeErrorLog, getSafeErrorMessage } from '../../utils/environment';
+import { getCourierOrders, type CourierOrder, type CourierOrderStatus } from '../../utils/api';
+
+const KRW = (price: number) =>
+  price.toLocaleString('ko-KR', { style: 'currency', currency: 'KRW' });
+
+const STATUS_LABEL: Record<CourierOrderStatus, { label: string; className: string }> = {
+  pending_payment: { label: '결제대기', className: 'bg-gray-100 text-gray-600 border-gray-300' },
+  paid: { label: '결제완료', className: 'bg-blue-50 text-blue-700 border-blue-300' },
+  preparing: { label: '상품준비중', className: 'bg-amber-50 text-amber-700 border-amber-300' },
+  shipped: { label: '배송중', className: 'bg-indigo-50 text-indigo-700 border-indigo-300' },
+  delivered: { label: '배송완료', className: 'bg-green-50 text-green-700 border-green-300' },
+  canceled: { label: '취소', className: 'bg-rose-50 text-rose-700 border-rose-300' },
+  failed: { label: '결제실패', className: 'bg-rose-50 text-rose-700 border-rose-300' },
+};
+
+export default function CourierOrdersPage() {
+  const nav = useNavigate();
+  const { show } = useSnackbar();
+  const [orders, setOrders] = useState<CourierOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      try {
+        setLoading(true);
+        const list = USE_MOCKS ? [] : await getCourierOrders();
+        if (alive) setOrders(list.filter(o => o.status !== 'pending_payment'));
+      } catch (e) {
+        safeErrorLog(e, 'CourierOrdersPage - loadOrders');
+        show(getSafeErrorMessage(e, '주문 내역을 불러오는 중 오류가 발생했습니다.'), { variant: 'error' });
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+    return () => { alive = false; };
+  }, [show]);
+
+  return (
+    <main className="bg-[#f6f6f6] min-h-screen flex flex-col items-center px-4 sm:px-6 lg:px-8 pt-16 pb-12">
+      <CourierHeader title="택배 주문내역" showBack />
+
+      <section className="w-full max-w-md">
+        {loading && <div className="bg-white rounded-lg shadow p-6 text-center text-sm text-gray-500">불러오는 중…</div>}
+
+        {!loading && orders.length === 0 && (
+          <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">
+            택배 주문 내역이 없습니다.
+            <button
+              type="button"
+              onClick={() => nav('/shop')}
+              className="mt-4 block w-full h-10 rounded text-white text-sm font-medium"
+              style={{ backgroundColor: 'var(--color-primary-500)' }}
+            >
+              상품 보러가기
+            </button>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {orders.map(order => {
+            const badge = STATUS_LABEL[order.status] ?? STATUS_LABEL.paid;
+            return (
+              <div key={order.orderCode} className="bg-white rounded-lg shadow p-4">
+                <div className="flex items-center justify-between">
+                  <div className="text-xs text-gray-500">
+                    {order.orderedAt.slice(0, 10)} · {order.orderCode}
+                  </div>
+                  <span className={`text-[11px] px-2 py-0.5 rounded-full border ${badge.className}`}>{badge.label}</span>
+                </div>
+                <div className="mt-2 space-y-1">
+                  {order.items.map(item => (
+                    <div key={item.courierProductId} className="flex items-center justify-between text-sm">
+                      <span className="truncate text-gray-800">{item.name}</span>
+                      <span className="flex-shrink-0 text-gray-500">× {item.quantity}</span>
+                    </div>
+                  ))}
+                </div>
+                <div className="mt-2 pt-2 border-t flex items-center justify-between text-sm">
+                  <span className="text-gray-500">
+                    {order.shippingFee > 0 ? `배송비 ${order.shippingFee.toLocaleString()}원 포함` : '무료배송'}
+                  </span>
+                  <span className="font-semibold text-gray-900">{KRW(order.totalAmount)}</span>
+                </div>
+                {order.waybillNumber && (
+                  <div className="mt-2 rounded bg-gray-50 px-3 py-2 text-xs text-gray-700">
+                    {order.courierCompany ? `${order.courierCompany} ` : ''}송장번호 <span className="font-semibold">{order.waybillNumber}</span>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import DOMPurify from 'dompurify';
+import { theme } from '../../brand';
+import { useSnackbar } from '../../components/snackbar';
+import CourierHeader from '../../components/shop/CourierHeader';
+import { USE_MOCKS } from '../../config';
+import { getCourierProductById } from '../../mocks/courierProducts';
+import { safeErrorLog, getSafeErrorMessage } from '../../utils/environment';
+import { getCourierProduct, type CourierProductDetail } from '../../utils/api';
+import { addToCart } from '../../utils/courierCart';
+import { useCart } from '../../hooks/useCart';
+
+const KRW = (n: number) => n.toLocaleString('ko-KR', { style: 'currency', currency: 'KRW' });
+
+const renderSafeHTML = (html: string) => {
+  if (!html) return '';
+
+  const hasBlock = /<\/?(div|p|ul|ol|li|h[1-6])\b/i.test(html);
+  const processed = hasBlock ? html : html.replace(/\n/g, '<br>');
+
+  return DOMPurify.sanitize(processed, {
+    ALLOWED_TAGS: ['b', 'strong', 'span', 'div', 'p', 'br'],
+    ALLOWED_ATTR: ['style'],
+  });
+};
+
+export default function CourierProductDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const productId = Number(id);
+  const nav = useNavigate();
+  const { show } = useSnackbar();
+
+  const [product, setProduct] = useState<CourierProductDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [quantity, setQuantity] = useState(1);
+  const { items: cartItems } = useCart();
+
+  useEffect(() => {
+    if (!productId) {
+      setLoading(false);
+      return;
+    }
+    let alive = true;
+    (async () => {
+      try {
+        setLoading(true);
+        const data = USE_MOCKS ? getCourierProductById(productId) : await getCourierProduct(productId);
+        if (!data) throw new Error('상품 정보를 불러오지 못했습니다.');
+        if (alive) setProduct(data);
+      } catch (e) {
+        safeErrorLog(e, 'CourierProductDetailPage - loadProduct');
+        show(getSafeErrorMessage(e, '상품 정보를 불러오는 중 오류가 발생했습니다.'), { variant: 'error' });
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+    return () => { alive = false; };
+  }, [productId, show]);
+
+  const inCart = product ? (cartItems.find(c => c.courierProductId === product.id)?.quantity ?? 0) : 0;
+  const maxQuantity = product ? Math.max(0, product.stock - inCart) : 0;
+
+  const putInCart = (): boolean => {
+    if (!product || product.soldOut) return false;
+    if (quantity > maxQuantity) {
+      show(maxQuantity > 0 ? `최대 ${maxQuantity}개까지 더 담을 수 있습니다.` : '이미 재고만큼 장바구니에 담겨 있습니다.', { variant: 'info' });
+      return false;
+    }
+    addToCart({
+      courierProductId: product.id,
+      name: product.name,
+      price: product.price,
+      quantity,
+      imageUrl: product.imageUrl,
+      stock: product.stock,
+    });
+    return true;
+  };
+
+  const handleAddToCart = () => {
+    if (putInCart()) {
+      show(`${product?.name} ${quantity}개를 장바구니에 담았습니다.`);
+      setQuantity(1);
+    }
+  };
+
+  const handleBuyNow = () => {
+    if (putInCart()) nav('/shop/cart');
+  };
+
+  return (
+    <main className="bg-[#f6f6f6] min-h-screen flex flex-col items-center px-4 sm:px-6 lg:px-8 pt-16 pb-24">
+      <CourierHeader title="상품 상세" showBack />
+
+      <section className="w-full max-w-md">
+        {loading ? (
+          <div className="bg-white rounded-lg shadow p-4 space-y-4">
+            <div className="w-full aspect-square bg-gray-200 animate-pulse rounded-lg" />
+            <div className="h-6 bg-gray-200 animate-pulse rounded w-2/3" />
+            <div className="h-4 bg-gray-200 animate-pulse rounded w-1/2" />
+          </div>
+        ) : product ? (
+          <div className="bg-white rounded-lg shadow p-4">
+            <img src={product.imageUrl} alt={product.name} className="w-full aspect-square object-cover rounded-lg border" />
+            <h1 className="mt-3 text-xl font-bold">{product.name}</h1>
+            {product.weight && <div className="mt-0.5 text-sm text-gray-500">{product.weight}</div>}
+            <div className="mt-1 text-lg text-orange-600 font-semibold">{KRW(product.price)}</div>
+            {!product.soldOut && product.stock <= 10 && (
+              <div className="mt-1 text-xs text-red-600">남은 수량 {product.stock}개</div>
+            )}
+
+            {product.description && (
+              <div
+                className="mt-4 text-sm text-gray-700 break-keep leading-relaxed rounded-md border border-gray-200 p-3"
+                dangerouslySetInnerHTML={{ __html: renderSafeHTML(product.description) }}
+              />
+            )}
+
+            {product.detailImages.length > 0 && (
+              <div className="mt-6">
+                <h3 className="text-base font-semibold text-gray-800 mb-2">상세 이미지</h3>
+                <div className="flex flex-col gap-3">
+                  {product.detailImages.map(src => (
+                    <img key={src} src={src} alt="detail" className="w-full object-cover rounded-lg border" />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="mt-4 rounded-md border bg-white p-3 text-xs text-gray-700 space-y-2">
+              <div className="font-semibold text-gray-800">배송/교환/환불 안내</div>
+              <ul className="list-disc list-inside space-y-1">
+                <li>결제 완료 후 영업일 기준 1~3일 내 출고됩니다.</li>
+                <li>신선식품 특성상 단순 변심에 의한 교환/환불이 제한될 수 있습니다.</li>
+              </ul>
+              <div className="flex flex-wrap gap-3 text-blue-600">
+                <Link to="/store/refund" target="_blank" rel="noopener noreferrer" className="hover:underline">교환/환불 정책</Link>
+                <Link to="/store/terms" target="_blank" rel="noopener noreferrer" className="hover:underline">이용약관</Link>
+              </div>
+            </div>
+
+            <div className="mt-3 rounded-md border bg-white p-3 text-xs text-gray-600 space-y-1">
+              <div className="font-semibold text-gray-800">{theme.companyName}</div>
+              <div>대표자: {theme.contact.representative}</div>
+              <div>사업자등록번호: {theme.contact.businessNumber}</div>
+              {theme.contact.address && <div>주소: {theme.contact.address}</div>}
+              <div>전화번호: {theme.contact.phone}</div>
+            </div>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">
+            상품을 찾을 수 없어요.
+          </div>
+        )}
+      </section>
+
+      {product && (
+        <div className="fixed bottom-0 left-0 right-0 z-40 bg-white border-t border-gray-200 shadow-[0_-2px_8px_rgba(0,0,0,0.06)]">
+          <div className="mx-auto max-w-md px-4 py-3 flex items-center gap-2">
+            <div className="flex items-center border rounded overflow-hidden h-10 bg-white">
+              <button
+                onClick={() => setQuantity(q => Math.max(1, q - 1))}
+                className="w-9 h-full bg-gray-100 hover:bg-gray-200 text-gray-700 disabled:opacity-30"
+                disabled={quantity <= 1 || product.soldOut}
+                aria-label="수량 감소"
+              >
+                -
+              </button>
+              <span className="w-10 text-center text-sm">{quantity}</span>
+              <button
+                onClick={() => setQuantity(q => Math.min(Math.max(1, maxQuantity), q + 1))}
+                className="w-9 h-full bg-gray-100 hover:bg-gray-200 text-gray-700 disabled:opacity-30"
+                disabled={quantity >= maxQuantity || product.soldOut}
+                aria-label="수량 증가"
+              >
+                +
+              </button>
+            </div>
+            <button
+              type="button"
+              onClick={handleAddToCart}
+              disabled={product.soldOut}
+              className="flex-1 h-10 rounded border text-sm font-medium disabled:opacity-50"
+              style={{ borderColor: 'var(--color-primary-500)', color: 'var(--color-primary-500)' }}
+            >
+              장바구니
+            </button>
+            <button
+              type="button"
+              onClick={handleBuyNow}
+              disabled={product.soldOut}
+              className="flex-1 h-10 rounded text-sm font-semibold text-white disabled:bg-gray-300 disabled:text-gray-600"
+              style={product.soldOut ? undefined : { backgroundColor: 'var(--color-primary-500)' }}
+            >
+              {product.soldOut ? '품절' : '바로 구매'}
+            </button>
+          </div>
+        </div>
+      )}
+    </main>
+  );
+}
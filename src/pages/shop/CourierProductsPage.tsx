@@ -0,0 +1,180 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useSnackbar } from '../../components/snackbar';
+import CourierHeader from '../../components/shop/CourierHeader';
+import Footer from '../../components/Footer';
+import { USE_MOCKS } from '../../config';
+import { listCourierProducts } from '../../mocks/courierProducts';
+import { safeErrorLog, getSafeErrorMessage } from '../../utils/environment';
+import { getCourierProducts, getCourierConfig, type CourierProduct, type CourierConfig } from '../../utils/api';
+import { addToCart, getCart, syncCartWithServer } from '../../utils/courierCart';
+
+const KRW = (price: number) =>
+  price.toLocaleString('ko-KR', { style: 'currency', currency: 'KRW' });
+
+export default function CourierProductsPage() {
+  const nav = useNavigate();
+  const { show } = useSnackbar();
+
+  const [products, setProducts] = useState<CourierProduct[]>([]);
+  const [config, setConfig] = useState<CourierConfig | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      try {
+        setLoading(true);
+        const list = USE_MOCKS ? listCourierProducts() : (await getCourierProducts()) ?? [];
+        if (alive) setProducts(list);
+      } catch (e) {
+        safeErrorLog(e, 'CourierProductsPage - loadProducts');
+        show(getSafeErrorMessage(e, '상품 목록을 불러오는 중 오류가 발생했습니다.'), { variant: 'error' });
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+    return () => { alive = false; };
+  }, [show]);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      if (USE_MOCKS) return;
+      try {
+        const cfg = await getCourierConfig();
+        if (alive) setConfig(cfg);
+      } catch (e) {
+        safeErrorLog(e, 'CourierProductsPage - getCourierConfig');
+      }
+    })();
+    return () => { alive = false; };
+  }, []);
+
+  // 로그인 사용자는 다른 기기에서 담은 상품과 동기화 (헤더 배지는 useCart로 자동 갱신)
+  useEffect(() => {
+    if (USE_MOCKS) return;
+    syncCartWithServer().catch(e => safeErrorLog(e, 'CourierProductsPage - syncCartWithServer'));
+  }, []);
+
+  // 판매 가능 > 품절, 동순위는 orderIndex asc
+  const sortedProducts = useMemo(() => {
+    return [...products].sort((a, b) => {
+      if (a.soldOut !== b.soldOut) return a.soldOut ? 1 : -1;
+      return (a.orderIndex ?? Number.MAX_SAFE_INTEGER) - (b.orderIndex ?? Number.MAX_SAFE_INTEGER);
+    });
+  }, [products]);
+
+  const handleAddToCart = (product: CourierProduct) => {
+    if (product.soldOut) return;
+    const inCart = getCart().find(c => c.courierProductId === product.id)?.quantity ?? 0;
+    if (inCart >= product.stock) {
+      show(`최대 ${product.stock}개까지 담을 수 있습니다.`, { variant: 'info' });
+      return;
+    }
+    addToCart({
+      courierProductId: product.id,
+      name: product.name,
+      price: product.price,
+      quantity: 1,
+      imageUrl: product.imageUrl,
+      stock: product.stock,
+    });
+    show(`${product.name}을(를) 장바구니에 담았습니다.`);
+  };
+
+  const enabled = config?.enabled !== false;
+
+  return (
+    <main className="bg-[#f6f6f6] min-h-screen flex flex-col items-center px-4 sm:px-6 lg:px-8 pt-16">
+      <CourierHeader />
+
+      <section className="w-full max-w-md pb-8">
+        <div className="bg-white rounded-lg shadow px-3 py-2.5 text-xs text-gray-700 flex flex-wrap items-center gap-2">
+          <span>📦 전국 택배 배송</span>
+          {config && config.freeShippingMinAmount > 0 && (
+            <>
+              <span className="text-gray-300">·</span>
+              <span>{config.freeShippingMinAmount.toLocaleString()}원 이상 무료배송</span>
+            </>
+          )}
+          {config && config.islandSurcharge > 0 && (
+            <>
+              <span className="text-gray-300">·</span>
+              <span className="text-gray-500">도서산간 {config.islandSurcharge.toLocaleString()}원 추가</span>
+            </>
+          )}
+        </div>
+
+        {!enabled && (
+          <div className="mt-3 rounded-lg border border-rose-200 bg-rose-50 p-4 text-sm text-rose-700">
+            현재 택배 주문이 중단되어 있습니다.
+          </div>
+        )}
+
+        {loading && (
+          <div className="mt-3 grid grid-cols-2 gap-3">
+            {[0, 1, 2, 3].map(i => (
+              <div key={i} className="bg-white rounded-lg shadow p-2">
+                <div className="w-full aspect-square bg-gray-200 animate-pulse rounded" />
+                <div className="mt-2 h-4 bg-gray-200 animate-pulse rounded w-2/3" />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!loading && sortedProducts.length === 0 && (
+          <div className="mt-3 bg-white rounded-lg shadow p-6 text-center text-gray-500">
+            현재 판매중인 택배 상품이 없습니다.
+          </div>
+        )}
+
+        {!loading && sortedProducts.length > 0 && (
+          <div className="mt-3 grid grid-cols-2 gap-3">
+            {sortedProducts.map(item => (
+              <div key={item.id} className={`bg-white rounded-lg shadow overflow-hidden flex flex-col ${item.soldOut ? 'opacity-60' : ''}`}>
+                <button
+                  type="button"
+                  onClick={() => nav(`/shop/products/${item.id}`)}
+                  className="relative"
+                  aria-label={`${item.name} 상세보기`}
+                >
+                  <img src={item.imageUrl} alt={item.name} className="w-full aspect-square object-cover" />
+                  {item.soldOut && (
+                    <span className="absolute inset-0 grid place-items-center bg-black/40 text-white text-sm font-semibold">품절</span>
+                  )}
+                </button>
+                <div className="p-2 flex-1 flex flex-col">
+                  <button
+                    type="button"
+                    onClick={() => nav(`/shop/products/${item.id}`)}
+                    className="text-left text-sm font-semibold leading-tight line-clamp-2 hover:underline"
+                  >
+                    {item.name}
+                  </button>
+                  {item.weight && <div className="mt-0.5 text-[11px] text-gray-400">{item.weight}</div>}
+                  <div className="mt-1 text-sm font-semibold text-orange-500">{KRW(item.price)}</div>
+                  <button
+                    type="button"
+                    onClick={() => handleAddToCart(item)}
+                    disabled={item.soldOut || !enabled}
+                    className="mt-auto pt-2"
+                  >
+                    <span
+                      className={`block h-8 rounded text-xs font-medium leading-8 ${item.soldOut || !enabled ? 'bg-gray-300 text-gray-600' : 'text-white'}`}
+                      style={item.soldOut || !enabled ? undefined : { backgroundColor: 'var(--color-primary-500)' }}
+                    >
+                      {item.soldOut ? '품절' : '장바구니 담기'}
+                    </span>
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <Footer />
+    </main>
+  );
+}
@@ -0,0 +1,20 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { apiErrorBus, type AuthErrorState } from '../utils/apiError';
+
+// api.ts의 인증 에러(401/403)를 받아 router로 에러 페이지 이동 (메시지/복귀 경로는 location.state로 전달)
+export default function AuthRedirectListener() {
+  const navigate = useNavigate();
+
+  useEffect(() => apiErrorBus.subscribe(event => {
+    if (event.kind !== 'auth') return;
+    const state: AuthErrorState = {
+      message: event.error.message,
+      scope: event.error.scope,
+      redirectUrl: event.redirectUrl,
+    };
+    navigate(event.error.status === 401 ? '/401' : '/403', { state });
+  }), [navigate]);
+
+  return null;
+}
@@ -0,0 +1,258 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  enqueueOutbox,
+  isOfflineError,
+  listOutbox,
+  removeOutboxEntry,
+  replayOutbox,
+  retryOutboxEntry,
+  subscribeOutbox,
+  type OutboxMutation,
+} from './adminOutbox';
+import { ApiError } from './apiError';
+import { CircuitOpenError } from './retryPolicy';
+
+type StatusRow = { id: number; status: string };
+
+const mockGetAdminReservations = jest.fn<Promise<StatusRow[]>, [string]>();
+const mockGetAdminDeliveries = jest.fn<Promise<StatusRow[]>, [string]>();
+const mockSend = jest.fn<Promise<void>, [string, unknown, string]>();
+
+jest.mock('./api', () => ({
+  getAdminReservations: (date: string) => mockGetAdminReservations(date),
+  getAdminDeliveries: (date: string) => mockGetAdminDeliveries(date),
+  updateReservationStatus: (id: number, status: string) => mockSend('reservation', id, status),
+  updateReservationsStatusBulk: (ids: number[], status: string) => mockSend('bulk', ids, status),
+  updateAdminDeliveryStatus: (id: number, status: string) => mockSend('delivery', id, status),
+}));
+
+// outbox가 쓰는 범위(open, getAll/add/put/delete, 트랜잭션 완료)만 흉내 낸 IndexedDB 대역 (jsdom에는 없음)
+const records = new Map<number, object>();
+let nextId = 1;
+
+const fakeIndexedDB = {
+  open: () => {
+    const req: Record<string, unknown> = {};
+    const store = {
+      getAll: () => ({ result: Array.from(records.values()).map(value => JSON.parse(JSON.stringify(value))) }),
+      add: (value: object) => {
+        const id = nextId++;
+        records.set(id, { ...value, id });
+        return { result: id };
+      },
+      put: (value: { id: number }) => {
+        records.set(value.id, JSON.parse(JSON.stringify(value)));
+        return { result: value.id };
+      },
+      delete: (id: number) => {
+        records.delete(id);
+        return { result: undefined };
+      },
+    };
+    const db = {
+      transaction: () => {
+        const tx: { oncomplete?: () => void; objectStore: () => typeof store } = { objectStore: () => store };
+        Promise.resolve().then(() => tx.oncomplete?.());
+        return tx;
+      },
+    };
+    Promise.resolve().then(() => {
+      req.result = db;
+      (req.onsuccess as () => void)();
+    });
+    return req;
+  },
+};
+
+const reservation = (overrides: Partial<Extract<OutboxMutation, { kind: 'reservationStatus' }>> = {}): OutboxMutation => ({
+  kind: 'reservationStatus',
+  date: '2026-03-02',
+  reservationId: 1,
+  label: 'R-1 사과',
+  previousStatus: 'pending',
+  status: 'picked',
+  ...overrides,
+});
+
+const states = async () => (await listOutbox()).map(entry => entry.state);
+
+beforeAll(() => {
+  (globalThis as { indexedDB?: unknown }).indexedDB = fakeIndexedDB;
+});
+
+// 전송 중 예상하지 못한 오류는 safeErrorLog로 남으므로 테스트 출력에서는 숨김
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  records.clear();
+  mockGetAdminReservations.mockReset();
+  mockGetAdminDeliveries.mockReset();
+  mockSend.mockReset();
+  mockSend.mockResolvedValue(undefined);
+});
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('isOfflineError', () => {
+  it('네트워크 오류, 회로 차단, fetch 실패만 대기열 대상', () => {
+    expect(isOfflineError(new ApiError({ code: 'NETWORK', status: 0, message: '네트워크 오류' }))).toBe(true);
+    expect(isOfflineError(new CircuitOpenError('updateReservationStatus', Date.now() + 1000))).toBe(true);
+    expect(isOfflineError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isOfflineError(new ApiError({ code: 'SERVER', status: 500, message: '서버 오류' }))).toBe(false);
+    expect(isOfflineError(new Error('기타'))).toBe(false);
+  });
+});
+
+describe('대기열', () => {
+  it('저장 순서대로 대기 상태로 보관하고 변경을 알림', async () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeOutbox(listener);
+    await enqueueOutbox(reservation({ reservationId: 1 }));
+    await enqueueOutbox(reservation({ reservationId: 2 }));
+    const entries = await listOutbox();
+    expect(entries.map(entry => entry.kind === 'reservationStatus' && entry.reservationId)).toEqual([1, 2]);
+    expect(entries.map(entry => entry.state)).toEqual(['pending', 'pending']);
+
+    await removeOutboxEntry(entries[0].id);
+    expect(await listOutbox()).toHaveLength(1);
+    expect(listener).toHaveBeenCalledTimes(3);
+    unsubscribe();
+  });
+});
+
+describe('replayOutbox - 충돌 감지', () => {
+  it('서버 상태가 변경 전 상태면 전송 후 삭제', async () => {
+    mockGetAdminReservations.mockResolvedValue([{ id: 1, status: 'pending' }]);
+    await enqueueOutbox(reservation());
+    await expect(replayOutbox()).resolves.toBe(1);
+    expect(mockSend).toHaveBeenCalledWith('reservation', 1, 'picked');
+    expect(await listOutbox()).toEqual([]);
+  });
+
+  it('서버 상태가 이미 변경할 상태면 전송 없이 삭제', async () => {
+    mockGetAdminReservations.mockResolvedValue([{ id: 1, status: 'picked' }]);
+    await enqueueOutbox(reservation());
+    await replayOutbox();
+    expect(mockSend).not.toHaveBeenCalled();
+    expect(await listOutbox()).toEqual([]);
+  });
+
+  it('다른 기기에서 다른 상태로 바뀌었으면 conflict로 남김', async () => {
+    mockGetAdminReservations.mockResolvedValue([{ id: 1, status: 'canceled' }]);
+    await enqueueOutbox(reservation());
+    await replayOutbox();
+    expect(mockSend).not.toHaveBeenCalled();
+    expect(await listOutbox()).toMatchObject([{ state: 'conflict', message: '다른 기기에서 상태가 먼저 변경되었습니다.' }]);
+  });
+
+  it('같은 날짜는 서버 상태를 1번만 조회하고 앞선 전송 결과를 반영해 비교', async () => {
+    mockGetAdminReservations.mockResolvedValue([{ id: 1, status: 'pending' }]);
+    await enqueueOutbox(reservation());
+    await enqueueOutbox(reservation({ previousStatus: 'picked', status: 'canceled' }));
+    await expect(replayOutbox()).resolves.toBe(2);
+    expect(mockGetAdminReservations).toHaveBeenCalledTimes(1);
+    expect(mockSend.mock.calls).toEqual([['reservation', 1, 'picked'], ['reservation', 1, 'canceled']]);
+  });
+
+  it('일괄 변경은 예약마다 변경 전 상태와 비교하고 아직 바뀌지 않은 예약만 전송', async () => {
+    mockGetAdminReservations.mockResolvedValue([
+      { id: 1, status: 'pending' },
+      { id: 2, status: 'no_show' },
+      { id: 3, status: 'picked' },
+    ]);
+    await enqueueOutbox({
+      kind: 'reservationStatusBulk',
+      date: '2026-03-02',
+      reservationIds: [1, 2, 3],
+      label: '3건',
+      previousStatuses: { 1: 'pending', 2: 'no_show', 3: 'pending' },
+      status: 'picked',
+    });
+    await replayOutbox();
+    expect(mockSend).toHaveBeenCalledWith('bulk', [1, 2], 'picked');
+    expect(await listOutbox()).toEqual([]);
+  });
+
+  it('일괄 변경 중 1건이라도 다른 기기에서 바뀌었으면 전체를 conflict로 남김', async () => {
+    mockGetAdminReservations.mockResolvedValue([{ id: 1, status: 'pending' }, { id: 2, status: 'canceled' }]);
+    await enqueueOutbox({
+      kind: 'reservationStatusBulk',
+      date: '2026-03-02',
+      reservationIds: [1, 2],
+      label: '2건',
+      previousStatuses: { 1: 'pending', 2: 'pending' },
+      status: 'picked',
+    });
+    await replayOutbox();
+    expect(mockSend).not.toHaveBeenCalled();
+    expect(await states()).toEqual(['conflict']);
+  });
+
+  it('배달 상태는 서버 값(대문자)으로 비교', async () => {
+    mockGetAdminDeliveries.mockResolvedValue([{ id: 5, status: 'PAID' }]);
+    await enqueueOutbox({ kind: 'deliveryStatus', date: '2026-03-02', deliveryId: 5, label: 'D-5', previousStatus: 'paid', status: 'out_for_delivery' });
+    await replayOutbox();
+    expect(mockSend).toHaveBeenCalledWith('delivery', 5, 'out_for_delivery');
+    expect(mockGetAdminReservations).not.toHaveBeenCalled();
+  });
+});
+
+describe('replayOutbox - 전송 실패', () => {
+  beforeEach(() => {
+    mockGetAdminReservations.mockResolvedValue([{ id: 1, status: 'pending' }, { id: 2, status: 'pending' }]);
+  });
+
+  it('아직 오프라인이면 순서를 지키기 위해 중단하고 대기 상태 유지', async () => {
+    mockSend.mockRejectedValueOnce(new ApiError({ code: 'NETWORK', status: 0, message: '네트워크 오류' }));
+    await enqueueOutbox(reservation({ reservationId: 1 }));
+    await enqueueOutbox(reservation({ reservationId: 2 }));
+    await expect(replayOutbox()).resolves.toBe(0);
+    expect(mockSend).toHaveBeenCalledTimes(1);
+    expect(await states()).toEqual(['pending', 'pending']);
+  });
+
+  it('5xx/429는 일시 오류로 보고 대기 상태로 중단', async () => {
+    mockSend.mockRejectedValueOnce(new ApiError({ code: 'RATE_LIMITED', status: 429, message: '요청이 많습니다.' }));
+    await enqueueOutbox(reservation({ reservationId: 1 }));
+    await enqueueOutbox(reservation({ reservationId: 2 }));
+    await replayOutbox();
+    expect(mockSend).toHaveBeenCalledTimes(1);
+    expect(await states()).toEqual(['pending', 'pending']);
+  });
+
+  it('그 외 서버 거절은 failed로 남기고 다음 항목 계속', async () => {
+    mockSend.mockRejectedValueOnce(new ApiError({ code: 'BUSINESS', status: 400, message: '이미 마감된 예약입니다.' }));
+    await enqueueOutbox(reservation({ reservationId: 1 }));
+    await enqueueOutbox(reservation({ reservationId: 2 }));
+    await expect(replayOutbox()).resolves.toBe(2);
+    expect(await listOutbox()).toMatchObject([{ state: 'failed', message: '이미 마감된 예약입니다.' }]);
+  });
+
+  it('예상하지 못한 오류는 일반 메시지로 failed', async () => {
+    mockSend.mockRejectedValueOnce(new Error('boom'));
+    await enqueueOutbox(reservation());
+    await replayOutbox();
+    expect(await listOutbox()).toMatchObject([{ state: 'failed', message: '전송 중 오류가 발생했습니다.' }]);
+  });
+
+  it('failed 항목은 다시 전송하면 대기 상태로 돌아가 재전송', async () => {
+    mockSend.mockRejectedValueOnce(new ApiError({ code: 'BUSINESS', status: 409, message: '잠시 후 다시 시도해주세요.' }));
+    await enqueueOutbox(reservation());
+    await replayOutbox();
+    const [failed] = await listOutbox();
+    await expect(retryOutboxEntry(failed.id)).resolves.toBe(1);
+    expect(mockSend).toHaveBeenCalledTimes(2);
+    expect(await listOutbox()).toEqual([]);
+  });
+});
+
+describe('replayOutbox - 동시 호출', () => {
+  it('실행 중에 다시 호출하면 같은 실행을 공유', async () => {
+    mockGetAdminReservations.mockResolvedValue([{ id: 1, status: 'pending' }]);
+    await enqueueOutbox(reservation());
+    const [first, second] = await Promise.all([replayOutbox(), replayOutbox()]);
+    expect(first).toBe(1);
+    expect(second).toBe(1);
+    expect(mockSend).toHaveBeenCalledTimes(1);
+  });
+});
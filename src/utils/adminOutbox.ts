@@ -0,0 +1,250 @@
+import {
+  getAdminDeliveries,
+  getAdminReservations,
+  updateAdminDeliveryStatus,
+  updateReservationStatus,
+  updateReservationsStatusBulk,
+  type ReservationStatus,
+} from './api';
+import { ApiError } from './apiError';
+import { CircuitOpenError, isCircuitFailureStatus } from './retryPolicy';
+import { safeErrorLog } from './environment';
+
+/**
+ * 관리자 상태 변경 오프라인 대기열 (IndexedDB)
+ * - 매장 태블릿 Wi-Fi가 끊겨 수령/배달 상태 변경이 네트워크 오류로 실패하면 대기열에 저장
+ * - 연결이 돌아오면(online 이벤트/화면 진입) 저장 순서대로 재전송
+ * - 재전송 전 서버의 현재 상태를 조회해 충돌 감지
+ *   · 서버 상태 === 변경 전 상태 → 전송
+ *   · 서버 상태 === 변경할 상태 → 이미 반영됨 (삭제)
+ *   · 그 외(다른 기기에서 변경됨) → conflict로 남겨 관리자가 확인 후 삭제
+ * - 5xx/429 응답은 일시 오류로 보고 대기 상태로 남김, 그 외 실패는 failed로 남겨 관리자가 다시 전송하거나 삭제
+ */
+
+export type { ReservationStatus };
+export type DeliveryStatus = 'out_for_delivery' | 'delivered' | 'canceled';
+
+export type OutboxMutation =
+  | { kind: 'reservationStatus'; date: string; reservationId: number; label: string; previousStatus: ReservationStatus; status: ReservationStatus }
+  | { kind: 'reservationStatusBulk'; date: string; reservationIds: number[]; label: string; previousStatuses: Record<number, ReservationStatus>; status: 'pending' | 'picked' | 'canceled' }
+  | { kind: 'deliveryStatus'; date: string; deliveryId: number; label: string; previousStatus: string; status: DeliveryStatus };
+
+export type OutboxEntry = OutboxMutation & {
+  id: number;
+  createdAt: number;
+  state: 'pending' | 'conflict' | 'failed';
+  message?: string;
+};
+
+export const OUTBOX_STATE_LABEL: Record<OutboxEntry['state'], string> = {
+  pending: '전송 대기',
+  conflict: '충돌',
+  failed: '전송 실패',
+};
+
+export const OUTBOX_QUEUED_MESSAGE = '네트워크 연결이 불안정합니다. 변경 내용을 저장해두고 연결되면 자동으로 전송합니다.';
+
+/** 대기열에 넣을 실패인지 (fetch 실패 → ApiError(NETWORK), 반복 실패로 회로 차단) */
+export const isOfflineError = (e: unknown): boolean =>
+  (e instanceof ApiError && e.code === 'NETWORK') || e instanceof CircuitOpenError || e instanceof TypeError;
+
+// === IndexedDB ===
+const DB_NAME = 'admin-outbox';
+const STORE = 'mutations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB를 사용할 수 없습니다.'));
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// === 변경 알림 (현재 탭 + 다른 탭) ===
+type OutboxListener = () => void;
+const listeners = new Set<OutboxListener>();
+
+const channel: BroadcastChannel | null =
+  typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('admin-outbox') : null;
+
+const emitLocal = () => {
+  listeners.forEach(listener => listener());
+};
+
+const notifyOutboxChanged = () => {
+  emitLocal();
+  channel?.postMessage({ type: 'changed' });
+};
+
+channel?.addEventListener('message', emitLocal);
+
+export const subscribeOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// === 대기열 조작 ===
+/** 저장 순서(id 오름차순)대로 반환 */
+export const listOutbox = async (): Promise<OutboxEntry[]> => {
+  const entries = await withStore<OutboxEntry[]>('readonly', store => store.getAll() as IDBRequest<OutboxEntry[]>);
+  return entries.sort((a, b) => a.id - b.id);
+};
+
+export const enqueueOutbox = async (mutation: OutboxMutation): Promise<void> => {
+  const entry: Omit<OutboxEntry, 'id'> = { ...mutation, createdAt: Date.now(), state: 'pending' };
+  await withStore('readwrite', store => store.add(entry));
+  notifyOutboxChanged();
+};
+
+export const removeOutboxEntry = async (id: number): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+  notifyOutboxChanged();
+};
+
+const putOutboxEntry = async (entry: OutboxEntry): Promise<void> => {
+  await withStore('readwrite', store => store.put(entry));
+};
+
+/** 전송 실패 항목을 다시 대기 상태로 돌리고 재전송 */
+export const retryOutboxEntry = async (id: number): Promise<number> => {
+  const entry = (await listOutbox()).find(it => it.id === id);
+  if (entry?.state === 'failed') {
+    const { message, ...rest } = entry;
+    await putOutboxEntry({ ...rest, state: 'pending' });
+    notifyOutboxChanged();
+  }
+  return replayOutbox();
+};
+
+// === 충돌 감지용 서버 상태 조회 ===
+const fetchReservationStatuses = async (date: string): Promise<Map<number, string>> =>
+  new Map((await getAdminReservations(date)).map(r => [r.id, r.status]));
+
+const fetchDeliveryStatuses = async (date: string): Promise<Map<number, string>> =>
+  new Map((await getAdminDeliveries(date)).map(d => [d.id, d.status]));
+
+const targetIds = (entry: OutboxEntry): number[] => {
+  if (entry.kind === 'reservationStatusBulk') return entry.reservationIds;
+  if (entry.kind === 'reservationStatus') return [entry.reservationId];
+  return [entry.deliveryId];
+};
+
+// 배달 상태는 서버 값(대문자)으로 비교
+const normalizeStatus = (entry: OutboxEntry, status: string) =>
+  entry.kind === 'deliveryStatus' ? status.toUpperCase() : status;
+
+// 일괄 변경은 선택한 예약마다 변경 전 상태가 다를 수 있으므로 id별로 비교
+const previousStatusOf = (entry: OutboxEntry, id: number): string | undefined =>
+  entry.kind === 'reservationStatusBulk' ? entry.previousStatuses[id] : normalizeStatus(entry, entry.previousStatus);
+
+const sendMutation = async (entry: OutboxEntry, ids: number[]): Promise<void> => {
+  if (entry.kind === 'deliveryStatus') await updateAdminDeliveryStatus(entry.deliveryId, entry.status);
+  else if (entry.kind === 'reservationStatusBulk') await updateReservationsStatusBulk(ids, entry.status);
+  else await updateReservationStatus(entry.reservationId, entry.status);
+};
+
+let replaying: Promise<number> | null = null;
+
+const replay = async (): Promise<number> => {
+  const entries = (await listOutbox()).filter(entry => entry.state === 'pending');
+  // 같은 실행 안에서는 날짜별 서버 상태를 재사용하고, 전송 성공 시 갱신
+  const snapshots = new Map<string, Map<number, string>>();
+  let processed = 0;
+
+  for (const entry of entries) {
+    try {
+      const snapshotKey = `${entry.kind === 'deliveryStatus' ? 'delivery' : 'reservation'}:${entry.date}`;
+      let current = snapshots.get(snapshotKey);
+      if (!current) {
+        current = entry.kind === 'deliveryStatus'
+          ? await fetchDeliveryStatuses(entry.date)
+          : await fetchReservationStatuses(entry.date);
+        snapshots.set(snapshotKey, current);
+      }
+
+      const target = normalizeStatus(entry, entry.status);
+      const ids = targetIds(entry);
+      const conflicts = ids.filter(id => {
+        const status = current!.get(id);
+        return status !== target && status !== previousStatusOf(entry, id);
+      });
+      if (conflicts.length > 0) {
+        await putOutboxEntry({ ...entry, state: 'conflict', message: '다른 기기에서 상태가 먼저 변경되었습니다.' });
+        processed++;
+        continue;
+      }
+
+      const remaining = ids.filter(id => current!.get(id) !== target);
+      if (remaining.length > 0) {
+        await sendMutation(entry, remaining);
+        remaining.forEach(id => current!.set(id, target));
+      }
+      await withStore('readwrite', store => store.delete(entry.id));
+      processed++;
+    } catch (e) {
+      // 아직 오프라인이면 순서 보장을 위해 여기서 중단 (다음 연결 시 이어서 전송)
+      if (isOfflineError(e)) break;
+      // 서버 일시 오류도 대기 상태로 남기고 중단 (다음 재전송에서 이어서)
+      if (e instanceof ApiError && isCircuitFailureStatus(e.status)) break;
+      if (e instanceof ApiError) {
+        await putOutboxEntry({ ...entry, state: 'failed', message: e.message });
+      } else {
+        safeErrorLog(e, 'adminOutbox - replay');
+        await putOutboxEntry({ ...entry, state: 'failed', message: '전송 중 오류가 발생했습니다.' });
+      }
+      processed++;
+    }
+  }
+
+  if (processed > 0) notifyOutboxChanged();
+  return processed;
+};
+
+/**
+ * 대기 중인 변경을 순서대로 재전송 (처리한 건수 반환)
+ * 동시에 여러 번 호출돼도 1회만 실행, 여러 탭이 열려 있으면 Web Locks로 1개 탭만 전송
+ */
+export const replayOutbox = (): Promise<number> => {
+  if (!replaying) {
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    const run = locks
+      ? locks.request('admin-outbox-replay', { ifAvailable: true }, lock => (lock ? replay() : 0))
+      : replay();
+    replaying = run.finally(() => { replaying = null; });
+  }
+  return replaying;
+};
+
+let syncStarted = false;
+
+/** online 이벤트 시 자동 재전송 (관리자 화면 진입 시 1회 등록) */
+export const startOutboxSync = () => {
+  if (syncStarted || typeof window === 'undefined') return;
+  syncStarted = true;
+  window.addEventListener('online', () => {
+    replayOutbox().catch(e => safeErrorLog(e, 'adminOutbox - online replay'));
+  });
+};
@@ -1,11 +1,18 @@
 import { safeErrorLog, getSafeErrorMessage } from './environment';
+import { s, parseData, parseJson, ApiContractError, type Infer, type Schema } from './apiSchema';
+import { ApiError, apiErrorBus, isAbortError, type ApiErrorScope } from './apiError';
+import { apiCircuit, fetchWithRetry, DEFAULT_RETRY_POLICY, NO_RETRY_POLICY, type RetryPolicy } from './retryPolicy';
+import { fetchQuery, invalidateQueries, QUERY_KEYS } from './queryCache';
+import { EMPTY_FEE_RULES, type DeliveryFeeRules } from './deliveryFee';
+import type { SlotCapacity } from './deliverySlots';
 
 /**
  * 공통 API fetch 유틸리티
  * - User API: Bearer AccessToken + Refresh 쿠키
  * - Admin API: 세션 쿠키(ADMINSESSIONID 등)
  * - 401/403 처리 및 비즈니스 에러 메시지 전파
- * - API별 Retry 카운트(최대 3회) + (관리자/유저 모두 적용)
+ * - 요청별 재시도 정책(백오프/429 Retry-After/회로 차단) → retryPolicy.ts
+ * - 카탈로그 조회 캐시(stale-while-revalidate) → queryCache.ts
  */
 
 interface ApiFetchOptions extends RequestInit {
@@ -20,84 +27,113 @@ interface ApiResponse<T = any> {
 
 // === 공통 상수 ===
 const API_BASE = process.env.REACT_APP_API_BASE || '';
-const MAX_RETRY_PER_API = 3;
-const BASE_BACKOFF_MS = 300;
 
-// === 공통 Retry 상태 (API 키별 관리) ===
-const apiRetryCounts = new Map<string, number>();
+// === 공통 유틸 ===
 const makeApiKey = (scope: 'ADMIN' | 'USER' | 'GEN', method: string, url: string) => `${scope}:${method.toUpperCase()}:${url}`;
 
-export const getApiRetryCount = (apiKey: string) => apiRetryCounts.get(apiKey) || 0;
-export const canRetryApi = (apiKey: string) => (apiRetryCounts.get(apiKey) || 0) < MAX_RETRY_PER_API;
-export const resetApiRetryCount = (apiKey: string) => { apiRetryCounts.delete(apiKey); };
-export const incrementApiRetryCount = (apiKey: string) => {
-  const current = apiRetryCounts.get(apiKey) || 0;
-  const next = Math.min(current + 1, MAX_RETRY_PER_API);
-  apiRetryCounts.set(apiKey, next);
-  return next;
+// === 토큰 유틸 ===
+const getAccessToken = () => localStorage.getItem('access');
+
+// === 로그아웃 (토큰 만료 포함) ===
+// 사용자별 로컬 상태(택배 장바구니 병합 표시 등)는 listener로 함께 정리해 다음 로그인 계정에 넘어가지 않게 함
+const sessionClearedListeners = new Set<() => void>();
+
+export const onUserSessionCleared = (listener: () => void): (() => void) => {
+  sessionClearedListeners.add(listener);
+  return () => { sessionClearedListeners.delete(listener); };
 };
 
-// === 공통 유틸 ===
-const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
-const isIdempotent = (method = 'GET') => ['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase());
-const shouldRetry = (method: string, errorOrResponse: unknown): boolean => {
-  // 네트워크 오류(TypeError) → 항상 재시도 허용
-  if (errorOrResponse instanceof TypeError) return true;
-  // Response 기반 판정
-  const res = errorOrResponse as Response;
-  if (!res || typeof res.status !== 'number') return false;
-  // 5xx는 idempotent 메서드에서만 재시도
-  if (res.status >= 500 && res.status <= 599) return isIdempotent(method);
-  return false;
+const clearUserSession = () => {
+  localStorage.removeItem('access');
+  localStorage.removeItem('refresh');
+  localStorage.removeItem('nickname');
+  sessionClearedListeners.forEach(listener => {
+    try {
+      listener();
+    } catch (e) {
+      safeErrorLog(e, 'clearUserSession');
+    }
+  });
 };
 
-// === 토큰 유틸 ===
-const getAccessToken = () => localStorage.getItem('access');
+// === Access Token 갱신 (single-flight + 탭 간 공유) ===
+// 동시에 여러 요청이 401을 받아도 /api/refresh는 1번만 호출하고 모두 같은 결과를 기다림
+// 탭 간에는 Web Locks('auth-refresh')로 직렬화 → 락을 얻은 뒤 저장된 토큰이 바뀌었으면 다른 탭이 이미 갱신한 것이므로 재사용
+let refreshInFlight: Promise<string | null> | null = null;
 
-// === 공통 에러 메시지 저장 ===
-const pushUiError = (message: string, type: 'error' | 'admin' | 'user' = 'error') => {
-  // 구 UI/신 UI 동시 호환
-  localStorage.setItem('api-error-message', message);
-  localStorage.setItem('api-error-type', 'error');
-  localStorage.setItem('error-message', message);
-  localStorage.setItem('error-type', type);
-  window.dispatchEvent(new CustomEvent('api-error'));
+const refreshWithLock = async (staleToken: string | null): Promise<string | null> => {
+  // 락을 기다리는 사이 다른 탭이 이미 갱신했으면 그 토큰 사용
+  const current = getAccessToken();
+  if (current && current !== staleToken) return current;
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (staleToken) headers.Authorization = `Bearer ${staleToken}`;
+  const res = await fetch(`${API_BASE}/api/refresh`, {
+    method: 'POST', headers, credentials: 'include',
+  });
+  if (!res.ok) return null;
+  const token = await res.text();
+  localStorage.setItem('access', token);
+  return token;
 };
 
-// === JSON 응답 검증(필요 시 확장) ===
-export const validateJsonResponse = async (response: Response) => {
-  return response;
+const runRefresh = (staleToken: string | null): Promise<string | null> => {
+  const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+  return locks
+    ? locks.request('auth-refresh', () => refreshWithLock(staleToken))
+    : refreshWithLock(staleToken);
+};
+
+/**
+ * Access Token 재발급. 실패(refresh 만료 등) 시 null, 네트워크 오류는 throw
+ * @param staleToken 401을 받은 요청에 사용한 토큰 (이미 다른 토큰으로 바뀌었으면 재발급 없이 그 토큰 반환)
+ */
+export const refreshAccessToken = (staleToken: string | null = getAccessToken()): Promise<string | null> => {
+  const current = getAccessToken();
+  if (current && current !== staleToken) return Promise.resolve(current);
+  if (!refreshInFlight) {
+    refreshInFlight = runRefresh(staleToken).finally(() => { refreshInFlight = null; });
+  }
+  return refreshInFlight;
 };
 
-// === 스낵바 표시 유틸 ===
-export const showApiErrorMessage = (show: (message: string, options?: any) => void) => {
-  const msg = localStorage.getItem('api-error-message') || localStorage.getItem('error-message');
-  const type = (localStorage.getItem('api-error-type') || localStorage.getItem('error-type')) as any;
-  if (msg && type) {
-    show(msg, { variant: type });
-    localStorage.removeItem('api-error-message');
-    localStorage.removeItem('api-error-type');
-    localStorage.removeItem('error-message');
-    localStorage.removeItem('error-type');
+// === 공통 에러 발행 (SnackbarProvider 구독) ===
+const notifyApiError = (error: ApiError) => {
+  apiErrorBus.emit({ kind: 'notify', error });
+};
+
+// fetch 자체 실패(TypeError)는 ApiError(NETWORK)로 변환
+const toApiError = (scope: ApiErrorScope) => (e: unknown): never => {
+  if (e instanceof TypeError) {
+    throw new ApiError({ code: 'NETWORK', status: 0, message: '네트워크 연결을 확인해주세요.', scope });
   }
+  throw e;
+};
+
+// === JSON 응답 검증(필요 시 확장) ===
+export const validateJsonResponse = async (response: Response) => {
+  return response;
 };
 
 // === 에러 페이지 연동 유틸 ===
-type ErrorScope = 'admin' | 'user';
 const getAdminRedirectUrl = (apiUrl: string): string => {
   if (apiUrl.includes('/api/admin/courier')) return '/admin/courier/login';
+  // 공용 엔드포인트(/api/admin/validate 등)는 현재 화면 기준으로 판단
+  if (window.location.pathname.startsWith('/admin/courier')) return '/admin/courier/login';
   return '/admin/shop/login';
 };
-const setAuthErrorAndRedirect = (status: number, scope: ErrorScope, message: string, redirectUrl?: string) => {
-  localStorage.setItem('error-message', message);
-  localStorage.setItem('error-type', scope);
-  localStorage.setItem('error-redirect', redirectUrl ?? (scope === 'admin' ? '/admin/shop/login' : '/'));
-  window.location.href = status === 401 ? '/401' : '/403';
+// AuthRedirectListener가 router로 /401, /403 이동
+const redirectAuthError = (status: 401 | 403, scope: ApiErrorScope, message: string, redirectUrl?: string) => {
+  apiErrorBus.emit({
+    kind: 'auth',
+    error: new ApiError({ code: ApiError.codeOf(status), status, message, scope }),
+    redirectUrl: redirectUrl ?? (scope === 'admin' ? '/admin/shop/login' : '/'),
+  });
 };
 
 
 // === 공통 API Fetch (토큰 자동 포함) ===
-export const apiFetch = async (url: string, options: RequestInit = {}, autoRedirect = true) => {
+export const apiFetch = async (url: string, options: RequestInit = {}, autoRedirect = true, policy: RetryPolicy = DEFAULT_RETRY_POLICY) => {
   const token = getAccessToken();
   const isAdminApi = url.includes('/api/admin'); // admin은 쿠키 세션 사용
 
@@ -110,152 +146,96 @@ export const apiFetch = async (url: string, options: RequestInit = {}, autoRedir
   const method = (options.method || 'GET').toString().toUpperCase();
   const apiKey = makeApiKey(isAdminApi ? 'ADMIN' : 'USER', method, url);
 
-  let attempt = 0;
-  while (attempt <= MAX_RETRY_PER_API) {
-    try {
-      const response = await fetch(`${API_BASE}${url}`, {
-        ...options,
-        headers,
-        credentials: isAdminApi ? 'include' : 'omit',
-      });
-
-      // === User API 전용: 401 → refresh 시도 ===
-      if (!isAdminApi && response.status === 401 && !url.includes('/login') && !url.includes('/refresh')) {
-        try {
-          const refreshHeaders: Record<string, string> = { 'Content-Type': 'application/json' };
-          if (token) refreshHeaders.Authorization = `Bearer ${token}`;
-
-          const refreshResponse = await fetch(`${API_BASE}/api/refresh`, {
-            method: 'POST', headers: refreshHeaders, credentials: 'include',
-          });
-          if (refreshResponse.ok) {
-            const newAccessToken = await refreshResponse.text();
-            localStorage.setItem('access', newAccessToken);
-            const newHeaders = { ...headers, Authorization: `Bearer ${newAccessToken}` };
-            return await fetch(`${API_BASE}${url}`, { ...options, headers: newHeaders, credentials: 'include' });
-          }
-          if (autoRedirect) {
-            const msg = '인증이 만료되었습니다. 다시 로그인해주세요.';
-            pushUiError(msg, 'user');
-            localStorage.removeItem('access');
-            localStorage.removeItem('refresh');
-            localStorage.removeItem('nickname');
-            setAuthErrorAndRedirect(401, 'user', msg);
-          }
-          return response;
-        } catch (e) {
-          safeErrorLog(e);
-          if (autoRedirect) {
-            const msg = '인증이 만료되었습니다. 다시 로그인해주세요.';
-            pushUiError(msg, 'user');
-            localStorage.removeItem('access');
-            localStorage.removeItem('refresh');
-            localStorage.removeItem('nickname');
-            setAuthErrorAndRedirect(401, 'user', msg);
-          }
-          return response;
-        }
-      }
+  const response = await fetchWithRetry(apiKey, method, () => fetch(`${API_BASE}${url}`, {
+    ...options,
+    headers,
+    credentials: isAdminApi ? 'include' : 'omit',
+  }), policy).catch(toApiError(isAdminApi ? 'admin' : 'user'));
 
-      // === 403 처리 ===
-      if (autoRedirect && response.status === 403 && !url.includes('/login')) {
-        const msg = '접근 권한이 없습니다.';
-        if (isAdminApi) {
-          pushUiError(msg, 'admin');
-          localStorage.removeItem('admin-auth');
-          setAuthErrorAndRedirect(403, 'admin', msg, getAdminRedirectUrl(url));
-        } else {
-          pushUiError(msg, 'user');
-          setAuthErrorAndRedirect(403, 'user', msg);
-        }
-        return response;
+  // === User API 전용: 401 → refresh 시도 ===
+  if (!isAdminApi && response.status === 401 && !url.includes('/login') && !url.includes('/refresh')) {
+    try {
+      const newAccessToken = await refreshAccessToken(token);
+      if (newAccessToken) {
+        const newHeaders = { ...headers, Authorization: `Bearer ${newAccessToken}` };
+        return await fetch(`${API_BASE}${url}`, { ...options, headers: newHeaders, credentials: 'include' });
       }
-
-      // === 4xx(401,403 제외) 비즈니스 에러 메시지 전파 ===
-      if (response.status >= 400 && response.status < 500 && response.status !== 401 && response.status !== 403) {
-        try {
-          const err = await response.clone().json();
-          const serverMessage = err.message || err.error || `요청 처리 중 오류가 발생했습니다. (${response.status})`;
-          pushUiError(serverMessage);
-        } catch {
-          pushUiError(`요청 처리 중 오류가 발생했습니다. (${response.status})`);
-        }
+      if (autoRedirect) {
+        const msg = '인증이 만료되었습니다. 다시 로그인해주세요.';
+        clearUserSession();
+        redirectAuthError(401, 'user', msg);
       }
-
-      // 성공 또는 재시도 불필요한 응답
-      resetApiRetryCount(apiKey);
       return response;
-    } catch (err) {
-      attempt = incrementApiRetryCount(apiKey);
-      const isNetwork = err instanceof TypeError;
-      const allowRetry = isNetwork;
-
-      if (!canRetryApi(apiKey) || !allowRetry) {
-        resetApiRetryCount(apiKey);
-        throw err;
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      safeErrorLog(e);
+      if (autoRedirect) {
+        const msg = '인증이 만료되었습니다. 다시 로그인해주세요.';
+        clearUserSession();
+        redirectAuthError(401, 'user', msg);
       }
-      const backoff = BASE_BACKOFF_MS * Math.pow(2, attempt - 1) + Math.random() * 100;
-      await delay(backoff);
+      return response;
+    }
+  }
+
+  // === 403 처리 ===
+  if (autoRedirect && response.status === 403 && !url.includes('/login')) {
+    const msg = '접근 권한이 없습니다.';
+    if (isAdminApi) {
+      localStorage.removeItem('admin-auth');
+      redirectAuthError(403, 'admin', msg, getAdminRedirectUrl(url));
+    } else {
+      redirectAuthError(403, 'user', msg);
     }
+    return response;
+  }
+
+  // === 4xx(401,403 제외) 비즈니스 에러 메시지 전파 ===
+  if (response.status >= 400 && response.status < 500 && response.status !== 401 && response.status !== 403) {
+    notifyApiError(await ApiError.fromResponse(response, isAdminApi ? 'admin' : 'user'));
   }
-  throw new Error('예기치 못한 오류가 발생했습니다.');
+
+  // 성공 또는 재시도 불필요한 응답
+  return response;
 };
 
 // === Admin API 전용(fetch + 쿠키, Retry 포함) ===
-export const adminFetch = async (url: string, options: RequestInit = {}, autoRedirect = false): Promise<Response> => {
+export const adminFetch = async (
+  url: string,
+  options: RequestInit = {},
+  autoRedirect = false,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): Promise<Response> => {
   const method = (options.method || 'GET').toString().toUpperCase();
   const apiKey = makeApiKey('ADMIN', method, url);
 
-  let attempt = 0;
-  while (attempt <= MAX_RETRY_PER_API) {
-    try {
-      const response = await fetch(`${API_BASE}${url}`, {
-        ...options,
-        headers: {
-          'Content-Type': 'application/json',
-          ...(options.headers as Record<string, string> | undefined),
-        },
-        credentials: 'include',
-      });
-
-      // Admin: 401/403 처리
-      if (autoRedirect && (response.status === 401 || response.status === 403)) {
-        const msg = response.status === 401 ? '인증이 만료되었습니다. 다시 로그인해주세요.' : '접근 권한이 없습니다.';
-        pushUiError(msg, 'admin');
-        localStorage.removeItem('admin-auth');
-        setAuthErrorAndRedirect(response.status, 'admin', msg, getAdminRedirectUrl(url));
-        return response;
-      }
-
-      // Admin: 4xx(401,403 제외) 비즈니스 에러 메시지 전파
-      if (response.status >= 400 && response.status < 500 && response.status !== 401 && response.status !== 403) {
-        try {
-          const err = await response.clone().json();
-          const serverMessage = err.message || err.error || `요청 처리 중 오류가 발생했습니다. (${response.status})`;
-          pushUiError(serverMessage, 'admin');
-        } catch {
-          pushUiError(`요청 처리 중 오류가 발생했습니다. (${response.status})`, 'admin');
-        }
-      }
+  const response = await fetchWithRetry(apiKey, method, () => fetch(`${API_BASE}${url}`, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.headers as Record<string, string> | undefined),
+    },
+    credentials: 'include',
+  }), policy).catch(toApiError('admin'));
+
+  // Admin: 401/403 처리
+  if (autoRedirect && (response.status === 401 || response.status === 403)) {
+    const msg = response.status === 401 ? '인증이 만료되었습니다. 다시 로그인해주세요.' : '접근 권한이 없습니다.';
+    localStorage.removeItem('admin-auth');
+    redirectAuthError(response.status as 401 | 403, 'admin', msg, getAdminRedirectUrl(url));
+    return response;
+  }
 
-      resetApiRetryCount(apiKey);
-      return response;
-    } catch (err) {
-      attempt = incrementApiRetryCount(apiKey);
-      // Admin: 비멱등 메서드는 네트워크 오류에만 재시도, 멱등 메서드는 5xx/네트워크 오류 재시도
-      if (!canRetryApi(apiKey) || !shouldRetry(method, err)) {
-        resetApiRetryCount(apiKey);
-        throw err;
-      }
-      const backoff = BASE_BACKOFF_MS * Math.pow(2, attempt - 1) + Math.random() * 100;
-      await delay(backoff);
-    }
+  // Admin: 4xx(401,403 제외) 비즈니스 에러 메시지 전파
+  if (response.status >= 400 && response.status < 500 && response.status !== 401 && response.status !== 403) {
+    notifyApiError(await ApiError.fromResponse(response, 'admin'));
   }
-  throw new Error('예기치 못한 오류가 발생했습니다.');
+
+  return response;
 };
 
 // === User API 전용(fetch + 토큰 + 쿠키, Retry 포함) ===
-export const userFetch = async (url: string, options: RequestInit = {}, autoRedirect = true) => {
+export const userFetch = async (url: string, options: RequestInit = {}, autoRedirect = true, policy: RetryPolicy = DEFAULT_RETRY_POLICY) => {
   const token = getAccessToken();
   const method = (options.method || 'GET').toString().toUpperCase();
   const apiKey = makeApiKey('USER', method, url);
@@ -266,109 +246,64 @@ export const userFetch = async (url: string, options: RequestInit = {}, autoRedi
   };
   if (token) baseHeaders.Authorization = `Bearer ${token}`;
 
-  let attempt = 0;
-  while (attempt <= MAX_RETRY_PER_API) {
-    try {
-      const response = await fetch(`${API_BASE}${url}`, {
-        ...options,
-        headers: baseHeaders,
-        credentials: 'include', // refresh용 쿠키
-      });
-
-      // 401/403 → refresh 시도 (login/refresh 자체 제외)
-      if ((response.status === 401 || response.status === 403) && !url.includes('/login') && !url.includes('/refresh')) {
-        try {
-          const refreshHeaders: Record<string, string> = { 'Content-Type': 'application/json' };
-          if (token) refreshHeaders.Authorization = `Bearer ${token}`;
-          const refreshResponse = await fetch(`${API_BASE}/api/refresh`, {
-            method: 'POST', headers: refreshHeaders, credentials: 'include',
-          });
-          if (refreshResponse.ok) {
-            const newAccessToken = await refreshResponse.text();
-            localStorage.setItem('access', newAccessToken);
-            const newHeaders = { ...baseHeaders, Authorization: `Bearer ${newAccessToken}` };
-            return await fetch(`${API_BASE}${url}`, { ...options, headers: newHeaders, credentials: 'include' });
-          } else if (autoRedirect) {
-            const msg = '인증이 만료되었습니다. 다시 로그인해주세요.';
-            pushUiError(msg, 'user');
-            localStorage.removeItem('access');
-            localStorage.removeItem('refresh');
-            localStorage.removeItem('nickname');
-            setAuthErrorAndRedirect(401, 'user', msg);
-          }
-          return response;
-        } catch (e) {
-          safeErrorLog(e);
-          if (autoRedirect) {
-            const msg = '인증이 만료되었습니다. 다시 로그인해주세요.';
-            pushUiError(msg, 'user');
-            localStorage.removeItem('access');
-            localStorage.removeItem('refresh');
-            localStorage.removeItem('nickname');
-            setAuthErrorAndRedirect(401, 'user', msg);
-          }
-          return response;
-        }
-      }
-
-      // 403 처리
-      if (autoRedirect && response.status === 403 && !url.includes('/login')) {
-        const msg = '접근 권한이 없습니다.';
-        pushUiError(msg, 'user');
-        setAuthErrorAndRedirect(403, 'user', msg);
-        return response;
-      }
+  const response = await fetchWithRetry(apiKey, method, () => fetch(`${API_BASE}${url}`, {
+    ...options,
+    headers: baseHeaders,
+    credentials: 'include', // refresh용 쿠키
+  }), policy).catch(toApiError('user'));
 
-      // 4xx(401,403 제외) 비즈니스 에러 메시지 전파
-      if (response.status >= 400 && response.status < 500 && response.status !== 401 && response.status !== 403) {
-        try {
-          const err = await response.clone().json();
-          const serverMessage = err.message || err.error || `요청 처리 중 오류가 발생했습니다. (${response.status})`;
-          pushUiError(serverMessage);
-        } catch {
-          pushUiError(`요청 처리 중 오류가 발생했습니다. (${response.status})`);
-        }
+  // 401/403 → refresh 시도 (login/refresh 자체 제외)
+  if ((response.status === 401 || response.status === 403) && !url.includes('/login') && !url.includes('/refresh')) {
+    try {
+      const newAccessToken = await refreshAccessToken(token);
+      if (newAccessToken) {
+        const newHeaders = { ...baseHeaders, Authorization: `Bearer ${newAccessToken}` };
+        return await fetch(`${API_BASE}${url}`, { ...options, headers: newHeaders, credentials: 'include' });
+      } else if (autoRedirect) {
+        const msg = '인증이 만료되었습니다. 다시 로그인해주세요.';
+        clearUserSession();
+        redirectAuthError(401, 'user', msg);
       }
-
-      resetApiRetryCount(apiKey);
       return response;
-    } catch (err) {
-      attempt = incrementApiRetryCount(apiKey);
-      if (!canRetryApi(apiKey) || !shouldRetry(method, err)) {
-        resetApiRetryCount(apiKey);
-        throw err;
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      safeErrorLog(e);
+      if (autoRedirect) {
+        const msg = '인증이 만료되었습니다. 다시 로그인해주세요.';
+        clearUserSession();
+        redirectAuthError(401, 'user', msg);
       }
-      const backoff = BASE_BACKOFF_MS * Math.pow(2, attempt - 1) + Math.random() * 100;
-      await delay(backoff);
+      return response;
     }
   }
-  throw new Error('예기치 못한 오류가 발생했습니다.');
+
+  // 403 처리
+  if (autoRedirect && response.status === 403 && !url.includes('/login')) {
+    const msg = '접근 권한이 없습니다.';
+    redirectAuthError(403, 'user', msg);
+    return response;
+  }
+
+  // 4xx(401,403 제외) 비즈니스 에러 메시지 전파
+  if (response.status >= 400 && response.status < 500 && response.status !== 401 && response.status !== 403) {
+    notifyApiError(await ApiError.fromResponse(response, 'user'));
+  }
+
+  return response;
 };
 
 // === 토큰 갱신(직접 호출용) ===
 export const refreshToken = async () => {
   try {
     const refresh = localStorage.getItem('refresh');
-    const accessToken = getAccessToken();
     if (!refresh) throw new Error('Refresh token not found');
 
-    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-    if (accessToken) headers.Authorization = `Bearer ${accessToken}`;
-
-    const response = await fetch(`${API_BASE}/api/refresh`, {
-      method: 'POST', headers, credentials: 'include',
-    });
-    if (response.ok) {
-      const newToken = await response.text();
-      localStorage.setItem('access', newToken);
-      return newToken;
-    }
+    const newToken = await refreshAccessToken();
+    if (newToken) return newToken;
   } catch (error) {
     safeErrorLog(error);
-    localStorage.removeItem('access');
-    localStorage.removeItem('refresh');
-    localStorage.removeItem('nickname');
-    window.location.href = '/';
+    clearUserSession();
+    redirectAuthError(401, 'user', '인증이 만료되었습니다. 다시 로그인해주세요.');
   }
   throw new Error('Token refresh failed');
 };
@@ -381,75 +316,205 @@ export const handleApiResponse = async (response: Response) => {
   return response;
 };
 
-// === 편의 함수들 ===
-export const getProducts = async (from?: string, to?: string, categoryId?: number) => {
-  const key = 'getProducts';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
+// === 캐시 무효화 (변경 API 성공 시) ===
+const invalidateProductQueries = () => invalidateQueries(QUERY_KEYS.products, QUERY_KEYS.adminProducts);
+const invalidateCategoryQueries = () => invalidateQueries(QUERY_KEYS.categories, QUERY_KEYS.products, QUERY_KEYS.adminProducts);
+const invalidateDeliveryConfigQuery = () => invalidateQueries(QUERY_KEYS.deliveryConfig);
+
+// 응답 본문: 비어 있으면 null, JSON이 아니면(plain text 응답) 문자열 그대로
+const readBody = async (res: Response): Promise<unknown> => {
+  const text = await res.text();
+  if (!text) return null;
   try {
-    let url = '/api/store/auth/products';
-    const params = [];
-    if (from && to) {
-      params.push(`from=${encodeURIComponent(from)}`);
-      params.push(`to=${encodeURIComponent(to)}`);
-    }
-    if (categoryId) {
-      params.push(`categoryId=${categoryId}`);
-    }
-    if (params.length > 0) {
-      url += '?' + params.join('&');
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+/** 회로 차단 확인 → 요청 → 실패 응답은 ApiError → 본문을 스키마로 검증 */
+const requestData = async <T>(
+  key: string,
+  scope: ApiErrorScope,
+  send: () => Promise<Response>,
+  schema: Schema<T>
+): Promise<T> => {
+  apiCircuit.assertClosed(key);
+  try {
+    const res = await send();
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) throw await ApiError.fromResponse(res, scope);
+    return parseData(schema, await readBody(res), key);
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
+};
+
+/** 응답 본문을 쓰지 않는 변경 요청 (성공 여부만) */
+const requestOk = async (key: string, scope: ApiErrorScope, send: () => Promise<Response>): Promise<void> => {
+  await requestData(key, scope, send, s.unknown());
+};
+
+// 목록 응답은 배열 또는 { response: [...] }
+const listOf = (body: any): unknown => (Array.isArray(body) ? body : (body?.response ?? []));
+
+/** 목록 행을 하나씩 검증 - 계약이 어긋난 행만 (로그를 남기고) 건너뛰고 나머지는 표시 */
+const parseRows = <T>(schema: Schema<T>, rows: unknown, key: string): T[] => {
+  if (!Array.isArray(rows)) return parseData(s.array(schema), rows, key);
+  return rows.flatMap((row, i) => {
+    try {
+      return [parseData(schema, row, `${key}[${i}]`)];
+    } catch (e) {
+      if (e instanceof ApiContractError) return [];
+      throw e;
     }
-    const res = await userFetch(url);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
+  });
+};
+
+const addImgPrefix = (url?: string) => {
+  if (!url) return '';
+  if (url.startsWith('http')) return url;
+  const base = process.env.REACT_APP_IMG_URL || '';
+  return base ? `${base}/${url}` : url;
 };
 
-export const getProduct = async (id: number) => {
+// === 편의 함수들 ===
+// 상품 목록은 재고가 바뀌므로 짧게 캐시 (탭 이동 시 즉시 표시 + 백그라운드 재검증)
+const PRODUCTS_CACHE = { staleTimeMs: 30 * 1000, cacheTimeMs: 10 * 60 * 1000 };
+
+const productListItemSchema = s.object({
+  id: s.number(),
+  name: s.string().default(''),
+  price: s.number().default(0),
+  stock: s.number().default(0),
+  imageUrl: s.string().from('image_url', 'imageUrl').default(''),
+  sellDate: s.string().default(''),
+  sellTime: s.string().optional(), // 예약 시작 시간 (HH:mm, KST)
+  totalSold: s.number().default(0),
+  orderIndex: s.number().default(0),
+  // 구버전 응답(필드 없음)은 배달 가능으로 취급
+  deliveryAvailable: s.boolean().default(true),
+});
+
+export type ProductListItem = Infer<typeof productListItemSchema>;
+
+export const getProducts = async (from?: string, to?: string, categoryId?: number, signal?: AbortSignal): Promise<ProductListItem[]> => {
+  let url = '/api/store/auth/products';
+  const params = [];
+  if (from && to) {
+    params.push(`from=${encodeURIComponent(from)}`);
+    params.push(`to=${encodeURIComponent(to)}`);
+  }
+  if (categoryId) {
+    params.push(`categoryId=${categoryId}`);
+  }
+  if (params.length > 0) {
+    url += '?' + params.join('&');
+  }
+
+  // signal은 이 호출자의 대기를 취소하고, 같은 목록을 기다리는 다른 호출자가 없으면 요청도 취소
+  return fetchQuery(`${QUERY_KEYS.products}${url}`, async requestSignal => {
+    const key = 'getProducts';
+    const body = await requestData(key, 'user', () => userFetch(url, { signal: requestSignal }), s.unknown());
+    return parseRows(productListItemSchema, listOf(body), key)
+      .map(p => ({ ...p, imageUrl: addImgPrefix(p.imageUrl), sellTime: p.sellTime || undefined }));
+  }, { ...PRODUCTS_CACHE, signal });
+};
+
+const productDetailSchema = s.object({
+  id: s.number(),
+  name: s.string().default(''),
+  price: s.number().default(0),
+  stock: s.number().default(0),
+  imageUrl: s.string().default(''),
+  sellDate: s.string().optional(),
+  description: s.string().optional(),
+  // 상세 이미지: detail_images 우선, 구버전 응답은 images
+  detailImages: s.array(s.string()).from('detailImages', 'detail_images', 'images').default([]),
+});
+
+export type ProductDetail = {
+  id: number;
+  name: string;
+  price: number;
+  stock: number;
+  imageUrl: string;
+  sellDate?: string;
+  description?: string;
+  detailImages: string[];
+};
+
+/** 고객 상품 상세 (이미지 URL은 절대 경로로 변환) */
+export const getProduct = async (id: number): Promise<ProductDetail> => {
   const key = 'getProduct';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
+  apiCircuit.assertClosed(key);
   try {
     const res = await userFetch(`/api/store/auth/products/${id}`);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) throw await ApiError.fromResponse(res, 'user');
+    const product = await parseJson(res, productDetailSchema, key);
+    return {
+      id: product.id,
+      name: product.name,
+      price: product.price,
+      stock: product.stock,
+      imageUrl: addImgPrefix(product.imageUrl),
+      sellDate: product.sellDate || undefined,
+      description: product.description || undefined,
+      detailImages: product.detailImages.map(addImgPrefix),
+    };
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
 };
 
-export const getProductCategories = async () => {
+const CATALOG_CACHE = { staleTimeMs: 5 * 60 * 1000, cacheTimeMs: 60 * 60 * 1000 };
+
+// 고객/관리자 공용 (구버전 키워드 응답은 keyword/keyword_url)
+const productCategorySchema = s.object({
+  id: s.number(),
+  name: s.string().from('name', 'keyword').default(''),
+  imageUrl: s.string().from('image_url', 'imageUrl', 'keyword_url', 'keywordUrl').optional(), // S3 key 또는 절대 URL
+  productIds: s.array(s.number()).default([]),
+});
+
+export type ProductCategory = Infer<typeof productCategorySchema>;
+
+export const getProductCategories = async (): Promise<ProductCategory[]> => fetchQuery(QUERY_KEYS.categories, async () => {
   const key = 'getCategories';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await userFetch('/api/store/auth/products/categories');
-    if (res.ok) resetApiRetryCount(key);
-    return res.json();
-  } catch (e) {
-    incrementApiRetryCount(key);
-    throw e;
-  }
-};
+  const body = await requestData(key, 'user', () => userFetch('/api/store/auth/products/categories'), s.unknown());
+  return parseRows(productCategorySchema, listOf(body), key);
+}, CATALOG_CACHE);
 
 // 레거시: 기존 키워드 API를 카테고리로 매핑 (하위 호환성)
 export const getProductKeywords = getProductCategories;
 
-export const createReservation = async (data: any) => {
-  const key = 'createReservation';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await userFetch('/api/store/auth/reservations/', { method: 'POST', body: JSON.stringify(data) });
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
+export type ReservationPayload = {
+  productId: number;
+  quantity: number;
+  pickupDate: string; // YYYY-MM-DD
 };
 
-export const cancelReservation = async (code: string) => {
-  const key = 'cancelReservation';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await userFetch(`/api/store/auth/reservations/cancel/${code}`, { method: 'PATCH' });
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
+/** 예약 생성 → 예약 표시 코드 (서버는 plain text로 응답, e.g. "R-26020216-VWQPA") */
+export const createReservation = async (payload: ReservationPayload): Promise<string> => {
+  const displayCode = await requestData('createReservation', 'user', () => userFetch('/api/store/auth/reservations/', {
+    method: 'POST',
+    body: JSON.stringify({ product_id: payload.productId, quantity: payload.quantity, pickup_date: payload.pickupDate }),
+  }, true, NO_RETRY_POLICY), s.string().default(''));
+  invalidateProductQueries();
+  return displayCode;
 };
 
+export const cancelReservation = async (code: string): Promise<void> => {
+  await requestOk('cancelReservation', 'user', () => userFetch(`/api/store/auth/reservations/cancel/${code}`, { method: 'PATCH' }));
+  invalidateProductQueries();
+};
+
+
+const deliveryInfoSchema = s.object({
+  phone: s.string().default(''),
+  postalCode: s.string().default(''),
+  address1: s.string().default(''),
+  address2: s.string().default(''),
+  latitude: s.number().optional(),
+  longitude: s.number().optional(),
+});
 
 export type DeliveryInfo = {
   phone: string;
@@ -460,124 +525,269 @@ export type DeliveryInfo = {
   longitude?: number;
 };
 
-export type DeliveryConfig = {
-  enabled: boolean;
-  storeLat: number;
-  storeLng: number;
-  maxDistanceKm: number;
-  feeDistanceKm: number;
-  minAmount: number;
-  feeNear: number;
-  feePer100m: number;
-  startHour: number;
-  startMinute: number;
-  endHour: number;
-  endMinute: number;
-};
-
-export const getDeliveryConfig = async (): Promise<DeliveryConfig | null> => {
+// 배달 구역: 지도에 그린 다각형 + 구역별 배달비/최소 주문 금액/배달 시간
+const deliveryZoneSchema = s.object({
+  id: s.number(),
+  name: s.string(),
+  polygon: s.array(s.object({ lat: s.number(), lng: s.number() })),
+  fee: s.number(),
+  minAmount: s.number(),
+  startHour: s.number(),
+  startMinute: s.number(),
+  endHour: s.number(),
+  endMinute: s.number(),
+});
+
+export type DeliveryZone = Infer<typeof deliveryZoneSchema>;
+
+// 배달비 규칙: 거리 구간 / 금액 이상 무료 / 심야·예약배달 할증 / 날짜별 할인
+const deliveryFeeRulesSchema = s.object({
+  distanceTiers: s.array(s.object({ upToKm: s.number(), fee: s.number() })).default([]),
+  freeOverAmount: s.number().nullable(),
+  lateNightStartHour: s.number().nullable(),
+  lateNightStartMinute: s.number().default(0),
+  lateNightSurcharge: s.number().default(0),
+  scheduledSurcharge: s.number().default(0),
+  promotions: s.array(s.object({ date: s.string(), discount: s.number(), label: s.string().default('') })).default([]),
+});
+
+const deliveryConfigSchema = s.object({
+  enabled: s.boolean().from('enabled', 'delivery_enabled').default(true),
+  storeLat: s.number(),
+  storeLng: s.number(),
+  maxDistanceKm: s.number(),
+  feeDistanceKm: s.number(),
+  minAmount: s.number(),
+  feeNear: s.number(),
+  feePer100m: s.number(),
+  startHour: s.number(),
+  startMinute: s.number(),
+  endHour: s.number(),
+  endMinute: s.number(),
+  // 비어 있으면 매장 기준 최대 거리(maxDistanceKm)로 판정
+  zones: s.array(deliveryZoneSchema).default([]),
+  feeRules: deliveryFeeRulesSchema.default(EMPTY_FEE_RULES),
+  // 예약배달 시간대 정원 (0 = 제한 없음) + 시간대별 지정
+  scheduledSlotCapacity: s.number().default(0),
+  scheduledSlotCapacities: s.array(s.object({ hour: s.number(), minute: s.number(), capacity: s.number() })).default([]),
+});
+
+export type DeliveryConfig = Infer<typeof deliveryConfigSchema>;
+
+export const getDeliveryConfig = async (): Promise<DeliveryConfig | null> => fetchQuery(QUERY_KEYS.deliveryConfig, async () => {
   const key = 'getDeliveryConfig';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
+  apiCircuit.assertClosed(key);
   try {
     const res = await userFetch('/api/store/auth/deliveries/config');
-    if (!res.ok) {
-      incrementApiRetryCount(key);
-      return null;
-    }
-    const data = await res.json();
-    resetApiRetryCount(key);
-    if (!data) return null;
-    return {
-      enabled: data.enabled ?? data.delivery_enabled ?? true,
-      storeLat: Number(data.store_lat ?? data.storeLat ?? 0),
-      storeLng: Number(data.store_lng ?? data.storeLng ?? 0),
-      maxDistanceKm: Number(data.max_distance_km ?? data.maxDistanceKm ?? 0),
-      feeDistanceKm: Number(data.fee_distance_km ?? data.feeDistanceKm ?? 0),
-      minAmount: Number(data.min_amount ?? data.minAmount ?? 0),
-      feeNear: Number(data.fee_near ?? data.feeNear ?? 0),
-      feePer100m: Number(data.fee_per100m ?? data.feePer100m ?? 0),
-      startHour: Number(data.start_hour ?? data.startHour ?? 0),
-      startMinute: Number(data.start_minute ?? data.startMinute ?? 0),
-      endHour: Number(data.end_hour ?? data.endHour ?? 0),
-      endMinute: Number(data.end_minute ?? data.endMinute ?? 0),
-    };
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) return null;
+    return await parseJson(res, deliveryConfigSchema.nullable(), key);
   } catch (e) {
-    incrementApiRetryCount(key);
+    apiCircuit.recordError(key, e);
     throw e;
   }
-};
+}, { ...CATALOG_CACHE, shouldCache: config => config !== null });
+
+const deliveryFeeEstimateSchema = s.object({
+  distanceKm: s.number(),
+  deliveryFee: s.number(),
+  // 배달비 내역 (기본 배달비, 할증, 할인 …) - 합계가 deliveryFee
+  breakdown: s.array(s.object({ label: s.string(), amount: s.number() })).default([]),
+});
+
+export type DeliveryFeeEstimate = Infer<typeof deliveryFeeEstimateSchema>;
 
-export type DeliveryFeeEstimate = {
-  distanceKm: number;
-  deliveryFee: number;
+/** 주문 금액/예약배달 시각에 따라 할증·할인·무료배달이 달라지므로 함께 전달 */
+export type DeliveryFeeEstimateOptions = {
+  amount?: number;
+  scheduledDeliveryHour?: number | null;
+  scheduledDeliveryMinute?: number | null;
 };
 
-export const getDeliveryFeeEstimate = async (latitude: number, longitude: number): Promise<DeliveryFeeEstimate | null> => {
+export const getDeliveryFeeEstimate = async (
+  latitude: number,
+  longitude: number,
+  options: DeliveryFeeEstimateOptions = {}
+): Promise<DeliveryFeeEstimate | null> => {
   const key = 'getDeliveryFeeEstimate';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
+  apiCircuit.assertClosed(key);
   try {
     const res = await userFetch('/api/store/auth/deliveries/fee', {
       method: 'POST',
-      body: JSON.stringify({ latitude, longitude }),
+      body: JSON.stringify({
+        latitude,
+        longitude,
+        amount: options.amount ?? 0,
+        scheduled_delivery_hour: options.scheduledDeliveryHour ?? null,
+        scheduled_delivery_minute: options.scheduledDeliveryMinute ?? null,
+      }),
     });
+    apiCircuit.recordResponse(key, res);
     if (!res.ok) {
       const data = await res.json().catch(() => ({}));
-      incrementApiRetryCount(key);
       throw new Error(data.message || '배달비 계산에 실패했습니다.');
     }
-    const data = await res.json();
-    resetApiRetryCount(key);
-    if (!data) return null;
-    return {
-      distanceKm: Number(data.distance_km ?? data.distanceKm ?? 0),
-      deliveryFee: Number(data.delivery_fee ?? data.deliveryFee ?? 0),
-    };
+    return await parseJson(res, deliveryFeeEstimateSchema.nullable(), key);
   } catch (e) {
-    incrementApiRetryCount(key);
+    apiCircuit.recordError(key, e);
     throw e;
   }
 };
 
+const scheduledSlotStatusSchema = s.object({
+  response: s.array(s.object({
+    hour: s.number(),
+    minute: s.number(),
+    capacity: s.number().nullable(), // null = 제한 없음
+    reserved: s.number(),
+  })),
+});
+
+export type ScheduledSlotStatus = Infer<typeof scheduledSlotStatusSchema>['response'][number];
+
+/** 예약배달 시간대별 정원/예약 현황 (결제 대기 중인 주문도 자리를 차지) */
+export const getScheduledSlotStatus = async (date: string): Promise<ScheduledSlotStatus[]> => {
+  const key = 'getScheduledSlotStatus';
+  apiCircuit.assertClosed(key);
+  try {
+    const res = await userFetch(`/api/store/auth/deliveries/slots?date=${encodeURIComponent(date)}`);
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) throw await ApiError.fromResponse(res, 'user');
+    const data = await parseJson(res, scheduledSlotStatusSchema, key);
+    return data.response;
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
+};
+
 export const getDeliveryInfo = async (): Promise<DeliveryInfo | null> => {
   const key = 'getDeliveryInfo';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
+  apiCircuit.assertClosed(key);
   try {
     const res = await userFetch('/api/store/auth/deliveries/info');
+    apiCircuit.recordResponse(key, res);
     if (res.status === 204) return null;
-    const data = await res.json();
-    if (res.ok) resetApiRetryCount(key);
-    if (!data) return null;
-    return {
-      phone: String(data.phone || ''),
-      postalCode: String(data.postal_code || data.postalCode || ''),
-      address1: String(data.address1 || ''),
-      address2: data.address2 ? String(data.address2) : '',
-      latitude: data.latitude != null ? Number(data.latitude) : undefined,
-      longitude: data.longitude != null ? Number(data.longitude) : undefined,
-    };
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
-
-export const saveDeliveryInfo = async (info: DeliveryInfo) => {
-  const key = 'saveDeliveryInfo';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await userFetch('/api/store/auth/deliveries/info', {
-      method: 'PUT',
-      body: JSON.stringify({
-        phone: info.phone,
-        postal_code: info.postalCode,
-        address1: info.address1,
-        address2: info.address2 || '',
-        latitude: info.latitude,
-        longitude: info.longitude,
-      }),
-    });
-    if (res.ok) resetApiRetryCount(key);
-    return res;
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
+    return await parseJson(res, deliveryInfoSchema.nullable(), key);
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
+};
+
+export const saveDeliveryInfo = (info: DeliveryInfo): Promise<void> =>
+  requestOk('saveDeliveryInfo', 'user', () => userFetch('/api/store/auth/deliveries/info', {
+    method: 'PUT',
+    body: JSON.stringify({
+      phone: info.phone,
+      postal_code: info.postalCode,
+      address1: info.address1,
+      address2: info.address2 || '',
+      latitude: info.latitude,
+      longitude: info.longitude,
+    }),
+  }));
+
+// === 배달 추적 (고객) ===
+// 주문 상태가 바뀔 때마다 delivery_status 이벤트로 예약 목록의 delivery와 같은 형태를 전송
+const deliveryTrackingEventSchema = s.object({
+  displayCode: s.string(),
+  status: s.string(),
+  estimatedMinutes: s.number().nullable(),
+  paidAt: s.string().nullable(),
+  acceptedAt: s.string().nullable(),
+  outForDeliveryAt: s.string().nullable(),
+  deliveredAt: s.string().nullable(),
+});
+
+export type DeliveryTrackingEvent = Infer<typeof deliveryTrackingEventSchema>;
+
+export const parseDeliveryTrackingEvent = (data: unknown) =>
+  parseData(deliveryTrackingEventSchema, data, 'deliveryTrackingStream');
+
+const streamTicketSchema = s.object({ ticket: s.string() });
 
+/**
+ * 배달 추적 스트림 연결
+ * EventSource는 Authorization 헤더를 보낼 수 없어 access token 대신 짧게 유효한 1회용 티켓을 쿼리로 전달
+ * (토큰이 접근 로그/방문 기록에 남지 않음). 티켓 발급은 userFetch 경유라 access token이 만료됐으면 refresh 후 발급
+ */
+export const openDeliveryTrackingStream = async (): Promise<EventSource> => {
+  const key = 'getDeliveryStreamTicket';
+  apiCircuit.assertClosed(key);
+  let ticket: string;
+  try {
+    const res = await userFetch('/api/store/auth/deliveries/stream/ticket', { method: 'POST' });
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) throw await ApiError.fromResponse(res, 'user');
+    ({ ticket } = await parseJson(res, streamTicketSchema, key));
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
+  return new EventSource(`${API_BASE}/api/store/auth/deliveries/stream?ticket=${encodeURIComponent(ticket)}`);
+};
+
+// === 배달 주소록 (이름 붙은 주소 여러 개 + 기본 주소) ===
+// 좌표와 마지막으로 계산한 거리/배달비를 함께 저장해 주소를 고르면 바로 표시
+const deliveryAddressSchema = s.object({
+  id: s.number(),
+  label: s.string().default(''),
+  isDefault: s.boolean().default(false),
+  postalCode: s.string().default(''),
+  address1: s.string().default(''),
+  address2: s.string().default(''),
+  latitude: s.number().nullable(),
+  longitude: s.number().nullable(),
+  distanceKm: s.number().nullable(),
+  deliveryFee: s.number().nullable(),
+});
+
+export type DeliveryAddress = Infer<typeof deliveryAddressSchema>;
+export type DeliveryAddressPayload = Omit<DeliveryAddress, 'id'>;
+
+const deliveryAddressListSchema = s.object({
+  response: s.array(deliveryAddressSchema).default([]),
+});
+
+const toDeliveryAddressBody = (payload: Partial<DeliveryAddressPayload>) => JSON.stringify({
+  label: payload.label,
+  is_default: payload.isDefault,
+  postal_code: payload.postalCode,
+  address1: payload.address1,
+  address2: payload.address2,
+  latitude: payload.latitude,
+  longitude: payload.longitude,
+  distance_km: payload.distanceKm,
+  delivery_fee: payload.deliveryFee,
+});
+
+// 조회/등록/수정/삭제 모두 갱신된 주소록 전체를 응답 (기본 주소가 먼저)
+const requestDeliveryAddresses = async (key: string, path: string, method = 'GET', body?: string): Promise<DeliveryAddress[]> => {
+  apiCircuit.assertClosed(key);
+  try {
+    const res = await userFetch(path, method === 'GET' ? {} : { method, body });
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) throw await ApiError.fromResponse(res, 'user');
+    const data = await parseJson(res, deliveryAddressListSchema, key);
+    return data.response;
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
+};
+
+export const getDeliveryAddresses = () =>
+  requestDeliveryAddresses('getDeliveryAddresses', '/api/store/auth/deliveries/addresses');
+
+export const createDeliveryAddress = (payload: DeliveryAddressPayload) =>
+  requestDeliveryAddresses('createDeliveryAddress', '/api/store/auth/deliveries/addresses', 'POST', toDeliveryAddressBody(payload));
+
+/** 보낸 항목만 수정 (isDefault: true면 나머지 주소의 기본 설정 해제) */
+export const updateDeliveryAddress = (id: number, payload: Partial<DeliveryAddressPayload>) =>
+  requestDeliveryAddresses('updateDeliveryAddress', `/api/store/auth/deliveries/addresses/${id}`, 'PATCH', toDeliveryAddressBody(payload));
+
+export const deleteDeliveryAddress = (id: number) =>
+  requestDeliveryAddresses('deleteDeliveryAddress', `/api/store/auth/deliveries/addresses/${id}`, 'DELETE');
+
+// 결제 준비 응답: 주문 코드 + 카카오페이 결제창 URL (배달/택배 공용)
+const paymentReadySchema = s.object({
+  orderCode: s.string().from('order_code', 'orderCode', 'order_id', 'orderId').optional(),
+  redirectUrl: s.string().optional(),
+  mobileRedirectUrl: s.string().optional(),
+});
+
+export type PaymentReady = Infer<typeof paymentReadySchema>;
+
+/** 예약배달이면 서버가 결제 준비와 함께 시간대 자리를 확보 (정원이 찼으면 409) */
 export const createDeliveryPaymentReady = async (data: {
   reservationCodes: string[];
   deliveryHour: number;
@@ -591,283 +801,504 @@ export const createDeliveryPaymentReady = async (data: {
   scheduledDeliveryHour?: number | null;
   scheduledDeliveryMinute?: number | null;
   idempotencyKey: string;
-}) => {
-  const key = 'createDeliveryPaymentReady';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await userFetch('/api/store/auth/deliveries/ready', {
-      method: 'POST',
-      body: JSON.stringify({
-        reservation_codes: data.reservationCodes,
-        delivery_hour: data.deliveryHour,
-        delivery_minute: data.deliveryMinute,
-        phone: data.phone,
-        postal_code: data.postalCode,
-        address1: data.address1,
-        address2: data.address2 || '',
-        latitude: data.latitude,
-        longitude: data.longitude,
-        idempotency_key: data.idempotencyKey,
-        scheduled_delivery_hour: data.scheduledDeliveryHour ?? null,
-        scheduled_delivery_minute: data.scheduledDeliveryMinute ?? null,
-      }),
-    });
-    if (res.ok) resetApiRetryCount(key);
-    return res;
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
-
-export const approveDeliveryPayment = async (code: string, pgToken: string) => {
-  const key = 'approveDeliveryPayment';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await userFetch(`/api/store/auth/deliveries/approve?order_id=${code}&pg_token=${encodeURIComponent(pgToken)}`);
-    if (res.ok) resetApiRetryCount(key);
-    return res;
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
-
-export const cancelDeliveryPayment = async (code: string) => {
-  const key = 'cancelDeliveryPayment';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await userFetch(`/api/store/auth/deliveries/cancel?order_id=${code}`);
-    if (res.ok) resetApiRetryCount(key);
-    return res;
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
-
-export const failDeliveryPayment = async (code: string) => {
-  const key = 'failDeliveryPayment';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await userFetch(`/api/store/auth/deliveries/fail?order_id=${code}`);
-    if (res.ok) resetApiRetryCount(key);
-    return res;
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
-
-export const minusQuantity = async (code: string, quantity: number) => {
-  const key = 'minusQuantity';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await userFetch(`/api/store/auth/reservations/${code}/quantity?minus=${quantity}`, { method: 'PATCH' });
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
-
-export const getUserMessage = async () => {
+}): Promise<PaymentReady> =>
+  requestData('createDeliveryPaymentReady', 'user', () => userFetch('/api/store/auth/deliveries/ready', {
+    method: 'POST',
+    body: JSON.stringify({
+      reservation_codes: data.reservationCodes,
+      delivery_hour: data.deliveryHour,
+      delivery_minute: data.deliveryMinute,
+      phone: data.phone,
+      postal_code: data.postalCode,
+      address1: data.address1,
+      address2: data.address2 || '',
+      latitude: data.latitude,
+      longitude: data.longitude,
+      idempotency_key: data.idempotencyKey,
+      scheduled_delivery_hour: data.scheduledDeliveryHour ?? null,
+      scheduled_delivery_minute: data.scheduledDeliveryMinute ?? null,
+    }),
+  }), paymentReadySchema);
+
+export const approveDeliveryPayment = (code: string, pgToken: string): Promise<void> =>
+  requestOk('approveDeliveryPayment', 'user', () =>
+    userFetch(`/api/store/auth/deliveries/approve?order_id=${code}&pg_token=${encodeURIComponent(pgToken)}`));
+
+export const cancelDeliveryPayment = (code: string): Promise<void> =>
+  requestOk('cancelDeliveryPayment', 'user', () => userFetch(`/api/store/auth/deliveries/cancel?order_id=${code}`));
+
+export const failDeliveryPayment = (code: string): Promise<void> =>
+  requestOk('failDeliveryPayment', 'user', () => userFetch(`/api/store/auth/deliveries/fail?order_id=${code}`));
+
+export const minusQuantity = async (code: string, quantity: number): Promise<void> => {
+  await requestOk('minusQuantity', 'user', () =>
+    userFetch(`/api/store/auth/reservations/${code}/quantity?minus=${quantity}`, { method: 'PATCH' }));
+  invalidateProductQueries();
+};
+
+// === 입고 알림 (품절 상품 대기 명단) ===
+// 재고가 다시 생기거나 예약 취소로 풀리면 서버가 getUserMessage 메시지함으로 알림
+const waitlistSchema = s.object({
+  response: s.array(s.object({
+    productId: s.number(),
+    createdAt: s.string().default(''),
+  })).default([]),
+});
+
+export const getMyWaitlist = async (): Promise<number[]> => {
+  const key = 'getMyWaitlist';
+  apiCircuit.assertClosed(key);
+  try {
+    const res = await userFetch('/api/store/auth/waitlist');
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) throw await ApiError.fromResponse(res, 'user');
+    const data = await parseJson(res, waitlistSchema, key);
+    return data.response.map(item => item.productId);
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
+};
+
+export const joinWaitlist = (productId: number): Promise<void> =>
+  requestOk('joinWaitlist', 'user', () => userFetch(`/api/store/auth/products/${productId}/waitlist`, { method: 'POST' }));
+
+export const leaveWaitlist = (productId: number): Promise<void> =>
+  requestOk('leaveWaitlist', 'user', () => userFetch(`/api/store/auth/products/${productId}/waitlist`, { method: 'DELETE' }));
+
+// === 관심상품 (상품명/카테고리 단위) ===
+// 같은 이름의 상품이나 관심 카테고리 상품에 새 판매일이 잡히면 서버가 getUserMessage 메시지함으로 알림
+const favoritesSchema = s.object({
+  productNames: s.array(s.string()).default([]),
+  categoryIds: s.array(s.number()).default([]),
+  productIds: s.array(s.number()).default([]), // 현재 판매 목록 중 관심상품에 해당하는 상품
+});
+
+export type Favorites = Infer<typeof favoritesSchema>;
+
+// 조회/등록/해제 모두 갱신된 관심상품 목록을 응답
+const requestFavorites = async (key: string, path: string, method = 'GET'): Promise<Favorites> => {
+  apiCircuit.assertClosed(key);
+  try {
+    const res = await userFetch(path, method === 'GET' ? {} : { method });
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) throw await ApiError.fromResponse(res, 'user');
+    return await parseJson(res, favoritesSchema, key);
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
+};
+
+export const getFavorites = () =>
+  requestFavorites('getFavorites', '/api/store/auth/favorites');
+
+export const addFavoriteProduct = (productId: number) =>
+  requestFavorites('addFavoriteProduct', `/api/store/auth/favorites/products/${productId}`, 'POST');
+
+export const removeFavoriteProduct = (productId: number) =>
+  requestFavorites('removeFavoriteProduct', `/api/store/auth/favorites/products/${productId}`, 'DELETE');
+
+export const addFavoriteCategory = (categoryId: number) =>
+  requestFavorites('addFavoriteCategory', `/api/store/auth/favorites/categories/${categoryId}`, 'POST');
+
+export const removeFavoriteCategory = (categoryId: number) =>
+  requestFavorites('removeFavoriteCategory', `/api/store/auth/favorites/categories/${categoryId}`, 'DELETE');
+
+const userMessageSchema = s.object({
+  id: s.number(),
+  title: s.string().default(''),
+  body: s.string().default(''),
+});
+
+export type UserMessage = Infer<typeof userMessageSchema>;
+
+/** 읽지 않은 메시지 1건 (없으면 204 → null, 조회 실패도 null) */
+export const getUserMessage = async (): Promise<UserMessage | null> => {
   const res = await userFetch('/api/auth/message');
   if (res.status === 204 || !res.ok) {
     return null; // 메시지가 없거나 에러인 경우 null 반환
   }
-  return res.json();
+  return parseJson(res, userMessageSchema, 'getUserMessage');
 };
 
-export const markMessageAsRead = async (messageId: number) => {
-  const key = 'markMessageAsRead';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await userFetch(`/api/auth/message/${messageId}`, { method: 'PATCH' });
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
+export const markMessageAsRead = (messageId: number): Promise<void> =>
+  requestOk('markMessageAsRead', 'user', () => userFetch(`/api/auth/message/${messageId}`, { method: 'PATCH' }));
+
+const userMeSchema = s.object({
+  nickname: s.string().default(''),
+  restricted: s.boolean().default(false),
+  restrictedUntil: s.string().nullable(),
+});
 
-export const getUserMe = async (): Promise<{ nickname: string; restricted: boolean; restrictedUntil: string | null }> => {
+export type UserMe = Infer<typeof userMeSchema>;
+
+export const getUserMe = async (): Promise<UserMe> => {
   const res = await userFetch('/api/auth/users/me');
   if (!res.ok) {
     throw new Error('사용자 정보를 불러올 수 없습니다.');
   }
-  const data = await res.json();
-  return {
-    nickname: data.nickname || '',
-    restricted: Boolean(data.restricted),
-    restrictedUntil: data.restrictedUntil || data.restricted_until || null,
-  };
+  return parseJson(res, userMeSchema, 'getUserMe');
+};
+
+// === 예약 상태 (고객/관리자 공용) ===
+export type ReservationStatus = 'pending' | 'picked' | 'canceled' | 'no_show';
+
+// 서버 예약 상태 → 화면 상태 (PENDING, SELF_PICK, SELF_PICK_READY 등 나머지는 대기)
+const toReservationStatus = (raw: string): ReservationStatus => {
+  switch (raw.toUpperCase()) {
+    case 'PICKED':
+    case 'COMPLETED':
+      return 'picked';
+    case 'NO_SHOW':
+      return 'no_show';
+    case 'CANCELED':
+    case 'CANCELLED':
+      return 'canceled';
+    default:
+      return 'pending';
+  }
 };
 
-export const getReservations = async (from?: string, to?: string) => {
+// 예약에 연결된 배달 주문 (예약 목록의 delivery)
+const reservationDeliverySchema = s.object({
+  status: s.string().default(''),
+  displayCode: s.string().default(''),
+  deliveryHour: s.number().default(0),
+  deliveryMinute: s.number().default(0),
+  deliveryFee: s.number().default(0),
+  estimatedMinutes: s.number().optional(),
+  paidAt: s.string().optional(),
+  acceptedAt: s.string().optional(),
+  outForDeliveryAt: s.string().optional(),
+  deliveredAt: s.string().optional(),
+  scheduledDeliveryHour: s.number().nullable(),
+  scheduledDeliveryMinute: s.number().nullable(),
+});
+
+export type ReservationDelivery = Infer<typeof reservationDeliverySchema>;
+
+const reservationSchema = s.object({
+  id: s.number(),
+  displayCode: s.string().optional(),
+  orderDate: s.string().default(''),
+  status: s.string().default(''),
+  quantity: s.number().default(1),
+  amount: s.number().default(0),
+  productId: s.number().optional(),
+  productName: s.string().default(''),
+  productImage: s.string().optional(),
+  deliveryAvailable: s.boolean().default(true),
+  delivery: reservationDeliverySchema.optional(),
+});
+
+export type Reservation = {
+  id: number;
+  displayCode: string;
+  orderDate: string; // YYYY-MM-DD
+  status: ReservationStatus;
+  quantity: number;
+  amount: number;
+  productId?: number;
+  productName: string;
+  productImageUrl: string;
+  deliveryAvailable: boolean;
+  delivery?: ReservationDelivery;
+};
+
+const toReservation = (r: Infer<typeof reservationSchema>): Reservation => ({
+  id: r.id,
+  displayCode: r.displayCode || String(r.id),
+  orderDate: r.orderDate,
+  status: toReservationStatus(r.status),
+  quantity: Math.max(1, r.quantity),
+  amount: r.amount,
+  productId: r.productId,
+  productName: r.productName,
+  productImageUrl: addImgPrefix(r.productImage),
+  deliveryAvailable: r.deliveryAvailable,
+  delivery: r.delivery && { ...r.delivery, estimatedMinutes: r.delivery.estimatedMinutes || undefined },
+});
+
+/** 고객 예약 목록 (계약이 어긋난 예약은 건너뜀) */
+export const getReservations = async (from?: string, to?: string): Promise<Reservation[]> => {
   const key = 'getReservations';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    let url = '/api/store/auth/reservations/';
-    if (from && to) url += `?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`;
-    const res = await userFetch(url);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
+  let url = '/api/store/auth/reservations/';
+  if (from && to) url += `?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`;
+  const body = await requestData(key, 'user', () => userFetch(url), s.unknown());
+  return parseRows(reservationSchema, listOf(body), key).map(toReservation);
 };
 
-export const modifyName = async (name: string) => {
-  const key = 'modifyName';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await userFetch(`/api/auth/name/${name}`, { method: 'PATCH' });
-    if (res.ok) resetApiRetryCount(key);
-    return res; // text 응답 등 유연 처리
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
+export const modifyName = (name: string): Promise<void> =>
+  requestOk('modifyName', 'user', () => userFetch(`/api/auth/name/${name}`, { method: 'PATCH' }));
 
-export const checkNameExists = async (name: string) => {
-  const key = 'checkNameExists';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await userFetch(`/api/auth/name/${name}`);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
+/** 닉네임 사용 가능 여부 (true: 사용 가능, false: 중복) */
+export const checkNameExists = (name: string): Promise<boolean> =>
+  requestData('checkNameExists', 'user', () => userFetch(`/api/auth/name/${name}`), s.boolean());
 
 // === Admin 편의 함수들 ===
-export const adminLogin = async (data: { email: string; password: string }) => {
-  const key = 'adminLogin';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await adminFetch('/api/admin/login', { method: 'POST', body: JSON.stringify(data) });
-    if (res.ok) resetApiRetryCount(key);
-    return res;
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
-
-export const adminSignup = async (data: { name: string; email: string; password: string }) => {
-  const key = 'adminSignup';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await adminFetch('/api/admin/signup', { method: 'POST', body: JSON.stringify(data) });
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
+export const adminLogin = (data: { email: string; password: string }): Promise<void> =>
+  requestOk('adminLogin', 'admin', () => adminFetch('/api/admin/login', { method: 'POST', body: JSON.stringify(data) }));
+
+export const adminSignup = (data: { name: string; email: string; password: string }): Promise<void> =>
+  requestOk('adminSignup', 'admin', () => adminFetch('/api/admin/signup', { method: 'POST', body: JSON.stringify(data) }));
+
+const adminReservationSchema = s.object({
+  id: s.number(),
+  displayCode: s.string().optional(),
+  orderDate: s.string().default(''),
+  productName: s.string().default(''),
+  userName: s.string().default(''),
+  quantity: s.number().default(0),
+  price: s.number().default(0),
+  amount: s.number().optional(),
+  status: s.string().default(''),
+  createdAt: s.string().default(''), // YYYY-MM-DD HH:MM:SS (KST)
+});
+
+export type AdminReservation = {
+  id: number;
+  displayCode?: string; // 수령 QR 매칭
+  date: string;         // YYYY-MM-DD
+  productName: string;
+  buyerName: string;
+  quantity: number;
+  amount: number;
+  status: ReservationStatus;
+  createdAt: string;
+};
+
+const toAdminReservation = (r: Infer<typeof adminReservationSchema>): AdminReservation => ({
+  id: r.id,
+  displayCode: r.displayCode || undefined,
+  date: r.orderDate,
+  productName: r.productName,
+  buyerName: r.userName,
+  quantity: r.quantity,
+  amount: r.amount ?? r.price * r.quantity,
+  status: toReservationStatus(r.status),
+  createdAt: r.createdAt,
+});
+
+/** 관리자 예약 목록 (계약이 어긋난 예약은 건너뜀) */
+export const getAdminReservations = async (today?: string, signal?: AbortSignal): Promise<AdminReservation[]> => {
+  const key = 'getAdminReservations';
+  let url = '/api/admin/shop/reservations';
+  if (today) url += `?date=${encodeURIComponent(today)}`;
+  const body = await requestData(key, 'admin', () => adminFetch(url, { signal }, true), s.unknown());
+  return parseRows(adminReservationSchema, listOf(body), key).map(toAdminReservation);
+};
+
+const adminProductDetailSchema = s.object({
+  id: s.number(),
+  name: s.string().default(''),
+  price: s.number().default(0),
+  stock: s.number().default(0),
+  imageUrl: s.string().from('productUrl', 'product_url', 'imageUrl').default(''),
+  images: s.array(s.string()).from('detail_urls', 'detailUrl', 'images').optional(),
+  sellDate: s.string().optional(),
+  sellTime: s.string().optional(),
+  description: s.string().optional(),
+});
 
-export const getAdminProducts = async () => {
-  const key = 'getAdminProducts';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await adminFetch('/api/admin/shop/products', {}, true);
-    if (res.ok) resetApiRetryCount(key);
-    return res;
-  } catch (e) { incrementApiRetryCount(key); throw e; }
+export type AdminProductDetail = {
+  id: number;
+  name: string;
+  price: number;
+  stock: number;
+  imageUrl: string;
+  images?: string[];
+  sellDate?: string;
+  sellTime?: string;
+  description?: string;
 };
 
-export const getAdminReservations = async (today?: string) => {
-  const key = 'getAdminReservations';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    let url = '/api/admin/shop/reservations';
-    if (today) url += `?date=${encodeURIComponent(today)}`;
-    const res = await adminFetch(url, {}, true);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
+const toAdminProductDetail = (p: Infer<typeof adminProductDetailSchema>): AdminProductDetail => ({
+  id: p.id,
+  name: p.name,
+  price: p.price,
+  stock: p.stock,
+  imageUrl: addImgPrefix(p.imageUrl),
+  images: p.images?.map(addImgPrefix),
+  sellDate: p.sellDate || undefined,
+  sellTime: p.sellTime || undefined,
+  description: p.description || undefined,
+});
 
-export const getAdminProduct = async (id: number) => {
+export const getAdminProduct = async (id: number): Promise<AdminProductDetail> => {
   const key = 'getAdminProduct';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
+  apiCircuit.assertClosed(key);
   try {
     const res = await adminFetch(`/api/admin/shop/products/${id}`, {}, true);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) throw await ApiError.fromResponse(res, 'admin');
+    return toAdminProductDetail(await parseJson(res, adminProductDetailSchema, key));
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
 };
 
-export const createAdminProduct = async (data: any) => {
-  const key = 'createAdminProduct';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await adminFetch('/api/admin/shop/products', { method: 'POST', body: JSON.stringify(data) }, true);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
+export type AdminProductCreatePayload = {
+  name: string;
+  price: number;
+  stock: number;
+  imageKey: string; // 서버는 S3 key 저장
+  sellDate: string;
+  visible: boolean;
+  deliveryAvailable: boolean;
 };
 
-export const updateAdminProduct = async (id: number, data: any) => {
-  const key = 'updateAdminProduct';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await adminFetch(`/api/admin/shop/products/${id}`, { method: 'PATCH', body: JSON.stringify(data) }, true);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
+/** 상품 등록 → 생성된 상품 id (응답에 없으면 null) */
+// 생성 응답: 상품 id 숫자 또는 { id } (id가 없으면 카테고리 연결 생략)
+const createdProductSchema = s.object({ id: s.number().from('id', 'product_id', 'productId').nullable() }).nullable();
 
-export const setSoldOut = async (id: number) => {
-  const key = 'setSoldOut';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await adminFetch(`/api/admin/shop/products/sold-out/${id}`, { method: 'PATCH' }, true);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
-
-export const toggleVisible = async (id: number) => {
-  const key = 'toggleVisible';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await adminFetch(`/api/admin/shop/products/visible/${id}`, { method: 'PATCH' }, true);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
+export const createAdminProduct = async (payload: AdminProductCreatePayload): Promise<number | null> => {
+  const key = 'createAdminProduct';
+  const body = await requestData(key, 'admin', () => adminFetch('/api/admin/shop/products', {
+    method: 'POST',
+    body: JSON.stringify({
+      name: payload.name,
+      price: payload.price,
+      stock: payload.stock,
+      image_url: payload.imageKey,
+      sell_date: payload.sellDate,
+      visible: payload.visible,
+      delivery_available: payload.deliveryAvailable,
+    }),
+  }, true), s.unknown());
+  invalidateProductQueries();
+  if (typeof body === 'number') return body;
+  return parseData(createdProductSchema, body, key)?.id ?? null;
+};
+
+/** 상품 수정 - null인 필드는 변경하지 않음 */
+export type AdminProductPatch = {
+  name: string | null;
+  price: number | null;
+  stock: number | null;
+  productUrl: string | null; // S3 key
+  sellDate: string | null;
+  sellTime: string | null;
+  updateSellTime: boolean; // sellTime null을 "시간 지정 해제"로 적용할지
+  description: string | null;
+  detailUrls: string[] | null; // S3 key 목록
+};
+
+export const updateAdminProduct = async (id: number, patch: AdminProductPatch): Promise<void> => {
+  await requestOk('updateAdminProduct', 'admin', () => adminFetch(`/api/admin/shop/products/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify({
+      name: patch.name,
+      price: patch.price,
+      stock: patch.stock,
+      product_url: patch.productUrl,
+      sell_date: patch.sellDate,
+      sell_time: patch.sellTime,
+      update_sell_time: patch.updateSellTime,
+      description: patch.description,
+      detail_urls: patch.detailUrls,
+    }),
+  }, true));
+  invalidateProductQueries();
+};
+
+const adminProductMutation = async (key: string, path: string): Promise<AdminProductListItem> => {
+  const product = await requestData(key, 'admin', () => adminFetch(path, { method: 'PATCH' }, true), adminProductListItemSchema);
+  invalidateProductQueries();
+  return mapAdminListItem(product);
+};
+
+export const setSoldOut = (id: number) =>
+  adminProductMutation('setSoldOut', `/api/admin/shop/products/sold-out/${id}`);
+
+export const toggleVisible = (id: number) =>
+  adminProductMutation('toggleVisible', `/api/admin/shop/products/visible/${id}`);
 
 // 상품 배달 가능 여부 토글
-export const toggleDeliveryAvailable = async (id: number) => {
-  const key = 'toggleDeliveryAvailable';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await adminFetch(`/api/admin/shop/products/delivery-available/${id}`, { method: 'PATCH' }, true);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
-
-export const deleteAdminProduct = async (id: number) => {
-  const key = 'deleteAdminProduct';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await adminFetch(`/api/admin/shop/products/${id}`, { method: 'DELETE' }, true);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
-
-export const getAdminDeliveries = async (date: string) => {
+export const toggleDeliveryAvailable = (id: number) =>
+  adminProductMutation('toggleDeliveryAvailable', `/api/admin/shop/products/delivery-available/${id}`);
+
+export const deleteAdminProduct = async (id: number): Promise<void> => {
+  await requestOk('deleteAdminProduct', 'admin', () => adminFetch(`/api/admin/shop/products/${id}`, { method: 'DELETE' }, true));
+  invalidateProductQueries();
+};
+
+// 상품별 입고 알림 대기 인원 (productId → 인원)
+const waitlistCountSchema = s.object({
+  response: s.array(s.object({
+    productId: s.number(),
+    count: s.number().default(0),
+  })).default([]),
+});
+
+export const getAdminWaitlistCounts = async (): Promise<Record<number, number>> => {
+  const key = 'getAdminWaitlistCounts';
+  apiCircuit.assertClosed(key);
+  try {
+    const res = await adminFetch('/api/admin/shop/products/waitlist', {}, true);
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) throw await ApiError.fromResponse(res, 'admin');
+    const data = await parseJson(res, waitlistCountSchema, key);
+    return Object.fromEntries(data.response.map(item => [item.productId, item.count]));
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
+};
+
+// 관리자 배달 주문 (목록 / 상태 변경 응답 / SSE delivery_paid 이벤트 공용)
+const adminDeliverySchema = s.object({
+  id: s.number().from('id', 'order_id'),
+  displayCode: s.string().optional(),
+  reservationIds: s.array(s.number()).default([]),
+  reservationCount: s.number().default(0),
+  reservationItems: s.array(s.object({
+    id: s.number().from('id', 'reservation_id'),
+    productName: s.string().default(''),
+    quantity: s.number().default(0),
+    amount: s.number().default(0),
+  })).from('reservation_items', 'reservations').default([]),
+  productSummary: s.string().default(''),
+  buyerName: s.string().default(''),
+  totalAmount: s.number().default(0),
+  status: s.string().default(''),
+  phone: s.string().default(''),
+  postalCode: s.string().default(''),
+  address1: s.string().default(''),
+  address2: s.string().default(''),
+  distanceKm: s.number().default(0),
+  deliveryFee: s.number().default(0),
+  deliveryDate: s.string().default(''),
+  deliveryHour: s.number().default(0),
+  deliveryMinute: s.number().default(0),
+  scheduledDeliveryHour: s.number().nullable(),
+  scheduledDeliveryMinute: s.number().nullable(),
+  estimatedMinutes: s.number().nullable(),
+  paidAt: s.string().default(''),
+  acceptedAt: s.string().nullable(),
+});
+
+export type AdminDelivery = Omit<Infer<typeof adminDeliverySchema>, 'displayCode'> & {
+  displayCode: string; // D-26020216-VWQPA (없으면 주문 id)
+  status: string;      // 대문자 (PAID / OUT_FOR_DELIVERY / DELIVERED / CANCELED)
+};
+
+const toAdminDelivery = (d: Infer<typeof adminDeliverySchema>): AdminDelivery => ({
+  ...d,
+  displayCode: d.displayCode || String(d.id),
+  status: d.status.toUpperCase(),
+});
+
+export const parseAdminDeliveryEvent = (data: unknown): AdminDelivery =>
+  toAdminDelivery(parseData(adminDeliverySchema, data, 'adminDeliveryStream'));
+
+/** 관리자 배달 목록 (계약이 어긋난 주문은 건너뜀) */
+export const getAdminDeliveries = async (date: string): Promise<AdminDelivery[]> => {
   const key = 'getAdminDeliveries';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const url = `/api/admin/shop/deliveries?date=${encodeURIComponent(date)}`;
-    const res = await adminFetch(url, {}, true);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
+  const url = `/api/admin/shop/deliveries?date=${encodeURIComponent(date)}`;
+  const body = await requestData(key, 'admin', () => adminFetch(url, {}, true), s.unknown());
+  return parseRows(adminDeliverySchema, listOf(body), key).map(toAdminDelivery);
 };
 
-export const updateAdminDeliveryStatus = async (id: number, status: 'out_for_delivery' | 'delivered' | 'canceled') => {
-  const key = 'updateAdminDeliveryStatus';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await adminFetch(`/api/admin/shop/deliveries/${id}/status/${status.toUpperCase()}`, { method: 'PATCH' }, true);
-    if (res.ok) resetApiRetryCount(key);
-    return res;
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
+export const updateAdminDeliveryStatus = async (id: number, status: 'out_for_delivery' | 'delivered' | 'canceled'): Promise<AdminDelivery> =>
+  toAdminDelivery(await requestData('updateAdminDeliveryStatus', 'admin', () =>
+    adminFetch(`/api/admin/shop/deliveries/${id}/status/${status.toUpperCase()}`, { method: 'PATCH' }, true), adminDeliverySchema));
 
-export const acceptAdminDelivery = async (id: number, estimatedMinutes: number) => {
-  const key = 'acceptAdminDelivery';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await adminFetch(`/api/admin/shop/deliveries/${id}/accept`, {
-      method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ estimated_minutes: estimatedMinutes }),
-    }, true);
-    if (res.ok) resetApiRetryCount(key);
-    return res;
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
+export const acceptAdminDelivery = async (id: number, estimatedMinutes: number): Promise<AdminDelivery> =>
+  toAdminDelivery(await requestData('acceptAdminDelivery', 'admin', () => adminFetch(`/api/admin/shop/deliveries/${id}/accept`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ estimated_minutes: estimatedMinutes }),
+  }, true), adminDeliverySchema));
 
 export type AdminDeliveryConfigPayload = {
   enabled: boolean;
@@ -880,21 +1311,28 @@ export type AdminDeliveryConfigPayload = {
   startMinute: number;
   endHour: number;
   endMinute: number;
+  zones: DeliveryZone[];
+  feeRules: DeliveryFeeRules;
+  scheduledSlotCapacity: number;
+  scheduledSlotCapacities: SlotCapacity[];
 };
 
-export const getAdminDeliveryConfig = async () => {
+/** 관리자 배달 설정 (고객 화면과 같은 deliveryConfigSchema로 검증) */
+export const getAdminDeliveryConfig = async (): Promise<DeliveryConfig> => {
   const key = 'getAdminDeliveryConfig';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
+  apiCircuit.assertClosed(key);
   try {
     const res = await adminFetch('/api/admin/shop/deliveries/config', {}, true);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) throw await ApiError.fromResponse(res, 'admin');
+    return parseJson(res, deliveryConfigSchema, key);
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
 };
 
-export const updateAdminDeliveryConfig = async (payload: AdminDeliveryConfigPayload) => {
+/** 저장 후 서버에 반영된 설정 반환 */
+export const updateAdminDeliveryConfig = async (payload: AdminDeliveryConfigPayload): Promise<DeliveryConfig> => {
   const key = 'updateAdminDeliveryConfig';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
+  apiCircuit.assertClosed(key);
   try {
     const res = await adminFetch('/api/admin/shop/deliveries/config', {
       method: 'PUT',
@@ -909,158 +1347,206 @@ export const updateAdminDeliveryConfig = async (payload: AdminDeliveryConfigPayl
         start_minute: payload.startMinute,
         end_hour: payload.endHour,
         end_minute: payload.endMinute,
+        zones: payload.zones.map(zone => ({
+          id: zone.id > 0 ? zone.id : null, // 새 구역은 서버에서 발급
+          name: zone.name,
+          polygon: zone.polygon,
+          fee: zone.fee,
+          min_amount: zone.minAmount,
+          start_hour: zone.startHour,
+          start_minute: zone.startMinute,
+          end_hour: zone.endHour,
+          end_minute: zone.endMinute,
+        })),
+        fee_rules: {
+          distance_tiers: payload.feeRules.distanceTiers.map(tier => ({ up_to_km: tier.upToKm, fee: tier.fee })),
+          free_over_amount: payload.feeRules.freeOverAmount,
+          late_night_start_hour: payload.feeRules.lateNightStartHour,
+          late_night_start_minute: payload.feeRules.lateNightStartMinute,
+          late_night_surcharge: payload.feeRules.lateNightSurcharge,
+          scheduled_surcharge: payload.feeRules.scheduledSurcharge,
+          promotions: payload.feeRules.promotions,
+        },
+        scheduled_slot_capacity: payload.scheduledSlotCapacity,
+        scheduled_slot_capacities: payload.scheduledSlotCapacities,
       }),
     }, true);
-    if (res.ok) resetApiRetryCount(key);
-    return res;
-  } catch (e) { incrementApiRetryCount(key); throw e; }
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) throw await ApiError.fromResponse(res, 'admin');
+    invalidateDeliveryConfigQuery();
+    return parseJson(res, deliveryConfigSchema, key);
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
+};
+
+export const updateReservationStatus = async (id: number, status: ReservationStatus): Promise<AdminReservation> =>
+  toAdminReservation(await requestData('updateReservationStatus', 'admin', () =>
+    adminFetch(`/api/admin/shop/reservations/${id}/${status.toUpperCase()}`, { method: 'PATCH' }, true), adminReservationSchema));
+
+export const warnReservation = async (id: number): Promise<AdminReservation> =>
+  toAdminReservation(await requestData('warnReservation', 'admin', () =>
+    adminFetch(`/api/admin/shop/reservations/${id}/no-show`, { method: 'PATCH' }, true), adminReservationSchema));
+
+// 노쇼 검토: 수령일의 미수령 예약을 고객별로 묶고, 경고 1회 추가 시 이용 제한 여부를 함께 응답
+const noShowCandidateSchema = s.object({
+  userId: s.string().from('user_id', 'uid'),
+  userName: s.string().default(''),
+  monthlyWarnCount: s.number().default(0),
+  restrictedUntil: s.string().nullable(),
+  willBeRestricted: s.boolean().default(false),
+  reservations: s.array(s.object({
+    id: s.number(),
+    displayCode: s.string().nullable(),
+    productName: s.string().default(''),
+    quantity: s.number().default(0),
+    amount: s.number().default(0),
+  })).default([]),
+});
+
+export type NoShowCandidate = Infer<typeof noShowCandidateSchema>;
+
+const noShowPreviewSchema = s.object({
+  restrictWarnCount: s.number().default(2),
+  response: s.array(noShowCandidateSchema).default([]),
+});
+
+export const getNoShowPreview = async (date: string, signal?: AbortSignal) => {
+  const key = 'getNoShowPreview';
+  apiCircuit.assertClosed(key);
+  try {
+    const res = await adminFetch(`/api/admin/shop/reservations/no-show/preview?date=${encodeURIComponent(date)}`, { signal }, true);
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) throw await ApiError.fromResponse(res, 'admin');
+    return await parseJson(res, noShowPreviewSchema, key);
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
+};
+
+const noShowResultSchema = s.object({
+  updated: s.number().default(0),
+  warnedUsers: s.number().default(0),
+  restricted: s.array(s.object({
+    userId: s.string().from('user_id', 'uid'),
+    userName: s.string().default(''),
+    restrictedUntil: s.string().nullable(),
+  })).default([]),
+});
+
+export type NoShowResult = Infer<typeof noShowResultSchema>;
+
+// 노쇼 일괄 처리 (고객별 경고는 요청당 1회)
+export const markNoShowBulk = async (reservationIds: number[]): Promise<NoShowResult> => {
+  const key = 'markNoShowBulk';
+  apiCircuit.assertClosed(key);
+  try {
+    const res = await adminFetch('/api/admin/shop/reservations/no-show', {
+      method: 'PATCH',
+      body: JSON.stringify({ reservation_ids: reservationIds }),
+    }, true);
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) throw await ApiError.fromResponse(res, 'admin');
+    return await parseJson(res, noShowResultSchema, key);
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
 };
 
-export const updateReservationStatus = async (id: number, status: 'pending' | 'picked' | 'canceled' | 'no_show') => {
-  const key = 'updateReservationStatus';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const statusUpper = status.toUpperCase();
-    const res = await adminFetch(`/api/admin/shop/reservations/${id}/${statusUpper}`, { method: 'PATCH' }, true);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
+// 집계 테이블 필드명이 배치 버전마다 달라 이전 이름도 허용
+const salesSummarySchema = s.object({
+  summary: s.array(s.object({
+    date: s.string().from('date', 'sell_date', 'sellDate', 'pickup_date', 'pickupDate').default(''),
+    quantity: s.number().from('quantity', 'sum_quantity').default(0),
+    revenue: s.number().from('revenue', 'amount', 'sum_amount').default(0),
+  })).default([]),
+});
 
-export const warnReservation = async (id: number) => {
-  const key = 'warnReservation';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await adminFetch(`/api/admin/shop/reservations/${id}/no-show`, { method: 'PATCH' }, true);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
+export type SalesSummaryDay = Infer<typeof salesSummarySchema>['summary'][number];
 
 // 일자별 매출 집계 요약 API
-export const getSalesSummary = async (from?: string, to?: string) => {
-  const key = 'getSalesSummary';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    let url = `/api/admin/shop/agg/summary`;
-    if (from && to) {
-      url += `?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`;
-    }
-
-    const res = await adminFetch(url, { cache: 'no-store' }, true);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
+export const getSalesSummary = async (from?: string, to?: string): Promise<SalesSummaryDay[]> => {
+  let url = `/api/admin/shop/agg/summary`;
+  if (from && to) {
+    url += `?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`;
+  }
+  const { summary } = await requestData('getSalesSummary', 'admin', () => adminFetch(url, { cache: 'no-store' }, true), salesSummarySchema);
+  return summary;
 };
 
 // 특정 날짜 상세 매출 내역 API
-export const getSalesDetails = async (date: string) => {
+const salesDetailSchema = s.object({
+  id: s.number(),
+  pickupDate: s.string().default(''),
+  productName: s.string().default(''),
+  quantity: s.number().default(0),
+  amount: s.number().from('amount', 'revenue').default(0),
+  price: s.number().default(0),
+});
+
+export type SalesDetail = Infer<typeof salesDetailSchema>;
+
+// 특정 날짜 상세 매출 내역 API
+export const getSalesDetails = async (date: string, signal?: AbortSignal): Promise<SalesDetail[]> => {
   const key = 'getSalesDetails';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const url = `/api/admin/shop/agg/sales?date=${encodeURIComponent(date)}`;
-    const res = await adminFetch(url, { cache: 'no-store' }, true);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
+  const url = `/api/admin/shop/agg/sales?date=${encodeURIComponent(date)}`;
+  const body = await requestData(key, 'admin', () => adminFetch(url, { cache: 'no-store', signal }, true), s.unknown());
+  return parseRows(salesDetailSchema, listOf(body), key);
 };
 
 // 오늘 매출 데이터 API
-export const getTodaySales = async (date: string) => {
+const todaySalesSchema = s.object({
+  productId: s.number(),
+  productName: s.string().default(''),
+  quantity: s.number().default(0),
+  amount: s.number().from('amount', 'revenue').default(0),
+});
+
+export type TodaySales = Infer<typeof todaySalesSchema>;
+
+// 오늘 매출 데이터 API (상품별 합계)
+export const getTodaySales = async (date: string, signal?: AbortSignal): Promise<TodaySales[]> => {
   const key = 'getTodaySales';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const url = `/api/admin/shop/reservations/sales/today`;
-    const res = await adminFetch(url, { cache: 'no-store' }, true);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
+  const url = `/api/admin/shop/reservations/sales/today`;
+  const body = await requestData(key, 'admin', () => adminFetch(url, { cache: 'no-store', signal }, true), s.unknown());
+  return parseRows(todaySalesSchema, listOf(body), key);
 };
 
-export const getUploadUrl = async (filename: string, contentType: string): Promise<Response> => {
-  const key = 'getUploadUrl';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    if (!contentType || typeof contentType !== 'string') throw new Error(`Invalid contentType: ${contentType}`);
-    const cleanContentType = contentType.trim();
-    if (!cleanContentType) throw new Error('contentType cannot be empty after trimming');
+// S3 업로드용 presigned URL (상품/카테고리/택배 상품 이미지 공용)
+const presignedUrlSchema = s.object({
+  url: s.string().from('url', 'upload_url', 'uploadUrl'),
+  key: s.string(),
+  method: s.string().default('PUT'),
+  contentType: s.string().optional(),
+});
 
-    const body = { file_name: filename, content_type: cleanContentType };
-    // 공통 presigned-url (메인 상품 이미지 업로드에 사용)
-    const res = await adminFetch('/api/admin/shop/products/presigned-url', { method: 'POST', body: JSON.stringify(body) }, true);
+export type PresignedUrl = Infer<typeof presignedUrlSchema>;
 
-    if (res.status === 403) {
-      try { const err = await res.clone().json(); safeErrorLog(err); } catch { /* ignore */ }
-    }
-    if (res.ok) resetApiRetryCount(key);
-    return res;
-  } catch (e) { incrementApiRetryCount(key); throw e; }
+const requestPresignedUrl = (key: string, path: string, filename: string, contentType: string): Promise<PresignedUrl> => {
+  const cleanContentType = (contentType || '').trim();
+  if (!cleanContentType) throw new Error(`Invalid contentType: ${contentType}`);
+  const body = { file_name: filename, content_type: cleanContentType };
+  return requestData(key, 'admin', () => adminFetch(path, { method: 'POST', body: JSON.stringify(body) }, true), presignedUrlSchema);
 };
 
-export const getUpdateUrl = async (id: number, filename: string, contentType: string): Promise<Response> => {
-  const key = 'getUpdateUrl';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const body = { file_name: filename, content_type: contentType };
-    const res = await adminFetch(`/api/admin/shop/products/${id}/presigned-url`, { method: 'PATCH', body: JSON.stringify(body) }, true);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
+// 공통 presigned-url (메인 상품 이미지 업로드에 사용)
+export const getUploadUrl = (filename: string, contentType: string) =>
+  requestPresignedUrl('getUploadUrl', '/api/admin/shop/products/presigned-url', filename, contentType);
 
-export const getDetailUpdateUrl = async (id: number, filenames: string[], contentType: string): Promise<Response> => {
-  const key = 'getDetailUpdateUrl';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const body = { product_id: id, file_names: filenames, content_type: contentType };
-    const res = await adminFetch(`/api/admin/shop/products/${id}/presigned-url`, { method: 'PATCH', body: JSON.stringify(body) }, true);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
+export const getUpdateUrl = (id: number, filename: string, contentType: string): Promise<PresignedUrl> =>
+  requestData('getUpdateUrl', 'admin', () => adminFetch(`/api/admin/shop/products/${id}/presigned-url`, {
+    method: 'PATCH',
+    body: JSON.stringify({ file_name: filename, content_type: contentType }),
+  }, true), presignedUrlSchema);
 
-// New: Detail images batch presigned URL (server expects camelCase keys)
-export type PresignedDetailItem = {
-  url: string;
-  key: string;
-  method?: string;
-  content_type?: string;
-  expires_in?: number;
-};
+export const getDetailUpdateUrl = (id: number, filenames: string[], contentType: string): Promise<PresignedUrl[]> =>
+  getDetailPresignedUrlsBatch(id, filenames, contentType);
 
-export const getDetailPresignedUrlsBatch = async (
+// 상세 이미지 presigned URL 일괄 발급 (파일 순서대로 응답)
+export const getDetailPresignedUrlsBatch = (
   productId: number,
   fileNames: string[],
   contentType: string
-): Promise<PresignedDetailItem[]> => {
-  const key = 'getDetailPresignedUrlsBatch';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    // 서버 스펙: snake_case (file_names, content_type)
-    const body = { file_names: fileNames, content_type: contentType } as any;
-    const res = await adminFetch(`/api/admin/shop/products/${productId}/presigned-url`, {
-      method: 'PATCH',
-      body: JSON.stringify(body),
-    }, true);
-    if (!res.ok) {
-      if (res.status === 401 || res.status === 403) return [];
-      throw new Error('상세 이미지 업로드 URL 발급에 실패했습니다.');
-    }
-    const list = await res.json();
-    if (!Array.isArray(list)) return [];
-    // 기대 형식: [{ url, key, method, content_type, expires_in }]
-    return list.map((it: any) => ({
-      url: String(it.url || it.uploadUrl || ''),
-      key: String(it.key || ''),
-      method: it.method ? String(it.method) : 'PUT',
-      content_type: it.content_type ? String(it.content_type) : undefined,
-      expires_in: typeof it.expires_in === 'number' ? it.expires_in : undefined,
-    }));
-  } catch (e) {
-    incrementApiRetryCount(key);
-    throw e;
-  }
-};
+): Promise<PresignedUrl[]> =>
+  // 서버 스펙: snake_case (file_names, content_type)
+  requestData('getDetailPresignedUrlsBatch', 'admin', () => adminFetch(`/api/admin/shop/products/${productId}/presigned-url`, {
+    method: 'PATCH',
+    body: JSON.stringify({ file_names: fileNames, content_type: contentType }),
+  }, true), s.array(presignedUrlSchema));
 
 // ===== Admin 전용: 요청/응답 매핑 헬퍼 =====
 
@@ -1077,195 +1563,118 @@ export type AdminProductListItem = {
   deliveryAvailable?: boolean; // server: delivery_available
 };
 
-const addImgPrefix = (url?: string) => {
-  if (!url) return '';
-  if (url.startsWith('http')) return url;
-  const base = process.env.REACT_APP_IMG_URL || '';
-  return base ? `${base}/${url}` : url;
-};
-
-const mapAdminListItem = (p: any): AdminProductListItem => {
-  const stockNum = Number(p.stock ?? 0);
+const adminProductListItemSchema = s.object({
+  id: s.number(),
+  name: s.string().default(''),
+  price: s.number().default(0),
+  stock: s.number().default(0),
   // 서버 가시성 필드 추정치: visible | is_visible | visibility | status(boolean-like)
-  const rawVisible = (
-    p.visible ??
-    p.is_visible ??
-    p.visibility ??
-    (typeof p.status === 'boolean' ? p.status : undefined)
-  );
-  const visible = typeof rawVisible === 'boolean' ? rawVisible : (stockNum > 0);
+  visible: s.boolean().from('visible', 'is_visible', 'visibility').optional(),
+  status: s.unknown(),
+  imageUrl: s.string().from('productUrl', 'product_url', 'imageUrl').default(''),
+  sellDate: s.string().optional(),
+  sellTime: s.string().optional(),
+  orderIndex: s.number().optional(),
+  deliveryAvailable: s.boolean().optional(),
+});
+
+const mapAdminListItem = (p: Infer<typeof adminProductListItemSchema>): AdminProductListItem => {
+  const rawVisible = p.visible ?? (typeof p.status === 'boolean' ? p.status : undefined);
+  const visible = rawVisible ?? (p.stock > 0);
   return {
-    id: Number(p.id),
-    name: String(p.name ?? ''),
-    price: Number(p.price ?? 0),
-    stock: stockNum,
+    id: p.id,
+    name: p.name,
+    price: p.price,
+    stock: p.stock,
     status: visible ? 'active' : 'inactive',
-    imageUrl: addImgPrefix(p.productUrl ?? p.product_url ?? p.imageUrl ?? ''),
-    sellDate: (p.sellDate ?? p.sell_date) || undefined,
-    sellTime: (p.sellTime ?? p.sell_time) || undefined,
-    orderIndex: p.order_index ? Number(p.order_index) : undefined,
-    deliveryAvailable: typeof p.delivery_available === 'boolean'
-      ? Boolean(p.delivery_available)
-      : (typeof p.deliveryAvailable === 'boolean' ? Boolean(p.deliveryAvailable) : undefined),
+    imageUrl: addImgPrefix(p.imageUrl),
+    sellDate: p.sellDate || undefined,
+    sellTime: p.sellTime || undefined,
+    orderIndex: p.orderIndex || undefined,
+    deliveryAvailable: p.deliveryAvailable,
   };
 };
 
+// 관리자 목록도 공용 캐시 사용, forceTs(수정 직후 복귀)면 캐시를 비우고 다시 조회
+// 네트워크 요청은 no-store 유지 → 재검증 시 HTTP 캐시가 아닌 서버 최신값을 받음
 export const getAdminProductsMapped = async (forceTs?: number): Promise<AdminProductListItem[]> => {
-  const ts = forceTs ? `?ts=${forceTs}` : '';
-  const res = await adminFetch(`/api/admin/shop/products${ts}`, {
-    cache: 'no-store',
-    headers: {
-      'Cache-Control': 'no-cache',
-      Pragma: 'no-cache',
-    },
-  }, true);
-  if (!res.ok) {
-    if (res.status === 401 || res.status === 403) return [];
-    throw new Error('상품 목록을 불러오지 못했습니다.');
-  }
-  const body = await res.json();
-  const arr = Array.isArray(body) ? body : (body?.response || []);
-  if (!Array.isArray(arr)) throw new Error('상품 데이터가 배열 형태가 아닙니다.');
-  return arr.map(mapAdminListItem);
-};
-
-export type AdminProductDetail = {
-  id: number;
-  name: string;
-  price: number;
-  stock: number;
-  imageUrl: string;
-  images?: string[];
-  sellDate?: string;
-  description?: string;
-};
-
-export const getAdminProductDetailMapped = async (id: number): Promise<AdminProductDetail> => {
-  const res = await adminFetch(`/api/admin/shop/products/${id}`, {}, true);
-  if (!res.ok) {
-    if (res.status === 401 || res.status === 403) throw new Error('권한이 없습니다.');
-    throw new Error('상품 정보를 불러오지 못했습니다.');
-  }
-  const raw = await res.json();
-  return {
-    id: Number(raw.id),
-    name: String(raw.name ?? ''),
-    price: Number(raw.price ?? 0),
-    stock: Number(raw.stock ?? 0),
-    imageUrl: addImgPrefix(raw.productUrl ?? raw.imageUrl ?? raw.product_url ?? ''),
-    images: Array.isArray(raw.detail_urls)
-      ? raw.detail_urls.map((u: string) => addImgPrefix(u))
-      : (Array.isArray(raw.detailUrl)
-        ? raw.detailUrl.map((u: string) => addImgPrefix(u))
-        : (raw.images || undefined)),
-    sellDate: (raw.sellDate ?? raw.sell_date) || undefined,
-    description: raw.description || undefined,
-  };
-};
-
-export type AdminProductUpdatePayload = {
-  name: string;
-  price: number;
-  stock: number;
-  productUrl: string;
-  sellDate: string | null;
-  description?: string;
-  detailUrl?: string[];
+  if (forceTs) invalidateQueries(QUERY_KEYS.adminProducts);
+  return fetchQuery(QUERY_KEYS.adminProducts, async () => {
+    const key = 'getAdminProductsMapped';
+    try {
+      const body = await requestData(key, 'admin', () => adminFetch('/api/admin/shop/products', {
+        cache: 'no-store',
+        headers: {
+          'Cache-Control': 'no-cache',
+          Pragma: 'no-cache',
+        },
+      }, true), s.unknown());
+      return parseRows(adminProductListItemSchema, listOf(body), key).map(mapAdminListItem);
+    } catch (e) {
+      // 401, 403은 adminFetch에서 이미 처리됨 (빈 목록은 캐시하지 않음)
+      if (e instanceof ApiError && (e.status === 401 || e.status === 403)) return [];
+      throw e;
+    }
+  }, { staleTimeMs: 30 * 1000, cacheTimeMs: 10 * 60 * 1000, shouldCache: list => list.length > 0 });
 };
 
-export const updateAdminProductWithPayload = async (id: number, payload: AdminProductUpdatePayload) => {
-  return adminFetch(`/api/admin/shop/products/${id}`, { method: 'PATCH', body: JSON.stringify(payload) }, true);
-};
+export const getAdminProductDetailMapped = async (id: number): Promise<AdminProductDetail> =>
+  toAdminProductDetail(await requestData('getAdminProductDetailMapped', 'admin', () =>
+    adminFetch(`/api/admin/shop/products/${id}`, {}, true), adminProductDetailSchema));
 
-export const getHealth = async () => {
-  const key = 'getHealth';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await fetch(`${API_BASE}/api/health`);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
+export const getHealth = (): Promise<{ status: string }> =>
+  requestData('getHealth', 'user', () => fetch(`${API_BASE}/api/health`), s.object({ status: s.string() }));
 
 // 관리자 예약 일괄 상태 변경
-export const updateReservationsStatusBulk = async (reservationIds: number[], status: 'pending' | 'picked' | 'canceled') => {
-  const key = 'updateReservationsStatusBulk';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const body = {
-      reservation_ids: reservationIds,
-      status: status.toUpperCase(),
-    };
-    const res = await adminFetch('/api/admin/shop/reservations/status', {
-      method: 'PATCH',
-      body: JSON.stringify(body),
-    }, true);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
+export const updateReservationsStatusBulk = (reservationIds: number[], status: 'pending' | 'picked' | 'canceled'): Promise<void> =>
+  requestOk('updateReservationsStatusBulk', 'admin', () => adminFetch('/api/admin/shop/reservations/status', {
+    method: 'PATCH',
+    body: JSON.stringify({ reservation_ids: reservationIds, status: status.toUpperCase() }),
+  }, true));
 
 // 관리자 세션 유효성 검증
-export const validateAdminSession = async () => {
-  const key = 'validateAdminSession';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await adminFetch('/api/admin/validate', { method: 'GET' }, true);
-    if (res.ok) resetApiRetryCount(key);
-    return res;
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
+export const validateAdminSession = (): Promise<void> =>
+  requestOk('validateAdminSession', 'admin', () => adminFetch('/api/admin/validate', { method: 'GET' }, true));
 
 // 상품 판매일 일괄 변경
-export const bulkUpdateSellDate = async (productIds: number[], sellDate: string) => {
-  const key = 'bulkUpdateSellDate';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const body = {
-      product_ids: productIds,
-      sell_date: sellDate,
-    };
-    const res = await adminFetch('/api/admin/shop/products/bulk-sell-date', {
-      method: 'PATCH',
-      body: JSON.stringify(body),
-    }, true);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
+export const bulkUpdateSellDate = async (productIds: number[], sellDate: string): Promise<void> => {
+  await requestOk('bulkUpdateSellDate', 'admin', () => adminFetch('/api/admin/shop/products/bulk-sell-date', {
+    method: 'PATCH',
+    body: JSON.stringify({ product_ids: productIds, sell_date: sellDate }),
+  }, true));
+  invalidateProductQueries();
 };
 
 // 상품 판매일 일괄 조회
-export const getBulkSellDates = async (productIds: number[]) => {
+const bulkSellDateSchema = s.object({
+  id: s.number(),
+  sellDate: s.string().nullable(),
+});
+
+export const getBulkSellDates = async (productIds: number[]): Promise<Infer<typeof bulkSellDateSchema>[]> => {
   const key = 'getBulkSellDates';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const queryParams = productIds.map(id => `ids=${id}`).join('&');
-    const res = await adminFetch(`/api/admin/shop/products/bulk-sell-date?${queryParams}`, {}, true);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
+  const queryParams = productIds.map(id => `ids=${id}`).join('&');
+  const body = await requestData(key, 'admin', () => adminFetch(`/api/admin/shop/products/bulk-sell-date?${queryParams}`, {}, true), s.unknown());
+  return parseRows(bulkSellDateSchema, listOf(body), key);
 };
 
 // 상품 순서 업데이트
-export const updateProductOrder = async (product_ids: number[]) => {
-  const key = 'updateProductOrder';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await adminFetch('/api/admin/shop/products/order', {
-      method: 'PATCH',
-      body: JSON.stringify({ product_ids }),
-    }, true);
-    if (res.ok) resetApiRetryCount(key);
-    return validateJsonResponse(res);
-  } catch (e) { incrementApiRetryCount(key); throw e; }
+export const updateProductOrder = async (productIds: number[]): Promise<void> => {
+  await requestOk('updateProductOrder', 'admin', () => adminFetch('/api/admin/shop/products/order', {
+    method: 'PATCH',
+    body: JSON.stringify({ product_ids: productIds }),
+  }, true));
+  invalidateProductQueries();
 };
 
 // 서버 시간 조회 (KST 기준 epoch milliseconds)
-export const getServerTime = async (): Promise<number> => {
+// 캐시에는 로컬 시계와의 차이(offset)를 저장하고, 조회 시점의 로컬 시간에 더해 반환
+const fetchServerTimeOffset = async (): Promise<number> => {
   const key = 'getServerTime';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
+  apiCircuit.assertClosed(key);
   try {
     const res = await fetch(`${API_BASE}/api/time`);
+    apiCircuit.recordResponse(key, res);
     if (!res.ok) {
       throw new Error(`HTTP ${res.status}: ${res.statusText}`);
     }
@@ -1285,27 +1694,38 @@ export const getServerTime = async (): Promise<number> => {
       throw new Error(`LocalDateTime 파싱 실패: ${localDateTimeStr}`);
     }
 
-    if (res.ok) resetApiRetryCount(key);
-    return epochMs;
+    return epochMs - Date.now();
   } catch (e) {
-    incrementApiRetryCount(key);
+    apiCircuit.recordError(key, e);
     throw e;
   }
 };
 
+export const getServerTime = async (): Promise<number> => {
+  const offset = await fetchQuery(QUERY_KEYS.serverTime, fetchServerTimeOffset, { staleTimeMs: 5 * 60 * 1000, cacheTimeMs: 30 * 60 * 1000 });
+  return Date.now() + offset;
+};
+
 // 고객 관리 API
 export type CustomerSortKey = 'TOTAL_REVENUE' | 'WARN_COUNT' | 'TOTAL_WARN_COUNT' | 'RESTRICTED_UNTIL';
 export type SortOrder = 'ASC' | 'DESC';
 
-export type CustomerListItem = {
-  id: string;
-  name: string;
-  totalRevenue: number;
-  monthlyWarnCount: number;
-  totalWarnCount: number;
-  isFirstTimeBuyer: boolean;
-  restrictedUntil: string | null;
-};
+const customerListItemSchema = s.object({
+  id: s.string().from('uid'),
+  name: s.string().default(''),
+  totalRevenue: s.number().default(0),
+  monthlyWarnCount: s.number().default(0),
+  totalWarnCount: s.number().default(0),
+  isFirstTimeBuyer: s.boolean().from('first_time_buyer', 'firstTimeBuyer').default(false),
+  restrictedUntil: s.string().nullable(),
+});
+
+export type CustomerListItem = Infer<typeof customerListItemSchema>;
+
+const customerListSchema = s.object({
+  response: s.array(customerListItemSchema).default([]),
+  pagination: s.object({ nextCursor: s.string().nullable() }).optional(),
+});
 
 export const getCustomers = async (
   cursor: string = '',
@@ -1315,26 +1735,18 @@ export const getCustomers = async (
   name?: string
 ): Promise<{ users: CustomerListItem[]; cursor: string | null }> => {
   const key = 'getCustomers';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
+  apiCircuit.assertClosed(key);
   try {
     const url = `/api/admin/shop/customers?name=${encodeURIComponent(name || '')}&sortKey=${sortKey}&sortOrder=${sortOrder}&cursor=${encodeURIComponent(cursor)}&limit=${limit}`;
     const res = await adminFetch(url, {}, true);
-    if (res.ok) resetApiRetryCount(key);
-    const data = await res.json();
-    const users: CustomerListItem[] = Array.isArray(data.response) ? data.response.map((u: any) => ({
-      id: String(u.uid),
-      name: String(u.name || ''),
-      totalRevenue: Number(u.total_revenue || 0),
-      monthlyWarnCount: Number(u.monthly_warn_count || 0),
-      totalWarnCount: Number(u.total_warn_count || 0),
-      isFirstTimeBuyer: Boolean(u.first_time_buyer),
-      restrictedUntil: u.restricted_until || u.restrictedUntil || null,
-    })) : [];
-
-    const nextCursor = data.pagination?.next_cursor || null;
-    return { users, cursor: nextCursor };
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) {
+      throw new Error(`고객 목록 조회에 실패했습니다. (${res.status})`);
+    }
+    const data = await parseJson(res, customerListSchema, key);
+    return { users: data.response, cursor: data.pagination?.nextCursor || null };
   } catch (e) {
-    incrementApiRetryCount(key);
+    apiCircuit.recordError(key, e);
     throw e;
   }
 };
@@ -1342,7 +1754,7 @@ export const getCustomers = async (
 // 유저 경고 등록 (POST)
 export const addCustomerWarn = async (userId: string): Promise<void> => {
   const key = 'addCustomerWarn';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
+  apiCircuit.assertClosed(key);
   try {
     const res = await adminFetch(
       `/api/admin/shop/customer/warn/${userId}`,
@@ -1351,12 +1763,12 @@ export const addCustomerWarn = async (userId: string): Promise<void> => {
       },
       true
     );
+    apiCircuit.recordResponse(key, res);
     if (!res.ok) {
       throw new Error(`경고 등록에 실패했습니다. (${res.status})`);
     }
-    if (res.ok) resetApiRetryCount(key);
   } catch (e) {
-    incrementApiRetryCount(key);
+    apiCircuit.recordError(key, e);
     throw e;
   }
 };
@@ -1364,7 +1776,7 @@ export const addCustomerWarn = async (userId: string): Promise<void> => {
 // 이번 달 이용 제한 해제 (PATCH)
 export const resetCustomerWarn = async (userId: string): Promise<void> => {
   const key = 'resetCustomerWarn';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
+  apiCircuit.assertClosed(key);
   try {
     const res = await adminFetch(
       `/api/admin/shop/customer/warn/reset/${userId}`,
@@ -1373,19 +1785,19 @@ export const resetCustomerWarn = async (userId: string): Promise<void> => {
       },
       true
     );
+    apiCircuit.recordResponse(key, res);
     if (!res.ok) {
       throw new Error(`이용 제한 해제에 실패했습니다. (${res.status})`);
     }
-    if (res.ok) resetApiRetryCount(key);
   } catch (e) {
-    incrementApiRetryCount(key);
+    apiCircuit.recordError(key, e);
     throw e;
   }
 };
 
 export const liftRestriction = async (userId: string): Promise<void> => {
   const key = 'liftRestriction';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
+  apiCircuit.assertClosed(key);
   try {
     const res = await adminFetch(
       `/api/admin/shop/users/${userId}/lift-restriction`,
@@ -1394,12 +1806,12 @@ export const liftRestriction = async (userId: string): Promise<void> => {
       },
       true
     );
+    apiCircuit.recordResponse(key, res);
     if (!res.ok) {
       throw new Error(`이용 제한 해제에 실패했습니다. (${res.status})`);
     }
-    if (res.ok) resetApiRetryCount(key);
   } catch (e) {
-    incrementApiRetryCount(key);
+    apiCircuit.recordError(key, e);
     throw e;
   }
 };
@@ -1407,114 +1819,72 @@ export const liftRestriction = async (userId: string): Promise<void> => {
 // 고객 경고 목록 조회
 export type UserWarnReason = 'NO_SHOW' | 'ADMIN';
 
-export type CustomerWarnItem = {
-  reason: UserWarnReason;
-  warnAt: string; // ISO 8601 date string
-};
+const customerWarnItemSchema = s.object({
+  reason: s.literal<UserWarnReason>('NO_SHOW', 'ADMIN'),
+  warnAt: s.string(), // ISO 8601 date string
+});
+
+export type CustomerWarnItem = Infer<typeof customerWarnItemSchema>;
 
 export const getCustomerWarns = async (userId: string): Promise<CustomerWarnItem[]> => {
   const key = 'getCustomerWarns';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
+  apiCircuit.assertClosed(key);
   try {
     const res = await adminFetch(`/api/admin/shop/customers/warn/${userId}`, {}, true);
+    apiCircuit.recordResponse(key, res);
     if (!res.ok) {
       throw new Error(`경고 목록 조회에 실패했습니다. (${res.status})`);
     }
-    if (res.ok) resetApiRetryCount(key);
-    const data = await res.json();
-    const warns: CustomerWarnItem[] = Array.isArray(data.response)
-      ? data.response.map((w: any) => ({
-        reason: w.reason as UserWarnReason,
-        warnAt: String(w.warn_at || w.warnAt || ''),
-      }))
-      : [];
-    return warns;
+    const data = await parseJson(res, s.object({ response: s.array(customerWarnItemSchema).default([]) }), key);
+    return data.response;
   } catch (e) {
-    incrementApiRetryCount(key);
+    apiCircuit.recordError(key, e);
     throw e;
   }
 };
 
 
 // === Admin Category 관리 API ===
-export const getAdminProductCategories = async () => {
+export const getAdminProductCategories = async (): Promise<ProductCategory[]> => {
   const key = 'getAdminCategories';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await adminFetch('/api/admin/shop/products/categories', {}, true);
-    if (res.ok) resetApiRetryCount(key);
-    return res.json(); // ProductCategoryResponse 반환
-  } catch (e) {
-    incrementApiRetryCount(key);
-    throw e;
-  }
+  const body = await requestData(key, 'admin', () => adminFetch('/api/admin/shop/products/categories', {}, true), s.unknown());
+  return parseRows(productCategorySchema, listOf(body), key);
 };
 
 // 레거시: 하위 호환성
 export const getAdminProductKeywords = getAdminProductCategories;
 
-export const addAdminProductCategory = async (name: string, imageUrl?: string) => {
-  const key = 'addAdminProductCategory';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const body: { name: string; image_url?: string } = { name };
-    if (imageUrl) body.image_url = imageUrl;
-
-    const res = await adminFetch('/api/admin/shop/products/category', {
-      method: 'POST',
-      body: JSON.stringify(body),
-    }, true);
-
-    if (!res.ok) throw new Error('카테고리 추가 실패');
-    if (res.ok) resetApiRetryCount(key);
-    return res;
-  } catch (e) {
-    incrementApiRetryCount(key);
-    throw e;
-  }
-};
-
-export const updateAdminProductCategory = async (id: number, name?: string, imageUrl?: string) => {
-  const key = 'updateAdminProductCategory';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const body: { name?: string; image_url?: string } = {};
-    if (name) body.name = name;
-    if (imageUrl) body.image_url = imageUrl;
-
-    const res = await adminFetch(`/api/admin/shop/products/category/${id}`, {
-      method: 'PATCH',
-      body: JSON.stringify(body),
-    }, true);
-
-    if (!res.ok) throw new Error('카테고리 수정 실패');
-    if (res.ok) resetApiRetryCount(key);
-    return res;
-  } catch (e) {
-    incrementApiRetryCount(key);
-    throw e;
-  }
+export const addAdminProductCategory = async (name: string, imageUrl?: string): Promise<ProductCategory> => {
+  const body: { name: string; image_url?: string } = { name };
+  if (imageUrl) body.image_url = imageUrl;
+  const category = await requestData('addAdminProductCategory', 'admin', () => adminFetch('/api/admin/shop/products/category', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  }, true), productCategorySchema);
+  invalidateCategoryQueries();
+  return category;
+};
+
+export const updateAdminProductCategory = async (id: number, name?: string, imageUrl?: string): Promise<ProductCategory> => {
+  const body: { name?: string; image_url?: string } = {};
+  if (name) body.name = name;
+  if (imageUrl) body.image_url = imageUrl;
+  const category = await requestData('updateAdminProductCategory', 'admin', () => adminFetch(`/api/admin/shop/products/category/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(body),
+  }, true), productCategorySchema);
+  invalidateCategoryQueries();
+  return category;
 };
 
 // 레거시: 하위 호환성
 export const addAdminProductKeyword = (keyword: string) => addAdminProductCategory(keyword);
 export const addAdminProductKeywordWithImage = (keyword: string, keywordUrl?: string) => addAdminProductCategory(keyword, keywordUrl);
 
-export const deleteAdminProductCategory = async (name: string) => {
-  const key = 'deleteAdminProductCategory';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await adminFetch(`/api/admin/shop/products/category?keyword=${encodeURIComponent(name)}`, {
-      method: 'DELETE',
-    }, true);
-
-    if (!res.ok) throw new Error('카테고리 삭제 실패');
-    if (res.ok) resetApiRetryCount(key);
-    return res;
-  } catch (e) {
-    incrementApiRetryCount(key);
-    throw e;
-  }
+export const deleteAdminProductCategory = async (name: string): Promise<void> => {
+  await requestOk('deleteAdminProductCategory', 'admin', () =>
+    adminFetch(`/api/admin/shop/products/category?keyword=${encodeURIComponent(name)}`, { method: 'DELETE' }, true));
+  invalidateCategoryQueries();
 };
 
 // 레거시: 하위 호환성
@@ -1523,124 +1893,461 @@ export const deleteAdminProductKeyword = deleteAdminProductCategory;
 // 순서 일괄 업데이트 (드래그앤드롭 후 저장)
 export type CategoryItem = { keyword: string; keywordUrl?: string };
 
-export const updateAdminProductCategoryOrder = async (categories: { id: number; name: string; imageUrl?: string }[]) => {
+export const updateAdminProductCategoryOrder = async (categories: { id: number; name: string; imageUrl?: string }[]): Promise<ProductCategory[]> => {
   const key = 'updateAdminProductCategoryOrder';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    // 서버는 PATCH /api/admin/products/categories/order, Body: { categories: [{id, name, imageUrl}] }
-    const res = await adminFetch('/api/admin/shop/products/categories/order', {
-      method: 'PATCH',
-      body: JSON.stringify({
-        categories: categories.map(c => ({
-          id: c.id,
-          name: c.name,
-          image_url: c.imageUrl
-        }))
-      }),
-    }, true);
-
-    if (!res.ok) throw new Error('카테고리 순서 저장 실패');
-    if (res.ok) resetApiRetryCount(key);
-    return res;
-  } catch (e) {
-    incrementApiRetryCount(key);
-    throw e;
-  }
+  // 서버는 PATCH /api/admin/products/categories/order, Body: { categories: [{id, name, imageUrl}] }
+  const body = await requestData(key, 'admin', () => adminFetch('/api/admin/shop/products/categories/order', {
+    method: 'PATCH',
+    body: JSON.stringify({
+      categories: categories.map(c => ({
+        id: c.id,
+        name: c.name,
+        image_url: c.imageUrl
+      }))
+    }),
+  }, true), s.unknown());
+  invalidateCategoryQueries();
+  return parseRows(productCategorySchema, listOf(body), key);
 };
 
 // 레거시: 하위 호환성
 export type KeywordItem = CategoryItem;
 export const updateAdminProductKeywordOrder = updateAdminProductCategoryOrder;
 
-// 카테고리 이미지 업로드용 presigned URL 발급
-export const getCategoryPresignedUrl = async (filename: string, contentType: string): Promise<Response> => {
-  const key = 'getCategoryPresignedUrl';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    if (!contentType || typeof contentType !== 'string') throw new Error(`Invalid contentType: ${contentType}`);
-    const cleanContentType = contentType.trim();
-    if (!cleanContentType) throw new Error('contentType cannot be empty after trimming');
-
-    const body = { file_name: filename, content_type: cleanContentType };
-    // 카테고리 전용 presigned-url 엔드포인트 (기존 keyword와 동일할 수 있으나 명칭 정리)
-    const res = await adminFetch('/api/admin/shop/keyword/presigned-url', { method: 'POST', body: JSON.stringify(body) }, true);
-
-    if (res.status === 403) {
-      try { const err = await res.clone().json(); safeErrorLog(err); } catch { /* ignore */ }
-    }
-    if (res.ok) resetApiRetryCount(key);
-    return res;
-  } catch (e) { incrementApiRetryCount(key); throw e; }
-};
+// 카테고리 이미지 업로드용 presigned URL 발급 (기존 keyword 엔드포인트)
+export const getCategoryPresignedUrl = (filename: string, contentType: string) =>
+  requestPresignedUrl('getCategoryPresignedUrl', '/api/admin/shop/keyword/presigned-url', filename, contentType);
 
 // 레거시: 하위 호환성
 export const getKeywordPresignedUrl = getCategoryPresignedUrl;
 
 // === 상품-카테고리 연결 API ===
-export const getProductCategoriesForProduct = async (productId: number) => {
-  const key = 'getProductCategoriesForProduct';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    // 카테고리 목록 조회 + 상품 정보에서 카테고리 연결 확인
-    const res = await adminFetch('/api/admin/shop/products/categories', {}, true);
-    if (res.ok) resetApiRetryCount(key);
-    return res.json();
-  } catch (e) {
-    incrementApiRetryCount(key);
-    throw e;
-  }
+export const addCategoryToProduct = async (productId: number, categoryId: number): Promise<ProductCategory> => {
+  const category = await requestData('addCategoryToProduct', 'admin', () =>
+    adminFetch(`/api/admin/shop/products/${productId}/categories/${categoryId}`, { method: 'POST' }, true), productCategorySchema);
+  invalidateCategoryQueries();
+  return category;
 };
 
+export const removeCategoryFromProduct = async (productId: number, categoryId: number): Promise<ProductCategory> => {
+  const category = await requestData('removeCategoryFromProduct', 'admin', () =>
+    adminFetch(`/api/admin/shop/products/${productId}/categories/${categoryId}`, { method: 'DELETE' }, true), productCategorySchema);
+  invalidateCategoryQueries();
+  return category;
+};
 
-export const addCategoryToProduct = async (productId: number, categoryId: number) => {
-  const key = 'addCategoryToProduct';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
-  try {
-    const res = await adminFetch(`/api/admin/shop/products/${productId}/categories/${categoryId}`, {
-      method: 'POST',
-    }, true);
+// 카테고리에 상품들 일괄 할당
+export const updateCategoryProducts = async (categoryId: number, productIds: number[]): Promise<ProductCategory> => {
+  const category = await requestData('updateCategoryProducts', 'admin', () => adminFetch(`/api/admin/shop/products/categories/${categoryId}/products`, {
+    method: 'PUT',
+    body: JSON.stringify({ product_ids: productIds }),
+  }, true), productCategorySchema);
+  invalidateCategoryQueries();
+  return category;
+};
 
-    if (!res.ok) throw new Error('카테고리 연결 실패');
-    if (res.ok) resetApiRetryCount(key);
-    return res;
-  } catch (e) {
-    incrementApiRetryCount(key);
-    throw e;
-  }
+// === Courier(택배) 쇼핑몰 API ===
+export type CourierProduct = {
+  id: number;
+  name: string;
+  price: number;
+  stock: number;
+  imageUrl: string;
+  weight?: string;
+  orderIndex?: number;
+  soldOut: boolean;
+};
+
+export type CourierProductDetail = CourierProduct & {
+  description?: string;
+  detailImages: string[];
 };
 
-export const removeCategoryFromProduct = async (productId: number, categoryId: number) => {
-  const key = 'removeCategoryFromProduct';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
+const courierProductShape = {
+  id: s.number(),
+  name: s.string().default(''),
+  price: s.number().default(0),
+  stock: s.number().default(0),
+  imageUrl: s.string().default(''),
+  weight: s.string().optional(),
+  orderIndex: s.number().optional(),
+  soldOut: s.boolean().optional(),
+};
+
+const courierProductSchema = s.object(courierProductShape);
+
+const courierDetailShape = {
+  description: s.string().optional(),
+  detailImages: s.array(s.string()).default([]),
+};
+
+const courierProductDetailSchema = s.object({ ...courierProductShape, ...courierDetailShape });
+
+const toCourierProduct = (p: Infer<typeof courierProductSchema>): CourierProduct => ({
+  id: p.id,
+  name: p.name,
+  price: p.price,
+  stock: p.stock,
+  imageUrl: addImgPrefix(p.imageUrl),
+  weight: p.weight || undefined,
+  orderIndex: p.orderIndex,
+  soldOut: p.soldOut ?? p.stock <= 0,
+});
+
+const toCourierProductDetail = (p: Infer<typeof courierProductDetailSchema>): CourierProductDetail => ({
+  ...toCourierProduct(p),
+  description: p.description || undefined,
+  detailImages: p.detailImages.map(addImgPrefix),
+});
+
+/** 인증 실패(401/403)면 null - 빈 목록과 구분해야 장바구니 재검증이 전체 상품을 판매 종료로 보지 않음 */
+export const getCourierProducts = async (): Promise<CourierProduct[] | null> => {
+  const key = 'getCourierProducts';
+  apiCircuit.assertClosed(key);
   try {
-    const res = await adminFetch(`/api/admin/shop/products/${productId}/categories/${categoryId}`, {
-      method: 'DELETE',
-    }, true);
+    const res = await userFetch('/api/courier/auth/products');
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) {
+      if (res.status === 401 || res.status === 403) return null;
+      throw new Error('택배 상품 목록을 불러오지 못했습니다.');
+    }
+    return parseData(s.array(courierProductSchema), listOf(await res.json()), key).map(toCourierProduct);
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
+};
+
+export const getCourierProduct = async (id: number): Promise<CourierProductDetail> => {
+  const key = 'getCourierProduct';
+  apiCircuit.assertClosed(key);
+  try {
+    const res = await userFetch(`/api/courier/auth/products/${id}`);
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) throw new Error('상품 정보를 불러오지 못했습니다.');
+    return toCourierProductDetail(await parseJson(res, courierProductDetailSchema, key));
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
+};
+
+// 서버 장바구니 (로그인 사용자 기기 간 공유)
+export type CourierCartLine = {
+  product: CourierProduct;
+  quantity: number;
+};
+
+// 항목은 { courier_product_id, quantity, product: {...} } 또는 상품 필드를 펼친 형태
+const courierCartItemSchema = s.object({
+  ...courierProductShape,
+  id: s.number().from('courierProductId', 'courier_product_id', 'id'),
+  quantity: s.number().default(0),
+  product: courierProductSchema.optional(),
+});
+
+const courierCartSchema = s.object({
+  items: s.array(courierCartItemSchema).from('items', 'response').default([]),
+});
+
+export const getCourierCart = async (): Promise<CourierCartLine[] | null> => {
+  const key = 'getCourierCart';
+  apiCircuit.assertClosed(key);
+  try {
+    // 장바구니 동기화는 부가 기능이므로 인증 실패 시 리다이렉트하지 않음
+    const res = await userFetch('/api/courier/auth/cart', {}, false);
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) return null;
+    const body = await res.json();
+    const { items } = parseData(courierCartSchema, Array.isArray(body) ? { items: body } : body, key);
+    return items.map(it => ({ product: toCourierProduct(it.product ?? it), quantity: it.quantity }));
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
+};
+
+export const saveCourierCart = (items: { courierProductId: number; quantity: number }[]): Promise<void> =>
+  requestOk('saveCourierCart', 'user', () => userFetch('/api/courier/auth/cart', {
+    method: 'PUT',
+    body: JSON.stringify({
+      items: items.map(it => ({ courier_product_id: it.courierProductId, quantity: it.quantity })),
+    }),
+  }, false));
+
+const courierConfigSchema = s.object({
+  enabled: s.boolean().default(true),
+  shippingFee: s.number().default(0),
+  freeShippingMinAmount: s.number().default(0),
+  islandSurcharge: s.number().default(0),
+});
+
+export type CourierConfig = Infer<typeof courierConfigSchema>;
+
+export const getCourierConfig = async (): Promise<CourierConfig | null> => {
+  const key = 'getCourierConfig';
+  apiCircuit.assertClosed(key);
+  try {
+    const res = await userFetch('/api/courier/auth/config');
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) return null;
+    return parseData(courierConfigSchema.nullable(), await readBody(res), key);
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
+};
+
+export type CourierOrderReadyPayload = {
+  items: { courierProductId: number; quantity: number }[];
+  receiverName: string;
+  receiverPhone: string;
+  postalCode: string;
+  address1: string;
+  address2?: string;
+  shippingMemo?: string;
+  idempotencyKey: string;
+};
 
-    if (!res.ok) throw new Error('카테고리 연결 해제 실패');
-    if (res.ok) resetApiRetryCount(key);
-    return res;
-  } catch (e) {
-    incrementApiRetryCount(key);
-    throw e;
-  }
+export const createCourierPaymentReady = (data: CourierOrderReadyPayload): Promise<PaymentReady> =>
+  requestData('createCourierPaymentReady', 'user', () => userFetch('/api/courier/auth/orders/ready', {
+    method: 'POST',
+    body: JSON.stringify({
+      items: data.items.map(it => ({ courier_product_id: it.courierProductId, quantity: it.quantity })),
+      receiver_name: data.receiverName,
+      receiver_phone: data.receiverPhone,
+      postal_code: data.postalCode,
+      address1: data.address1,
+      address2: data.address2 || '',
+      shipping_memo: data.shippingMemo || '',
+      idempotency_key: data.idempotencyKey,
+    }),
+  }), paymentReadySchema);
+
+export const approveCourierPayment = (code: string, pgToken: string): Promise<void> =>
+  requestOk('approveCourierPayment', 'user', () =>
+    userFetch(`/api/courier/auth/orders/approve?order_id=${encodeURIComponent(code)}&pg_token=${encodeURIComponent(pgToken)}`));
+
+export const cancelCourierPayment = (code: string): Promise<void> =>
+  requestOk('cancelCourierPayment', 'user', () => userFetch(`/api/courier/auth/orders/cancel?order_id=${encodeURIComponent(code)}`));
+
+export const failCourierPayment = (code: string): Promise<void> =>
+  requestOk('failCourierPayment', 'user', () => userFetch(`/api/courier/auth/orders/fail?order_id=${encodeURIComponent(code)}`));
+
+export type CourierOrderStatus = 'pending_payment' | 'paid' | 'preparing' | 'shipped' | 'delivered' | 'canceled' | 'failed';
+
+export type CourierOrder = {
+  orderCode: string;
+  status: CourierOrderStatus;
+  orderedAt: string;
+  items: { courierProductId: number; name: string; quantity: number; price: number }[];
+  productAmount: number;
+  shippingFee: number;
+  totalAmount: number;
+  receiverName: string;
+  address1: string;
+  address2?: string;
+  courierCompany?: string;
+  waybillNumber?: string;
+};
+
+const courierOrderShape = {
+  orderCode: s.string().default(''),
+  // 서버는 대문자(PAID) → 소문자로 변환해 CourierOrderStatus로 사용
+  status: s.string().default('pending_payment'),
+  orderedAt: s.string().default(''),
+  items: s.array(s.object({
+    courierProductId: s.number().default(0),
+    name: s.string().from('name', 'product_name').default(''),
+    quantity: s.number().default(0),
+    price: s.number().default(0),
+  })).default([]),
+  productAmount: s.number().default(0),
+  shippingFee: s.number().default(0),
+  totalAmount: s.number().default(0),
+  receiverName: s.string().default(''),
+  address1: s.string().default(''),
+  address2: s.string().optional(),
+  courierCompany: s.string().optional(),
+  waybillNumber: s.string().optional(),
+};
+
+const courierOrderSchema = s.object(courierOrderShape);
+
+const toCourierOrder = (o: Infer<typeof courierOrderSchema>): CourierOrder => ({
+  orderCode: o.orderCode,
+  status: o.status.toLowerCase() as CourierOrderStatus,
+  orderedAt: o.orderedAt,
+  items: o.items,
+  productAmount: o.productAmount,
+  shippingFee: o.shippingFee,
+  totalAmount: o.totalAmount,
+  receiverName: o.receiverName,
+  address1: o.address1,
+  address2: o.address2 || undefined,
+  courierCompany: o.courierCompany || undefined,
+  waybillNumber: o.waybillNumber || undefined,
+});
+
+export const getCourierOrders = async (): Promise<CourierOrder[]> => {
+  const key = 'getCourierOrders';
+  apiCircuit.assertClosed(key);
+  try {
+    const res = await userFetch('/api/courier/auth/orders');
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) {
+      if (res.status === 401 || res.status === 403) return [];
+      throw new Error('택배 주문 내역을 불러오지 못했습니다.');
+    }
+    return parseData(s.array(courierOrderSchema), listOf(await res.json()), key).map(toCourierOrder);
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
 };
 
-// 카테고리에 상품들 일괄 할당
-export const updateCategoryProducts = async (categoryId: number, productIds: number[]) => {
-  const key = 'updateCategoryProducts';
-  if (!canRetryApi(key)) throw new Error('서버 에러입니다. 관리자에게 문의 바랍니다.');
+// === Courier(택배) 관리자 API ===
+export type AdminCourierProduct = CourierProduct & {
+  visible: boolean;
+};
+
+export type AdminCourierProductDetail = AdminCourierProduct & {
+  description?: string;
+  detailImages: string[];
+};
+
+const adminCourierProductShape = {
+  ...courierProductShape,
+  visible: s.boolean().from('visible', 'is_visible').default(true),
+};
+
+const adminCourierProductSchema = s.object(adminCourierProductShape);
+
+const adminCourierProductDetailSchema = s.object({ ...adminCourierProductShape, ...courierDetailShape });
+
+const toAdminCourierProduct = (p: Infer<typeof adminCourierProductSchema>): AdminCourierProduct => ({
+  ...toCourierProduct(p),
+  visible: p.visible,
+});
+
+export const getAdminCourierProducts = async (): Promise<AdminCourierProduct[]> => {
+  const key = 'getAdminCourierProducts';
+  apiCircuit.assertClosed(key);
   try {
-    const res = await adminFetch(`/api/admin/shop/products/categories/${categoryId}/products`, {
-      method: 'PUT',
-      body: JSON.stringify({ product_ids: productIds }),
-    }, true);
+    const res = await adminFetch('/api/admin/courier/products', { cache: 'no-store' }, true);
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) {
+      if (res.status === 401 || res.status === 403) return [];
+      throw new Error('택배 상품 목록을 불러오지 못했습니다.');
+    }
+    return parseData(s.array(adminCourierProductSchema), listOf(await res.json()), key).map(toAdminCourierProduct);
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
+};
 
-    if (!res.ok) throw new Error('카테고리 상품 할당 실패');
-    if (res.ok) resetApiRetryCount(key);
-    return res;
-  } catch (e) {
-    incrementApiRetryCount(key);
-    throw e;
-  }
+export const getAdminCourierProduct = async (id: number): Promise<AdminCourierProductDetail> => {
+  const key = 'getAdminCourierProduct';
+  apiCircuit.assertClosed(key);
+  try {
+    const res = await adminFetch(`/api/admin/courier/products/${id}`, {}, true);
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) {
+      if (res.status === 401 || res.status === 403) throw new Error('권한이 없습니다.');
+      throw new Error('상품 정보를 불러오지 못했습니다.');
+    }
+    const p = await parseJson(res, adminCourierProductDetailSchema, key);
+    return {
+      ...toAdminCourierProduct(p),
+      description: p.description || undefined,
+      detailImages: p.detailImages.map(addImgPrefix),
+    };
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
 };
+
+export type AdminCourierProductPayload = {
+  name: string;
+  price: number;
+  stock: number;
+  imageKey?: string; // S3 key (수정 시 변경된 경우에만)
+  weight?: string;
+  description?: string;
+  visible: boolean;
+};
+
+const toAdminCourierProductBody = (payload: AdminCourierProductPayload) => ({
+  name: payload.name,
+  price: payload.price,
+  stock: payload.stock,
+  image_url: payload.imageKey ?? null,
+  weight: payload.weight || null,
+  description: payload.description || '',
+  visible: payload.visible,
+});
+
+export const createAdminCourierProduct = (payload: AdminCourierProductPayload): Promise<void> =>
+  requestOk('createAdminCourierProduct', 'admin', () => adminFetch('/api/admin/courier/products', {
+    method: 'POST',
+    body: JSON.stringify(toAdminCourierProductBody(payload)),
+  }, true));
+
+export const updateAdminCourierProduct = (id: number, payload: AdminCourierProductPayload): Promise<void> =>
+  requestOk('updateAdminCourierProduct', 'admin', () => adminFetch(`/api/admin/courier/products/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(toAdminCourierProductBody(payload)),
+  }, true));
+
+export const toggleAdminCourierProductVisible = (id: number): Promise<void> =>
+  requestOk('toggleAdminCourierProductVisible', 'admin', () => adminFetch(`/api/admin/courier/products/visible/${id}`, { method: 'PATCH' }, true));
+
+export const deleteAdminCourierProduct = (id: number): Promise<void> =>
+  requestOk('deleteAdminCourierProduct', 'admin', () => adminFetch(`/api/admin/courier/products/${id}`, { method: 'DELETE' }, true));
+
+export const getCourierProductUploadUrl = (filename: string, contentType: string) =>
+  requestPresignedUrl('getCourierProductUploadUrl', '/api/admin/courier/products/presigned-url', filename, contentType);
+
+export type AdminCourierOrder = CourierOrder & {
+  receiverPhone: string;
+  postalCode: string;
+  shippingMemo?: string;
+  paidAt?: string;
+};
+
+const adminCourierOrderSchema = s.object({
+  ...courierOrderShape,
+  receiverPhone: s.string().default(''),
+  postalCode: s.string().default(''),
+  shippingMemo: s.string().optional(),
+  paidAt: s.string().optional(),
+});
+
+const toAdminCourierOrder = (o: Infer<typeof adminCourierOrderSchema>): AdminCourierOrder => ({
+  ...toCourierOrder(o),
+  receiverPhone: o.receiverPhone,
+  postalCode: o.postalCode,
+  shippingMemo: o.shippingMemo || undefined,
+  paidAt: o.paidAt || undefined,
+});
+
+export const getAdminCourierOrders = async (status?: CourierOrderStatus): Promise<AdminCourierOrder[]> => {
+  const key = 'getAdminCourierOrders';
+  apiCircuit.assertClosed(key);
+  try {
+    let url = '/api/admin/courier/orders';
+    if (status) url += `?status=${encodeURIComponent(status.toUpperCase())}`;
+    const res = await adminFetch(url, { cache: 'no-store' }, true);
+    apiCircuit.recordResponse(key, res);
+    if (!res.ok) {
+      if (res.status === 401 || res.status === 403) return [];
+      throw new Error('택배 주문 목록을 불러오지 못했습니다.');
+    }
+    return parseData(s.array(adminCourierOrderSchema), listOf(await res.json()), key).map(toAdminCourierOrder);
+  } catch (e) { apiCircuit.recordError(key, e); throw e; }
+};
+
+// 배송중(shipped) 전환은 송장 등록(registerAdminCourierWaybills)으로만 처리
+export const updateAdminCourierOrderStatus = (orderCode: string, status: 'preparing' | 'delivered' | 'canceled'): Promise<void> =>
+  requestOk('updateAdminCourierOrderStatus', 'admin', () =>
+    adminFetch(`/api/admin/courier/orders/${encodeURIComponent(orderCode)}/status/${status.toUpperCase()}`, { method: 'PATCH' }, true));
+
+export type CourierWaybillInput = {
+  orderCode: string;
+  courierCompany: string;
+  waybillNumber: string;
+};
+
+// 송장번호 일괄 등록 (등록된 주문은 서버에서 배송중으로 전환)
+export const registerAdminCourierWaybills = (items: CourierWaybillInput[]): Promise<void> =>
+  requestOk('registerAdminCourierWaybills', 'admin', () => adminFetch('/api/admin/courier/orders/waybills', {
+    method: 'PATCH',
+    body: JSON.stringify({
+      waybills: items.map(it => ({
+        order_code: it.orderCode,
+        courier_company: it.courierCompany,
+        waybill_number: it.waybillNumber,
+      })),
+    }),
+  }, true));
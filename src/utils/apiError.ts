@@ -0,0 +1,98 @@
+/**
+ * API 에러 모델 + 인메모리 이벤트 버스
+ * - api.ts는 ApiError를 만들어 apiErrorBus로 발행
+ * - SnackbarProvider: notify 이벤트 → 스낵바
+ * - AuthRedirectListener: auth 이벤트 → router로 /401, /403 이동 (에러 페이지는 location.state로 수신)
+ */
+
+export type ApiErrorCode =
+  | 'UNAUTHORIZED'   // 401 (토큰/세션 만료)
+  | 'FORBIDDEN'      // 403
+  | 'BUSINESS'       // 그 외 4xx (서버 비즈니스 메시지)
+  | 'RATE_LIMITED'   // 429
+  | 'SERVER'         // 5xx
+  | 'NETWORK';       // fetch 실패
+
+export type ApiErrorScope = 'admin' | 'user';
+
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number;           // 네트워크 오류는 0
+  readonly serverMessage: string | null;
+  readonly retryable: boolean;
+  readonly scope: ApiErrorScope;
+
+  constructor(params: {
+    code: ApiErrorCode;
+    status: number;
+    message: string;
+    serverMessage?: string | null;
+    scope?: ApiErrorScope;
+  }) {
+    super(params.message);
+    this.name = 'ApiError';
+    this.code = params.code;
+    this.status = params.status;
+    this.serverMessage = params.serverMessage ?? null;
+    this.scope = params.scope ?? 'user';
+    this.retryable = params.code === 'NETWORK' || params.code === 'SERVER' || params.code === 'RATE_LIMITED';
+  }
+
+  static codeOf(status: number): ApiErrorCode {
+    if (status === 0) return 'NETWORK';
+    if (status === 401) return 'UNAUTHORIZED';
+    if (status === 403) return 'FORBIDDEN';
+    if (status === 429) return 'RATE_LIMITED';
+    if (status >= 500) return 'SERVER';
+    return 'BUSINESS';
+  }
+
+  /** 응답 본문의 message/error를 서버 메시지로 사용 (본문을 소비하지 않도록 clone) */
+  static async fromResponse(res: Response, scope: ApiErrorScope = 'user'): Promise<ApiError> {
+    const fallback = `요청 처리 중 오류가 발생했습니다. (${res.status})`;
+    let serverMessage: string | null = null;
+    try {
+      const body = await res.clone().json();
+      serverMessage = body?.message || body?.error || null;
+    } catch {
+      serverMessage = null;
+    }
+    return new ApiError({
+      code: ApiError.codeOf(res.status),
+      status: res.status,
+      message: serverMessage || fallback,
+      serverMessage,
+      scope,
+    });
+  }
+}
+
+/** AbortController.abort()로 취소된 요청 (화면 전환/새 요청으로 대체됨 → 에러로 취급하지 않음) */
+export const isAbortError = (e: unknown): boolean =>
+  typeof e === 'object' && e !== null && (e as { name?: string }).name === 'AbortError';
+
+export type ApiErrorEvent =
+  | { kind: 'notify'; error: ApiError }
+  | { kind: 'auth'; error: ApiError; redirectUrl: string };
+
+type ApiErrorListener = (event: ApiErrorEvent) => void;
+
+const listeners = new Set<ApiErrorListener>();
+
+export const apiErrorBus = {
+  subscribe(listener: ApiErrorListener): () => void {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  },
+
+  emit(event: ApiErrorEvent) {
+    listeners.forEach(listener => listener(event));
+  },
+};
+
+/** 에러 페이지(/401, /403)로 전달되는 router state */
+export type AuthErrorState = {
+  message: string;
+  scope: ApiErrorScope;
+  redirectUrl: string;
+};
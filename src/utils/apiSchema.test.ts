@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { ApiContractError, parseData, parseJson, s } from './apiSchema';
+
+const product = s.object({
+  productId: s.number(),
+  name: s.string(),
+  imageUrl: s.string().from('product_url', 'image_url').optional(),
+  soldOut: s.boolean().default(false),
+  memo: s.string().nullable(),
+  tags: s.array(s.string()).default([]),
+});
+
+// 계약 불일치는 safeErrorLog로 남으므로 테스트 출력에서는 숨김
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// 실패 시 던진 ApiContractError (path/message 검사용)
+const contractErrorOf = (run: () => unknown): ApiContractError => {
+  try {
+    run();
+  } catch (e) {
+    if (e instanceof ApiContractError) return e;
+    throw e;
+  }
+  throw new Error('ApiContractError가 발생하지 않음');
+};
+
+describe('s.object', () => {
+  it('camelCase 필드는 camelCase → snake_case 순으로 조회', () => {
+    expect(parseData(product, { product_id: 1, name: '사과', productId: 2 }, 'getProduct').productId).toBe(2);
+    expect(parseData(product, { product_id: 1, name: '사과' }, 'getProduct').productId).toBe(1);
+  });
+
+  it('.from으로 지정한 키는 앞에서부터 우선, 기본 키는 조회하지 않음', () => {
+    const parse = (raw: object) => parseData(product, { productId: 1, name: '사과', ...raw }, 'getProduct').imageUrl;
+    expect(parse({ image_url: '/b.png', product_url: '/a.png' })).toBe('/a.png');
+    expect(parse({ image_url: '/b.png' })).toBe('/b.png');
+    expect(parse({ imageUrl: '/c.png' })).toBeUndefined();
+  });
+
+  it('.optional / .nullable / .default는 undefined와 null을 모두 빈 값으로 처리', () => {
+    expect(parseData(product, { productId: 1, name: '사과', sold_out: null }, 'getProduct')).toEqual({
+      productId: 1,
+      name: '사과',
+      imageUrl: undefined,
+      soldOut: false,
+      memo: null,
+      tags: [],
+    });
+  });
+
+  it('선언하지 않은 필드는 버림', () => {
+    expect(parseData(s.object({ name: s.string() }), { name: '사과', extra: 1 }, 'x')).toEqual({ name: '사과' });
+  });
+});
+
+describe('기본 타입', () => {
+  it('number는 숫자 문자열 허용, 빈 문자열과 NaN은 거부', () => {
+    expect(parseData(s.number(), '12.5', 'x')).toBe(12.5);
+    expect(() => parseData(s.number(), '', 'x')).toThrow(ApiContractError);
+    expect(() => parseData(s.number(), 'abc', 'x')).toThrow(ApiContractError);
+  });
+
+  it('string은 숫자 id를 문자열로 변환', () => {
+    expect(parseData(s.string(), 42, 'x')).toBe('42');
+    expect(() => parseData(s.string(), true, 'x')).toThrow(ApiContractError);
+  });
+
+  it('literal은 선언한 값만', () => {
+    const status = s.literal('PAID', 'DELIVERED');
+    expect(parseData(status, 'PAID', 'x')).toBe('PAID');
+    expect(contractErrorOf(() => parseData(status, 'paid', 'x')).expected).toBe('PAID | DELIVERED');
+  });
+});
+
+describe('ApiContractError', () => {
+  const order = s.object({
+    orderId: s.number(),
+    items: s.array(s.object({ productId: s.number(), quantity: s.number() })),
+  });
+
+  it('어느 API의 어느 필드인지 서버 키 기준 경로로 표시', () => {
+    const error = contractErrorOf(() =>
+      parseData(order, { order_id: 1, items: [{ product_id: 1, quantity: 2 }, { product_id: 2, quantity: 'two' }] }, 'getOrder')
+    );
+    expect(error.endpoint).toBe('getOrder');
+    expect(error.path).toBe('items[1].quantity');
+    expect(error.received).toBe('two');
+    expect(error.message).toBe('[API 계약 불일치] getOrder items[1].quantity: number 필요, string("two") 수신');
+  });
+
+  it('필수 필드 누락은 선언한 필드명, 최상위 타입 불일치는 (root)', () => {
+    expect(contractErrorOf(() => parseData(order, { items: [] }, 'getOrder')).message)
+      .toBe('[API 계약 불일치] getOrder orderId: number 필요, undefined 수신');
+    expect(contractErrorOf(() => parseData(order, [], 'getOrder')).message)
+      .toBe('[API 계약 불일치] getOrder (root): object 필요, array 수신');
+  });
+});
+
+describe('parseData', () => {
+  it('계약 불일치는 로그를 남기고 그대로 전파', () => {
+    expect(() => parseData(s.number(), null, 'getCount')).toThrow(ApiContractError);
+    expect(console.error).toHaveBeenCalledWith('[API contract]', expect.objectContaining({
+      message: '[API 계약 불일치] getCount (root): number 필요, null 수신',
+    }));
+  });
+});
+
+describe('parseJson', () => {
+  it('Response 본문을 읽어 검증', async () => {
+    const res = { json: async () => ({ product_id: '3', name: '배' }) } as unknown as Response;
+    await expect(parseJson(res, product, 'getProduct')).resolves.toMatchObject({ productId: 3, name: '배' });
+    const invalid = { json: async () => ({ name: '배' }) } as unknown as Response;
+    await expect(parseJson(invalid, product, 'getProduct')).rejects.toThrow(ApiContractError);
+  });
+});
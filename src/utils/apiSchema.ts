@@ -0,0 +1,144 @@
+import { safeErrorLog } from './environment';
+
+/**
+ * API 응답 스키마 선언 + 런타임 검증
+ * - 필드는 camelCase로 선언하고, 서버 응답은 camelCase → snake_case 순으로 자동 조회
+ * - 서버 키가 다르면 .from('product_url', ...)으로 후보 키 지정
+ * - 타입이 어긋나면 ApiContractError (어느 API의 어느 필드인지 메시지에 포함)
+ */
+
+export class ApiContractError extends Error {
+  readonly endpoint: string;
+  readonly path: string;
+  readonly expected: string;
+  readonly received: unknown;
+
+  constructor(endpoint: string, path: string, expected: string, received: unknown) {
+    super(`[API 계약 불일치] ${endpoint} ${path || '(root)'}: ${expected} 필요, ${describeValue(received)} 수신`);
+    this.name = 'ApiContractError';
+    this.endpoint = endpoint;
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string(${JSON.stringify(value.slice(0, 30))})`;
+  if (typeof value === 'number' || typeof value === 'boolean') return `${typeof value}(${value})`;
+  return typeof value;
+};
+
+type ParseContext = { endpoint: string };
+
+export type Schema<T> = {
+  readonly expected: string;
+  readonly keys?: string[];
+  parse: (value: unknown, path: string, ctx: ParseContext) => T;
+  /** 값이 없으면(undefined/null) undefined */
+  optional: () => Schema<T | undefined>;
+  /** 값이 없으면 null */
+  nullable: () => Schema<T | null>;
+  /** 값이 없으면 기본값 */
+  default: (fallback: T) => Schema<T>;
+  /** 서버 응답에서 조회할 키 후보 (앞에서부터 우선) */
+  from: (...keys: string[]) => Schema<T>;
+};
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const isMissing = (value: unknown) => value === undefined || value === null;
+
+const makeSchema = <T>(
+  expected: string,
+  parse: (value: unknown, path: string, ctx: ParseContext) => T,
+  keys?: string[]
+): Schema<T> => {
+  const schema: Schema<T> = {
+    expected,
+    keys,
+    parse,
+    optional: () => makeSchema<T | undefined>(
+      `${expected}?`,
+      (v, path, ctx) => (isMissing(v) ? undefined : parse(v, path, ctx)),
+      schema.keys
+    ),
+    nullable: () => makeSchema<T | null>(
+      `${expected} | null`,
+      (v, path, ctx) => (isMissing(v) ? null : parse(v, path, ctx)),
+      schema.keys
+    ),
+    default: (fallback: T) => makeSchema<T>(
+      expected,
+      (v, path, ctx) => (isMissing(v) ? fallback : parse(v, path, ctx)),
+      schema.keys
+    ),
+    from: (...nextKeys: string[]) => makeSchema<T>(expected, parse, nextKeys),
+  };
+  return schema;
+};
+
+const fail = (ctx: ParseContext, path: string, expected: string, received: unknown): never => {
+  throw new ApiContractError(ctx.endpoint, path, expected, received);
+};
+
+const toSnake = (key: string) => key.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`);
+
+type Shape = Record<string, Schema<any>>;
+type InferShape<S extends Shape> = { [K in keyof S]: Infer<S[K]> };
+
+export const s = {
+  // 숫자 문자열("12.5")도 허용 (기존 Number(...) 변환과 동일)
+  number: () => makeSchema<number>('number', (v, path, ctx) => {
+    const n = typeof v === 'string' && v.trim() !== '' ? Number(v) : v;
+    return typeof n === 'number' && Number.isFinite(n) ? n : fail(ctx, path, 'number', v);
+  }),
+  // 숫자 id(uid 등)는 문자열로 변환
+  string: () => makeSchema<string>('string', (v, path, ctx) => {
+    if (typeof v === 'string') return v;
+    if (typeof v === 'number') return String(v);
+    return fail(ctx, path, 'string', v);
+  }),
+  boolean: () => makeSchema<boolean>('boolean', (v, path, ctx) => (
+    typeof v === 'boolean' ? v : fail(ctx, path, 'boolean', v)
+  )),
+  unknown: () => makeSchema<unknown>('unknown', v => v),
+  literal: <L extends string>(...values: L[]) => makeSchema<L>(values.join(' | '), (v, path, ctx) => (
+    typeof v === 'string' && (values as string[]).includes(v) ? (v as L) : fail(ctx, path, values.join(' | '), v)
+  )),
+  array: <T>(item: Schema<T>) => makeSchema<T[]>(`${item.expected}[]`, (v, path, ctx) => (
+    Array.isArray(v)
+      ? v.map((it, i) => item.parse(it, `${path}[${i}]`, ctx))
+      : fail(ctx, path, `${item.expected}[]`, v)
+  )),
+  object: <S extends Shape>(shape: S) => makeSchema<InferShape<S>>('object', (v, path, ctx) => {
+    if (typeof v !== 'object' || v === null || Array.isArray(v)) return fail(ctx, path, 'object', v);
+    const raw = v as Record<string, unknown>;
+    const out: Record<string, unknown> = {};
+    Object.keys(shape).forEach(field => {
+      const schema = shape[field];
+      const candidates = schema.keys ?? [field, toSnake(field)];
+      const sourceKey = candidates.find(k => raw[k] !== undefined) ?? candidates[0];
+      out[field] = schema.parse(raw[sourceKey], path ? `${path}.${sourceKey}` : sourceKey, ctx);
+    });
+    return out as InferShape<S>;
+  }),
+};
+
+/** 이미 파싱된 JSON(SSE 이벤트 등)을 스키마로 검증 */
+export const parseData = <T>(schema: Schema<T>, data: unknown, endpoint: string): T => {
+  try {
+    return schema.parse(data, '', { endpoint });
+  } catch (e) {
+    if (e instanceof ApiContractError) safeErrorLog(e, 'API contract');
+    throw e;
+  }
+};
+
+/** Response 본문을 JSON으로 읽고 스키마로 검증 */
+export const parseJson = async <T>(res: Response, schema: Schema<T>, endpoint: string): Promise<T> => {
+  const data = await res.json();
+  return parseData(schema, data, endpoint);
+};
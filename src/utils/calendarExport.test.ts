@@ -0,0 +1,76 @@
+/**
+ * @jest-environment node
+ */
+// TextEncoder가 있는 node 환경에서 실행 (jsdom에는 없음)
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { buildIcs, type CalendarEvent } from './calendarExport';
+
+const event = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  uid: 'R-26030218-ABCDE@store',
+  title: '사과 2개 수령',
+  start: new Date('2026-03-02T18:00:00+09:00'),
+  end: new Date('2026-03-02T18:30:00+09:00'),
+  ...overrides,
+});
+
+// 접힌 줄을 다시 이어 붙인 논리 줄 목록
+const unfold = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.setSystemTime(new Date('2026-03-01T00:00:00Z'));
+});
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('buildIcs', () => {
+  it('캘린더/일정 구조와 UTC 시각 (CRLF 줄바꿈)', () => {
+    const ics = buildIcs('픽업 일정', [event()]);
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(unfold(ics)).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//store//reservations//KO',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:픽업 일정',
+      'BEGIN:VEVENT',
+      'UID:R-26030218-ABCDE@store',
+      'DTSTAMP:20260301T000000Z',
+      'DTSTART:20260302T090000Z',
+      'DTEND:20260302T093000Z',
+      'SUMMARY:사과 2개 수령',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ]);
+  });
+
+  it('설명/장소/알림은 값이 있을 때만 (알림 0분도 포함)', () => {
+    const lines = unfold(buildIcs('픽업 일정', [event({ description: '매장 수령', location: '본점', alarmMinutesBefore: 0 })]));
+    expect(lines).toContain('DESCRIPTION:매장 수령');
+    expect(lines).toContain('LOCATION:본점');
+    expect(lines.slice(lines.indexOf('BEGIN:VALARM'), lines.indexOf('END:VALARM') + 1)).toEqual([
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'DESCRIPTION:사과 2개 수령',
+      'TRIGGER:-PT0M',
+      'END:VALARM',
+    ]);
+  });
+
+  it('텍스트 값의 \\ ; , 줄바꿈을 이스케이프', () => {
+    const lines = unfold(buildIcs('a,b', [event({ title: '사과, 배; 1\\2\n메모' })]));
+    expect(lines).toContain('X-WR-CALNAME:a\\,b');
+    expect(lines).toContain('SUMMARY:사과\\, 배\\; 1\\\\2\\n메모');
+  });
+
+  it('75바이트가 넘는 줄은 글자를 자르지 않고 접음', () => {
+    const title = '청송 꿀사과 한 박스 '.repeat(10).trim();
+    const ics = buildIcs('픽업 일정', [event({ title })]);
+    const physical = ics.split('\r\n').filter(Boolean);
+    physical.forEach(line => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75));
+    expect(physical.filter(line => line.startsWith(' ')).length).toBeGreaterThan(1);
+    expect(unfold(ics)).toContain(`SUMMARY:${title}`);
+  });
+});
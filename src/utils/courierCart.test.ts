@@ -0,0 +1,287 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { CourierCartLine, CourierProduct } from './api';
+import {
+  acknowledgeCartChanges,
+  addToCart,
+  estimateShippingFee,
+  getCart,
+  getCartSnapshot,
+  resetCartSession,
+  revalidateCart,
+  subscribeCart,
+  syncCartWithServer,
+  updateQuantity,
+  type CartItem,
+} from './courierCart';
+
+const mockGetCourierCart = jest.fn<Promise<CourierCartLine[] | null>, []>();
+const mockSaveCourierCart = jest.fn<Promise<void>, [Array<{ courierProductId: number; quantity: number }>]>();
+
+jest.mock('./api', () => ({
+  getCourierCart: () => mockGetCourierCart(),
+  saveCourierCart: (items: Array<{ courierProductId: number; quantity: number }>) => mockSaveCourierCart(items),
+  onUserSessionCleared: () => () => undefined,
+}));
+
+const product = (id: number, overrides: Partial<CourierProduct> = {}): CourierProduct => ({
+  id,
+  name: `상품${id}`,
+  price: 1000,
+  stock: 10,
+  imageUrl: `/p${id}.png`,
+  soldOut: false,
+  ...overrides,
+});
+
+const item = (id: number, overrides: Partial<CartItem> = {}): CartItem => ({
+  courierProductId: id,
+  name: `상품${id}`,
+  price: 1000,
+  quantity: 1,
+  imageUrl: `/p${id}.png`,
+  stock: 10,
+  ...overrides,
+});
+
+const line = (id: number, quantity: number): CourierCartLine => ({ product: product(id), quantity });
+
+// sub만 담은 access token
+const login = (sub: string) => {
+  localStorage.setItem('access', `header.${btoa(JSON.stringify({ sub }))}.signature`);
+};
+
+const quantities = (items: CartItem[]) =>
+  Object.fromEntries(items.map(it => [it.courierProductId, it.quantity]));
+
+// 동기화 실패는 safeErrorLog로 남으므로 테스트 출력에서는 숨김
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  mockGetCourierCart.mockReset();
+  mockSaveCourierCart.mockReset();
+  mockSaveCourierCart.mockResolvedValue(undefined);
+});
+afterEach(() => {
+  jest.useRealTimers();
+  resetCartSession();
+  localStorage.clear();
+  jest.restoreAllMocks();
+});
+
+describe('revalidateCart', () => {
+  it('상품 목록을 불러오지 못했으면(null) 재검증하지 않음', () => {
+    addToCart(item(1));
+    expect(revalidateCart(null)).toEqual([item(1)]);
+  });
+
+  it('가격 변경은 처음 담은 가격을 유지하고, 원래 가격으로 돌아오면 표시 해제', () => {
+    addToCart(item(1));
+    expect(revalidateCart([product(1, { price: 1200 })])[0]).toMatchObject({ price: 1200, previousPrice: 1000, changes: ['price'] });
+    expect(revalidateCart([product(1, { price: 1500 })])[0]).toMatchObject({ price: 1500, previousPrice: 1000, changes: ['price'] });
+    expect(revalidateCart([product(1)])[0]).toEqual(item(1));
+  });
+
+  it('재고보다 많은 수량은 재고만큼 줄이고 원래 수량 기록', () => {
+    addToCart(item(1, { quantity: 5 }));
+    expect(revalidateCart([product(1, { stock: 3 })])[0]).toMatchObject({
+      quantity: 3,
+      previousQuantity: 5,
+      stock: 3,
+      changes: ['quantity'],
+    });
+  });
+
+  it('품절과 목록에 없는 상품을 표시하고, 다시 판매되면 해제', () => {
+    addToCart(item(1));
+    addToCart(item(2));
+    const [soldOut, missing] = revalidateCart([product(1, { soldOut: true })]);
+    expect(soldOut.changes).toEqual(['sold_out']);
+    expect(missing.changes).toEqual(['unavailable']);
+    expect(revalidateCart([product(1), product(2)]).map(it => it.changes)).toEqual([undefined, undefined]);
+  });
+});
+
+describe('acknowledgeCartChanges', () => {
+  it('구매할 수 없는 상품은 빼고 나머지 변경 표시는 해제', () => {
+    addToCart(item(1));
+    addToCart(item(2));
+    addToCart(item(3));
+    revalidateCart([product(1, { price: 1200 }), product(2, { stock: 0 })]);
+    expect(acknowledgeCartChanges()).toEqual([item(1, { price: 1200 })]);
+    expect(getCart()).toEqual([item(1, { price: 1200 })]);
+  });
+});
+
+describe('syncCartWithServer', () => {
+  it('로그인하지 않았으면 서버를 조회하지 않음', async () => {
+    addToCart(item(1));
+    await expect(syncCartWithServer()).resolves.toEqual([item(1)]);
+    expect(mockGetCourierCart).not.toHaveBeenCalled();
+  });
+
+  it('로그인 후 최초 동기화는 로컬과 서버를 병합 (같은 상품은 큰 수량) 후 서버에 반영', async () => {
+    addToCart(item(1, { quantity: 3 }));
+    addToCart(item(2));
+    login('1');
+    mockGetCourierCart.mockResolvedValue([line(1, 2), line(3, 4)]);
+    expect(quantities(await syncCartWithServer())).toEqual({ 1: 3, 2: 1, 3: 4 });
+    expect(mockSaveCourierCart).toHaveBeenCalledWith([
+      { courierProductId: 1, quantity: 3 },
+      { courierProductId: 2, quantity: 1 },
+      { courierProductId: 3, quantity: 4 },
+    ]);
+    expect(localStorage.getItem('courier-cart-dirty')).toBeNull();
+  });
+
+  it('병합 후에는 서버 장바구니 기준', async () => {
+    login('1');
+    mockGetCourierCart.mockResolvedValue([]);
+    await syncCartWithServer();
+    mockGetCourierCart.mockResolvedValue([line(2, 5)]);
+    expect(quantities(await syncCartWithServer())).toEqual({ 2: 5 });
+    expect(mockSaveCourierCart).toHaveBeenCalledTimes(1);
+  });
+
+  it('서버 반영에 실패한 로컬 변경은 반영될 때까지 서버 장바구니보다 우선', async () => {
+    // 담기 직후 예약되는 자동 반영은 실행하지 않음
+    jest.useFakeTimers();
+    login('1');
+    mockGetCourierCart.mockResolvedValue([]);
+    await syncCartWithServer();
+    addToCart(item(1, { quantity: 2 }));
+
+    mockSaveCourierCart.mockRejectedValueOnce(new Error('offline'));
+    expect(quantities(await syncCartWithServer())).toEqual({ 1: 2 });
+    expect(localStorage.getItem('courier-cart-dirty')).toBe('user:1');
+
+    expect(quantities(await syncCartWithServer())).toEqual({ 1: 2 });
+    expect(localStorage.getItem('courier-cart-dirty')).toBeNull();
+    expect(quantities(await syncCartWithServer())).toEqual({});
+  });
+
+  it('서버 장바구니를 불러오지 못하면 로컬 그대로', async () => {
+    addToCart(item(1));
+    login('1');
+    mockGetCourierCart.mockResolvedValue(null);
+    await expect(syncCartWithServer()).resolves.toEqual([item(1)]);
+    expect(mockSaveCourierCart).not.toHaveBeenCalled();
+  });
+
+  it('로그아웃 없이 다른 계정으로 로그인하면 이전 계정 장바구니를 넘기지 않음', async () => {
+    login('1');
+    mockGetCourierCart.mockResolvedValue([line(1, 2)]);
+    await syncCartWithServer();
+    login('2');
+    mockGetCourierCart.mockResolvedValue([]);
+    await expect(syncCartWithServer()).resolves.toEqual([]);
+    expect(mockSaveCourierCart).toHaveBeenLastCalledWith([]);
+  });
+
+  it('사용자 id 저장 전 표시(1)는 현재 사용자의 병합 완료로 간주', async () => {
+    localStorage.setItem('courier-cart-merged', '1');
+    login('7');
+    mockGetCourierCart.mockResolvedValue([line(2, 5)]);
+    expect(quantities(await syncCartWithServer())).toEqual({ 2: 5 });
+    expect(mockSaveCourierCart).not.toHaveBeenCalled();
+  });
+
+  it('해석할 수 없는 토큰은 로그아웃 상태로 보고 병합된 장바구니를 비움', async () => {
+    login('1');
+    mockGetCourierCart.mockResolvedValue([line(1, 2)]);
+    await syncCartWithServer();
+    localStorage.setItem('access', 'broken-token');
+    await expect(syncCartWithServer()).resolves.toEqual([]);
+    expect(mockGetCourierCart).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('subscribeCart', () => {
+  // 같은 이름의 채널끼리 메시지를 주고받는 BroadcastChannel 대역 (jsdom에는 없음)
+  class FakeChannel {
+    static instances: FakeChannel[] = [];
+    onmessage: ((event: { data: unknown }) => void) | null = null;
+    closed = false;
+    constructor(readonly name: string) {
+      FakeChannel.instances.push(this);
+    }
+    postMessage(data: unknown) {
+      FakeChannel.instances
+        .filter(other => other !== this && !other.closed && other.name === this.name)
+        .forEach(other => other.onmessage?.({ data }));
+    }
+    close() {
+      this.closed = true;
+    }
+  }
+
+  afterEach(() => {
+    FakeChannel.instances = [];
+    delete (globalThis as { BroadcastChannel?: unknown }).BroadcastChannel;
+  });
+
+  it('같은 탭 변경과 다른 탭의 storage 이벤트를 알리고, 구독 해제 후에는 알리지 않음', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeCart(listener);
+    addToCart(item(1));
+    updateQuantity(1, 3);
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    window.dispatchEvent(new StorageEvent('storage', { key: 'courier-cart' }));
+    window.dispatchEvent(new StorageEvent('storage', { key: 'access' }));
+    expect(listener).toHaveBeenCalledTimes(3);
+
+    unsubscribe();
+    addToCart(item(2));
+    window.dispatchEvent(new StorageEvent('storage', { key: 'courier-cart' }));
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it('BroadcastChannel이 있으면 다른 탭과 변경을 주고받고, 마지막 구독 해제 시 채널을 닫음', () => {
+    (globalThis as { BroadcastChannel?: unknown }).BroadcastChannel = FakeChannel;
+    const otherTab = new FakeChannel('courier-cart');
+    const received = jest.fn();
+    otherTab.onmessage = received;
+
+    const first = jest.fn();
+    const second = jest.fn();
+    const unsubscribeFirst = subscribeCart(first);
+    const unsubscribeSecond = subscribeCart(second);
+    expect(FakeChannel.instances).toHaveLength(2);
+
+    addToCart(item(1));
+    expect(received).toHaveBeenCalledWith({ data: 'changed' });
+    otherTab.postMessage('changed');
+    expect(first).toHaveBeenCalledTimes(2);
+    expect(second).toHaveBeenCalledTimes(2);
+
+    unsubscribeFirst();
+    expect(FakeChannel.instances[1].closed).toBe(false);
+    unsubscribeSecond();
+    expect(FakeChannel.instances[1].closed).toBe(true);
+  });
+});
+
+describe('getCartSnapshot', () => {
+  it('저장된 원문이 바뀔 때만 새 배열', () => {
+    addToCart(item(1));
+    const before = getCartSnapshot();
+    expect(getCartSnapshot()).toBe(before);
+    updateQuantity(1, 2);
+    expect(getCartSnapshot()).not.toBe(before);
+    expect(getCartSnapshot()).toEqual([item(1, { quantity: 2 })]);
+  });
+});
+
+describe('estimateShippingFee', () => {
+  const config = { shippingFee: 3000, freeShippingMinAmount: 30000 };
+
+  it('무료배송 기준 금액 이상이면 0, 미만이면 배송비', () => {
+    expect(estimateShippingFee(29999, config)).toBe(3000);
+    expect(estimateShippingFee(30000, config)).toBe(0);
+  });
+
+  it('설정이 없거나 상품 금액이 없으면 0, 기준 금액이 0이면 항상 배송비', () => {
+    expect(estimateShippingFee(10000, null)).toBe(0);
+    expect(estimateShippingFee(0, config)).toBe(0);
+    expect(estimateShippingFee(50000, { ...config, freeShippingMinAmount: 0 })).toBe(3000);
+  });
+});
@@ -1,3 +1,10 @@
+import { getCourierCart, onUserSessionCleared, saveCourierCart, type CourierCartLine, type CourierProduct } from './api';
+import { safeErrorLog } from './environment';
+
+// 재검증 시 표시되는 변경 유형
+// price: 가격 변경 / quantity: 재고 부족으로 수량 조정 / sold_out: 품절 / unavailable: 판매 종료
+export type CartLineChange = 'price' | 'quantity' | 'sold_out' | 'unavailable';
+
 export type CartItem = {
   courierProductId: number;
   name: string;
@@ -5,9 +12,40 @@ export type CartItem = {
   quantity: number;
   imageUrl: string;
   stock: number;
+  changes?: CartLineChange[];
+  previousPrice?: number;
+  previousQuantity?: number;
 };
 
 const CART_KEY = 'courier-cart';
+// 두 표시 모두 값은 'user:' + 사용자 id → 다른 계정으로 로그인하면 이전 계정 표시로 인식하지 않음
+const MERGED_KEY = 'courier-cart-merged'; // 로컬/서버 장바구니 최초 병합을 마친 사용자
+const DIRTY_KEY = 'courier-cart-dirty';   // 서버에 아직 반영되지 않은 로컬 변경이 있는 사용자
+const LEGACY_FLAG = '1';                  // 사용자 id 저장 전 표시 값 (현재 사용자 것으로 간주)
+const FLAG_PREFIX = 'user:';              // id가 '1'인 사용자와 이전 표시 값이 섞이지 않게
+const PUSH_DELAY_MS = 500;
+
+// access token의 sub (해석할 수 없는 토큰은 로그아웃 상태로 취급 - 계정 간 표시가 섞이지 않게)
+const currentUserId = (): string | null => {
+  const access = localStorage.getItem('access');
+  if (!access) return null;
+  try {
+    const payload = JSON.parse(atob((access.split('.')[1] || '').replace(/-/g, '+').replace(/_/g, '/')));
+    return payload?.sub ? String(payload.sub) : null;
+  } catch {
+    return null;
+  }
+};
+
+const setFlag = (key: string, userId: string) => {
+  localStorage.setItem(key, FLAG_PREFIX + userId);
+};
+
+const flagOwner = (key: string, userId: string) => {
+  const value = localStorage.getItem(key);
+  if (value === LEGACY_FLAG) return userId;
+  return value?.startsWith(FLAG_PREFIX) ? value.slice(FLAG_PREFIX.length) : value;
+};
 
 export const getCart = (): CartItem[] => {
   try {
@@ -18,8 +56,93 @@ export const getCart = (): CartItem[] => {
   }
 };
 
-const saveCart = (items: CartItem[]) => {
+// === 변경 알림 (같은 탭: listener / 다른 탭: BroadcastChannel + storage 이벤트) ===
+type CartListener = () => void;
+
+const CART_CHANNEL = 'courier-cart';
+const listeners = new Set<CartListener>();
+let channel: BroadcastChannel | null = null;
+
+const emitLocal = () => {
+  listeners.forEach(listener => listener());
+};
+
+const handleStorage = (e: StorageEvent) => {
+  if (e.key === CART_KEY || e.key === null) emitLocal();
+};
+
+const notifyCartChanged = () => {
+  emitLocal();
+  try {
+    channel?.postMessage('changed');
+  } catch (e) {
+    safeErrorLog(e, 'courierCart - postMessage');
+  }
+};
+
+export const subscribeCart = (listener: CartListener): (() => void) => {
+  listeners.add(listener);
+  if (listeners.size === 1) {
+    window.addEventListener('storage', handleStorage);
+    if (typeof BroadcastChannel !== 'undefined') {
+      channel = new BroadcastChannel(CART_CHANNEL);
+      channel.onmessage = emitLocal;
+    }
+  }
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      window.removeEventListener('storage', handleStorage);
+      channel?.close();
+      channel = null;
+    }
+  };
+};
+
+// useSyncExternalStore용: localStorage 원문이 바뀔 때만 새 배열 반환
+let snapshotRaw: string | null = null;
+let snapshot: CartItem[] = [];
+
+export const getCartSnapshot = (): CartItem[] => {
+  const raw = localStorage.getItem(CART_KEY);
+  if (raw !== snapshotRaw) {
+    snapshotRaw = raw;
+    snapshot = getCart();
+  }
+  return snapshot;
+};
+
+const writeCart = (items: CartItem[]) => {
   localStorage.setItem(CART_KEY, JSON.stringify(items));
+  notifyCartChanged();
+};
+
+// 실패하면 dirty 표시가 남아 다음 동기화에서 다시 반영
+const pushCartToServer = async () => {
+  await saveCourierCart(
+    getCart().map(it => ({ courierProductId: it.courierProductId, quantity: it.quantity }))
+  );
+  localStorage.removeItem(DIRTY_KEY);
+};
+
+let pushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const schedulePush = () => {
+  const userId = currentUserId();
+  if (!userId) return;
+  setFlag(DIRTY_KEY, userId);
+  // 최초 병합 전에는 서버 장바구니를 덮어쓰지 않음 (syncCartWithServer에서 병합 후 반영)
+  if (flagOwner(MERGED_KEY, userId) !== userId) return;
+  if (pushTimer) clearTimeout(pushTimer);
+  pushTimer = setTimeout(() => {
+    pushTimer = null;
+    pushCartToServer().catch(e => safeErrorLog(e, 'courierCart - pushCartToServer'));
+  }, PUSH_DELAY_MS);
+};
+
+const saveCart = (items: CartItem[]) => {
+  writeCart(items);
+  schedulePush();
 };
 
 export const addToCart = (item: CartItem) => {
@@ -57,6 +180,8 @@ export const removeFromCart = (courierProductId: number) => {
 
 export const clearCart = () => {
   localStorage.removeItem(CART_KEY);
+  notifyCartChanged();
+  schedulePush();
 };
 
 export const getCartTotalQuantity = (): number => {
@@ -66,3 +191,160 @@ export const getCartTotalQuantity = (): number => {
 export const getCartTotalPrice = (): number => {
   return getCart().reduce((sum, item) => sum + item.price * item.quantity, 0);
 };
+
+const lineToItem = (line: CourierCartLine, prev?: CartItem): CartItem => ({
+  ...prev,
+  courierProductId: line.product.id,
+  name: line.product.name,
+  price: prev?.price ?? line.product.price,
+  quantity: line.quantity,
+  imageUrl: line.product.imageUrl,
+  stock: line.product.stock,
+});
+
+// 같은 상품은 큰 수량을 유지 (게스트로 담은 상품과 다른 기기에서 담은 상품을 모두 보존)
+const mergeCartLines = (local: CartItem[], server: CourierCartLine[]): CartItem[] => {
+  const merged = new Map<number, CartItem>();
+  local.forEach(it => merged.set(it.courierProductId, { ...it }));
+  server.forEach(line => {
+    const prev = merged.get(line.product.id);
+    const item = lineToItem(line, prev);
+    item.quantity = Math.max(prev?.quantity ?? 0, line.quantity);
+    merged.set(line.product.id, item);
+  });
+  return Array.from(merged.values());
+};
+
+/**
+ * 로그아웃/계정 전환 시 장바구니 세션 정리
+ * - 서버와 병합된 장바구니는 그 계정의 서버 장바구니에 남아 있으므로 로컬에서 비움 (다음 계정에 병합되지 않게)
+ * - 병합 전(게스트) 장바구니는 그대로 유지
+ */
+export const resetCartSession = () => {
+  if (pushTimer) {
+    clearTimeout(pushTimer);
+    pushTimer = null;
+  }
+  const merged = !!localStorage.getItem(MERGED_KEY);
+  localStorage.removeItem(MERGED_KEY);
+  localStorage.removeItem(DIRTY_KEY);
+  if (merged) {
+    localStorage.removeItem(CART_KEY);
+    notifyCartChanged();
+  }
+};
+
+onUserSessionCleared(resetCartSession);
+
+/**
+ * 로그인 사용자의 장바구니를 서버와 동기화
+ * - 로그인 후 최초 1회: 로컬(게스트) 장바구니와 서버 장바구니 병합
+ * - 이후: 서버 장바구니 기준 (미반영 로컬 변경이 있으면 로컬 우선 후 서버 반영)
+ */
+export const syncCartWithServer = async (): Promise<CartItem[]> => {
+  const userId = currentUserId();
+  if (!userId) {
+    resetCartSession();
+    return getCart();
+  }
+  // 로그아웃 없이 다른 계정으로 로그인한 경우 이전 계정 장바구니를 넘기지 않음
+  const mergedOwner = flagOwner(MERGED_KEY, userId);
+  if (mergedOwner && mergedOwner !== userId) resetCartSession();
+
+  const serverLines = await getCourierCart();
+  if (!serverLines) return getCart();
+
+  const local = getCart();
+  const alreadyMerged = flagOwner(MERGED_KEY, userId) === userId;
+  const dirty = flagOwner(DIRTY_KEY, userId) === userId;
+
+  let next: CartItem[];
+  if (!alreadyMerged) {
+    next = mergeCartLines(local, serverLines);
+  } else if (dirty) {
+    next = local;
+  } else {
+    const prevById = new Map(local.map(it => [it.courierProductId, it]));
+    next = serverLines.map(line => lineToItem(line, prevById.get(line.product.id)));
+  }
+
+  writeCart(next);
+  setFlag(MERGED_KEY, userId);
+  if (!alreadyMerged || dirty) {
+    // 반영에 실패해도 다음 동기화에서 서버 장바구니로 덮어쓰지 않도록 반영 성공 전까지 표시 유지
+    setFlag(DIRTY_KEY, userId);
+    await pushCartToServer().catch(e => safeErrorLog(e, 'courierCart - pushCartToServer'));
+  }
+  return next;
+};
+
+// 최신 상품 정보(가격/재고) 기준으로 장바구니를 재검증하고 변경된 줄에 표시를 남김
+// products가 null(목록 조회 실패)이면 재검증하지 않음 - 없는 상품을 판매 종료로 표시하려면 목록이 확실해야 함
+export const revalidateCart = (products: CourierProduct[] | null): CartItem[] => {
+  if (!products) return getCart();
+  const byId = new Map(products.map(p => [p.id, p]));
+  const next = getCart().map(item => {
+    const product = byId.get(item.courierProductId);
+    const changes = new Set<CartLineChange>(item.changes ?? []);
+    if (!product) {
+      changes.add('unavailable');
+      return { ...item, changes: Array.from(changes) };
+    }
+    changes.delete('unavailable');
+
+    const updated: CartItem = {
+      ...item,
+      name: product.name,
+      imageUrl: product.imageUrl,
+      stock: product.stock,
+    };
+
+    if (product.price !== item.price) {
+      updated.previousPrice = item.previousPrice ?? item.price;
+      updated.price = product.price;
+    }
+    if (updated.previousPrice !== undefined && updated.previousPrice !== updated.price) {
+      changes.add('price');
+    } else {
+      changes.delete('price');
+      delete updated.previousPrice;
+    }
+
+    if (product.soldOut || product.stock <= 0) {
+      changes.add('sold_out');
+    } else {
+      changes.delete('sold_out');
+      if (item.quantity > product.stock) {
+        updated.previousQuantity = item.previousQuantity ?? item.quantity;
+        updated.quantity = product.stock;
+        changes.add('quantity');
+      }
+    }
+
+    return { ...updated, changes: changes.size > 0 ? Array.from(changes) : undefined };
+  });
+  saveCart(next);
+  return next;
+};
+
+export const hasCartChanges = (items: CartItem[]): boolean =>
+  items.some(it => (it.changes?.length ?? 0) > 0);
+
+// 변경 표시 확인 처리: 구매 불가(품절/판매 종료) 상품은 제거하고 나머지 표시는 해제
+export const acknowledgeCartChanges = (): CartItem[] => {
+  const next = getCart()
+    .filter(it => !it.changes?.includes('sold_out') && !it.changes?.includes('unavailable'))
+    .map(({ changes, previousPrice, previousQuantity, ...rest }) => rest);
+  saveCart(next);
+  return next;
+};
+
+// 화면 표시용 배송비 추정 (최종 금액은 서버 결제 준비 응답 기준)
+export const estimateShippingFee = (
+  productAmount: number,
+  config: { shippingFee: number; freeShippingMinAmount: number } | null
+): number => {
+  if (!config || productAmount <= 0) return 0;
+  if (config.freeShippingMinAmount > 0 && productAmount >= config.freeShippingMinAmount) return 0;
+  return config.shippingFee;
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from '@jest/globals';
+import { computeDeliveryFee, describeFeeRules, EMPTY_FEE_RULES, type FeeConfig, type FeeInput } from './deliveryFee';
+
+const config = (feeRules: Partial<FeeConfig['feeRules']> = {}): FeeConfig => ({
+  feeNear: 2900,
+  feePer100m: 100,
+  feeDistanceKm: 1,
+  feeRules: { ...EMPTY_FEE_RULES, ...feeRules },
+});
+
+const input = (overrides: Partial<FeeInput> = {}): FeeInput => ({
+  distanceKm: 0.8,
+  amount: 20000,
+  zone: null,
+  date: '2026-03-02',
+  hour: 14,
+  minute: 0,
+  scheduled: false,
+  ...overrides,
+});
+
+describe('computeDeliveryFee', () => {
+  it('기준 거리 이내는 기본 배달비만', () => {
+    expect(computeDeliveryFee(config(), input())).toEqual({
+      total: 2900,
+      lines: [{ label: '기본 배달비 (1km 이하)', amount: 2900 }],
+    });
+  });
+
+  it('기준 거리를 넘으면 100m당 추가 (딱 맞는 거리는 올림하지 않음)', () => {
+    expect(computeDeliveryFee(config(), input({ distanceKm: 1.25 })).total).toBe(2900 + 300);
+    expect(computeDeliveryFee(config(), input({ distanceKm: 1.3 })).total).toBe(2900 + 300);
+  });
+
+  it('거리 구간이 있으면 해당 구간 요금, 마지막 구간을 넘으면 마지막 구간 요금', () => {
+    const rules = { distanceTiers: [{ upToKm: 3, fee: 4000 }, { upToKm: 1, fee: 2000 }] };
+    expect(computeDeliveryFee(config(rules), input({ distanceKm: 1 })).total).toBe(2000);
+    expect(computeDeliveryFee(config(rules), input({ distanceKm: 2.5 })).total).toBe(4000);
+    expect(computeDeliveryFee(config(rules), input({ distanceKm: 5 })).total).toBe(4000);
+  });
+
+  it('배달 구역이 있으면 거리 대신 구역 배달비', () => {
+    const result = computeDeliveryFee(config(), input({ distanceKm: 2.5, zone: { name: '역삼동', fee: 3500 } }));
+    expect(result.lines).toEqual([{ label: '역삼동 배달비', amount: 3500 }]);
+    expect(result.total).toBe(3500);
+  });
+
+  it('심야 할증은 시작 시각부터 적용', () => {
+    const rules = { lateNightStartHour: 21, lateNightStartMinute: 30, lateNightSurcharge: 1000 };
+    expect(computeDeliveryFee(config(rules), input({ hour: 21, minute: 29 })).total).toBe(2900);
+    expect(computeDeliveryFee(config(rules), input({ hour: 21, minute: 30 })).total).toBe(3900);
+  });
+
+  it('예약배달 할증', () => {
+    const rules = { scheduledSurcharge: 500 };
+    expect(computeDeliveryFee(config(rules), input({ scheduled: true })).total).toBe(3400);
+    expect(computeDeliveryFee(config(rules), input({ scheduled: false })).total).toBe(2900);
+  });
+
+  it('날짜별 할인은 배달일에만, 배달비를 넘지 않음', () => {
+    const rules = { promotions: [{ date: '2026-03-02', discount: 5000, label: '개업 기념' }] };
+    const result = computeDeliveryFee(config(rules), input());
+    expect(result.lines[result.lines.length - 1]).toEqual({ label: '개업 기념', amount: -2900 });
+    expect(result.total).toBe(0);
+    expect(computeDeliveryFee(config(rules), input({ date: '2026-03-03' })).total).toBe(2900);
+  });
+
+  it('금액 이상 무료배달은 할증까지 모두 면제', () => {
+    const rules = { freeOverAmount: 30000, scheduledSurcharge: 500 };
+    expect(computeDeliveryFee(config(rules), input({ amount: 29999, scheduled: true })).total).toBe(3400);
+    const free = computeDeliveryFee(config(rules), input({ amount: 30000, scheduled: true }));
+    expect(free.total).toBe(0);
+    expect(free.lines[free.lines.length - 1]).toEqual({ label: '30,000원 이상 무료배달', amount: -3400 });
+  });
+});
+
+describe('describeFeeRules', () => {
+  it('기본 요금 기준과 오늘 할인만 안내', () => {
+    const rules = {
+      freeOverAmount: 30000,
+      promotions: [
+        { date: '2026-03-02', discount: 1000, label: '' },
+        { date: '2026-03-03', discount: 2000, label: '내일 할인' },
+      ],
+    };
+    expect(describeFeeRules(config(rules), '2026-03-02')).toEqual([
+      '요금 기준: 1km까지 2,900원 · 이후 100m당 100원 추가',
+      '30,000원 이상 주문 시 무료배달',
+      '오늘의 할인: 배달비 할인 1,000원',
+    ]);
+  });
+
+  it('거리 구간은 가까운 순으로 안내', () => {
+    const rules = { distanceTiers: [{ upToKm: 3, fee: 4000 }, { upToKm: 1, fee: 2000 }] };
+    expect(describeFeeRules(config(rules), '2026-03-02')[0]).toBe('거리별 요금: 1km 이하 2,000원 · 3km 이하 4,000원');
+  });
+});
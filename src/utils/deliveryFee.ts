@@ -0,0 +1,113 @@
+// deliveryFee.ts
+// 배달비 규칙 계산: 기본 배달비(구역 / 거리 구간 / 기준 거리 + 100m당) + 심야·예약배달 할증 + 날짜별 할인 + 금액 이상 무료
+// 관리자 설정 미리보기와 모의 서버가 같은 계산을 사용 (실제 청구 금액은 서버 계산 기준)
+
+export type DistanceTier = { upToKm: number; fee: number };
+export type FeePromotion = { date: string; discount: number; label: string };
+
+export type DeliveryFeeRules = {
+  distanceTiers: DistanceTier[];     // 비어 있으면 기준 거리 + 100m당 추가 요금
+  freeOverAmount: number | null;     // 주문 금액이 이 이상이면 무료 (null = 사용 안 함)
+  lateNightStartHour: number | null; // 이 시각 이후 배달은 할증 (null = 사용 안 함)
+  lateNightStartMinute: number;
+  lateNightSurcharge: number;
+  scheduledSurcharge: number;        // 예약배달 할증
+  promotions: FeePromotion[];        // 배달일별 배달비 할인
+};
+
+export const EMPTY_FEE_RULES: DeliveryFeeRules = {
+  distanceTiers: [],
+  freeOverAmount: null,
+  lateNightStartHour: null,
+  lateNightStartMinute: 0,
+  lateNightSurcharge: 0,
+  scheduledSurcharge: 0,
+  promotions: [],
+};
+
+export type FeeConfig = {
+  feeNear: number;
+  feePer100m: number;
+  feeDistanceKm: number;
+  feeRules: DeliveryFeeRules;
+};
+
+export type FeeInput = {
+  distanceKm: number;
+  amount: number;                              // 주문 금액
+  zone?: { name: string; fee: number } | null; // 배달 구역 (있으면 거리 대신 구역 배달비)
+  date: string;                                // 배달일 YYYY-MM-DD
+  hour: number;                                // 배달 시각 (예약배달은 예약 시각)
+  minute: number;
+  scheduled: boolean;
+};
+
+export type FeeLine = { label: string; amount: number };
+export type FeeBreakdown = { total: number; lines: FeeLine[] };
+
+const won = (n: number) => `${n.toLocaleString('ko-KR')}원`;
+
+const sortedTiers = (tiers: DistanceTier[]) => [...tiers].sort((a, b) => a.upToKm - b.upToKm);
+
+const baseLines = (config: FeeConfig, input: FeeInput): FeeLine[] => {
+  if (input.zone) return [{ label: `${input.zone.name} 배달비`, amount: input.zone.fee }];
+
+  const tiers = sortedTiers(config.feeRules.distanceTiers);
+  if (tiers.length > 0) {
+    // 마지막 구간을 넘으면 마지막 구간 요금 (배달 가능 거리는 최대 거리/구역으로 제한)
+    const tier = tiers.find(t => input.distanceKm <= t.upToKm) ?? tiers[tiers.length - 1];
+    return [{ label: `기본 배달비 (${tier.upToKm}km 이하)`, amount: tier.fee }];
+  }
+
+  const lines: FeeLine[] = [{ label: `기본 배달비 (${config.feeDistanceKm}km 이하)`, amount: config.feeNear }];
+  // 부동소수 오차로 딱 맞는 거리가 100m 더 붙지 않도록 보정
+  const extra100m = Math.max(0, Math.ceil((input.distanceKm - config.feeDistanceKm) * 10 - 1e-9));
+  if (extra100m > 0 && config.feePer100m > 0) {
+    lines.push({ label: `거리 추가 (${extra100m * 100}m)`, amount: extra100m * config.feePer100m });
+  }
+  return lines;
+};
+
+export const computeDeliveryFee = (config: FeeConfig, input: FeeInput): FeeBreakdown => {
+  const rules = config.feeRules;
+  const lines = baseLines(config, input);
+  const sum = () => lines.reduce((acc, line) => acc + line.amount, 0);
+
+  if (rules.lateNightStartHour !== null && rules.lateNightSurcharge > 0
+    && input.hour * 60 + input.minute >= rules.lateNightStartHour * 60 + rules.lateNightStartMinute) {
+    lines.push({ label: '심야 할증', amount: rules.lateNightSurcharge });
+  }
+  if (input.scheduled && rules.scheduledSurcharge > 0) {
+    lines.push({ label: '예약배달 할증', amount: rules.scheduledSurcharge });
+  }
+  rules.promotions
+    .filter(p => p.date === input.date && p.discount > 0)
+    .forEach(p => {
+      const discount = Math.min(p.discount, sum());
+      if (discount > 0) lines.push({ label: p.label || '배달비 할인', amount: -discount });
+    });
+  if (rules.freeOverAmount !== null && input.amount >= rules.freeOverAmount && sum() > 0) {
+    lines.push({ label: `${won(rules.freeOverAmount)} 이상 무료배달`, amount: -sum() });
+  }
+  return { total: Math.max(0, sum()), lines };
+};
+
+/** 고객 안내용 요금 기준 문구 */
+export const describeFeeRules = (config: FeeConfig, today: string): string[] => {
+  const rules = config.feeRules;
+  const tiers = sortedTiers(rules.distanceTiers);
+  const result = [
+    tiers.length > 0
+      ? `거리별 요금: ${tiers.map(t => `${t.upToKm}km 이하 ${won(t.fee)}`).join(' · ')}`
+      : `요금 기준: ${config.feeDistanceKm}km까지 ${won(config.feeNear)} · 이후 100m당 ${won(config.feePer100m)} 추가`,
+  ];
+  if (rules.freeOverAmount !== null) result.push(`${won(rules.freeOverAmount)} 이상 주문 시 무료배달`);
+  if (rules.lateNightStartHour !== null && rules.lateNightSurcharge > 0) {
+    result.push(`${rules.lateNightStartHour}:${String(rules.lateNightStartMinute).padStart(2, '0')} 이후 배달 ${won(rules.lateNightSurcharge)} 할증`);
+  }
+  if (rules.scheduledSurcharge > 0) result.push(`예약배달 ${won(rules.scheduledSurcharge)} 할증`);
+  rules.promotions
+    .filter(p => p.date === today && p.discount > 0)
+    .forEach(p => result.push(`오늘의 할인: ${p.label || '배달비 할인'} ${won(p.discount)}`));
+  return result;
+};
@@ -0,0 +1,52 @@
+// deliverySlots.ts
+// 예약배달 시간대: 배달 시작 1시간 후부터 종료 시각까지 1시간 단위 (slot = 도착 시각, 직전 1시간 구간)
+// 시간대별 정원은 기본 정원 + 시간대별 지정값 (0 = 제한 없음)
+// 전체 시간대 목록은 buildDeliverySlots 하나로 계산 (고객 화면, 시간대 현황 API, 관리자 정원 설정이 같은 목록 사용)
+
+export type SlotTime = { hour: number; minute: number };
+export type SlotCapacity = SlotTime & { capacity: number };
+
+export type DeliveryHours = { startHour: number; startMinute: number; endHour: number; endMinute: number };
+
+export type SlotCapacityConfig = {
+  scheduledSlotCapacity: number;
+  scheduledSlotCapacities: SlotCapacity[];
+};
+
+export const buildScheduledSlots = (startHour: number, startMinute: number, endHour: number, endMinute: number): SlotTime[] => {
+  const startTotal = startHour * 60 + startMinute;
+  const endTotal = endHour * 60 + endMinute;
+  const slots: SlotTime[] = [];
+  for (let t = startTotal + 60; t <= endTotal; t += 60) {
+    slots.push({ hour: Math.floor(t / 60), minute: t % 60 });
+  }
+  return slots;
+};
+
+/** 예약배달 전체 시간대: 배달 구역이 있으면 구역별 배달 시간의 합집합 (고객은 구역 기준으로 주문), 없으면 매장 배달 시간 */
+export const buildDeliverySlots = (store: DeliveryHours, zones: DeliveryHours[]): SlotTime[] => {
+  const sources = zones.length > 0 ? zones : [store];
+  const totals = new Set<number>();
+  for (const h of sources) {
+    for (const slot of buildScheduledSlots(h.startHour, h.startMinute, h.endHour, h.endMinute)) {
+      totals.add(slot.hour * 60 + slot.minute);
+    }
+  }
+  return Array.from(totals)
+    .sort((a, b) => a - b)
+    .map(t => ({ hour: Math.floor(t / 60), minute: t % 60 }));
+};
+
+export const isSameSlot = (a: SlotTime, b: SlotTime) => a.hour === b.hour && a.minute === b.minute;
+
+/** 12:00 → "11:00 ~ 12:00" */
+export const formatSlotRange = (slot: SlotTime) => {
+  const startTotal = slot.hour * 60 + slot.minute - 60;
+  const sH = Math.floor(startTotal / 60);
+  const sM = startTotal % 60;
+  return `${sH}:${String(sM).padStart(2, '0')} ~ ${slot.hour}:${String(slot.minute).padStart(2, '0')}`;
+};
+
+/** 시간대 정원 (0 = 제한 없음) */
+export const slotCapacityOf = (config: SlotCapacityConfig, slot: SlotTime) =>
+  config.scheduledSlotCapacities.find(c => isSameSlot(c, slot))?.capacity ?? config.scheduledSlotCapacity;
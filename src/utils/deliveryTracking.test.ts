@@ -0,0 +1,87 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  arrivalTimeMs,
+  completedStepCount,
+  formatKstTime,
+  formatRemaining,
+  parseKstDateTime,
+  trackingSteps,
+} from './deliveryTracking';
+
+// 2026-01-02 13:04:05 KST
+const KST_13_04_05 = Date.UTC(2026, 0, 2, 4, 4, 5);
+
+describe('parseKstDateTime', () => {
+  it('타임존 없는 문자열과 배열은 KST로 해석', () => {
+    expect(parseKstDateTime('2026-01-02T13:04:05')).toBe(KST_13_04_05);
+    expect(parseKstDateTime('2026-01-02 13:04:05')).toBe(KST_13_04_05);
+    expect(parseKstDateTime([2026, 1, 2, 13, 4, 5])).toBe(KST_13_04_05);
+    expect(parseKstDateTime([2026, 1, 2])).toBe(Date.UTC(2026, 0, 1, 15));
+  });
+
+  it('타임존이 있으면 그대로', () => {
+    expect(parseKstDateTime('2026-01-02T04:04:05Z')).toBe(KST_13_04_05);
+    expect(parseKstDateTime('2026-01-02T13:04:05+09:00')).toBe(KST_13_04_05);
+    expect(parseKstDateTime('2026-01-02T05:04:05+0100')).toBe(KST_13_04_05);
+  });
+
+  it('KST 자정 전후로 날짜가 넘어가도 UTC 기준 시각은 연속', () => {
+    expect(parseKstDateTime('2026-01-01T00:30:00')).toBe(Date.UTC(2025, 11, 31, 15, 30));
+  });
+
+  it('값이 없거나 해석할 수 없으면 null', () => {
+    expect(parseKstDateTime(undefined)).toBeNull();
+    expect(parseKstDateTime('')).toBeNull();
+    expect(parseKstDateTime('내일 오후')).toBeNull();
+  });
+});
+
+describe('formatKstTime', () => {
+  it('실행 환경 타임존과 관계없이 KST 시각으로 표시', () => {
+    expect(formatKstTime(KST_13_04_05)).toBe('오후 1:04');
+  });
+});
+
+describe('trackingSteps / completedStepCount', () => {
+  it('단계별 시각', () => {
+    const steps = trackingSteps({ paidAt: '2026-01-02T13:04:05', acceptedAt: '2026-01-02T13:10:00' });
+    expect(steps.map(step => step.key)).toEqual(['paid', 'accepted', 'out', 'delivered']);
+    expect(steps.map(step => step.at)).toEqual([KST_13_04_05, Date.UTC(2026, 0, 2, 4, 10), null, null]);
+  });
+
+  it('상태(대소문자 무시)와 접수 여부로 완료 단계 수', () => {
+    expect(completedStepCount({ status: 'DELIVERED' })).toBe(4);
+    expect(completedStepCount({ status: 'out_for_delivery' })).toBe(3);
+    expect(completedStepCount({ status: 'PAID', acceptedAt: '2026-01-02T13:10:00' })).toBe(2);
+    expect(completedStepCount({ status: 'PAID' })).toBe(1);
+    expect(completedStepCount({ status: 'PENDING' })).toBe(0);
+    expect(completedStepCount({})).toBe(0);
+  });
+});
+
+describe('arrivalTimeMs', () => {
+  it('예약배달은 배달일의 예약 시각 (KST)', () => {
+    expect(arrivalTimeMs({ scheduledDeliveryHour: 18, scheduledDeliveryMinute: 30 }, '2026-01-02')).toBe(Date.UTC(2026, 0, 2, 9, 30));
+    expect(arrivalTimeMs({ scheduledDeliveryHour: 9, scheduledDeliveryMinute: null }, '2026-01-02')).toBe(Date.UTC(2026, 0, 2, 0, 0));
+  });
+
+  it('바로배달은 접수 시각 + 예상 소요 시간, 둘 중 하나라도 없으면 null', () => {
+    expect(arrivalTimeMs({ acceptedAt: '2026-01-02T13:04:05', estimatedMinutes: 25 }, '2026-01-02')).toBe(KST_13_04_05 + 25 * 60000);
+    expect(arrivalTimeMs({ acceptedAt: '2026-01-02T13:04:05' }, '2026-01-02')).toBeNull();
+    expect(arrivalTimeMs({ estimatedMinutes: 25 }, '2026-01-02')).toBeNull();
+  });
+});
+
+describe('formatRemaining', () => {
+  it('1시간 미만은 mm:ss (초는 올림), 지난 시각은 00:00', () => {
+    expect(formatRemaining(299001)).toBe('05:00');
+    expect(formatRemaining(3599000)).toBe('59:59');
+    expect(formatRemaining(0)).toBe('00:00');
+    expect(formatRemaining(-5000)).toBe('00:00');
+  });
+
+  it('1시간 이상은 시간/분', () => {
+    expect(formatRemaining(3600000)).toBe('1시간 0분');
+    expect(formatRemaining(2 * 3600000 + 5 * 60000 + 30000)).toBe('2시간 5분');
+  });
+});
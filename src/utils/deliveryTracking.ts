@@ -0,0 +1,69 @@
+// deliveryTracking.ts
+// 고객 배달 추적: 진행 단계(결제 → 접수 → 출발 → 완료)와 도착 예정 시각 계산
+// 서버 시각은 KST 기준 (타임존 없는 문자열/배열도 KST로 해석) → 남은 시간은 서버 시각 보정한 현재 시각과 비교
+
+export type TrackedDelivery = {
+  status?: string;
+  estimatedMinutes?: number;
+  paidAt?: string;
+  acceptedAt?: string;
+  outForDeliveryAt?: string;
+  deliveredAt?: string;
+  scheduledDeliveryHour?: number | null;
+  scheduledDeliveryMinute?: number | null;
+};
+
+export type TrackingStep = { key: 'paid' | 'accepted' | 'out' | 'delivered'; label: string; at: number | null };
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** "2026-01-02T13:04:05" / [2026, 1, 2, 13, 4, 5] → epoch ms (KST) */
+export const parseKstDateTime = (value: unknown): number | null => {
+  if (!value) return null;
+  if (Array.isArray(value)) {
+    const [y, mo, d, h = 0, mi = 0, s = 0] = value.map(Number);
+    return Date.UTC(y, mo - 1, d, h - 9, mi, s);
+  }
+  const text = String(value);
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/.test(text);
+  const ms = new Date(hasZone ? text : `${text.replace(' ', 'T')}+09:00`).getTime();
+  return Number.isNaN(ms) ? null : ms;
+};
+
+export const formatKstTime = (ms: number) =>
+  new Date(ms).toLocaleTimeString('ko-KR', { timeZone: 'Asia/Seoul', hour: 'numeric', minute: '2-digit' });
+
+export const trackingSteps = (delivery: TrackedDelivery): TrackingStep[] => [
+  { key: 'paid', label: '결제 완료', at: parseKstDateTime(delivery.paidAt) },
+  { key: 'accepted', label: '주문 접수', at: parseKstDateTime(delivery.acceptedAt) },
+  { key: 'out', label: '배달 출발', at: parseKstDateTime(delivery.outForDeliveryAt) },
+  { key: 'delivered', label: '배달 완료', at: parseKstDateTime(delivery.deliveredAt) },
+];
+
+/** 완료된 단계 수 (0 = 결제 전, 4 = 배달 완료) */
+export const completedStepCount = (delivery: TrackedDelivery) => {
+  const status = String(delivery.status ?? '').toUpperCase();
+  if (status === 'DELIVERED') return 4;
+  if (status === 'OUT_FOR_DELIVERY') return 3;
+  if (status === 'PAID') return delivery.acceptedAt ? 2 : 1;
+  return 0;
+};
+
+/** 도착 예정 시각: 예약배달은 예약 시각, 바로배달은 접수 시각 + 예상 소요 시간 */
+export const arrivalTimeMs = (delivery: TrackedDelivery, date: string): number | null => {
+  if (delivery.scheduledDeliveryHour != null) {
+    return parseKstDateTime(`${date}T${pad(delivery.scheduledDeliveryHour)}:${pad(delivery.scheduledDeliveryMinute ?? 0)}:00`);
+  }
+  const accepted = parseKstDateTime(delivery.acceptedAt);
+  if (accepted === null || !delivery.estimatedMinutes) return null;
+  return accepted + delivery.estimatedMinutes * 60000;
+};
+
+/** 남은 시간 표시: 1시간 이상은 "1시간 5분", 그 미만은 "04:59" */
+export const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  if (hours > 0) return `${hours}시간 ${minutes}분`;
+  return `${pad(minutes)}:${pad(totalSeconds % 60)}`;
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from '@jest/globals';
+import { findDeliveryZone, isInsidePolygon, isValidPolygon, polygonCenter, type LatLng } from './deliveryZones';
+
+// 역삼동 부근 사각형 / 그 동쪽에 붙은 위쪽이 파인 U자 구역
+const square: LatLng[] = [
+  { lat: 37.49, lng: 127.03 },
+  { lat: 37.49, lng: 127.04 },
+  { lat: 37.50, lng: 127.04 },
+  { lat: 37.50, lng: 127.03 },
+];
+const concave: LatLng[] = [
+  { lat: 37.49, lng: 127.04 },
+  { lat: 37.49, lng: 127.07 },
+  { lat: 37.50, lng: 127.07 },
+  { lat: 37.50, lng: 127.06 },
+  { lat: 37.495, lng: 127.06 },
+  { lat: 37.495, lng: 127.05 },
+  { lat: 37.50, lng: 127.05 },
+  { lat: 37.50, lng: 127.04 },
+];
+
+describe('isValidPolygon', () => {
+  it('꼭짓점 3개 이상만 구역', () => {
+    expect(isValidPolygon(square.slice(0, 2))).toBe(false);
+    expect(isValidPolygon(square.slice(0, 3))).toBe(true);
+  });
+});
+
+describe('isInsidePolygon', () => {
+  it('안쪽 / 바깥쪽 점', () => {
+    expect(isInsidePolygon({ lat: 37.495, lng: 127.035 }, square)).toBe(true);
+    expect(isInsidePolygon({ lat: 37.505, lng: 127.035 }, square)).toBe(false);
+    expect(isInsidePolygon({ lat: 37.495, lng: 127.045 }, square)).toBe(false);
+  });
+
+  it('오목한 다각형의 파인 부분은 바깥', () => {
+    expect(isInsidePolygon({ lat: 37.492, lng: 127.055 }, concave)).toBe(true);
+    expect(isInsidePolygon({ lat: 37.498, lng: 127.055 }, concave)).toBe(false);
+    expect(isInsidePolygon({ lat: 37.498, lng: 127.065 }, concave)).toBe(true);
+  });
+
+  it('꼭짓점이 부족하면 항상 바깥', () => {
+    expect(isInsidePolygon({ lat: 37.495, lng: 127.035 }, square.slice(0, 2))).toBe(false);
+  });
+});
+
+describe('findDeliveryZone', () => {
+  const zones = [
+    { name: '역삼동', polygon: square },
+    { name: '삼성동', polygon: concave },
+    { name: '역삼동 전체', polygon: [...square.slice(0, 1), { lat: 37.49, lng: 127.07 }, { lat: 37.50, lng: 127.07 }, square[3]] },
+  ];
+
+  it('겹치면 목록 앞쪽 구역 우선', () => {
+    expect(findDeliveryZone(zones, { lat: 37.495, lng: 127.035 })?.name).toBe('역삼동');
+    expect(findDeliveryZone(zones, { lat: 37.492, lng: 127.055 })?.name).toBe('삼성동');
+    expect(findDeliveryZone(zones, { lat: 37.498, lng: 127.055 })?.name).toBe('역삼동 전체');
+  });
+
+  it('어느 구역에도 없으면 null', () => {
+    expect(findDeliveryZone(zones, { lat: 37.51, lng: 127.035 })).toBeNull();
+    expect(findDeliveryZone([], { lat: 37.495, lng: 127.035 })).toBeNull();
+  });
+});
+
+describe('polygonCenter', () => {
+  it('꼭짓점 평균, 빈 다각형은 null', () => {
+    const center = polygonCenter(square);
+    expect(center?.lat).toBeCloseTo(37.495);
+    expect(center?.lng).toBeCloseTo(127.035);
+    expect(polygonCenter([])).toBeNull();
+  });
+});
@@ -0,0 +1,35 @@
+// deliveryZones.ts
+// 배달 구역(다각형) 판정 - 관리자가 지도에 그린 구역 안에 배달 주소 좌표가 있는지 확인
+
+export type LatLng = { lat: number; lng: number };
+
+/** 구역으로 쓸 수 있는 다각형인지 (꼭짓점 3개 이상) */
+export const isValidPolygon = (polygon: LatLng[]) => polygon.length >= 3;
+
+/** 점이 다각형 안에 있는지 (ray casting, 경계 위 점은 구현상 어느 쪽이든 될 수 있음) */
+export const isInsidePolygon = (point: LatLng, polygon: LatLng[]) => {
+  if (!isValidPolygon(polygon)) return false;
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.lat > point.lat) !== (b.lat > point.lat)
+      && point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/** 좌표가 속한 구역 (구역이 겹치면 목록 앞쪽 우선, 없으면 null) */
+export const findDeliveryZone = <T extends { polygon: LatLng[] }>(zones: T[], point: LatLng): T | null =>
+  zones.find(zone => isInsidePolygon(point, zone.polygon)) ?? null;
+
+/** 지도 초기 위치용 다각형 중심 (꼭짓점 평균) */
+export const polygonCenter = (polygon: LatLng[]): LatLng | null => {
+  if (polygon.length === 0) return null;
+  return {
+    lat: polygon.reduce((sum, p) => sum + p.lat, 0) / polygon.length,
+    lng: polygon.reduce((sum, p) => sum + p.lng, 0) / polygon.length,
+  };
+};
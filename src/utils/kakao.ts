@@ -0,0 +1,156 @@
+// kakao.ts
+// Kakao JS SDK / 지도 SDK 로드 + 상품 카카오톡 공유
+import { theme } from '../brand';
+import { safeErrorLog } from './environment';
+import { buildProductLink } from './productLink';
+
+declare global { interface Window { Kakao: any } }
+
+const KAKAO_SDK_SRC =
+  'https://t1.kakaocdn.net/kakao_js_sdk/2.7.6/kakao.min.js';
+const KAKAO_SDK_INTEGRITY =
+  'sha384-WAtVcQYcmTO/N+C1N+1m6Gp8qxh+3NlnP7X1U7qP6P5dQY/MsRBNTh+e1ahJrkEm';
+
+const JS_KAKAO_KEY = process.env.REACT_APP_JS_KAKAO_KEY || '';
+
+export async function ensureKakaoSDK(jsKey: string) {
+  if (window.Kakao?.isInitialized?.()) return;
+
+  if (!document.querySelector(`script[src="${KAKAO_SDK_SRC}"]`)) {
+    await new Promise<void>((res, rej) => {
+      const s = document.createElement('script');
+      s.src = KAKAO_SDK_SRC;
+      s.integrity = KAKAO_SDK_INTEGRITY;
+      s.crossOrigin = 'anonymous';
+      s.onload = () => res();
+      s.onerror = () => rej(new Error('Kakao SDK load failed'));
+      document.head.appendChild(s);
+    });
+  }
+
+  if (!window.Kakao) throw new Error('Kakao SDK not available');
+  if (!window.Kakao.isInitialized()) window.Kakao.init(jsKey);
+}
+
+/** Kakao 지도 SDK (services 포함) 로드 - 주소 좌표 변환, 배달 구역 지도 */
+export const ensureKakaoMaps = () =>
+  new Promise<void>((resolve, reject) => {
+    const waitForServices = () => {
+      const start = Date.now();
+      const timer = setInterval(() => {
+        const ready = (window as any)?.kakao?.maps?.services;
+        if (ready) {
+          clearInterval(timer);
+          resolve();
+          return;
+        }
+        if (Date.now() - start > 15000) {
+          clearInterval(timer);
+          reject(new Error('Kakao maps load timeout'));
+        }
+      }, 50);
+    };
+
+    const kakao = (window as any)?.kakao;
+    if (kakao?.maps?.services) {
+      resolve();
+      return;
+    }
+    if (!JS_KAKAO_KEY) {
+      reject(new Error('Kakao app key missing'));
+      return;
+    }
+    const existing = document.querySelector('script[data-kakao-maps]');
+    if (existing) {
+      if ((window as any)?.kakao?.maps?.load) {
+        (window as any).kakao.maps.load(() => {
+          waitForServices();
+        });
+      } else {
+        waitForServices();
+      }
+      return;
+    }
+    const script = document.createElement('script');
+    script.src = `https://dapi.kakao.com/v2/maps/sdk.js?appkey=${JS_KAKAO_KEY}&libraries=services&autoload=false`;
+    script.async = true;
+    script.defer = true;
+    script.setAttribute('data-kakao-maps', 'true');
+    script.onload = () => {
+      const loader = (window as any)?.kakao?.maps?.load;
+      if (loader) {
+        loader(() => waitForServices());
+      } else {
+        waitForServices();
+      }
+    };
+    script.onerror = () => reject(new Error('Kakao maps load failed'));
+    document.head.appendChild(script);
+  });
+
+export type ShareableProduct = {
+  id: number;
+  name: string;
+  price: number;
+  imageUrl: string;
+  sellDate?: string; // YYYY-MM-DD
+};
+
+// YYYY-MM-DD → M/D(요일)
+const formatSellDate = (date: string) => {
+  const weekday = '일월화수목금토'[new Date(`${date}T00:00:00Z`).getUTCDay()];
+  return `${Number(date.slice(5, 7))}/${Number(date.slice(8, 10))}(${weekday})`;
+};
+
+const absoluteUrl = (url: string) => new URL(url, window.location.origin).toString();
+
+/**
+ * 상품 공유 - 카카오톡 피드(이미지/가격/판매일) → 미지원 시 기기 공유 → 링크 복사
+ * 링크는 해당 판매일 탭 + 상품 상세가 열린 상태로 진입
+ */
+export async function shareProduct(product: ShareableProduct): Promise<'kakao' | 'native' | 'copied'> {
+  const url = absoluteUrl(buildProductLink(product));
+  const price = `${product.price.toLocaleString('ko-KR')}원`;
+  const sellDate = product.sellDate ? formatSellDate(product.sellDate) : null;
+  const summary = sellDate ? `${sellDate} 판매 · ${price}` : price;
+
+  if (JS_KAKAO_KEY) {
+    try {
+      await ensureKakaoSDK(JS_KAKAO_KEY);
+      window.Kakao.Share.sendDefault({
+        objectType: 'feed',
+        content: {
+          title: product.name,
+          description: `${theme.displayName} | ${summary}`,
+          imageUrl: absoluteUrl(product.imageUrl),
+          link: { mobileWebUrl: url, webUrl: url },
+        },
+        itemContent: {
+          profileText: theme.displayName,
+          items: [
+            { item: '가격', itemOp: price },
+            ...(sellDate ? [{ item: '판매일', itemOp: sellDate }] : []),
+          ],
+        },
+        buttons: [{ title: '예약하러 가기', link: { mobileWebUrl: url, webUrl: url } }],
+      });
+      return 'kakao';
+    } catch (e) {
+      safeErrorLog(e, 'kakao - shareProduct');
+    }
+  }
+
+  if (navigator.share) {
+    try {
+      await navigator.share({ title: product.name, text: `${product.name} (${summary})`, url });
+      return 'native';
+    } catch (e: any) {
+      // 사용자가 공유 시트를 닫은 경우는 그대로 종료
+      if (e?.name === 'AbortError') return 'native';
+      safeErrorLog(e, 'kakao - navigator.share');
+    }
+  }
+
+  await navigator.clipboard.writeText(url);
+  return 'copied';
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from '@jest/globals';
+import { matchesSearch, matchSearch, rankBySearch } from './koreanSearch';
+
+describe('matchSearch', () => {
+  it('부분 일치 - 시작 위치 / 단어 시작 / 중간 순으로 점수', () => {
+    expect(matchSearch('사과즙', '사과')).toEqual({ score: 110, start: 0, ranges: [[0, 2]] });
+    expect(matchSearch('청송 사과', '사과')).toEqual({ score: 105, start: 3, ranges: [[3, 5]] });
+    expect(matchSearch('풋사과', '사과')).toEqual({ score: 100, start: 1, ranges: [[1, 3]] });
+  });
+
+  it('영문은 대소문자 무시', () => {
+    expect(matchSearch('Apple Juice', 'JUICE')?.ranges).toEqual([[6, 11]]);
+  });
+
+  it('공백은 무시하고 비교하며 하이라이트는 원문 기준으로 이어서 표시', () => {
+    expect(matchSearch('청송 사과', '송사')?.ranges).toEqual([[1, 4]]);
+    expect(matchSearch('청송사과', '청송 사과')?.ranges).toEqual([[0, 4]]);
+  });
+
+  it('초성 검색', () => {
+    expect(matchSearch('사과즙', 'ㅅㄱ')).toEqual({ score: 90, start: 0, ranges: [[0, 2]] });
+    expect(matchSearch('사과즙', 'ㅅ과')?.score).toBe(90);
+    expect(matchSearch('사과즙', 'ㄱㅅ')).toBeNull();
+  });
+
+  it('입력 중인 마지막 글자 - 받침이 다음 글자 초성으로 넘어가는 경우 포함', () => {
+    expect(matchSearch('사과즙', '삭')).toEqual({ score: 90, start: 0, ranges: [[0, 2]] });
+    expect(matchSearch('바나나', '바ㄴ')?.ranges).toEqual([[0, 2]]);
+    expect(matchSearch('사과', '와')).toBeNull();
+  });
+
+  it('자모 단위 오타 허용 - 4자모 이상만, 완전 일치보다 낮은 점수', () => {
+    const fuzzy = matchSearch('바나나우유', '바니나');
+    expect(fuzzy?.score).toBe(45);
+    expect(fuzzy?.start).toBe(0);
+    expect(matchSearch('바나나', '뱌')).toBeNull();
+    expect(matchSearch('바나나우유', '딸기우유')).toBeNull();
+  });
+
+  it('빈 검색어는 null', () => {
+    expect(matchSearch('사과', '  ')).toBeNull();
+  });
+});
+
+describe('matchesSearch', () => {
+  it('빈 검색어는 모두 통과', () => {
+    expect(matchesSearch('사과', '')).toBe(true);
+    expect(matchesSearch('사과', 'ㅅㄱ')).toBe(true);
+    expect(matchesSearch('배', 'ㅅㄱ')).toBe(false);
+  });
+});
+
+describe('rankBySearch', () => {
+  const byName = (name: string) => name;
+
+  it('점수 → 일치 위치 → 짧은 이름 순, 일치하지 않는 항목은 제외', () => {
+    const items = ['풋사과', '청송 사과', '배', '사과잼 세트', '사과즙'];
+    expect(rankBySearch(items, '사과', byName)).toEqual(['사과즙', '사과잼 세트', '청송 사과', '풋사과']);
+  });
+
+  it('빈 검색어는 원래 순서 그대로', () => {
+    const items = ['배', '사과'];
+    expect(rankBySearch(items, ' ', byName)).toBe(items);
+  });
+});
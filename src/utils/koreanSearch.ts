@@ -0,0 +1,191 @@
+// koreanSearch.ts
+// 상품명 검색 - 부분 일치 / 초성(ㅅㄱ → 사과) / 입력 중인 글자 / 자모 단위 오타 허용 + 정렬 점수 + 하이라이트 범위
+// 공백은 무시하고 비교하며, 하이라이트 범위는 원문 인덱스 기준
+
+export type SearchMatch = {
+  score: number;
+  start: number; // 원문 기준 일치 시작 위치 (동점 정렬용)
+  ranges: Array<[number, number]>; // 하이라이트 범위 [start, end)
+};
+
+const HANGUL_BASE = 0xac00;
+const HANGUL_LAST = 0xd7a3;
+
+const CHO = ['ㄱ', 'ㄲ', 'ㄴ', 'ㄷ', 'ㄸ', 'ㄹ', 'ㅁ', 'ㅂ', 'ㅃ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅉ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
+// 자판 입력 단위로 분해 (겹모음/겹받침은 두 글자)
+const JUNG = ['ㅏ', 'ㅐ', 'ㅑ', 'ㅒ', 'ㅓ', 'ㅔ', 'ㅕ', 'ㅖ', 'ㅗ', 'ㅗㅏ', 'ㅗㅐ', 'ㅗㅣ', 'ㅛ', 'ㅜ', 'ㅜㅓ', 'ㅜㅔ', 'ㅜㅣ', 'ㅠ', 'ㅡ', 'ㅡㅣ', 'ㅣ'];
+const JONG = ['', 'ㄱ', 'ㄲ', 'ㄱㅅ', 'ㄴ', 'ㄴㅈ', 'ㄴㅎ', 'ㄷ', 'ㄹ', 'ㄹㄱ', 'ㄹㅁ', 'ㄹㅂ', 'ㄹㅅ', 'ㄹㅌ', 'ㄹㅍ', 'ㄹㅎ', 'ㅁ', 'ㅂ', 'ㅂㅅ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
+// 단독 입력된 겹자모 (호환 자모)
+const COMPOUND_JAMO: Record<string, string> = {
+  'ㄳ': 'ㄱㅅ', 'ㄵ': 'ㄴㅈ', 'ㄶ': 'ㄴㅎ', 'ㄺ': 'ㄹㄱ', 'ㄻ': 'ㄹㅁ', 'ㄼ': 'ㄹㅂ', 'ㄽ': 'ㄹㅅ',
+  'ㄾ': 'ㄹㅌ', 'ㄿ': 'ㄹㅍ', 'ㅀ': 'ㄹㅎ', 'ㅄ': 'ㅂㅅ',
+  'ㅘ': 'ㅗㅏ', 'ㅙ': 'ㅗㅐ', 'ㅚ': 'ㅗㅣ', 'ㅝ': 'ㅜㅓ', 'ㅞ': 'ㅜㅔ', 'ㅟ': 'ㅜㅣ', 'ㅢ': 'ㅡㅣ',
+};
+
+const isSyllable = (ch: string) => {
+  const code = ch.charCodeAt(0);
+  return code >= HANGUL_BASE && code <= HANGUL_LAST;
+};
+
+const isChoJamo = (ch: string) => CHO.includes(ch);
+
+const choOf = (ch: string) => CHO[Math.floor((ch.charCodeAt(0) - HANGUL_BASE) / 588)];
+
+/** 한 글자를 자판 입력 단위 자모 문자열로 분해 (한글 외 문자는 소문자 그대로) */
+const toKeys = (ch: string): string => {
+  if (isSyllable(ch)) {
+    const idx = ch.charCodeAt(0) - HANGUL_BASE;
+    return CHO[Math.floor(idx / 588)] + JUNG[Math.floor((idx % 588) / 28)] + JONG[idx % 28];
+  }
+  return COMPOUND_JAMO[ch] ?? ch.toLowerCase();
+};
+
+type Char = { ch: string; index: number }; // index: 원문 위치
+
+const normalize = (text: string): Char[] =>
+  text.split('').reduce<Char[]>((acc, ch, index) => {
+    if (!/\s/.test(ch)) acc.push({ ch: ch.toLowerCase(), index });
+    return acc;
+  }, []);
+
+// 원문 인덱스 목록 → 연속 범위 (사이에 공백만 있으면 이어서 표시)
+const toRanges = (text: string, indices: number[]): Array<[number, number]> => {
+  const ranges: Array<[number, number]> = [];
+  indices.forEach(i => {
+    const last = ranges[ranges.length - 1];
+    if (last && /^\s*$/.test(text.slice(last[1], i))) last[1] = i + 1;
+    else ranges.push([i, i + 1]);
+  });
+  return ranges;
+};
+
+const isWordStart = (text: string, index: number) => index === 0 || /[\s([/·,-]/.test(text[index - 1]);
+
+// 글자 단위 비교: 같은 글자, 초성
+const charMatch = (q: string, t: string): 'exact' | 'partial' | null => {
+  if (q === t) return 'exact';
+  if (isChoJamo(q) && isSyllable(t) && choOf(t) === q) return 'partial';
+  return null;
+};
+
+// 마지막 글자는 입력 중일 수 있음: '삭' → '사과'처럼 받침이 다음 글자 초성으로 넘어가는 경우까지 자모 접두어로 비교
+// 일치하면 사용한 원문 글자 수 (1 또는 2), 아니면 0
+const composingMatch = (q: string, t: string, next?: string): number => {
+  if (!isSyllable(q) && !isChoJamo(q)) return 0;
+  if (!isSyllable(t)) return 0;
+  const keys = toKeys(q);
+  if (toKeys(t).startsWith(keys)) return 1;
+  if (next && isSyllable(next) && keys.length > toKeys(t).length && (toKeys(t) + toKeys(next)).startsWith(keys)) return 2;
+  return 0;
+};
+
+const matchChars = (text: string, target: Char[], query: Char[]): SearchMatch | null => {
+  let best: SearchMatch | null = null;
+  const lastIdx = query.length - 1;
+  for (let i = 0; i + query.length <= target.length; i++) {
+    let exact = true;
+    let ok = true;
+    for (let k = 0; k < lastIdx; k++) {
+      const m = charMatch(query[k].ch, target[i + k].ch);
+      if (!m) { ok = false; break; }
+      if (m === 'partial') exact = false;
+    }
+    if (!ok) continue;
+
+    let used = 1;
+    const last = charMatch(query[lastIdx].ch, target[i + lastIdx].ch);
+    if (last === 'partial') exact = false;
+    if (!last) {
+      used = composingMatch(query[lastIdx].ch, target[i + lastIdx].ch, target[i + lastIdx + 1]?.ch);
+      if (used === 0) continue;
+      exact = false;
+    }
+
+    const start = target[i].index;
+    const score = (exact ? 100 : 80) + (start === 0 ? 10 : isWordStart(text, start) ? 5 : 0);
+    if (!best || score > best.score) {
+      best = { score, start, ranges: toRanges(text, target.slice(i, i + lastIdx + used).map(c => c.index)) };
+    }
+  }
+  return best;
+};
+
+// 자모 단위 오타 허용: 원문 자모열의 임의 구간과 검색어 자모열의 편집 거리 (Sellers)
+const matchFuzzy = (text: string, target: Char[], query: Char[]): SearchMatch | null => {
+  const q = query.map(c => toKeys(c.ch)).join('');
+  if (q.length < 4 || query.every(c => isChoJamo(c.ch))) return null;
+  const maxDistance = q.length <= 6 ? 1 : 2;
+
+  const keys: string[] = [];
+  const owner: number[] = []; // 자모 → 원문 인덱스
+  target.forEach(c => {
+    Array.from(toKeys(c.ch)).forEach(k => { keys.push(k); owner.push(c.index); });
+  });
+
+  // prev[j] / prevStart[j]: 검색어 앞부분과 keys[..j) 로 끝나는 구간의 최소 거리와 그 구간 시작
+  let prev = new Array<number>(keys.length + 1).fill(0);
+  let prevStart = Array.from({ length: keys.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= q.length; i++) {
+    const cur = new Array<number>(keys.length + 1);
+    const curStart = new Array<number>(keys.length + 1);
+    cur[0] = i;
+    curStart[0] = 0;
+    for (let j = 1; j <= keys.length; j++) {
+      const sub = prev[j - 1] + (q[i - 1] === keys[j - 1] ? 0 : 1);
+      const del = prev[j] + 1;
+      const ins = cur[j - 1] + 1;
+      if (sub <= del && sub <= ins) { cur[j] = sub; curStart[j] = prevStart[j - 1]; }
+      else if (del <= ins) { cur[j] = del; curStart[j] = prevStart[j]; }
+      else { cur[j] = ins; curStart[j] = curStart[j - 1]; }
+    }
+    prev = cur;
+    prevStart = curStart;
+  }
+
+  let bestEnd = -1;
+  for (let j = 1; j <= keys.length; j++) {
+    if (prev[j] <= maxDistance && (bestEnd < 0 || prev[j] < prev[bestEnd])) bestEnd = j;
+  }
+  if (bestEnd < 0 || prevStart[bestEnd] >= bestEnd) return null;
+
+  const from = owner[prevStart[bestEnd]];
+  const to = owner[bestEnd - 1];
+  const indices = target.filter(c => c.index >= from && c.index <= to).map(c => c.index);
+  return { score: 60 - prev[bestEnd] * 15, start: from, ranges: toRanges(text, indices) };
+};
+
+// 같은 검색어로 여러 목록을 반복 필터링하므로 마지막 검색어 기준 결과 캐시
+let cachedQuery = '';
+let cache = new Map<string, SearchMatch | null>();
+
+/** 검색어와 일치하면 점수/하이라이트 범위, 아니면 null (빈 검색어는 null) */
+export const matchSearch = (text: string, query: string): SearchMatch | null => {
+  const trimmed = query.trim();
+  if (trimmed === '') return null;
+  if (trimmed !== cachedQuery) {
+    cachedQuery = trimmed;
+    cache = new Map();
+  }
+  const cached = cache.get(text);
+  if (cached !== undefined) return cached;
+
+  const target = normalize(text);
+  const q = normalize(trimmed);
+  const result = matchChars(text, target, q) ?? matchFuzzy(text, target, q);
+  cache.set(text, result);
+  return result;
+};
+
+/** 필터용 - 빈 검색어는 모두 통과 */
+export const matchesSearch = (text: string, query: string) =>
+  query.trim() === '' || matchSearch(text, query) !== null;
+
+/** 검색어로 거른 뒤 점수 → 일치 위치 → 짧은 이름 순 정렬 (빈 검색어는 원래 순서) */
+export const rankBySearch = <T>(items: T[], query: string, getText: (item: T) => string): T[] => {
+  if (query.trim() === '') return items;
+  return items
+    .map(item => ({ item, text: getText(item), match: matchSearch(getText(item), query) }))
+    .filter((r): r is { item: T; text: string; match: SearchMatch } => r.match !== null)
+    .sort((a, b) => b.match.score - a.match.score || a.match.start - b.match.start || a.text.length - b.text.length)
+    .map(r => r.item);
+};
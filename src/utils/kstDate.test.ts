@@ -0,0 +1,13 @@
+import { describe, expect, it } from '@jest/globals';
+import { kstDateTime } from './kstDate';
+
+describe('kstDateTime', () => {
+  it('실행 환경 타임존과 관계없이 KST 시각', () => {
+    expect(kstDateTime('2026-03-02', '18:30').toISOString()).toBe('2026-03-02T09:30:00.000Z');
+    expect(kstDateTime('2026-03-02', '08:00').toISOString()).toBe('2026-03-01T23:00:00.000Z');
+  });
+
+  it('초가 붙은 시각(HH:mm:ss)은 분까지만 사용', () => {
+    expect(kstDateTime('2026-03-02', '18:30:45').toISOString()).toBe('2026-03-02T09:30:00.000Z');
+  });
+});
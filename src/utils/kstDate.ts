@@ -0,0 +1,5 @@
+// kstDate.ts
+// 매장 기준 시각(KST) 변환 - 기기 시간대와 무관하게 같은 시각을 가리키는 Date
+
+/** KST 날짜(YYYY-MM-DD) + 시각(HH:mm) → Date */
+export const kstDateTime = (date: string, time: string) => new Date(`${date}T${time.slice(0, 5)}:00+09:00`);
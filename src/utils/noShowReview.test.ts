@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { theme } from '../brand';
+import { isNoShowReviewOpen, noShowReviewOpensAt } from './noShowReview';
+
+// 브랜드별 규칙을 바꿔가며 검사 (테스트마다 원래 설정으로 복구)
+const originalConfig = theme.config;
+const useConfig = (config: { pickupDeadline?: string; noShowReview?: { graceMinutes?: number; nextDayAt?: string } }) => {
+  theme.config = { ...originalConfig, pickupDeadline: undefined, noShowReview: undefined, ...config };
+};
+
+afterEach(() => {
+  theme.config = originalConfig;
+});
+
+describe('noShowReviewOpensAt', () => {
+  it('수령 마감 + 유예 시간 (KST)', () => {
+    useConfig({ pickupDeadline: '19:00', noShowReview: { graceMinutes: 45 } });
+    expect(noShowReviewOpensAt('2026-03-02').toISOString()).toBe('2026-03-02T10:45:00.000Z');
+  });
+
+  it('규칙이 없으면 20:00 마감 + 30분', () => {
+    useConfig({});
+    expect(noShowReviewOpensAt('2026-03-02').toISOString()).toBe('2026-03-02T11:30:00.000Z');
+  });
+
+  it('nextDayAt이 있으면 다음 날 해당 시각 (월말/연말 넘김 포함)', () => {
+    useConfig({ pickupDeadline: '19:00', noShowReview: { nextDayAt: '09:00', graceMinutes: 45 } });
+    expect(noShowReviewOpensAt('2026-03-02').toISOString()).toBe('2026-03-03T00:00:00.000Z');
+    expect(noShowReviewOpensAt('2026-02-28').toISOString()).toBe('2026-03-01T00:00:00.000Z');
+    expect(noShowReviewOpensAt('2026-12-31').toISOString()).toBe('2027-01-01T00:00:00.000Z');
+  });
+});
+
+describe('isNoShowReviewOpen', () => {
+  it('검토 시작 시각부터 열림', () => {
+    useConfig({ pickupDeadline: '20:00', noShowReview: { graceMinutes: 30 } });
+    expect(isNoShowReviewOpen('2026-03-02', new Date('2026-03-02T20:29:59+09:00'))).toBe(false);
+    expect(isNoShowReviewOpen('2026-03-02', new Date('2026-03-02T20:30:00+09:00'))).toBe(true);
+    expect(isNoShowReviewOpen('2026-03-01', new Date('2026-03-02T08:00:00+09:00'))).toBe(true);
+  });
+});
@@ -0,0 +1,24 @@
+// noShowReview.ts
+// 노쇼 검토 시작 시각 - 브랜드별 규칙(theme.config.noShowReview) 기준
+import { theme } from '../brand';
+import { kstDateTime } from './kstDate';
+
+const DEFAULT_PICKUP_DEADLINE = '20:00';
+const DEFAULT_GRACE_MINUTES = 30;
+
+const nextDate = (date: string) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+};
+
+/** 해당 수령일(YYYY-MM-DD)의 노쇼 검토가 열리는 시각 */
+export const noShowReviewOpensAt = (date: string): Date => {
+  const rule = theme.config.noShowReview ?? {};
+  if (rule.nextDayAt) return kstDateTime(nextDate(date), rule.nextDayAt);
+  const deadline = kstDateTime(date, theme.config.pickupDeadline ?? DEFAULT_PICKUP_DEADLINE);
+  return new Date(deadline.getTime() + (rule.graceMinutes ?? DEFAULT_GRACE_MINUTES) * 60 * 1000);
+};
+
+export const isNoShowReviewOpen = (date: string, now: Date = new Date()) =>
+  now.getTime() >= noShowReviewOpensAt(date).getTime();
@@ -0,0 +1,27 @@
+// pickupQr.ts
+// 매장 수령 QR 내용: 'PICKUP:' + 예약 표시 코드(공백 구분)
+// 표시 코드는 대문자/숫자/하이픈이라 QR 영숫자 모드로 담겨 여러 건도 작은 코드로 표시됨
+
+const PICKUP_PREFIX = 'PICKUP:';
+
+export const encodePickupPayload = (displayCodes: string[]) => `${PICKUP_PREFIX}${displayCodes.join(' ')}`;
+
+/**
+ * 스캔/입력한 텍스트에서 예약 표시 코드 추출
+ * - QR 내용(PICKUP:...) 또는 직접 입력한 코드(쉼표/공백 구분, 짧은 코드 R-VWQPA 포함)
+ * - 수령 QR이 아니면 빈 배열
+ */
+export const parsePickupPayload = (text: string): string[] => {
+  const raw = text.trim().toUpperCase();
+  const body = raw.startsWith(PICKUP_PREFIX) ? raw.slice(PICKUP_PREFIX.length) : raw;
+  const codes = body.split(/[\s,]+/).filter(code => /^R-[0-9A-Z-]+$/.test(code));
+  return Array.from(new Set(codes));
+};
+
+// R-26020216-VWQPA ↔ R-VWQPA (주문 내역 화면의 짧은 코드도 허용)
+export const matchesDisplayCode = (scanned: string, displayCode: string) => {
+  const full = displayCode.toUpperCase();
+  if (scanned === full) return true;
+  const parts = full.split('-');
+  return parts.length >= 3 && scanned === `${parts[0]}-${parts.slice(2).join('-')}`;
+};
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import {
+  buildProductLink,
+  buildProductsQuery,
+  parseProductsQuery,
+  rememberProductLink,
+  takePendingProductLink,
+} from './productLink';
+
+afterEach(() => {
+  sessionStorage.clear();
+});
+
+describe('buildProductLink', () => {
+  it('판매일 탭과 상품 상세를 여는 링크', () => {
+    expect(buildProductLink({ id: 12, sellDate: '2026-03-02' })).toBe('/store/products?date=2026-03-02&product=12');
+  });
+
+  it('판매일이 없으면 상품만', () => {
+    expect(buildProductLink({ id: 12 })).toBe('/store/products?product=12');
+  });
+});
+
+describe('rememberProductLink / takePendingProductLink', () => {
+  it('로그인 전에 들어온 링크를 보관했다가 1번만 꺼냄', () => {
+    rememberProductLink('?date=2026-03-02&product=12');
+    expect(takePendingProductLink()).toBe('/store/products?date=2026-03-02&product=12');
+    expect(takePendingProductLink()).toBeNull();
+  });
+
+  it('열 화면 정보가 없는 주소는 보관하지 않음', () => {
+    rememberProductLink('');
+    rememberProductLink('?product=abc&date=내일');
+    expect(takePendingProductLink()).toBeNull();
+  });
+});
+
+describe('parseProductsQuery', () => {
+  it('판매일, 카테고리, 검색어, 열린 상품', () => {
+    expect(parseProductsQuery('?date=2026-03-02&category=3&q=%20%EC%82%AC%EA%B3%BC%20&product=12')).toEqual({
+      date: '2026-03-02',
+      categoryId: 3,
+      q: '사과',
+      productId: 12,
+    });
+  });
+
+  it('형식이 맞지 않는 값은 없는 값으로', () => {
+    expect(parseProductsQuery('?date=2026-3-2&category=0&product=1.5')).toEqual({
+      date: null,
+      categoryId: null,
+      q: '',
+      productId: null,
+    });
+    expect(parseProductsQuery('?category=-1&product=')).toMatchObject({ categoryId: null, productId: null });
+  });
+});
+
+describe('buildProductsQuery', () => {
+  it('빈 값은 생략하고 값이 없으면 빈 문자열', () => {
+    expect(buildProductsQuery({ date: '2026-03-02', categoryId: null, q: '  ', productId: null })).toBe('?date=2026-03-02');
+    expect(buildProductsQuery({})).toBe('');
+  });
+
+  it('만든 쿼리를 다시 해석하면 같은 화면', () => {
+    const view = { date: '2026-03-02', categoryId: 3, q: '청송 사과&배', productId: 12 };
+    expect(parseProductsQuery(buildProductsQuery(view))).toEqual(view);
+  });
+});
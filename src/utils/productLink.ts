@@ -0,0 +1,57 @@
+// productLink.ts
+// 매장 상품 화면 URL (/store/products?date=&category=&q=&product=) 생성/해석
+// 로그인 전에 링크로 들어오면 보관했다가 로그인 후 매장 예약 진입 시 이어서 열기
+
+export const PRODUCTS_PATH = '/store/products';
+
+const PENDING_LINK_KEY = 'pending_product_link_v1';
+
+export type ProductsView = {
+  date: string | null;       // 판매일 탭 (YYYY-MM-DD)
+  categoryId: number | null; // 카테고리
+  q: string;                 // 검색어
+  productId: number | null;  // 열린 상품 상세
+};
+
+const toPositiveInt = (value: string | null) => {
+  const n = Number(value);
+  return value && Number.isInteger(n) && n > 0 ? n : null;
+};
+
+export const parseProductsQuery = (search: string): ProductsView => {
+  const params = new URLSearchParams(search);
+  const date = params.get('date');
+  return {
+    date: date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : null,
+    categoryId: toPositiveInt(params.get('category')),
+    q: (params.get('q') ?? '').trim(),
+    productId: toPositiveInt(params.get('product')),
+  };
+};
+
+/** 빈 값은 생략, 값이 없으면 '' (location.search와 같은 형식) */
+export const buildProductsQuery = (view: Partial<ProductsView>) => {
+  const params = new URLSearchParams();
+  if (view.date) params.set('date', view.date);
+  if (view.categoryId) params.set('category', String(view.categoryId));
+  if (view.q?.trim()) params.set('q', view.q.trim());
+  if (view.productId) params.set('product', String(view.productId));
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+/** 상품 공유 링크: 판매일 탭 + 상품 상세 */
+export const buildProductLink = (product: { id: number; sellDate?: string }) =>
+  `${PRODUCTS_PATH}${buildProductsQuery({ date: product.sellDate ?? null, productId: product.id })}`;
+
+export const rememberProductLink = (search: string) => {
+  if (!buildProductsQuery(parseProductsQuery(search))) return;
+  sessionStorage.setItem(PENDING_LINK_KEY, `${PRODUCTS_PATH}${search}`);
+};
+
+/** 보관된 링크를 꺼내고 지움 (없으면 null) */
+export const takePendingProductLink = (): string | null => {
+  const link = sessionStorage.getItem(PENDING_LINK_KEY);
+  sessionStorage.removeItem(PENDING_LINK_KEY);
+  return link;
+};
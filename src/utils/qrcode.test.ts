@@ -0,0 +1,80 @@
+/**
+ * @jest-environment node
+ */
+// TextEncoder가 있는 node 환경에서 실행 (jsdom에는 없음)
+import { describe, expect, it } from '@jest/globals';
+import jsQR from 'jsqr';
+import { encodeQr } from './qrcode';
+
+const SCALE = 4;
+const QUIET = 4;
+
+// 모듈 배열 → RGBA 픽셀 (모듈당 4px, 4모듈 여백) → jsQR로 디코딩
+const decode = (modules: boolean[][]) => {
+  const width = (modules.length + QUIET * 2) * SCALE;
+  const pixels = new Uint8ClampedArray(width * width * 4).fill(255);
+  modules.forEach((row, y) => row.forEach((dark, x) => {
+    if (!dark) return;
+    for (let dy = 0; dy < SCALE; dy++) {
+      for (let dx = 0; dx < SCALE; dx++) {
+        const offset = (((y + QUIET) * SCALE + dy) * width + (x + QUIET) * SCALE + dx) * 4;
+        pixels.fill(0, offset, offset + 3);
+      }
+    }
+  }));
+  return jsQR(pixels, width, width, { inversionAttempts: 'dontInvert' });
+};
+
+const versionOf = (modules: boolean[][]) => (modules.length - 17) / 4;
+
+const roundTrip = (text: string) => {
+  const modules = encodeQr(text);
+  const result = decode(modules);
+  expect(result).not.toBeNull();
+  expect(Buffer.from(result?.binaryData ?? []).toString('utf8')).toBe(text);
+  expect(result?.version).toBe(versionOf(modules));
+  return versionOf(modules);
+};
+
+describe('encodeQr', () => {
+  it('수령 QR (영숫자 모드)', () => {
+    expect(roundTrip('PICKUP:R-26020216-VWQPA')).toBe(2);
+    expect(roundTrip('PICKUP:R-26020216-VWQPA R-26020216-KDMZT R-26020217-AB12C')).toBe(3);
+  });
+
+  it('영숫자 모드 버전 경계 (1-M 20자)', () => {
+    expect(roundTrip('A'.repeat(20))).toBe(1);
+    expect(roundTrip('A'.repeat(21))).toBe(2);
+  });
+
+  it('바이트 모드 (한글 UTF-8) 버전 경계 (1-M 14바이트)', () => {
+    expect(roundTrip('사과 2개 예약')).toBe(2);
+    expect(roundTrip('a'.repeat(14))).toBe(1);
+    expect(roundTrip('a'.repeat(15))).toBe(2);
+  });
+
+  it('버전 정보 비트가 들어가는 7 이상 (6-M 106바이트)', () => {
+    expect(roundTrip('x'.repeat(106))).toBe(6);
+    expect(roundTrip('x'.repeat(107))).toBe(7);
+  });
+
+  it('문자 수 필드가 16비트로 바뀌는 10 이상 (9-M 180바이트)', () => {
+    expect(roundTrip('y'.repeat(180))).toBe(9);
+    expect(roundTrip('y'.repeat(181))).toBe(10);
+  });
+
+  it('긴 내용 (여러 블록 인터리빙)', () => {
+    const text = 'https://onuljang.store/products?date=2026-03-02&category=과일&q=청송%20사과#detail-'.repeat(8);
+    expect(roundTrip(text)).toBeGreaterThan(15);
+  });
+
+  it('길이마다 다른 마스크가 골라져도 모두 디코딩', () => {
+    for (let length = 1; length <= 60; length++) {
+      roundTrip(`R-${'0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ'.repeat(2).slice(0, length)}`);
+    }
+  });
+
+  it('담을 수 없는 길이면 에러', () => {
+    expect(() => encodeQr('z'.repeat(2400))).toThrow('QR 코드에 담기에는 내용이 너무 깁니다.');
+  });
+});
@@ -0,0 +1,236 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { fetchQuery, invalidateQueries, subscribeQueries } from './queryCache';
+
+const OPTIONS = { staleTimeMs: 1000, cacheTimeMs: 10000 };
+
+// 캐시는 모듈 전역이므로 테스트마다 다른 키 사용
+let seq = 0;
+const nextKey = () => `test:${++seq}:`;
+
+// 호출마다 resolve/reject를 직접 제어하는 fetcher
+const deferredFetcher = <T>() => {
+  const calls: Array<{ signal: AbortSignal; resolve: (value: T) => void; reject: (e: unknown) => void }> = [];
+  const fetcher = jest.fn<Promise<T>, [AbortSignal]>(signal => new Promise<T>((resolve, reject) => {
+    calls.push({ signal, resolve, reject });
+  }));
+  return { fetcher, calls };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+let now = 0;
+beforeEach(() => {
+  now = 1_000_000;
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+});
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('fetchQuery', () => {
+  it('staleTime 이내에는 요청 없이 캐시 값', async () => {
+    const key = nextKey();
+    const fetcher = jest.fn<Promise<number>, [AbortSignal]>(async () => 1);
+    await expect(fetchQuery(key, fetcher, OPTIONS)).resolves.toBe(1);
+    now += 999;
+    await expect(fetchQuery(key, fetcher, OPTIONS)).resolves.toBe(1);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('staleTime이 지나면 캐시 값을 바로 반환하고 백그라운드 재검증 후 구독자에게 알림', async () => {
+    const key = nextKey();
+    const { fetcher, calls } = deferredFetcher<string>();
+    const first = fetchQuery(key, fetcher, OPTIONS);
+    calls[0].resolve('old');
+    await first;
+
+    const listener = jest.fn();
+    const unsubscribe = subscribeQueries(listener);
+    now += 1000;
+    await expect(fetchQuery(key, fetcher, OPTIONS)).resolves.toBe('old');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    calls[1].resolve('new');
+    await flush();
+    expect(listener).toHaveBeenCalledWith(key);
+    await expect(fetchQuery(key, fetcher, OPTIONS)).resolves.toBe('new');
+    unsubscribe();
+  });
+
+  it('백그라운드 재검증 실패는 무시하고 다음 조회에서 다시 요청', async () => {
+    const key = nextKey();
+    const fetcher = jest.fn<Promise<string>, [AbortSignal]>()
+      .mockResolvedValueOnce('old')
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce('new');
+    await fetchQuery(key, fetcher, OPTIONS);
+    now += 1000;
+    await expect(fetchQuery(key, fetcher, OPTIONS)).resolves.toBe('old');
+    await flush();
+    await expect(fetchQuery(key, fetcher, OPTIONS)).resolves.toBe('old');
+    await flush();
+    await expect(fetchQuery(key, fetcher, OPTIONS)).resolves.toBe('new');
+    expect(fetcher).toHaveBeenCalledTimes(3);
+  });
+
+  it('cacheTime이 지나면 새 응답을 기다림', async () => {
+    const key = nextKey();
+    const fetcher = jest.fn<Promise<string>, [AbortSignal]>().mockResolvedValueOnce('old').mockResolvedValueOnce('new');
+    await fetchQuery(key, fetcher, OPTIONS);
+    now += 10000;
+    await expect(fetchQuery(key, fetcher, OPTIONS)).resolves.toBe('new');
+  });
+
+  it('같은 키의 동시 요청은 1건으로 합침', async () => {
+    const key = nextKey();
+    const { fetcher, calls } = deferredFetcher<number>();
+    const results = Promise.all([fetchQuery(key, fetcher, OPTIONS), fetchQuery(key, fetcher, OPTIONS)]);
+    calls[0].resolve(7);
+    await expect(results).resolves.toEqual([7, 7]);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('shouldCache가 false면 저장하지 않음', async () => {
+    const key = nextKey();
+    const fetcher = jest.fn<Promise<number | null>, [AbortSignal]>(async () => null);
+    const options = { ...OPTIONS, shouldCache: (value: number | null) => value !== null };
+    await fetchQuery(key, fetcher, options);
+    await fetchQuery(key, fetcher, options);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('fetchQuery - signal', () => {
+  it('이미 취소된 signal은 AbortError, 요청도 바로 취소', async () => {
+    const key = nextKey();
+    const { fetcher, calls } = deferredFetcher<number>();
+    const controller = new AbortController();
+    controller.abort();
+    await expect(fetchQuery(key, fetcher, { ...OPTIONS, signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(calls[0].signal.aborted).toBe(true);
+  });
+
+  it('다른 호출자가 기다리는 동안에는 취소한 호출자만 빠지고 요청은 계속', async () => {
+    const key = nextKey();
+    const { fetcher, calls } = deferredFetcher<number>();
+    const controller = new AbortController();
+    const cancelled = fetchQuery(key, fetcher, { ...OPTIONS, signal: controller.signal });
+    const waiting = fetchQuery(key, fetcher, { ...OPTIONS, signal: new AbortController().signal });
+    controller.abort();
+    await expect(cancelled).rejects.toMatchObject({ name: 'AbortError' });
+    expect(calls[0].signal.aborted).toBe(false);
+    calls[0].resolve(3);
+    await expect(waiting).resolves.toBe(3);
+  });
+
+  it('기다리던 호출자가 모두 취소하면 요청도 취소하고 다음 조회는 새로 요청', async () => {
+    const key = nextKey();
+    const { fetcher, calls } = deferredFetcher<number>();
+    const a = new AbortController();
+    const b = new AbortController();
+    const first = fetchQuery(key, fetcher, { ...OPTIONS, signal: a.signal });
+    const second = fetchQuery(key, fetcher, { ...OPTIONS, signal: b.signal });
+    a.abort();
+    b.abort();
+    await expect(first).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(second).rejects.toMatchObject({ name: 'AbortError' });
+    expect(calls[0].signal.aborted).toBe(true);
+
+    const next = fetchQuery(key, fetcher, OPTIONS);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    calls[1].resolve(5);
+    await expect(next).resolves.toBe(5);
+  });
+
+  it('signal 없이 기다리는 호출자가 있으면 요청을 취소하지 않음', async () => {
+    const key = nextKey();
+    const { fetcher, calls } = deferredFetcher<number>();
+    const controller = new AbortController();
+    const plain = fetchQuery(key, fetcher, OPTIONS);
+    const cancelled = fetchQuery(key, fetcher, { ...OPTIONS, signal: controller.signal });
+    controller.abort();
+    await expect(cancelled).rejects.toMatchObject({ name: 'AbortError' });
+    expect(calls[0].signal.aborted).toBe(false);
+    calls[0].resolve(1);
+    await expect(plain).resolves.toBe(1);
+  });
+});
+
+describe('invalidateQueries', () => {
+  it('prefix로 시작하는 캐시만 지우고 구독자에게 알림', async () => {
+    const prefix = nextKey();
+    const fetcher = jest.fn<Promise<number>, [AbortSignal]>(async () => 1);
+    const other = jest.fn<Promise<number>, [AbortSignal]>(async () => 2);
+    await fetchQuery(`${prefix}a`, fetcher, OPTIONS);
+    await fetchQuery('other', other, OPTIONS);
+
+    const listener = jest.fn();
+    const unsubscribe = subscribeQueries(listener);
+    invalidateQueries(prefix);
+    expect(listener).toHaveBeenCalledWith(`${prefix}a`);
+    expect(listener).not.toHaveBeenCalledWith('other');
+    unsubscribe();
+
+    await fetchQuery(`${prefix}a`, fetcher, OPTIONS);
+    await fetchQuery('other', other, OPTIONS);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(other).toHaveBeenCalledTimes(1);
+  });
+
+  it('무효화 전에 시작한 요청 결과는 저장하지 않음', async () => {
+    const key = nextKey();
+    const { fetcher, calls } = deferredFetcher<string>();
+    const before = fetchQuery(key, fetcher, OPTIONS);
+    invalidateQueries(key);
+    calls[0].resolve('before');
+    await expect(before).resolves.toBe('before');
+
+    const after = fetchQuery(key, fetcher, OPTIONS);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    calls[1].resolve('after');
+    await expect(after).resolves.toBe('after');
+  });
+});
+
+describe('invalidateQueries - 다른 탭', () => {
+  type Message = { type: string; prefixes: string[] };
+
+  // 같은 이름의 채널끼리 메시지를 주고받는 BroadcastChannel 대역 (jsdom에는 없음)
+  class FakeChannel {
+    static instances: FakeChannel[] = [];
+    private handlers: Array<(event: { data: Message }) => void> = [];
+    constructor(readonly name: string) {
+      FakeChannel.instances.push(this);
+    }
+    addEventListener(_type: 'message', handler: (event: { data: Message }) => void) {
+      this.handlers.push(handler);
+    }
+    postMessage(data: Message) {
+      FakeChannel.instances
+        .filter(other => other !== this && other.name === this.name)
+        .forEach(other => other.handlers.forEach(handler => handler({ data })));
+    }
+  }
+
+  afterEach(() => {
+    delete (globalThis as { BroadcastChannel?: unknown }).BroadcastChannel;
+  });
+
+  it('한 탭에서 무효화하면 다른 탭의 캐시도 지움', async () => {
+    (globalThis as { BroadcastChannel?: unknown }).BroadcastChannel = FakeChannel;
+    const load = () => {
+      let mod!: typeof import('./queryCache');
+      jest.isolateModules(() => {
+        mod = require('./queryCache');
+      });
+      return mod;
+    };
+    const tabA = load();
+    const tabB = load();
+
+    const fetcher = jest.fn<Promise<number>, [AbortSignal]>(async () => 1);
+    await tabB.fetchQuery('products:x', fetcher, OPTIONS);
+    tabA.invalidateQueries('products:');
+    await tabB.fetchQuery('products:x', fetcher, OPTIONS);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
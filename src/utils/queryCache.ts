@@ -0,0 +1,162 @@
+/**
+ * 조회 API 인메모리 캐시 (stale-while-revalidate)
+ * - 키: 엔드포인트 + 파라미터 (예: 'products:2025-01-01:2025-01-10:all')
+ * - staleTimeMs 이내: 캐시 값 그대로 반환 (네트워크 요청 없음)
+ * - cacheTimeMs 이내: 캐시 값을 바로 반환하고 백그라운드에서 재검증 → 완료 시 구독자에게 알림
+ * - 그 이후/캐시 없음: 요청 완료까지 대기
+ * - 같은 키의 진행 중 요청은 1건으로 합침 (기다리던 호출자가 모두 signal로 취소하면 요청도 취소)
+ * - 관리자 변경 API 성공 시 invalidateQueries(prefix)로 무효화 (다른 탭에도 BroadcastChannel로 전파)
+ */
+
+export type QueryOptions<T> = {
+  staleTimeMs: number;
+  cacheTimeMs: number;
+  /** false를 반환하면 캐시에 저장하지 않음 (예: 설정 미존재 null) */
+  shouldCache?: (value: T) => boolean;
+  /** 이 호출자의 대기 취소 - 같은 요청을 기다리는 다른 호출자가 없을 때만 요청 자체를 취소 */
+  signal?: AbortSignal;
+};
+
+/** signal: 공유 요청 취소용 (fetch에 그대로 전달) */
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+type Entry = {
+  value: unknown;
+  updatedAt: number;
+  cacheTimeMs: number;
+};
+
+// holders: 결과를 기다리는 호출자 수 (signal 없는 호출자/백그라운드 재검증은 끝까지 기다림)
+type Inflight = {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  holders: number;
+};
+
+const entries = new Map<string, Entry>();
+const inflight = new Map<string, Inflight>();
+// 무효화 이후 도착한 이전 요청 결과는 저장하지 않기 위한 세대 번호
+const generations = new Map<string, number>();
+
+type QueryListener = (key: string) => void;
+const listeners = new Set<QueryListener>();
+
+const notify = (key: string) => {
+  listeners.forEach(listener => listener(key));
+};
+
+const abortError = () => {
+  const err = new Error('The operation was aborted.');
+  err.name = 'AbortError';
+  return err;
+};
+
+const release = (key: string, flight: Inflight) => {
+  flight.holders -= 1;
+  if (flight.holders > 0) return;
+  if (inflight.get(key) === flight) inflight.delete(key);
+  flight.controller.abort();
+};
+
+// 진행 중 요청에 호출자로 참여 - signal이 취소되면 이 호출자만 빠지고, 마지막 호출자였으면 요청 취소
+const join = <T>(key: string, flight: Inflight, signal?: AbortSignal): Promise<T> => {
+  const promise = flight.promise as Promise<T>;
+  flight.holders += 1;
+  if (!signal) return promise;
+  if (signal.aborted) {
+    release(key, flight);
+    return Promise.reject(abortError());
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      release(key, flight);
+      reject(abortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => { signal.removeEventListener('abort', onAbort); resolve(value); },
+      err => { signal.removeEventListener('abort', onAbort); reject(err); }
+    );
+  });
+};
+
+const startRequest = <T>(key: string, fetcher: QueryFetcher<T>, options: QueryOptions<T>): Inflight => {
+  const existing = inflight.get(key);
+  if (existing) return existing;
+
+  const generation = generations.get(key) ?? 0;
+  const controller = new AbortController();
+  const flight: Inflight = { promise: Promise.resolve(), controller, holders: 0 };
+  flight.promise = fetcher(controller.signal)
+    .then(value => {
+      if ((generations.get(key) ?? 0) === generation && (options.shouldCache?.(value) ?? true)) {
+        const hadEntry = entries.has(key);
+        entries.set(key, { value, updatedAt: Date.now(), cacheTimeMs: options.cacheTimeMs });
+        if (hadEntry) notify(key);
+      }
+      return value;
+    })
+    .finally(() => {
+      if (inflight.get(key) === flight) inflight.delete(key);
+    });
+  inflight.set(key, flight);
+  return flight;
+};
+
+/** 캐시 우선 조회 */
+export const fetchQuery = <T>(key: string, fetcher: QueryFetcher<T>, options: QueryOptions<T>): Promise<T> => {
+  const entry = entries.get(key);
+  const age = entry ? Date.now() - entry.updatedAt : Infinity;
+
+  if (entry && age < options.staleTimeMs) {
+    return Promise.resolve(entry.value as T);
+  }
+  if (entry && age < entry.cacheTimeMs) {
+    // 오래된 값은 바로 쓰고, 재검증 실패는 다음 조회에서 다시 시도
+    join<T>(key, startRequest(key, fetcher, options)).catch(() => {});
+    return Promise.resolve(entry.value as T);
+  }
+  return join<T>(key, startRequest(key, fetcher, options), options.signal);
+};
+
+const channel: BroadcastChannel | null =
+  typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('query-cache') : null;
+
+const invalidateLocal = (prefix: string) => {
+  const keys = new Set([...entries.keys(), ...inflight.keys()]);
+  keys.forEach(key => {
+    if (!key.startsWith(prefix)) return;
+    entries.delete(key);
+    inflight.delete(key);
+    generations.set(key, (generations.get(key) ?? 0) + 1);
+    notify(key);
+  });
+};
+
+/** prefix로 시작하는 캐시 무효화 (현재 탭 + 다른 탭) */
+export const invalidateQueries = (...prefixes: string[]) => {
+  prefixes.forEach(invalidateLocal);
+  channel?.postMessage({ type: 'invalidate', prefixes });
+};
+
+channel?.addEventListener('message', (event: MessageEvent) => {
+  const data = event.data as { type?: string; prefixes?: string[] } | null;
+  if (data?.type === 'invalidate' && Array.isArray(data.prefixes)) {
+    data.prefixes.forEach(invalidateLocal);
+  }
+});
+
+/** 백그라운드 재검증 완료/무효화 알림 구독 (인자: 변경된 키) */
+export const subscribeQueries = (listener: QueryListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// 캐시 키 prefix
+export const QUERY_KEYS = {
+  products: 'products:',
+  categories: 'categories',
+  deliveryConfig: 'deliveryConfig',
+  serverTime: 'serverTime',
+  adminProducts: 'admin:products',
+} as const;
@@ -0,0 +1,216 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { ApiError } from './apiError';
+import {
+  apiCircuit,
+  backoffDelay,
+  CircuitOpenError,
+  DEFAULT_RETRY_POLICY,
+  fetchWithRetry,
+  isCircuitFailureStatus,
+  parseRetryAfter,
+  type RetryPolicy,
+} from './retryPolicy';
+
+// 대기 없이 재시도, 실패 2회면 1초간 차단
+const policy: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 0,
+  maxDelayMs: 0,
+  maxRetryAfterMs: 1000,
+  failureThreshold: 2,
+  coolDownMs: 1000,
+};
+const strict: RetryPolicy = { ...policy, failureThreshold: 1 };
+
+// 회로 상태는 모듈 전역이므로 테스트마다 다른 키 사용
+let seq = 0;
+const nextKey = () => `test:${++seq}`;
+
+const response = (status: number, headers: Record<string, string> = {}) =>
+  ({ status, ok: status < 400, headers: { get: (name: string) => headers[name] ?? null } }) as unknown as Response;
+
+const apiError = (code: ApiError['code'], status: number) => new ApiError({ code, status, message: code });
+
+describe('isCircuitFailureStatus', () => {
+  it('5xx와 429만 실패', () => {
+    expect([500, 503, 429].map(isCircuitFailureStatus)).toEqual([true, true, true]);
+    expect([200, 400, 401, 404, 409].map(isCircuitFailureStatus)).toEqual([false, false, false, false, false]);
+  });
+});
+
+describe('apiCircuit', () => {
+  it('연속 실패가 임계치에 도달하면 차단, 쿨다운 동안 요청 불가', () => {
+    const key = nextKey();
+    apiCircuit.recordResponse(key, { status: 503 }, policy, 0);
+    expect(apiCircuit.canRequest(key, 0)).toBe(true);
+    apiCircuit.recordResponse(key, { status: 429 }, policy, 0);
+    expect(apiCircuit.canRequest(key, 999)).toBe(false);
+  });
+
+  it('4xx 응답은 성공으로 기록되어 연속 실패를 초기화', () => {
+    const key = nextKey();
+    apiCircuit.recordResponse(key, { status: 503 }, policy, 0);
+    apiCircuit.recordResponse(key, { status: 404 }, policy, 0);
+    apiCircuit.recordResponse(key, { status: 503 }, policy, 0);
+    expect(apiCircuit.canRequest(key, 0)).toBe(true);
+  });
+
+  it('쿨다운 후 시험 요청 1건만 통과, 4xx로 끝나면 복구', () => {
+    const key = nextKey();
+    apiCircuit.recordResponse(key, { status: 500 }, strict, 0);
+    expect(apiCircuit.canRequest(key, 1000)).toBe(true);
+    expect(apiCircuit.canRequest(key, 1000)).toBe(false);
+    apiCircuit.recordResponse(key, { status: 400 }, strict, 1000);
+    expect(apiCircuit.canRequest(key, 1000)).toBe(true);
+    expect(apiCircuit.canRequest(key, 1000)).toBe(true);
+  });
+
+  it('시험 요청이 실패하면 임계치와 관계없이 다시 차단', () => {
+    const key = nextKey();
+    apiCircuit.recordResponse(key, { status: 500 }, policy, 0);
+    apiCircuit.recordResponse(key, { status: 500 }, policy, 0);
+    expect(apiCircuit.canRequest(key, 1000)).toBe(true);
+    apiCircuit.recordResponse(key, { status: 502 }, policy, 1000);
+    expect(apiCircuit.canRequest(key, 1999)).toBe(false);
+    expect(apiCircuit.canRequest(key, 2000)).toBe(true);
+  });
+
+  it('에러는 네트워크 오류만 실패로 기록', () => {
+    const ignored = [
+      apiError('SERVER', 500),
+      apiError('BUSINESS', 400),
+      Object.assign(new Error('aborted'), { name: 'AbortError' }),
+      new SyntaxError('Unexpected token'),
+    ];
+    ignored.forEach(error => {
+      const key = nextKey();
+      apiCircuit.recordError(key, error, strict, 0);
+      expect(apiCircuit.canRequest(key, 0)).toBe(true);
+    });
+
+    [new TypeError('Failed to fetch'), apiError('NETWORK', 0)].forEach(error => {
+      const key = nextKey();
+      apiCircuit.recordError(key, error, strict, 0);
+      expect(apiCircuit.canRequest(key, 0)).toBe(false);
+    });
+  });
+
+  it('차단 중 assertClosed는 CircuitOpenError', () => {
+    const key = nextKey();
+    apiCircuit.recordResponse(key, { status: 500 }, strict);
+    expect(() => apiCircuit.assertClosed(key)).toThrow(CircuitOpenError);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('초 단위 숫자 / HTTP-date / 해석 불가', () => {
+    const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('-1')).toBe(0);
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:27:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('backoffDelay', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('시도마다 두 배로 늘어나는 상한 안에서 무작위 (full jitter)', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    expect([0, 1, 2].map(attempt => backoffDelay(attempt))).toEqual([300, 600, 1200]);
+    expect(backoffDelay(10)).toBe(DEFAULT_RETRY_POLICY.maxDelayMs);
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    expect(backoffDelay(3)).toBe(0);
+  });
+});
+
+describe('fetchWithRetry', () => {
+  // 호출마다 다음 응답을 돌려주거나 에러를 던지는 doFetch
+  const sequence = (...results: Array<Response | Error>) =>
+    jest.fn(async () => {
+      const next = results.shift();
+      if (next instanceof Error) throw next;
+      return next as Response;
+    });
+
+  it('GET 5xx는 재시도, 성공하면 회로 초기화', async () => {
+    const key = nextKey();
+    const doFetch = sequence(response(503), response(200));
+    const res = await fetchWithRetry(key, 'GET', doFetch, strict);
+    expect(res.status).toBe(200);
+    expect(doFetch).toHaveBeenCalledTimes(2);
+    expect(apiCircuit.canRequest(key)).toBe(true);
+  });
+
+  it('멱등하지 않은 메서드의 5xx는 재시도하지 않고 실패로 기록', async () => {
+    const key = nextKey();
+    const doFetch = sequence(response(503), response(200));
+    const res = await fetchWithRetry(key, 'POST', doFetch, strict);
+    expect(res.status).toBe(503);
+    expect(doFetch).toHaveBeenCalledTimes(1);
+    expect(apiCircuit.canRequest(key)).toBe(false);
+  });
+
+  it('재시도 예산을 다 쓰면 마지막 응답 반환', async () => {
+    const doFetch = sequence(response(500), response(502), response(503), response(200));
+    const res = await fetchWithRetry(nextKey(), 'GET', doFetch, policy);
+    expect(res.status).toBe(503);
+    expect(doFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('429는 Retry-After가 상한 이내일 때만 재시도', async () => {
+    const retried = sequence(response(429, { 'Retry-After': '0' }), response(200));
+    expect((await fetchWithRetry(nextKey(), 'POST', retried, policy)).status).toBe(200);
+    expect(retried).toHaveBeenCalledTimes(2);
+
+    const key = nextKey();
+    const tooLong = sequence(response(429, { 'Retry-After': '60' }), response(200));
+    expect((await fetchWithRetry(key, 'GET', tooLong, strict)).status).toBe(429);
+    expect(tooLong).toHaveBeenCalledTimes(1);
+    expect(apiCircuit.canRequest(key)).toBe(false);
+  });
+
+  it('4xx는 재시도하지 않고 성공으로 기록', async () => {
+    const key = nextKey();
+    apiCircuit.recordResponse(key, { status: 500 }, policy);
+    const doFetch = sequence(response(404));
+    expect((await fetchWithRetry(key, 'GET', doFetch, policy)).status).toBe(404);
+    apiCircuit.recordResponse(key, { status: 500 }, policy);
+    expect(apiCircuit.canRequest(key)).toBe(true);
+  });
+
+  it('네트워크 오류는 모든 메서드 재시도, 예산을 다 쓰면 실패로 기록하고 전파', async () => {
+    const recovered = sequence(new TypeError('Failed to fetch'), response(201));
+    expect((await fetchWithRetry(nextKey(), 'POST', recovered, policy)).status).toBe(201);
+
+    const key = nextKey();
+    const error = new TypeError('Failed to fetch');
+    const doFetch = sequence(error, error, error);
+    await expect(fetchWithRetry(key, 'GET', doFetch, strict)).rejects.toBe(error);
+    expect(doFetch).toHaveBeenCalledTimes(3);
+    expect(apiCircuit.canRequest(key)).toBe(false);
+  });
+
+  it('취소와 네트워크 외 에러는 재시도하지 않고 실패로 기록하지 않음', async () => {
+    const errors = [Object.assign(new Error('aborted'), { name: 'AbortError' }), apiError('BUSINESS', 400)];
+    for (const error of errors) {
+      const key = nextKey();
+      const doFetch = sequence(error, response(200));
+      await expect(fetchWithRetry(key, 'GET', doFetch, strict)).rejects.toBe(error);
+      expect(doFetch).toHaveBeenCalledTimes(1);
+      expect(apiCircuit.canRequest(key)).toBe(true);
+    }
+  });
+
+  it('차단 중에는 요청하지 않고 CircuitOpenError', async () => {
+    const key = nextKey();
+    apiCircuit.recordResponse(key, { status: 500 }, strict);
+    const doFetch = sequence(response(200));
+    await expect(fetchWithRetry(key, 'GET', doFetch, strict)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(doFetch).not.toHaveBeenCalled();
+  });
+});
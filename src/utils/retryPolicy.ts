@@ -0,0 +1,182 @@
+import { ApiError, isAbortError } from './apiError';
+
+/**
+ * API 재시도 정책
+ * - 요청 1건당 재시도 예산(maxRetries) + 지수 백오프(full jitter)
+ * - 429는 Retry-After 헤더만큼 대기 후 재시도
+ * - 연속 실패가 쌓인 키는 회로 차단(circuit open) → 쿨다운 후 1건만 시험 요청(half-open) → 성공 시 복구
+ * - 회로 차단 실패는 네트워크 오류, 5xx, 429만. 그 외 완료된 응답(4xx 포함)은 서버가 정상 처리한 것이므로 성공
+ */
+
+export type RetryPolicy = {
+  maxRetries: number;        // 요청 1건당 최대 재시도 횟수
+  baseDelayMs: number;       // 첫 재시도 기준 대기 시간
+  maxDelayMs: number;        // 백오프 상한
+  maxRetryAfterMs: number;   // Retry-After 대기 상한 (이보다 길면 재시도하지 않음)
+  failureThreshold: number;  // 회로 차단까지의 연속 실패 수
+  coolDownMs: number;        // 회로 차단 유지 시간
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 5000,
+  maxRetryAfterMs: 10000,
+  failureThreshold: 5,
+  coolDownMs: 15000,
+};
+
+// 멱등 키 없는 생성 요청(예약 등): 중복 생성 방지를 위해 재시도하지 않음
+export const NO_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  maxRetries: 0,
+};
+
+export const CIRCUIT_OPEN_MESSAGE = '일시적인 서버 오류입니다. 잠시 후 다시 시도해주세요.';
+
+export class CircuitOpenError extends Error {
+  readonly key: string;
+  readonly retryAt: number;
+
+  constructor(key: string, retryAt: number) {
+    super(CIRCUIT_OPEN_MESSAGE);
+    this.name = 'CircuitOpenError';
+    this.key = key;
+    this.retryAt = retryAt;
+  }
+}
+
+/** 회로 차단기에 실패로 기록할 응답 상태 */
+export const isCircuitFailureStatus = (status: number) => status >= 500 || status === 429;
+
+type CircuitState = {
+  failures: number;
+  openUntil: number;  // 0이면 닫힘
+  coolDownMs: number;
+};
+
+const circuits = new Map<string, CircuitState>();
+
+const getCircuit = (key: string): CircuitState => {
+  let state = circuits.get(key);
+  if (!state) {
+    state = { failures: 0, openUntil: 0, coolDownMs: 0 };
+    circuits.set(key, state);
+  }
+  return state;
+};
+
+// === 회로 차단기 (키: API 함수명 또는 SCOPE:METHOD:URL) ===
+export const apiCircuit = {
+  /** 요청 가능 여부. 쿨다운이 끝난 열린 회로는 시험 요청 1건만 통과 */
+  canRequest(key: string, now = Date.now()): boolean {
+    const state = circuits.get(key);
+    if (!state || state.openUntil === 0) return true;
+    if (now < state.openUntil) return false;
+    // half-open: 시험 요청 1건만 통과시키고 결과가 기록될 때까지 다시 차단
+    state.openUntil = now + state.coolDownMs;
+    return true;
+  },
+
+  /** 차단 중이면 CircuitOpenError */
+  assertClosed(key: string) {
+    if (!apiCircuit.canRequest(key)) {
+      throw new CircuitOpenError(key, circuits.get(key)?.openUntil ?? 0);
+    }
+  },
+
+  recordSuccess(key: string) {
+    circuits.delete(key);
+  },
+
+  recordFailure(key: string, policy: RetryPolicy = DEFAULT_RETRY_POLICY, now = Date.now()) {
+    const state = getCircuit(key);
+    state.failures += 1;
+    // 시험 요청 실패 또는 임계치 도달 → (다시) 차단
+    if (state.openUntil !== 0 || state.failures >= policy.failureThreshold) {
+      state.openUntil = now + policy.coolDownMs;
+      state.coolDownMs = policy.coolDownMs;
+    }
+  },
+
+  /** 완료된 응답 기록: 5xx/429는 실패, 그 외(4xx 포함)는 성공 */
+  recordResponse(key: string, response: { status: number }, policy: RetryPolicy = DEFAULT_RETRY_POLICY, now = Date.now()) {
+    if (isCircuitFailureStatus(response.status)) apiCircuit.recordFailure(key, policy, now);
+    else apiCircuit.recordSuccess(key);
+  },
+
+  /**
+   * 응답을 받지 못한 요청의 에러 기록: 네트워크 오류만 실패로 셈
+   * 받은 응답은 recordResponse로 이미 기록했으므로 그 응답으로 만든 에러, 취소, 응답 검증 오류는 무시
+   */
+  recordError(key: string, error: unknown, policy: RetryPolicy = DEFAULT_RETRY_POLICY, now = Date.now()) {
+    const network = error instanceof TypeError || (error instanceof ApiError && error.code === 'NETWORK');
+    if (network) apiCircuit.recordFailure(key, policy, now);
+  },
+};
+
+// === 대기 시간 계산 ===
+export const backoffDelay = (attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt));
+  return Math.round(Math.random() * ceiling);
+};
+
+/** Retry-After: 초 단위 숫자 또는 HTTP-date. 해석 불가 시 null */
+export const parseRetryAfter = (header: string | null, now = Date.now()): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const at = Date.parse(header);
+  return Number.isNaN(at) ? null : Math.max(0, at - now);
+};
+
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+const isIdempotent = (method: string) => ['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase());
+
+/**
+ * 정책에 따라 요청을 재시도
+ * - 네트워크 오류(TypeError): 모든 메서드 재시도
+ * - 5xx: 멱등 메서드(GET/HEAD/OPTIONS)만 재시도
+ * - 429: Retry-After(없으면 백오프)만큼 대기 후 재시도
+ * 최종 응답/에러는 그대로 반환·전파하고, 결과를 회로 차단기에 기록
+ */
+export const fetchWithRetry = async (
+  key: string,
+  method: string,
+  doFetch: () => Promise<Response>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): Promise<Response> => {
+  apiCircuit.assertClosed(key);
+
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < policy.maxRetries;
+    let response: Response;
+    try {
+      response = await doFetch();
+    } catch (err) {
+      if (isAbortError(err)) throw err; // 취소는 실패로 기록하지 않음
+      if (!(err instanceof TypeError) || !canRetry) {
+        apiCircuit.recordError(key, err, policy);
+        throw err;
+      }
+      await delay(backoffDelay(attempt, policy));
+      continue;
+    }
+
+    if (response.status === 429 && canRetry) {
+      const wait = parseRetryAfter(response.headers.get('Retry-After')) ?? backoffDelay(attempt, policy);
+      if (wait <= policy.maxRetryAfterMs) {
+        await delay(wait);
+        continue;
+      }
+    }
+
+    if (response.status >= 500 && isIdempotent(method) && canRetry) {
+      await delay(backoffDelay(attempt, policy));
+      continue;
+    }
+
+    apiCircuit.recordResponse(key, response, policy);
+    return response;
+  }
+};